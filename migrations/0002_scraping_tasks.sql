@@ -0,0 +1,19 @@
+-- Migration number: 0002 	 2026-10-19T09:12:05.418Z
+
+-- Scraping history, previously kept in the in-memory cache
+CREATE TABLE IF NOT EXISTS scraping_tasks (
+  id TEXT PRIMARY KEY,
+  user_id TEXT,
+  url TEXT NOT NULL,
+  instructions TEXT,
+  wait_for TEXT,
+  -- ISO 8601 time of the scrape
+  timestamp TEXT NOT NULL,
+  -- Scrape results as JSON
+  results TEXT NOT NULL,
+  created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+-- History is listed newest first, for everyone or for one user
+CREATE INDEX IF NOT EXISTS idx_scraping_tasks_timestamp ON scraping_tasks(timestamp DESC);
+CREATE INDEX IF NOT EXISTS idx_scraping_tasks_user_timestamp ON scraping_tasks(user_id, timestamp DESC);
@@ -0,0 +1,52 @@
+-- Migration number: 0003 	 2026-10-19T10:37:52.204Z
+
+-- Searchable and filterable fields, taken from the stored results when a task is saved
+ALTER TABLE scraping_tasks ADD COLUMN domain TEXT;
+ALTER TABLE scraping_tasks ADD COLUMN title TEXT;
+ALTER TABLE scraping_tasks ADD COLUMN body_text TEXT;
+ALTER TABLE scraping_tasks ADD COLUMN processed TEXT;
+ALTER TABLE scraping_tasks ADD COLUMN status TEXT NOT NULL DEFAULT 'completed';
+-- Tags as a JSON array for reading; scraping_task_tags is used for filtering
+ALTER TABLE scraping_tasks ADD COLUMN tags TEXT NOT NULL DEFAULT '[]';
+
+CREATE TABLE IF NOT EXISTS scraping_task_tags (
+  task_id TEXT NOT NULL REFERENCES scraping_tasks(id) ON DELETE CASCADE,
+  tag TEXT NOT NULL,
+  PRIMARY KEY (task_id, tag)
+);
+
+CREATE INDEX IF NOT EXISTS idx_scraping_task_tags_tag ON scraping_task_tags(tag);
+CREATE INDEX IF NOT EXISTS idx_scraping_tasks_domain_timestamp ON scraping_tasks(domain, timestamp DESC);
+CREATE INDEX IF NOT EXISTS idx_scraping_tasks_status_timestamp ON scraping_tasks(status, timestamp DESC);
+
+-- Full-text index over the task table, kept in sync by the triggers below
+CREATE VIRTUAL TABLE IF NOT EXISTS scraping_tasks_fts USING fts5(
+  url,
+  title,
+  instructions,
+  body_text,
+  processed,
+  content = 'scraping_tasks',
+  content_rowid = 'rowid',
+  tokenize = 'porter unicode61'
+);
+
+CREATE TRIGGER IF NOT EXISTS scraping_tasks_fts_insert AFTER INSERT ON scraping_tasks BEGIN
+  INSERT INTO scraping_tasks_fts (rowid, url, title, instructions, body_text, processed)
+  VALUES (new.rowid, new.url, new.title, new.instructions, new.body_text, new.processed);
+END;
+
+CREATE TRIGGER IF NOT EXISTS scraping_tasks_fts_delete AFTER DELETE ON scraping_tasks BEGIN
+  INSERT INTO scraping_tasks_fts (scraping_tasks_fts, rowid, url, title, instructions, body_text, processed)
+  VALUES ('delete', old.rowid, old.url, old.title, old.instructions, old.body_text, old.processed);
+END;
+
+CREATE TRIGGER IF NOT EXISTS scraping_tasks_fts_update AFTER UPDATE ON scraping_tasks BEGIN
+  INSERT INTO scraping_tasks_fts (scraping_tasks_fts, rowid, url, title, instructions, body_text, processed)
+  VALUES ('delete', old.rowid, old.url, old.title, old.instructions, old.body_text, old.processed);
+  INSERT INTO scraping_tasks_fts (rowid, url, title, instructions, body_text, processed)
+  VALUES (new.rowid, new.url, new.title, new.instructions, new.body_text, new.processed);
+END;
+
+-- Index tasks saved before this migration by URL and instructions
+INSERT INTO scraping_tasks_fts (scraping_tasks_fts) VALUES ('rebuild');
@@ -0,0 +1,21 @@
+-- Migration number: 0004 	 2026-10-19T12:05:31.866Z
+
+-- Versions of a page's scrape results, one timeline per owner, normalized URL and recipe
+CREATE TABLE IF NOT EXISTS snapshots (
+  id TEXT PRIMARY KEY,
+  series_key TEXT NOT NULL,
+  url TEXT NOT NULL,
+  recipe_id TEXT,
+  owner TEXT,
+  version INTEGER NOT NULL,
+  -- SHA-256 of the body and records; identical results are not stored twice in a row
+  content_hash TEXT NOT NULL,
+  task_id TEXT,
+  body TEXT NOT NULL,
+  -- Extracted records as JSON
+  records TEXT,
+  created_at TEXT NOT NULL,
+  UNIQUE (series_key, version)
+);
+
+CREATE INDEX IF NOT EXISTS idx_snapshots_url_created_at ON snapshots(url, created_at DESC);
@@ -0,0 +1,37 @@
+-- Migration number: 0005 	 2026-10-19T14:22:08.417Z
+
+-- Monitoring jobs that scrape a page or run a recipe on a cron schedule
+CREATE TABLE IF NOT EXISTS scheduled_jobs (
+  id TEXT PRIMARY KEY,
+  workspace_id TEXT NOT NULL,
+  name TEXT NOT NULL,
+  url TEXT,
+  recipe_id TEXT,
+  instructions TEXT,
+  engine TEXT NOT NULL DEFAULT 'auto',
+  wait_for TEXT,
+  provider TEXT,
+  model TEXT,
+  -- Five-field cron expression in UTC
+  schedule TEXT NOT NULL,
+  jitter_seconds INTEGER NOT NULL DEFAULT 0,
+  -- skip, once or all
+  catch_up TEXT NOT NULL DEFAULT 'once',
+  -- active or paused
+  status TEXT NOT NULL DEFAULT 'active',
+  -- Scheduled time of the next run, and that time plus jitter; NULL while paused
+  scheduled_for TEXT,
+  next_run_at TEXT,
+  last_run_at TEXT,
+  last_run_status TEXT,
+  last_error TEXT,
+  last_task_id TEXT,
+  -- Set while a run is in progress
+  locked_until TEXT,
+  created_by TEXT,
+  created_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_scheduled_jobs_status_next_run_at ON scheduled_jobs(status, next_run_at);
+CREATE INDEX IF NOT EXISTS idx_scheduled_jobs_workspace_id ON scheduled_jobs(workspace_id, created_at);
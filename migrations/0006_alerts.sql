@@ -0,0 +1,54 @@
+-- Migration number: 0006 	 2026-10-19T16:05:41.229Z
+
+-- Rules that fire alerts when a monitored page changes
+CREATE TABLE IF NOT EXISTS alert_rules (
+  id TEXT PRIMARY KEY,
+  workspace_id TEXT NOT NULL,
+  name TEXT NOT NULL,
+  -- Scope of the rule; NULL matches every job, recipe or page
+  job_id TEXT,
+  recipe_id TEXT,
+  url TEXT,
+  -- Condition as JSON, e.g. {"type":"field_change","field":"price","direction":"decrease","thresholdPercent":10}
+  condition TEXT NOT NULL,
+  webhook_url TEXT,
+  webhook_secret TEXT NOT NULL,
+  cooldown_minutes INTEGER NOT NULL DEFAULT 60,
+  enabled INTEGER NOT NULL DEFAULT 1,
+  last_triggered_at TEXT,
+  created_by TEXT,
+  created_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_alert_rules_workspace_id ON alert_rules(workspace_id, created_at);
+
+-- Fired alerts; they make up the notifications feed and the webhook delivery queue
+CREATE TABLE IF NOT EXISTS alerts (
+  id TEXT PRIMARY KEY,
+  workspace_id TEXT NOT NULL,
+  rule_id TEXT NOT NULL,
+  rule_name TEXT NOT NULL,
+  condition TEXT NOT NULL,
+  job_id TEXT,
+  recipe_id TEXT,
+  url TEXT NOT NULL,
+  task_id TEXT,
+  message TEXT NOT NULL,
+  -- What fired the rule and the diff behind it, as JSON
+  matches TEXT NOT NULL,
+  diff TEXT NOT NULL,
+  created_at TEXT NOT NULL,
+  read_at TEXT,
+  -- pending, delivered or dead; NULL when the rule has no webhook
+  delivery_status TEXT,
+  delivery_attempts INTEGER NOT NULL DEFAULT 0,
+  next_attempt_at TEXT,
+  last_attempt_at TEXT,
+  last_status_code INTEGER,
+  last_error TEXT,
+  delivered_at TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_alerts_workspace_created_at ON alerts(workspace_id, created_at DESC, id DESC);
+CREATE INDEX IF NOT EXISTS idx_alerts_delivery ON alerts(delivery_status, next_attempt_at);
@@ -0,0 +1,60 @@
+-- Migration number: 0007 	 2026-10-19T20:04:12.530Z
+
+-- Extraction recipes, previously kept in memory so scheduled recipe jobs lost them on restart
+CREATE TABLE IF NOT EXISTS recipes (
+  id TEXT PRIMARY KEY,
+  workspace_id TEXT NOT NULL,
+  name TEXT NOT NULL,
+  url TEXT NOT NULL,
+  instructions TEXT NOT NULL,
+  -- Field name to CSS selector as JSON
+  selectors TEXT NOT NULL,
+  -- static or browser
+  engine TEXT NOT NULL,
+  wait_for TEXT,
+  -- Goes up when the selectors change
+  version INTEGER NOT NULL DEFAULT 1,
+  created_by TEXT,
+  created_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL,
+  last_run_at TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_recipes_workspace_updated_at ON recipes(workspace_id, updated_at DESC);
+
+-- Recent runs of each recipe, the baselines for drift detection and the examples for repairs
+CREATE TABLE IF NOT EXISTS recipe_runs (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  recipe_id TEXT NOT NULL,
+  recipe_version INTEGER NOT NULL,
+  url TEXT NOT NULL,
+  run_at TEXT NOT NULL,
+  -- Per-field stats and example values as JSON
+  stats TEXT NOT NULL,
+  examples TEXT NOT NULL,
+  drifted INTEGER NOT NULL DEFAULT 0
+);
+
+-- Runs are listed and trimmed most recent first, in insertion order
+CREATE INDEX IF NOT EXISTS idx_recipe_runs_recipe_id ON recipe_runs(recipe_id, id DESC);
+
+-- Selector repairs waiting for review
+CREATE TABLE IF NOT EXISTS repair_proposals (
+  id TEXT PRIMARY KEY,
+  recipe_id TEXT NOT NULL,
+  workspace_id TEXT NOT NULL,
+  recipe_version INTEGER NOT NULL,
+  url TEXT NOT NULL,
+  -- Drift report, how each field was repaired, and the before and after previews as JSON
+  drift TEXT NOT NULL,
+  sources TEXT NOT NULL,
+  before_preview TEXT NOT NULL,
+  after_preview TEXT NOT NULL,
+  -- pending, approved or rejected
+  status TEXT NOT NULL DEFAULT 'pending',
+  created_at TEXT NOT NULL,
+  reviewed_at TEXT,
+  reviewed_by TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_repair_proposals_workspace_created_at ON repair_proposals(workspace_id, created_at DESC);
@@ -28,7 +28,9 @@ const nextConfig = {
     return config
   },
   experimental: {
-    serverComponentsExternalPackages: ['undici', 'cheerio']
+    serverComponentsExternalPackages: ['undici', 'cheerio'],
+    // Starts the in-process job scheduler (src/instrumentation.ts)
+    instrumentationHook: true
   }
 }
 
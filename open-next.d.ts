@@ -0,0 +1,11 @@
+// open-next.d.ts
+// Types of the OpenNext build output that worker.ts imports; the module itself is generated at build time
+
+declare module '*/.open-next/worker.js' {
+  import type { ExecutionContext } from '@cloudflare/workers-types';
+  
+  const handler: {
+    fetch(request: Request, env: CloudflareEnv, ctx: ExecutionContext): Promise<Response>;
+  };
+  export default handler;
+}
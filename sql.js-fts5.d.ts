@@ -0,0 +1,8 @@
+// sql.js-fts5.d.ts
+// sql.js-fts5 is sql.js built with FTS5, which the history search needs; it ships without types of its own
+
+declare module 'sql.js-fts5' {
+  import initSqlJs from 'sql.js';
+  
+  export = initSqlJs;
+}
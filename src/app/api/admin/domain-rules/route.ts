@@ -0,0 +1,159 @@
+import { type NextRequest } from 'next/server';
+import { rateLimit } from '@/lib/middleware/rateLimit';
+import { requireAdmin } from '@/lib/auth/auth';
+import { getUserWorkspaces, normalizeWorkspaceId } from '@/lib/auth/workspace';
+import { logAction } from '@/lib/security/audit';
+import {
+  addDomainRule,
+  domainRuleInputSchema,
+  getDomainRules,
+  getGlobalDomainRules,
+  removeDomainRule,
+} from '@/lib/security/domainRules';
+
+/**
+ * Get the workspace an admin request targets
+ * @param request Next.js request
+ * @param user Admin making the request
+ * @param workspaceId Workspace ID from the body, if any
+ * @returns Workspace ID, the admin's own workspace when none is named
+ */
+function resolveWorkspace(request: NextRequest, user: { workspaceIds?: string[] } | null, workspaceId?: string): string {
+  const requested = workspaceId || new URL(request.url).searchParams.get('workspace') || request.headers.get('x-workspace-id');
+  return requested ? normalizeWorkspaceId(requested) : getUserWorkspaces(user)[0];
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    // Apply rate limiting
+    const rateLimitResponse = rateLimit(request, 20, 60 * 1000);
+    if (rateLimitResponse) {
+      return rateLimitResponse;
+    }
+    
+    const { user, response } = await requireAdmin(request);
+    if (response) {
+      return response;
+    }
+    
+    const workspaceId = resolveWorkspace(request, user);
+    
+    return new Response(JSON.stringify({
+      success: true,
+      workspaceId,
+      globalRules: getGlobalDomainRules(),
+      rules: getDomainRules(workspaceId)
+    }), {
+      headers: { 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('Domain rules error:', error);
+    return new Response(JSON.stringify({
+      success: false,
+      message: 'Failed to fetch domain rules',
+      error: (error as Error).message
+    }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    // Apply rate limiting
+    const rateLimitResponse = rateLimit(request, 10, 60 * 1000);
+    if (rateLimitResponse) {
+      return rateLimitResponse;
+    }
+    
+    const { user, response } = await requireAdmin(request);
+    if (response) {
+      return response;
+    }
+    
+    const body = await request.json();
+    const parsed = domainRuleInputSchema.safeParse(body);
+    
+    if (!parsed.success) {
+      return new Response(JSON.stringify({
+        success: false,
+        message: 'Invalid domain rule',
+        errors: parsed.error.issues
+      }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+    
+    const workspaceId = resolveWorkspace(request, user, body.workspaceId);
+    const rule = addDomainRule(workspaceId, parsed.data, user?.email);
+    await logAction(request, 'domainRules.add', rule);
+    
+    return new Response(JSON.stringify({
+      success: true,
+      message: 'Rule saved',
+      rule
+    }), {
+      headers: { 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('Domain rules error:', error);
+    return new Response(JSON.stringify({
+      success: false,
+      message: 'Failed to save domain rule',
+      error: (error as Error).message
+    }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  try {
+    // Apply rate limiting
+    const rateLimitResponse = rateLimit(request, 10, 60 * 1000);
+    if (rateLimitResponse) {
+      return rateLimitResponse;
+    }
+    
+    const { user, response } = await requireAdmin(request);
+    if (response) {
+      return response;
+    }
+    
+    const id = new URL(request.url).searchParams.get('id');
+    
+    if (!id) {
+      return new Response(JSON.stringify({
+        success: false,
+        message: 'Rule ID is required'
+      }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+    
+    const workspaceId = resolveWorkspace(request, user);
+    const removed = removeDomainRule(workspaceId, id);
+    await logAction(request, 'domainRules.remove', { workspaceId, id, removed });
+    
+    return new Response(JSON.stringify({
+      success: true,
+      message: removed ? 'Rule removed' : 'No rule found'
+    }), {
+      headers: { 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('Domain rules error:', error);
+    return new Response(JSON.stringify({
+      success: false,
+      message: 'Failed to remove domain rule',
+      error: (error as Error).message
+    }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+}
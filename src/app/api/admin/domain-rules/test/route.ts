@@ -0,0 +1,52 @@
+import { type NextRequest } from 'next/server';
+import { rateLimit } from '@/lib/middleware/rateLimit';
+import { requireAdmin } from '@/lib/auth/auth';
+import { getUserWorkspaces, normalizeWorkspaceId } from '@/lib/auth/workspace';
+import { evaluateUrl } from '@/lib/security/domainRules';
+
+export async function POST(request: NextRequest) {
+  try {
+    // Apply rate limiting
+    const rateLimitResponse = rateLimit(request, 30, 60 * 1000);
+    if (rateLimitResponse) {
+      return rateLimitResponse;
+    }
+    
+    const { user, response } = await requireAdmin(request);
+    if (response) {
+      return response;
+    }
+    
+    const { url, workspaceId } = await request.json();
+    
+    if (!url || typeof url !== 'string') {
+      return new Response(JSON.stringify({
+        success: false,
+        message: 'URL is required'
+      }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+    
+    // Explain which rule decides the URL without scraping it
+    const evaluation = evaluateUrl(url, workspaceId ? normalizeWorkspaceId(workspaceId) : getUserWorkspaces(user)[0]);
+    
+    return new Response(JSON.stringify({
+      success: true,
+      evaluation
+    }), {
+      headers: { 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('Domain rule test error:', error);
+    return new Response(JSON.stringify({
+      success: false,
+      message: 'Failed to test URL',
+      error: (error as Error).message
+    }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+}
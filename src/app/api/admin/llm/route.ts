@@ -0,0 +1,113 @@
+import { type NextRequest } from 'next/server';
+import { rateLimit } from '@/lib/middleware/rateLimit';
+import { requireAdmin } from '@/lib/auth/auth';
+import { getUserWorkspaces, normalizeWorkspaceId } from '@/lib/auth/workspace';
+import { logAction } from '@/lib/security/audit';
+import { getUsageTotals } from '@/lib/llm/completion';
+import { getCircuitStatuses } from '@/lib/llm/circuitBreaker';
+import { getLimiterStatuses } from '@/lib/llm/limiter';
+import { getProviderNames, getWorkspaceLLMSettings, setWorkspaceLLMSettings } from '@/lib/llm/registry';
+
+/**
+ * Get the workspace an admin request targets
+ * @param request Next.js request
+ * @param user Admin making the request
+ * @param workspaceId Workspace ID from the body, if any
+ * @returns Workspace ID, the admin's own workspace when none is named
+ */
+function resolveWorkspace(request: NextRequest, user: { workspaceIds?: string[] } | null, workspaceId?: string): string {
+  const requested = workspaceId || new URL(request.url).searchParams.get('workspace') || request.headers.get('x-workspace-id');
+  return requested ? normalizeWorkspaceId(requested) : getUserWorkspaces(user)[0];
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    // Apply rate limiting
+    const rateLimitResponse = rateLimit(request, 20, 60 * 1000);
+    if (rateLimitResponse) {
+      return rateLimitResponse;
+    }
+    
+    const { user, response } = await requireAdmin(request);
+    if (response) {
+      return response;
+    }
+    
+    const workspaceId = resolveWorkspace(request, user);
+    
+    return new Response(JSON.stringify({
+      success: true,
+      workspaceId,
+      providers: getProviderNames(),
+      defaultProvider: process.env.LLM_PROVIDER || 'groq',
+      settings: getWorkspaceLLMSettings(workspaceId),
+      usage: getUsageTotals(),
+      circuits: getCircuitStatuses(),
+      limiters: getLimiterStatuses()
+    }), {
+      headers: { 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('LLM settings error:', error);
+    return new Response(JSON.stringify({
+      success: false,
+      message: 'Failed to fetch LLM settings',
+      error: (error as Error).message
+    }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    // Apply rate limiting
+    const rateLimitResponse = rateLimit(request, 10, 60 * 1000);
+    if (rateLimitResponse) {
+      return rateLimitResponse;
+    }
+    
+    const { user, response } = await requireAdmin(request);
+    if (response) {
+      return response;
+    }
+    
+    const body = await request.json();
+    const { provider, model } = body;
+    
+    if ((provider !== undefined && !getProviderNames().includes(provider)) || (model !== undefined && typeof model !== 'string')) {
+      return new Response(JSON.stringify({
+        success: false,
+        message: 'Invalid LLM settings',
+        providers: getProviderNames()
+      }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+    
+    const workspaceId = resolveWorkspace(request, user, body.workspaceId);
+    const settings = setWorkspaceLLMSettings(workspaceId, { provider, model });
+    await logAction(request, 'llm.settings.set', { workspaceId, ...settings });
+    
+    return new Response(JSON.stringify({
+      success: true,
+      message: 'Settings saved',
+      workspaceId,
+      settings
+    }), {
+      headers: { 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('LLM settings error:', error);
+    return new Response(JSON.stringify({
+      success: false,
+      message: 'Failed to save LLM settings',
+      error: (error as Error).message
+    }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+}
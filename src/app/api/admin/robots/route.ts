@@ -0,0 +1,134 @@
+import { type NextRequest } from 'next/server';
+import { rateLimit } from '@/lib/middleware/rateLimit';
+import { requireAdmin } from '@/lib/auth/auth';
+import { logAction } from '@/lib/security/audit';
+import { getRobotsOverrides, setRobotsOverride, removeRobotsOverride } from '@/lib/scraping/robots';
+
+export async function GET(request: NextRequest) {
+  try {
+    // Apply rate limiting
+    const rateLimitResponse = rateLimit(request, 20, 60 * 1000);
+    if (rateLimitResponse) {
+      return rateLimitResponse;
+    }
+    
+    const { response } = await requireAdmin(request);
+    if (response) {
+      return response;
+    }
+    
+    return new Response(JSON.stringify({
+      success: true,
+      overrides: getRobotsOverrides()
+    }), {
+      headers: { 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('Robots override error:', error);
+    return new Response(JSON.stringify({
+      success: false,
+      message: 'Failed to fetch robots.txt overrides',
+      error: (error as Error).message
+    }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    // Apply rate limiting
+    const rateLimitResponse = rateLimit(request, 10, 60 * 1000);
+    if (rateLimitResponse) {
+      return rateLimitResponse;
+    }
+    
+    const { user, response } = await requireAdmin(request);
+    if (response) {
+      return response;
+    }
+    
+    const body = await request.json();
+    const { domain, reason } = body;
+    
+    if (!domain || typeof domain !== 'string') {
+      return new Response(JSON.stringify({
+        success: false,
+        message: 'Domain is required'
+      }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+    
+    const override = setRobotsOverride(domain, { reason, createdBy: user?.email });
+    await logAction(request, 'robots.override.set', override);
+    
+    return new Response(JSON.stringify({
+      success: true,
+      message: 'Override saved',
+      override
+    }), {
+      headers: { 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('Robots override error:', error);
+    return new Response(JSON.stringify({
+      success: false,
+      message: 'Failed to save robots.txt override',
+      error: (error as Error).message
+    }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  try {
+    // Apply rate limiting
+    const rateLimitResponse = rateLimit(request, 10, 60 * 1000);
+    if (rateLimitResponse) {
+      return rateLimitResponse;
+    }
+    
+    const { response } = await requireAdmin(request);
+    if (response) {
+      return response;
+    }
+    
+    const url = new URL(request.url);
+    const domain = url.searchParams.get('domain');
+    
+    if (!domain) {
+      return new Response(JSON.stringify({
+        success: false,
+        message: 'Domain is required'
+      }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+    
+    const removed = removeRobotsOverride(domain);
+    await logAction(request, 'robots.override.remove', { domain, removed });
+    
+    return new Response(JSON.stringify({
+      success: true,
+      message: removed ? 'Override removed' : 'No override found'
+    }), {
+      headers: { 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('Robots override error:', error);
+    return new Response(JSON.stringify({
+      success: false,
+      message: 'Failed to remove robots.txt override',
+      error: (error as Error).message
+    }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+}
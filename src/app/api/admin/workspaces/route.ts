@@ -0,0 +1,66 @@
+import { type NextRequest } from 'next/server';
+import { rateLimit } from '@/lib/middleware/rateLimit';
+import { requireAdmin, setUserWorkspaces } from '@/lib/auth/auth';
+import { normalizeWorkspaceId } from '@/lib/auth/workspace';
+import { logAction } from '@/lib/security/audit';
+
+// Set the workspaces a user belongs to; requests may only use these workspaces
+export async function POST(request: NextRequest) {
+  try {
+    // Apply rate limiting
+    const rateLimitResponse = rateLimit(request, 10, 60 * 1000);
+    if (rateLimitResponse) {
+      return rateLimitResponse;
+    }
+    
+    const { response } = await requireAdmin(request);
+    if (response) {
+      return response;
+    }
+    
+    const { email, workspaceIds } = await request.json();
+    
+    if (!email || typeof email !== 'string'
+      || !Array.isArray(workspaceIds) || !workspaceIds.every(id => typeof id === 'string' && normalizeWorkspaceId(id) === id.trim().toLowerCase())) {
+      return new Response(JSON.stringify({
+        success: false,
+        message: 'An email and a list of workspace IDs (letters, digits, _ and -) are required'
+      }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+    
+    const user = setUserWorkspaces(email, workspaceIds.map(normalizeWorkspaceId));
+    
+    if (!user) {
+      return new Response(JSON.stringify({
+        success: false,
+        message: 'User not found'
+      }), {
+        status: 404,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+    
+    await logAction(request, 'workspace.members.set', { email, workspaceIds: user.workspaceIds });
+    
+    return new Response(JSON.stringify({
+      success: true,
+      message: 'Workspaces saved',
+      user
+    }), {
+      headers: { 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('Workspace membership error:', error);
+    return new Response(JSON.stringify({
+      success: false,
+      message: 'Failed to save workspaces',
+      error: (error as Error).message
+    }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+}
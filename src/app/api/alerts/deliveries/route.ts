@@ -0,0 +1,133 @@
+import { type NextRequest } from 'next/server';
+import { rateLimit } from '@/lib/middleware/rateLimit';
+import { redeliverAlert } from '@/lib/alerts/webhooks';
+import { getAlert, getAlertRule, listAlerts } from '@/lib/storage/alertStorage';
+import { InvalidCursorError, parseLimit } from '@/lib/storage/historySearch';
+import { requireWorkspace } from '@/lib/auth/workspace';
+
+// The dead-letter list: alerts whose webhook deliveries ran out of retries
+export async function GET(request: NextRequest) {
+  try {
+    // Apply rate limiting
+    const rateLimitResponse = rateLimit(request, 20, 60 * 1000);
+    if (rateLimitResponse) {
+      return rateLimitResponse;
+    }
+    
+    const { workspaceId, response: workspaceResponse } = await requireWorkspace(request);
+    if (workspaceResponse) {
+      return workspaceResponse;
+    }
+    const url = new URL(request.url);
+    const limitParam = url.searchParams.get('limit');
+    
+    const page = await listAlerts({
+      workspaceId,
+      deliveryStatus: 'dead',
+      ruleId: url.searchParams.get('ruleId') || undefined,
+      limit: parseLimit(limitParam, 20, 100),
+      cursor: url.searchParams.get('cursor') || undefined,
+    });
+    
+    return new Response(JSON.stringify({
+      success: true,
+      alerts: page.alerts,
+      nextCursor: page.nextCursor
+    }), {
+      headers: { 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('Webhook delivery error:', error);
+    
+    if (error instanceof InvalidCursorError) {
+      return new Response(JSON.stringify({
+        success: false,
+        message: error.message
+      }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+    
+    return new Response(JSON.stringify({
+      success: false,
+      message: 'Failed to fetch dead deliveries',
+      error: (error as Error).message
+    }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+}
+
+// Send an alert's webhook again, e.g. once the receiver is fixed
+export async function POST(request: NextRequest) {
+  try {
+    // Apply rate limiting
+    const rateLimitResponse = rateLimit(request, 10, 60 * 1000);
+    if (rateLimitResponse) {
+      return rateLimitResponse;
+    }
+    
+    const body = await request.json();
+    const { id } = body;
+    const { workspaceId, response: workspaceResponse } = await requireWorkspace(request);
+    if (workspaceResponse) {
+      return workspaceResponse;
+    }
+    
+    if (!id) {
+      return new Response(JSON.stringify({
+        success: false,
+        message: 'Alert ID is required'
+      }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+    
+    const alert = await getAlert(id, workspaceId);
+    const rule = alert && await getAlertRule(alert.ruleId, workspaceId);
+    
+    if (!alert || !rule) {
+      return new Response(JSON.stringify({
+        success: false,
+        message: alert ? 'Alert rule was deleted' : 'Alert not found'
+      }), {
+        status: 404,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+    
+    if (!rule.webhookUrl) {
+      return new Response(JSON.stringify({
+        success: false,
+        message: 'Alert rule has no webhook'
+      }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+    
+    // A failed attempt is retried on the usual schedule
+    const updated = await redeliverAlert(alert, rule);
+    
+    return new Response(JSON.stringify({
+      success: true,
+      message: updated.delivery?.status === 'delivered' ? 'Alert delivered' : 'Delivery failed, will retry',
+      delivery: updated.delivery
+    }), {
+      headers: { 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('Webhook delivery error:', error);
+    return new Response(JSON.stringify({
+      success: false,
+      message: 'Failed to redeliver alert',
+      error: (error as Error).message
+    }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+}
@@ -0,0 +1,54 @@
+import { type NextRequest } from 'next/server';
+import { rateLimit } from '@/lib/middleware/rateLimit';
+import { markAlertsRead } from '@/lib/storage/alertStorage';
+import { requireWorkspace } from '@/lib/auth/workspace';
+
+// Alerts marked at once; without IDs every unread alert is marked
+const MAX_IDS = 100;
+
+export async function POST(request: NextRequest) {
+  try {
+    // Apply rate limiting
+    const rateLimitResponse = rateLimit(request, 30, 60 * 1000);
+    if (rateLimitResponse) {
+      return rateLimitResponse;
+    }
+    
+    const body = await request.json().catch(() => ({}));
+    const { ids } = body;
+    const { workspaceId, response: workspaceResponse } = await requireWorkspace(request);
+    if (workspaceResponse) {
+      return workspaceResponse;
+    }
+    
+    if (ids !== undefined && (!Array.isArray(ids) || ids.length > MAX_IDS || !ids.every(id => typeof id === 'string'))) {
+      return new Response(JSON.stringify({
+        success: false,
+        message: `ids must be a list of at most ${MAX_IDS} alert IDs`
+      }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+    
+    const marked = await markAlertsRead(workspaceId, ids);
+    
+    return new Response(JSON.stringify({
+      success: true,
+      message: `Marked ${marked} alert(s) as read`,
+      marked
+    }), {
+      headers: { 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('Alert feed error:', error);
+    return new Response(JSON.stringify({
+      success: false,
+      message: 'Failed to mark alerts as read',
+      error: (error as Error).message
+    }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+}
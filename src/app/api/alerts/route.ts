@@ -0,0 +1,99 @@
+import { type NextRequest } from 'next/server';
+import { rateLimit } from '@/lib/middleware/rateLimit';
+import { getAlert, listAlerts, type DeliveryStatus } from '@/lib/storage/alertStorage';
+import { InvalidCursorError, parseLimit } from '@/lib/storage/historySearch';
+import { requireWorkspace } from '@/lib/auth/workspace';
+
+const DELIVERY_STATUSES: DeliveryStatus[] = ['pending', 'delivered', 'dead'];
+
+// The notifications feed of a workspace, newest first
+export async function GET(request: NextRequest) {
+  try {
+    // Apply rate limiting
+    const rateLimitResponse = rateLimit(request, 30, 60 * 1000);
+    if (rateLimitResponse) {
+      return rateLimitResponse;
+    }
+    
+    const { workspaceId, response: workspaceResponse } = await requireWorkspace(request);
+    if (workspaceResponse) {
+      return workspaceResponse;
+    }
+    const url = new URL(request.url);
+    const id = url.searchParams.get('id');
+    
+    // If ID is provided, get a specific alert with the diff that triggered it
+    if (id) {
+      const alert = await getAlert(id, workspaceId);
+      
+      if (!alert) {
+        return new Response(JSON.stringify({
+          success: false,
+          message: 'Alert not found'
+        }), {
+          status: 404,
+          headers: { 'Content-Type': 'application/json' },
+        });
+      }
+      
+      return new Response(JSON.stringify({
+        success: true,
+        alert
+      }), {
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+    
+    const delivery = url.searchParams.get('delivery') as DeliveryStatus | null;
+    
+    if (delivery && !DELIVERY_STATUSES.includes(delivery)) {
+      return new Response(JSON.stringify({
+        success: false,
+        message: `Invalid delivery status, expected one of: ${DELIVERY_STATUSES.join(', ')}`
+      }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+    
+    const limitParam = url.searchParams.get('limit');
+    const page = await listAlerts({
+      workspaceId,
+      unread: url.searchParams.get('unread') === 'true',
+      ruleId: url.searchParams.get('ruleId') || undefined,
+      deliveryStatus: delivery || undefined,
+      limit: parseLimit(limitParam, 20, 100),
+      cursor: url.searchParams.get('cursor') || undefined,
+    });
+    
+    return new Response(JSON.stringify({
+      success: true,
+      alerts: page.alerts,
+      unread: page.unread,
+      nextCursor: page.nextCursor
+    }), {
+      headers: { 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('Alert feed error:', error);
+    
+    if (error instanceof InvalidCursorError) {
+      return new Response(JSON.stringify({
+        success: false,
+        message: error.message
+      }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+    
+    return new Response(JSON.stringify({
+      success: false,
+      message: 'Failed to fetch alerts',
+      error: (error as Error).message
+    }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+}
@@ -0,0 +1,330 @@
+import { type NextRequest } from 'next/server';
+import { rateLimit } from '@/lib/middleware/rateLimit';
+import { assertPublicUrl, SsrfBlockedError } from '@/lib/security/networkGuard';
+import {
+  alertRuleInputSchema,
+  alertRuleUpdateSchema,
+  generateWebhookSecret,
+  saveAlertRule,
+  getAlertRule,
+  listAlertRules,
+  updateAlertRule,
+  deleteAlertRule,
+  type AlertRule,
+  type AlertRuleInput,
+} from '@/lib/storage/alertStorage';
+import { getJob } from '@/lib/storage/jobStorage';
+import { getRecipe } from '@/lib/storage/recipeStorage';
+import { requireWorkspace } from '@/lib/auth/workspace';
+import { getCurrentUser } from '@/lib/auth/auth';
+
+/**
+ * Remove the webhook secret from a rule for the response
+ * The secret is only returned when a rule is created or its secret is rotated
+ * @param rule Rule
+ * @returns Rule without its secret
+ */
+function withoutSecret(rule: AlertRule) {
+  const { webhookSecret, ...rest } = rule;
+  return rest;
+}
+
+/**
+ * Check the job, recipe and webhook a rule points at
+ * @param rule Rule fields to check
+ * @param workspaceId Workspace of the rule
+ * @returns Error response, or null if everything exists and the webhook is public
+ */
+async function checkRuleTargets(rule: Partial<AlertRuleInput>, workspaceId: string): Promise<Response | null> {
+  if (rule.jobId && !(await getJob(rule.jobId, workspaceId))) {
+    return new Response(JSON.stringify({
+      success: false,
+      message: 'Job not found'
+    }), {
+      status: 404,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+  
+  if (rule.recipeId && !(await getRecipe(rule.recipeId, workspaceId))) {
+    return new Response(JSON.stringify({
+      success: false,
+      message: 'Recipe not found'
+    }), {
+      status: 404,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+  
+  // Deliveries check the address again, since DNS can change
+  if (rule.webhookUrl) {
+    try {
+      await assertPublicUrl(rule.webhookUrl);
+    } catch (error) {
+      if (!(error instanceof SsrfBlockedError)) {
+        throw error;
+      }
+      return new Response(JSON.stringify({
+        success: false,
+        message: error.message
+      }), {
+        status: 403,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+  }
+  
+  return null;
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    // Apply rate limiting
+    const rateLimitResponse = rateLimit(request, 20, 60 * 1000);
+    if (rateLimitResponse) {
+      return rateLimitResponse;
+    }
+    
+    const { workspaceId, response: workspaceResponse } = await requireWorkspace(request);
+    if (workspaceResponse) {
+      return workspaceResponse;
+    }
+    const id = new URL(request.url).searchParams.get('id');
+    
+    // If ID is provided, get a specific rule
+    if (id) {
+      const rule = await getAlertRule(id, workspaceId);
+      
+      if (!rule) {
+        return new Response(JSON.stringify({
+          success: false,
+          message: 'Alert rule not found'
+        }), {
+          status: 404,
+          headers: { 'Content-Type': 'application/json' },
+        });
+      }
+      
+      return new Response(JSON.stringify({
+        success: true,
+        rule: withoutSecret(rule)
+      }), {
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+    
+    const rules = await listAlertRules(workspaceId);
+    
+    return new Response(JSON.stringify({
+      success: true,
+      rules: rules.map(withoutSecret)
+    }), {
+      headers: { 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('Alert rule error:', error);
+    return new Response(JSON.stringify({
+      success: false,
+      message: 'Failed to fetch alert rules',
+      error: (error as Error).message
+    }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    // Apply rate limiting
+    const rateLimitResponse = rateLimit(request, 10, 60 * 1000);
+    if (rateLimitResponse) {
+      return rateLimitResponse;
+    }
+    
+    const body = await request.json();
+    const parsed = alertRuleInputSchema.safeParse(body);
+    const { workspaceId, response: workspaceResponse } = await requireWorkspace(request);
+    if (workspaceResponse) {
+      return workspaceResponse;
+    }
+    
+    if (!parsed.success) {
+      return new Response(JSON.stringify({
+        success: false,
+        message: 'Invalid alert rule',
+        errors: parsed.error.issues
+      }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+    
+    const targetResponse = await checkRuleTargets(parsed.data, workspaceId);
+    if (targetResponse) {
+      return targetResponse;
+    }
+    
+    const user = await getCurrentUser(request);
+    const rule = await saveAlertRule({
+      ...parsed.data,
+      workspaceId,
+      createdBy: user?.id,
+    });
+    
+    return new Response(JSON.stringify({
+      success: true,
+      message: 'Alert rule created',
+      rule
+    }), {
+      status: 201,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('Alert rule error:', error);
+    return new Response(JSON.stringify({
+      success: false,
+      message: 'Failed to save alert rule',
+      error: (error as Error).message
+    }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+}
+
+export async function PATCH(request: NextRequest) {
+  try {
+    // Apply rate limiting
+    const rateLimitResponse = rateLimit(request, 10, 60 * 1000);
+    if (rateLimitResponse) {
+      return rateLimitResponse;
+    }
+    
+    const { workspaceId, response: workspaceResponse } = await requireWorkspace(request);
+    if (workspaceResponse) {
+      return workspaceResponse;
+    }
+    const id = new URL(request.url).searchParams.get('id');
+    
+    if (!id) {
+      return new Response(JSON.stringify({
+        success: false,
+        message: 'Alert rule ID is required'
+      }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+    
+    const rule = await getAlertRule(id, workspaceId);
+    
+    if (!rule) {
+      return new Response(JSON.stringify({
+        success: false,
+        message: 'Alert rule not found'
+      }), {
+        status: 404,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+    
+    // rotateSecret replaces the webhook secret; the new one is returned once
+    const { rotateSecret, ...body } = await request.json();
+    const parsed = alertRuleUpdateSchema.safeParse(body);
+    
+    if (!parsed.success) {
+      return new Response(JSON.stringify({
+        success: false,
+        message: 'Invalid alert rule',
+        errors: parsed.error.issues
+      }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+    
+    const targetResponse = await checkRuleTargets(parsed.data, workspaceId);
+    if (targetResponse) {
+      return targetResponse;
+    }
+    
+    const updated = await updateAlertRule(id, {
+      ...parsed.data,
+      ...(rotateSecret === true && { webhookSecret: generateWebhookSecret() }),
+    });
+    
+    return new Response(JSON.stringify({
+      success: true,
+      message: rotateSecret === true ? 'Webhook secret rotated' : 'Alert rule updated',
+      rule: rotateSecret === true ? updated : withoutSecret(updated || rule)
+    }), {
+      headers: { 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('Alert rule error:', error);
+    return new Response(JSON.stringify({
+      success: false,
+      message: 'Failed to update alert rule',
+      error: (error as Error).message
+    }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  try {
+    // Apply rate limiting
+    const rateLimitResponse = rateLimit(request, 10, 60 * 1000);
+    if (rateLimitResponse) {
+      return rateLimitResponse;
+    }
+    
+    const { workspaceId, response: workspaceResponse } = await requireWorkspace(request);
+    if (workspaceResponse) {
+      return workspaceResponse;
+    }
+    const id = new URL(request.url).searchParams.get('id');
+    
+    if (!id) {
+      return new Response(JSON.stringify({
+        success: false,
+        message: 'Alert rule ID is required'
+      }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+    
+    const deleted = await deleteAlertRule(id, workspaceId);
+    
+    if (!deleted) {
+      return new Response(JSON.stringify({
+        success: false,
+        message: 'Alert rule not found'
+      }), {
+        status: 404,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+    
+    return new Response(JSON.stringify({
+      success: true,
+      message: 'Alert rule deleted'
+    }), {
+      headers: { 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('Alert rule error:', error);
+    return new Response(JSON.stringify({
+      success: false,
+      message: 'Failed to delete alert rule',
+      error: (error as Error).message
+    }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+}
@@ -1,8 +1,26 @@
 import { type NextRequest } from 'next/server';
 import { rateLimit } from '@/lib/middleware/rateLimit';
-import { getAllScrapingTasks, getScrapingTask, saveScrapingTask, deleteScrapingTask } from '@/lib/storage/historyStorage';
+import { getAllScrapingTasks, getScrapingTask, saveScrapingTask, deleteScrapingTask, searchScrapingTasks, type TaskStatus } from '@/lib/storage/historyStorage';
+import { InvalidCursorError, parseLimit } from '@/lib/storage/historySearch';
 import { getCurrentUser } from '@/lib/auth/auth';
 
+const TASK_STATUSES: TaskStatus[] = ['completed', 'failed'];
+const SEARCH_PARAMS = ['q', 'domain', 'from', 'to', 'status', 'tags', 'cursor'];
+
+/**
+ * Parse a date filter
+ * @param value Date or date-time from the query string
+ * @param endOfDay Whether a bare date means the end of that day
+ * @returns ISO timestamp, undefined if not given, or null if invalid
+ */
+function parseDateParam(value: string | null, endOfDay = false): string | undefined | null {
+  if (!value) {
+    return undefined;
+  }
+  const date = new Date(/^\d{4}-\d{2}-\d{2}$/.test(value) && endOfDay ? `${value}T23:59:59.999Z` : value);
+  return isNaN(date.getTime()) ? null : date.toISOString();
+}
+
 export async function GET(request: NextRequest) {
   try {
     // Apply rate limiting
@@ -18,7 +36,7 @@ export async function GET(request: NextRequest) {
     const url = new URL(request.url);
     const id = url.searchParams.get('id');
     const limitParam = url.searchParams.get('limit');
-    const limit = limitParam ? parseInt(limitParam, 10) : 100;
+    const limit = parseLimit(limitParam, 100, 1000);
     
     // If ID is provided, get a specific task
     if (id) {
@@ -53,6 +71,53 @@ export async function GET(request: NextRequest) {
       });
     }
     
+    // Search when any search parameter is given
+    if (SEARCH_PARAMS.some(param => url.searchParams.has(param))) {
+      const from = parseDateParam(url.searchParams.get('from'));
+      const to = parseDateParam(url.searchParams.get('to'), true);
+      const status = url.searchParams.get('status') as TaskStatus | null;
+      
+      if (from === null || to === null) {
+        return new Response(JSON.stringify({ 
+          success: false, 
+          message: 'Invalid date, expected an ISO 8601 date or date-time' 
+        }), {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' },
+        });
+      }
+      
+      if (status && !TASK_STATUSES.includes(status)) {
+        return new Response(JSON.stringify({ 
+          success: false, 
+          message: `Invalid status, expected one of: ${TASK_STATUSES.join(', ')}` 
+        }), {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' },
+        });
+      }
+      
+      const page = await searchScrapingTasks({
+        q: url.searchParams.get('q') || undefined,
+        userId: user?.id,
+        domain: url.searchParams.get('domain') || undefined,
+        from,
+        to,
+        status: status || undefined,
+        tags: url.searchParams.get('tags')?.split(',').map(tag => tag.trim()).filter(Boolean),
+        limit: parseLimit(limitParam, 20, 100),
+        cursor: url.searchParams.get('cursor') || undefined,
+      });
+      
+      return new Response(JSON.stringify({ 
+        success: true, 
+        results: page.hits,
+        nextCursor: page.nextCursor
+      }), {
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+    
     // Otherwise, get all tasks (filtered by user if authenticated)
     const tasks = await getAllScrapingTasks(user?.id, limit);
     
@@ -64,6 +129,17 @@ export async function GET(request: NextRequest) {
     });
   } catch (error) {
     console.error('History error:', error);
+    
+    if (error instanceof InvalidCursorError) {
+      return new Response(JSON.stringify({ 
+        success: false, 
+        message: error.message
+      }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+    
     return new Response(JSON.stringify({ 
       success: false, 
       message: 'Failed to fetch history',
@@ -87,7 +163,8 @@ export async function POST(request: NextRequest) {
     const user = await getCurrentUser(request);
     
     const body = await request.json();
-    const { url, instructions, waitFor, results } = body;
+    const { url, instructions, waitFor, results, tags } = body;
+    const status: TaskStatus = body.status || 'completed';
     
     if (!url) {
       return new Response(JSON.stringify({ 
@@ -99,6 +176,16 @@ export async function POST(request: NextRequest) {
       });
     }
     
+    if (!TASK_STATUSES.includes(status)) {
+      return new Response(JSON.stringify({ 
+        success: false, 
+        message: `Invalid status, expected one of: ${TASK_STATUSES.join(', ')}` 
+      }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+    
     // Create the task
     const task = await saveScrapingTask({
       userId: user?.id,
@@ -106,6 +193,8 @@ export async function POST(request: NextRequest) {
       instructions,
       waitFor,
       timestamp: new Date().toISOString(),
+      status,
+      tags: Array.isArray(tags) ? tags.filter((tag: unknown) => typeof tag === 'string' && tag.trim()).map((tag: string) => tag.trim()) : undefined,
       results
     });
     
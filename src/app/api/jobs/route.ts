@@ -0,0 +1,352 @@
+import { type NextRequest } from 'next/server';
+import { rateLimit } from '@/lib/middleware/rateLimit';
+import { allowlistMiddleware } from '@/lib/security/allowlist';
+import { planNextRun, upcomingRuns } from '@/lib/scheduler/scheduler';
+import {
+  jobInputSchema,
+  jobUpdateSchema,
+  saveJob,
+  getJob,
+  listJobs,
+  updateJob,
+  deleteJob,
+  type ScheduledJob,
+} from '@/lib/storage/jobStorage';
+import { getRecipe } from '@/lib/storage/recipeStorage';
+import { requireWorkspace } from '@/lib/auth/workspace';
+import { getCurrentUser } from '@/lib/auth/auth';
+import { getProviderNames } from '@/lib/llm/registry';
+
+/**
+ * Add the next due times to a job for the response
+ * @param job Job
+ * @returns Job with its upcoming runs
+ */
+function withUpcomingRuns(job: ScheduledJob) {
+  return { ...job, upcomingRuns: upcomingRuns(job) };
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    // Apply rate limiting
+    const rateLimitResponse = rateLimit(request, 20, 60 * 1000);
+    if (rateLimitResponse) {
+      return rateLimitResponse;
+    }
+    
+    const { workspaceId, response: workspaceResponse } = await requireWorkspace(request);
+    if (workspaceResponse) {
+      return workspaceResponse;
+    }
+    const id = new URL(request.url).searchParams.get('id');
+    
+    // If ID is provided, get a specific job
+    if (id) {
+      const job = await getJob(id, workspaceId);
+      
+      if (!job) {
+        return new Response(JSON.stringify({
+          success: false,
+          message: 'Job not found'
+        }), {
+          status: 404,
+          headers: { 'Content-Type': 'application/json' },
+        });
+      }
+      
+      return new Response(JSON.stringify({
+        success: true,
+        job: withUpcomingRuns(job)
+      }), {
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+    
+    const jobs = await listJobs(workspaceId);
+    
+    return new Response(JSON.stringify({
+      success: true,
+      jobs: jobs.map(withUpcomingRuns)
+    }), {
+      headers: { 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('Job error:', error);
+    return new Response(JSON.stringify({
+      success: false,
+      message: 'Failed to fetch jobs',
+      error: (error as Error).message
+    }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    // Apply rate limiting
+    const rateLimitResponse = rateLimit(request, 10, 60 * 1000);
+    if (rateLimitResponse) {
+      return rateLimitResponse;
+    }
+    
+    const body = await request.json();
+    const parsed = jobInputSchema.safeParse(body);
+    const { workspaceId, response: workspaceResponse } = await requireWorkspace(request);
+    if (workspaceResponse) {
+      return workspaceResponse;
+    }
+    
+    if (!parsed.success) {
+      return new Response(JSON.stringify({
+        success: false,
+        message: 'Invalid job',
+        errors: parsed.error.issues
+      }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+    
+    const input = parsed.data;
+    
+    if (input.provider !== undefined && !getProviderNames().includes(input.provider)) {
+      return new Response(JSON.stringify({
+        success: false,
+        message: `Unknown provider: ${input.provider}`,
+        providers: getProviderNames()
+      }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+    
+    const recipe = input.recipeId ? await getRecipe(input.recipeId, workspaceId) : null;
+    
+    if (input.recipeId && !recipe) {
+      return new Response(JSON.stringify({
+        success: false,
+        message: 'Recipe not found'
+      }), {
+        status: 404,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+    
+    // Check the URL against the domain rules; runs check it again in case the rules change
+    const url = input.url || recipe!.url;
+    const allowlistResponse = allowlistMiddleware(url, workspaceId);
+    if (allowlistResponse) {
+      return allowlistResponse;
+    }
+    
+    const user = await getCurrentUser(request);
+    const saved = await saveJob({
+      ...input,
+      workspaceId,
+      name: input.name || new URL(url).hostname,
+      scheduledFor: null,
+      nextRunAt: null,
+      createdBy: user?.id,
+    });
+    
+    // Jitter depends on the job ID, so the first run is planned once the job has one
+    const job = input.status === 'active'
+      ? (await updateJob(saved.id, planNextRun(saved, new Date()))) || saved
+      : saved;
+    
+    return new Response(JSON.stringify({
+      success: true,
+      message: 'Job scheduled',
+      job: withUpcomingRuns(job)
+    }), {
+      status: 201,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('Job error:', error);
+    return new Response(JSON.stringify({
+      success: false,
+      message: 'Failed to save job',
+      error: (error as Error).message
+    }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+}
+
+export async function PATCH(request: NextRequest) {
+  try {
+    // Apply rate limiting
+    const rateLimitResponse = rateLimit(request, 10, 60 * 1000);
+    if (rateLimitResponse) {
+      return rateLimitResponse;
+    }
+    
+    const { workspaceId, response: workspaceResponse } = await requireWorkspace(request);
+    if (workspaceResponse) {
+      return workspaceResponse;
+    }
+    const id = new URL(request.url).searchParams.get('id');
+    
+    if (!id) {
+      return new Response(JSON.stringify({
+        success: false,
+        message: 'Job ID is required'
+      }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+    
+    const job = await getJob(id, workspaceId);
+    
+    if (!job) {
+      return new Response(JSON.stringify({
+        success: false,
+        message: 'Job not found'
+      }), {
+        status: 404,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+    
+    const body = await request.json();
+    const parsed = jobUpdateSchema.safeParse(body);
+    
+    if (!parsed.success) {
+      return new Response(JSON.stringify({
+        success: false,
+        message: 'Invalid job',
+        errors: parsed.error.issues
+      }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+    
+    const changes = parsed.data;
+    const merged = { ...job, ...changes };
+    
+    if (changes.provider !== undefined && !getProviderNames().includes(changes.provider)) {
+      return new Response(JSON.stringify({
+        success: false,
+        message: `Unknown provider: ${changes.provider}`,
+        providers: getProviderNames()
+      }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+    
+    const recipe = merged.recipeId ? await getRecipe(merged.recipeId, workspaceId) : null;
+    
+    if (changes.recipeId && !recipe) {
+      return new Response(JSON.stringify({
+        success: false,
+        message: 'Recipe not found'
+      }), {
+        status: 404,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+    
+    // Check a new target against the domain rules
+    if (changes.url || changes.recipeId) {
+      const allowlistResponse = allowlistMiddleware(merged.url || recipe?.url || '', workspaceId);
+      if (allowlistResponse) {
+        return allowlistResponse;
+      }
+    }
+    
+    // Resuming plans from now, so runs missed while paused are not caught up
+    const replan = (changes.status && changes.status !== job.status)
+      || (changes.schedule !== undefined && changes.schedule !== job.schedule)
+      || (changes.jitterSeconds !== undefined && changes.jitterSeconds !== job.jitterSeconds);
+    const plan = !replan ? {} : merged.status === 'active'
+      ? planNextRun(merged, new Date())
+      : { scheduledFor: null, nextRunAt: null };
+    
+    const updated = await updateJob(id, { ...changes, ...plan });
+    
+    let message = 'Job updated';
+    if (changes.status && changes.status !== job.status) {
+      message = changes.status === 'paused' ? 'Job paused' : 'Job resumed';
+    }
+    
+    return new Response(JSON.stringify({
+      success: true,
+      message,
+      job: withUpcomingRuns(updated || merged)
+    }), {
+      headers: { 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('Job error:', error);
+    return new Response(JSON.stringify({
+      success: false,
+      message: 'Failed to update job',
+      error: (error as Error).message
+    }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  try {
+    // Apply rate limiting
+    const rateLimitResponse = rateLimit(request, 10, 60 * 1000);
+    if (rateLimitResponse) {
+      return rateLimitResponse;
+    }
+    
+    const { workspaceId, response: workspaceResponse } = await requireWorkspace(request);
+    if (workspaceResponse) {
+      return workspaceResponse;
+    }
+    const id = new URL(request.url).searchParams.get('id');
+    
+    if (!id) {
+      return new Response(JSON.stringify({
+        success: false,
+        message: 'Job ID is required'
+      }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+    
+    const deleted = await deleteJob(id, workspaceId);
+    
+    if (!deleted) {
+      return new Response(JSON.stringify({
+        success: false,
+        message: 'Job not found'
+      }), {
+        status: 404,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+    
+    return new Response(JSON.stringify({
+      success: true,
+      message: 'Job deleted'
+    }), {
+      headers: { 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('Job error:', error);
+    return new Response(JSON.stringify({
+      success: false,
+      message: 'Failed to delete job',
+      error: (error as Error).message
+    }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+}
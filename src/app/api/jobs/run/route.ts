@@ -0,0 +1,77 @@
+import { type NextRequest } from 'next/server';
+import { rateLimit } from '@/lib/middleware/rateLimit';
+import { runJobNow, upcomingRuns, JobBusyError } from '@/lib/scheduler/scheduler';
+import { getJob } from '@/lib/storage/jobStorage';
+import { requireWorkspace } from '@/lib/auth/workspace';
+
+export async function POST(request: NextRequest) {
+  try {
+    // Apply rate limiting
+    const rateLimitResponse = rateLimit(request, 10, 60 * 1000);
+    if (rateLimitResponse) {
+      return rateLimitResponse;
+    }
+    
+    const body = await request.json();
+    const { id } = body;
+    const { workspaceId, response: workspaceResponse } = await requireWorkspace(request);
+    if (workspaceResponse) {
+      return workspaceResponse;
+    }
+    
+    if (!id) {
+      return new Response(JSON.stringify({
+        success: false,
+        message: 'Job ID is required'
+      }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+    
+    const job = await getJob(id, workspaceId);
+    
+    if (!job) {
+      return new Response(JSON.stringify({
+        success: false,
+        message: 'Job not found'
+      }), {
+        status: 404,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+    
+    // Failed runs are saved to history like successful ones, so both are reported with 200
+    const result = await runJobNow(job);
+    
+    return new Response(JSON.stringify({
+      success: true,
+      message: result.run.status === 'completed' ? 'Job ran' : 'Job ran, but the run failed',
+      run: result.run,
+      job: { ...result.job, upcomingRuns: upcomingRuns(result.job) }
+    }), {
+      headers: { 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('Job run error:', error);
+    
+    if (error instanceof JobBusyError) {
+      return new Response(JSON.stringify({
+        success: false,
+        message: error.message
+      }), {
+        status: 409,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+    
+    return new Response(JSON.stringify({
+      success: false,
+      message: 'Failed to run job',
+      error: (error as Error).message
+    }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+}
@@ -0,0 +1,65 @@
+import crypto from 'crypto';
+import { type NextRequest } from 'next/server';
+import { rateLimit } from '@/lib/middleware/rateLimit';
+import { runTick } from '@/lib/scheduler/scheduler';
+
+/**
+ * Check the scheduler secret of a request in constant time
+ * @param request Next.js request
+ * @returns Whether the request carries SCHEDULER_SECRET as a bearer token
+ */
+function isSchedulerRequest(request: NextRequest): boolean {
+  const secret = process.env.SCHEDULER_SECRET;
+  const token = request.headers.get('authorization')?.replace(/^Bearer\s+/i, '') || '';
+  
+  // timingSafeEqual throws on buffers of different lengths, which multi-byte characters can cause
+  const tokenBytes = Buffer.from(token);
+  const secretBytes = Buffer.from(secret || '');
+  if (!secret || tokenBytes.length !== secretBytes.length) {
+    return false;
+  }
+  
+  return crypto.timingSafeEqual(tokenBytes, secretBytes);
+}
+
+// Called by the Cloudflare cron trigger (see worker.ts) to run due jobs and retry webhook deliveries
+export async function POST(request: NextRequest) {
+  try {
+    // Apply rate limiting
+    const rateLimitResponse = rateLimit(request, 10, 60 * 1000);
+    if (rateLimitResponse) {
+      return rateLimitResponse;
+    }
+    
+    if (!isSchedulerRequest(request)) {
+      return new Response(JSON.stringify({
+        success: false,
+        message: 'Scheduler authorization required'
+      }), {
+        status: 401,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+    
+    const { outcomes, deliveries } = await runTick();
+    
+    return new Response(JSON.stringify({
+      success: true,
+      message: `Handled ${outcomes.length} due job(s)`,
+      outcomes,
+      deliveries
+    }), {
+      headers: { 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('Scheduler tick error:', error);
+    return new Response(JSON.stringify({
+      success: false,
+      message: 'Failed to run due jobs',
+      error: (error as Error).message
+    }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+}
@@ -0,0 +1,44 @@
+import { type NextRequest } from 'next/server';
+import { rateLimit } from '@/lib/middleware/rateLimit';
+import { requireWorkspace } from '@/lib/auth/workspace';
+import { chunkTokensFor, listModels } from '@/lib/llm/models';
+import { getProviderNames, resolveLLM } from '@/lib/llm/registry';
+
+export async function GET(request: NextRequest) {
+  try {
+    // Apply rate limiting
+    const rateLimitResponse = rateLimit(request, 30, 60 * 1000);
+    if (rateLimitResponse) {
+      return rateLimitResponse;
+    }
+    
+    const { workspaceId, response: workspaceResponse } = await requireWorkspace(request);
+    if (workspaceResponse) {
+      return workspaceResponse;
+    }
+    
+    const { provider, model } = resolveLLM({}, workspaceId);
+    const models = listModels(getProviderNames()).map(info => ({
+      ...info,
+      chunkTokens: chunkTokensFor(info),
+    }));
+    
+    return new Response(JSON.stringify({
+      success: true,
+      models,
+      default: { provider: provider.name, model }
+    }), {
+      headers: { 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('Models error:', error);
+    return new Response(JSON.stringify({
+      success: false,
+      message: 'Failed to list models',
+      error: (error as Error).message
+    }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+}
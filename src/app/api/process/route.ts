@@ -1,7 +1,16 @@
 import { type NextRequest } from 'next/server';
-import { processWithGroq } from '@/lib/groq/client';
+import { processInChunks, chunkingOptionsSchema } from '@/lib/groq/pipeline';
+import { extractStructured, maxRepairsSchema, StructuredExtractionError } from '@/lib/groq/structured';
+import { findSchemaProblem } from '@/lib/groq/schema';
 import { rateLimit } from '@/lib/middleware/rateLimit';
+import { requireWorkspace } from '@/lib/auth/workspace';
 import { getCacheItem, setCacheItem } from '@/lib/cache/memoryCache';
+import { getProviderNames, resolveLLM } from '@/lib/llm/registry';
+import { CircuitOpenError, getCircuitBreaker } from '@/lib/llm/circuitBreaker';
+import { ModelValidationError } from '@/lib/llm/models';
+import { describeLLMError } from '@/lib/llm/completion';
+import { LLMProviderError } from '@/lib/llm/provider';
+import { DeadlineExceededError, getRetryAfter } from '@/lib/llm/retry';
 
 export async function POST(request: NextRequest) {
   try {
@@ -12,7 +21,11 @@ export async function POST(request: NextRequest) {
     }
     
     const body = await request.json();
-    const { content, instructions } = body;
+    const { content, instructions, schema, maxRepairs, chunking = {}, provider, model } = body;
+    const { workspaceId, response: workspaceResponse } = await requireWorkspace(request);
+    if (workspaceResponse) {
+      return workspaceResponse;
+    }
     
     if (!content) {
       return new Response(JSON.stringify({ 
@@ -24,8 +37,54 @@ export async function POST(request: NextRequest) {
       });
     }
     
+    if (provider !== undefined && !getProviderNames().includes(provider)) {
+      return new Response(JSON.stringify({ 
+        success: false, 
+        message: `Unknown LLM provider: ${provider}`,
+        providers: getProviderNames()
+      }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+    
+    const schemaProblem = schema !== undefined ? findSchemaProblem(schema) : null;
+    if (schemaProblem) {
+      return new Response(JSON.stringify({ 
+        success: false, 
+        message: schemaProblem 
+      }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+    
+    const parsedMaxRepairs = maxRepairsSchema.optional().safeParse(maxRepairs);
+    if (!parsedMaxRepairs.success) {
+      return new Response(JSON.stringify({ 
+        success: false, 
+        message: 'Invalid maxRepairs',
+        errors: parsedMaxRepairs.error.issues
+      }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+    
+    const parsedChunking = chunkingOptionsSchema.safeParse(chunking);
+    if (!parsedChunking.success) {
+      return new Response(JSON.stringify({ 
+        success: false, 
+        message: 'Invalid chunking options',
+        errors: parsedChunking.error.issues
+      }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+    
     // Check cache first
-    const cacheKey = `process:${JSON.stringify(content)}:${instructions}`;
+    const cacheKey = `process:${JSON.stringify(content)}:${instructions}:${JSON.stringify({ schema, maxRepairs, chunking, provider, model, workspaceId })}`;
     const cachedResult = getCacheItem(cacheKey);
     
     if (cachedResult) {
@@ -39,9 +98,42 @@ export async function POST(request: NextRequest) {
       });
     }
     
-    // Process with Groq
-    console.log('Processing content with Groq');
-    const processedContent = await processWithGroq(content, instructions);
+    // Fail fast while the provider's circuit is open; cached results above are still served
+    getCircuitBreaker(resolveLLM({ provider, model }, workspaceId).provider.name).assertAvailable();
+    
+    let processedContent;
+    
+    if (schema) {
+      // Extract data matching the caller's JSON Schema, repairing invalid replies
+      console.log('Extracting structured data with Groq');
+      const extraction = await extractStructured(content, schema, {
+        instructions,
+        maxRepairs: parsedMaxRepairs.data,
+        provider,
+        model,
+        workspaceId,
+      });
+      
+      processedContent = {
+        raw: extraction.raw,
+        structured: extraction.data,
+        validation: extraction.report,
+        usage: extraction.usage,
+        cost: extraction.cost,
+      };
+    } else {
+      // Process with Groq, splitting long content into chunks
+      console.log('Processing content with Groq');
+      processedContent = await processInChunks(content, instructions, {
+        ...parsedChunking.data,
+        provider,
+        model,
+        workspaceId,
+        onProgress: (progress) => {
+          console.log(`Processing ${progress.stage}: ${progress.completedChunks}/${progress.totalChunks} chunks, ${progress.usage.total_tokens} tokens`);
+        },
+      });
+    }
     
     // Create the result object
     const result = {
@@ -63,6 +155,70 @@ export async function POST(request: NextRequest) {
     });
   } catch (error) {
     console.error('Processing error:', error);
+    
+    if (error instanceof StructuredExtractionError) {
+      return new Response(JSON.stringify({ 
+        success: false, 
+        message: error.message,
+        validation: error.report,
+        raw: error.raw
+      }), {
+        status: 422,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+    
+    if (error instanceof ModelValidationError) {
+      return new Response(JSON.stringify({ 
+        success: false, 
+        message: error.message,
+        provider: error.provider,
+        model: error.model
+      }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+    
+    if (error instanceof CircuitOpenError) {
+      const retryAfter = Math.ceil(error.retryAfterMs / 1000);
+      return new Response(JSON.stringify({ 
+        success: false, 
+        message: `${error.provider} is temporarily unavailable. Please try again in ${retryAfter} seconds.`,
+        retryAfter
+      }), {
+        status: 503,
+        headers: { 'Content-Type': 'application/json', 'Retry-After': String(retryAfter) },
+      });
+    }
+    
+    if (error instanceof DeadlineExceededError) {
+      return new Response(JSON.stringify({ 
+        success: false, 
+        message: 'Processing timed out',
+        error: error.message
+      }), {
+        status: 504,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+    
+    if (error instanceof LLMProviderError) {
+      // Upstream error bodies stay in the log; the client gets the kind of failure
+      const { kind, message, status } = describeLLMError(error);
+      const retryAfterMs = kind === 'rate_limit' ? getRetryAfter(error) : undefined;
+      const retryAfter = retryAfterMs === undefined ? undefined : Math.ceil(retryAfterMs / 1000);
+      return new Response(JSON.stringify({ 
+        success: false, 
+        message,
+        kind,
+        ...(retryAfter !== undefined && { retryAfter })
+      }), {
+        status,
+        headers: { 'Content-Type': 'application/json', ...(retryAfter !== undefined && { 'Retry-After': String(retryAfter) }) },
+      });
+    }
+    
     return new Response(JSON.stringify({ 
       success: false, 
       message: 'Failed to process content',
@@ -0,0 +1,196 @@
+import { type NextRequest } from 'next/server';
+import { prepareContent, streamWithGroq } from '@/lib/groq/client';
+import { estimateTokens } from '@/lib/groq/chunker';
+import { processInChunks } from '@/lib/groq/pipeline';
+import { findSchemaProblem } from '@/lib/groq/schema';
+import { extractStructured, maxRepairsSchema, StructuredExtractionError } from '@/lib/groq/structured';
+import { getProviderNames, resolveLLM } from '@/lib/llm/registry';
+import { CircuitOpenError, getCircuitBreaker } from '@/lib/llm/circuitBreaker';
+import { describeLLMError } from '@/lib/llm/completion';
+import { rateLimit } from '@/lib/middleware/rateLimit';
+import { requireWorkspace } from '@/lib/auth/workspace';
+
+// Content above this size goes through the chunked pipeline, which reports progress instead of tokens
+const MAX_STREAMED_TOKENS = 3000;
+
+export async function POST(request: NextRequest) {
+  try {
+    // Apply rate limiting
+    const rateLimitResponse = rateLimit(request, 5, 60 * 1000); // Stricter rate limit for Groq API
+    if (rateLimitResponse) {
+      return rateLimitResponse;
+    }
+    
+    const body = await request.json();
+    const { content, instructions, schema, maxRepairs, provider, model } = body;
+    const { workspaceId, response: workspaceResponse } = await requireWorkspace(request);
+    if (workspaceResponse) {
+      return workspaceResponse;
+    }
+    
+    if (!content) {
+      return new Response(JSON.stringify({ 
+        success: false, 
+        message: 'Content is required' 
+      }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+    
+    const schemaProblem = schema !== undefined ? findSchemaProblem(schema) : null;
+    if (schemaProblem) {
+      return new Response(JSON.stringify({ 
+        success: false, 
+        message: schemaProblem 
+      }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+    
+    const parsedMaxRepairs = maxRepairsSchema.optional().safeParse(maxRepairs);
+    if (!parsedMaxRepairs.success) {
+      return new Response(JSON.stringify({ 
+        success: false, 
+        message: 'Invalid maxRepairs',
+        errors: parsedMaxRepairs.error.issues
+      }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+    
+    if (provider !== undefined && !getProviderNames().includes(provider)) {
+      return new Response(JSON.stringify({ 
+        success: false, 
+        message: `Unknown LLM provider: ${provider}`,
+        providers: getProviderNames()
+      }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+    
+    // Fail fast while the provider's circuit is open, before the event stream starts
+    getCircuitBreaker(resolveLLM({ provider, model }, workspaceId).provider.name).assertAvailable();
+    
+    const encoder = new TextEncoder();
+    
+    // Abort the upstream LLM request when the client disconnects or cancels
+    const upstream = new AbortController();
+    request.signal.addEventListener('abort', () => upstream.abort());
+    
+    const stream = new ReadableStream({
+      async start(controller) {
+        const send = (event: string, data: unknown) => {
+          if (!upstream.signal.aborted) {
+            controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`));
+          }
+        };
+        
+        try {
+          let processed;
+          
+          if (schema) {
+            // The first reply streams; it is then validated and repaired like on /api/process
+            const extraction = await extractStructured(content, schema, {
+              instructions,
+              maxRepairs: parsedMaxRepairs.data,
+              provider,
+              model,
+              workspaceId,
+              signal: upstream.signal,
+              onToken: (token) => send('token', { text: token }),
+            });
+            
+            processed = {
+              raw: extraction.raw,
+              structured: extraction.data,
+              validation: extraction.report,
+              usage: extraction.usage,
+              cost: extraction.cost,
+            };
+          } else if (estimateTokens(prepareContent(content)) > MAX_STREAMED_TOKENS) {
+            processed = await processInChunks(content, instructions, {
+              provider,
+              model,
+              workspaceId,
+              signal: upstream.signal,
+              onProgress: (progress) => send('progress', progress),
+            });
+          } else {
+            processed = await streamWithGroq(content, instructions, {
+              provider,
+              model,
+              workspaceId,
+              signal: upstream.signal,
+              onToken: (token) => send('token', { text: token }),
+            });
+          }
+          
+          // The final event matches the data returned by /api/process
+          send('done', {
+            original: content,
+            instructions,
+            timestamp: new Date().toISOString(),
+            processed,
+          });
+        } catch (error) {
+          if (!upstream.signal.aborted) {
+            console.error('Streaming error:', error);
+            // Provider errors are described without the upstream error body
+            const { kind, message } = describeLLMError(error);
+            send('error', {
+              message: 'Failed to process content',
+              error: message,
+              kind,
+              ...(error instanceof CircuitOpenError && { retryAfter: Math.ceil(error.retryAfterMs / 1000) }),
+              ...(error instanceof StructuredExtractionError && { validation: error.report, raw: error.raw }),
+            });
+          }
+        } finally {
+          try {
+            controller.close();
+          } catch {
+            // Already closed because the client cancelled
+          }
+        }
+      },
+      cancel() {
+        upstream.abort();
+      },
+    });
+    
+    return new Response(stream, {
+      headers: {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache, no-transform',
+        'Connection': 'keep-alive',
+      },
+    });
+  } catch (error) {
+    console.error('Processing error:', error);
+    
+    if (error instanceof CircuitOpenError) {
+      const retryAfter = Math.ceil(error.retryAfterMs / 1000);
+      return new Response(JSON.stringify({ 
+        success: false, 
+        message: `${error.provider} is temporarily unavailable. Please try again in ${retryAfter} seconds.`,
+        retryAfter
+      }), {
+        status: 503,
+        headers: { 'Content-Type': 'application/json', 'Retry-After': String(retryAfter) },
+      });
+    }
+    
+    return new Response(JSON.stringify({ 
+      success: false, 
+      message: 'Failed to process content',
+      error: (error as Error).message
+    }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+}
@@ -0,0 +1,142 @@
+import { type NextRequest } from 'next/server';
+import { rateLimit } from '@/lib/middleware/rateLimit';
+import { reviewRepair, RepairReviewError } from '@/lib/scraping/selectorRepair';
+import { getRepairProposal, listRepairProposals, type RepairStatus } from '@/lib/storage/repairStorage';
+import { requireWorkspace } from '@/lib/auth/workspace';
+import { getCurrentUser } from '@/lib/auth/auth';
+
+const REPAIR_STATUSES: RepairStatus[] = ['pending', 'approved', 'rejected'];
+const REVIEW_ACTIONS = ['approve', 'reject'];
+
+export async function GET(request: NextRequest) {
+  try {
+    // Apply rate limiting
+    const rateLimitResponse = rateLimit(request, 20, 60 * 1000);
+    if (rateLimitResponse) {
+      return rateLimitResponse;
+    }
+    
+    const { workspaceId, response: workspaceResponse } = await requireWorkspace(request);
+    if (workspaceResponse) {
+      return workspaceResponse;
+    }
+    const url = new URL(request.url);
+    const id = url.searchParams.get('id');
+    
+    // If ID is provided, get a specific proposal
+    if (id) {
+      const proposal = await getRepairProposal(id, workspaceId);
+      
+      if (!proposal) {
+        return new Response(JSON.stringify({ 
+          success: false, 
+          message: 'Repair proposal not found' 
+        }), {
+          status: 404,
+          headers: { 'Content-Type': 'application/json' },
+        });
+      }
+      
+      return new Response(JSON.stringify({ 
+        success: true, 
+        proposal
+      }), {
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+    
+    // The review queue shows pending proposals unless another status is asked for
+    const status = (url.searchParams.get('status') || 'pending') as RepairStatus;
+    
+    if (!REPAIR_STATUSES.includes(status)) {
+      return new Response(JSON.stringify({ 
+        success: false, 
+        message: `Invalid status, expected one of: ${REPAIR_STATUSES.join(', ')}` 
+      }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+    
+    const proposals = await listRepairProposals(workspaceId, {
+      recipeId: url.searchParams.get('recipeId') || undefined,
+      status,
+    });
+    
+    return new Response(JSON.stringify({ 
+      success: true, 
+      proposals
+    }), {
+      headers: { 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('Repair queue error:', error);
+    return new Response(JSON.stringify({ 
+      success: false, 
+      message: 'Failed to fetch repair proposals',
+      error: (error as Error).message
+    }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    // Apply rate limiting
+    const rateLimitResponse = rateLimit(request, 10, 60 * 1000);
+    if (rateLimitResponse) {
+      return rateLimitResponse;
+    }
+    
+    const { id, action } = await request.json();
+    
+    if (!id || !REVIEW_ACTIONS.includes(action)) {
+      return new Response(JSON.stringify({ 
+        success: false, 
+        message: `Proposal ID and an action (${REVIEW_ACTIONS.join(', ')}) are required` 
+      }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+    
+    const user = await getCurrentUser(request);
+    const { workspaceId, response: workspaceResponse } = await requireWorkspace(request);
+    if (workspaceResponse) {
+      return workspaceResponse;
+    }
+    
+    const result = await reviewRepair(id, workspaceId, action, user?.id);
+    
+    return new Response(JSON.stringify({ 
+      success: true, 
+      message: action === 'approve' ? 'Repair applied to the recipe' : 'Repair rejected',
+      ...result
+    }), {
+      headers: { 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('Repair review error:', error);
+    
+    if (error instanceof RepairReviewError) {
+      return new Response(JSON.stringify({ 
+        success: false, 
+        message: error.message
+      }), {
+        status: error.status,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+    
+    return new Response(JSON.stringify({ 
+      success: false, 
+      message: 'Failed to review repair proposal',
+      error: (error as Error).message
+    }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+}
@@ -0,0 +1,263 @@
+import { type NextRequest } from 'next/server';
+import { rateLimit } from '@/lib/middleware/rateLimit';
+import { allowlistMiddleware } from '@/lib/security/allowlist';
+import { SsrfBlockedError } from '@/lib/security/networkGuard';
+import { RobotsBlockedError } from '@/lib/scraping/robots';
+import { scrapeWithEngine } from '@/lib/scraping/engine';
+import { compileSelectors, SelectorCompilationError } from '@/lib/scraping/selectorCompiler';
+import { saveRecipe, getRecipe, listRecipes, deleteRecipe, type RecipeEngine } from '@/lib/storage/recipeStorage';
+import { requireWorkspace } from '@/lib/auth/workspace';
+import { getCurrentUser } from '@/lib/auth/auth';
+import { getProviderNames } from '@/lib/llm/registry';
+import { CircuitOpenError } from '@/lib/llm/circuitBreaker';
+import { ModelValidationError } from '@/lib/llm/models';
+
+const RECIPE_ENGINES: RecipeEngine[] = ['static', 'browser'];
+
+export async function GET(request: NextRequest) {
+  try {
+    // Apply rate limiting
+    const rateLimitResponse = rateLimit(request, 20, 60 * 1000);
+    if (rateLimitResponse) {
+      return rateLimitResponse;
+    }
+    
+    const { workspaceId, response: workspaceResponse } = await requireWorkspace(request);
+    if (workspaceResponse) {
+      return workspaceResponse;
+    }
+    const id = new URL(request.url).searchParams.get('id');
+    
+    // If ID is provided, get a specific recipe
+    if (id) {
+      const recipe = await getRecipe(id, workspaceId);
+      
+      if (!recipe) {
+        return new Response(JSON.stringify({ 
+          success: false, 
+          message: 'Recipe not found' 
+        }), {
+          status: 404,
+          headers: { 'Content-Type': 'application/json' },
+        });
+      }
+      
+      return new Response(JSON.stringify({ 
+        success: true, 
+        recipe
+      }), {
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+    
+    return new Response(JSON.stringify({ 
+      success: true, 
+      recipes: await listRecipes(workspaceId)
+    }), {
+      headers: { 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('Recipe error:', error);
+    return new Response(JSON.stringify({ 
+      success: false, 
+      message: 'Failed to fetch recipes',
+      error: (error as Error).message
+    }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    // Apply rate limiting; compiling calls the model
+    const rateLimitResponse = rateLimit(request, 5, 60 * 1000);
+    if (rateLimitResponse) {
+      return rateLimitResponse;
+    }
+    
+    const body = await request.json();
+    const { url, instructions, name, waitFor, provider, model } = body;
+    const engine: RecipeEngine = body.engine || 'static';
+    const { workspaceId, response: workspaceResponse } = await requireWorkspace(request);
+    if (workspaceResponse) {
+      return workspaceResponse;
+    }
+    
+    if (!url || !instructions) {
+      return new Response(JSON.stringify({ 
+        success: false, 
+        message: 'URL and instructions are required' 
+      }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+    
+    if (!RECIPE_ENGINES.includes(engine)) {
+      return new Response(JSON.stringify({ 
+        success: false, 
+        message: `Invalid engine, expected one of: ${RECIPE_ENGINES.join(', ')}` 
+      }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+    
+    if (provider !== undefined && !getProviderNames().includes(provider)) {
+      return new Response(JSON.stringify({ 
+        success: false, 
+        message: `Unknown provider: ${provider}`,
+        providers: getProviderNames()
+      }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+    
+    // Check the URL against the domain rules
+    const allowlistResponse = allowlistMiddleware(url, workspaceId);
+    if (allowlistResponse) {
+      return allowlistResponse;
+    }
+    
+    // Compile against the page as the recipe will see it
+    const { content } = await scrapeWithEngine(url, { engine, waitFor });
+    const compiled = await compileSelectors(content.html, instructions, { provider, model, workspaceId });
+    
+    const user = await getCurrentUser(request);
+    const recipe = await saveRecipe({
+      workspaceId,
+      name: name || new URL(url).hostname,
+      url,
+      instructions,
+      selectors: compiled.selectors,
+      engine,
+      waitFor,
+      createdBy: user?.id,
+    });
+    
+    return new Response(JSON.stringify({ 
+      success: true, 
+      message: 'Recipe compiled',
+      recipe,
+      verification: compiled.verification,
+      usage: compiled.usage,
+      cost: compiled.cost
+    }), {
+      status: 201,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('Recipe compilation error:', error);
+    
+    if (error instanceof SelectorCompilationError) {
+      return new Response(JSON.stringify({ 
+        success: false, 
+        message: error.message,
+        verification: error.verification
+      }), {
+        status: 422,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+    
+    if (error instanceof ModelValidationError) {
+      return new Response(JSON.stringify({ 
+        success: false, 
+        message: error.message
+      }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+    
+    if (error instanceof SsrfBlockedError || error instanceof RobotsBlockedError) {
+      return new Response(JSON.stringify({ 
+        success: false, 
+        message: error.message
+      }), {
+        status: 403,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+    
+    if (error instanceof CircuitOpenError) {
+      const retryAfter = Math.ceil(error.retryAfterMs / 1000);
+      return new Response(JSON.stringify({ 
+        success: false, 
+        message: `${error.provider} is temporarily unavailable. Please try again in ${retryAfter} seconds.`,
+        retryAfter
+      }), {
+        status: 503,
+        headers: { 'Content-Type': 'application/json', 'Retry-After': String(retryAfter) },
+      });
+    }
+    
+    return new Response(JSON.stringify({ 
+      success: false, 
+      message: 'Failed to compile recipe',
+      error: (error as Error).message
+    }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  try {
+    // Apply rate limiting
+    const rateLimitResponse = rateLimit(request, 10, 60 * 1000);
+    if (rateLimitResponse) {
+      return rateLimitResponse;
+    }
+    
+    const id = new URL(request.url).searchParams.get('id');
+    
+    if (!id) {
+      return new Response(JSON.stringify({ 
+        success: false, 
+        message: 'Recipe ID is required' 
+      }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+    
+    const { workspaceId, response: workspaceResponse } = await requireWorkspace(request);
+    if (workspaceResponse) {
+      return workspaceResponse;
+    }
+    
+    const deleted = await deleteRecipe(id, workspaceId);
+    
+    if (!deleted) {
+      return new Response(JSON.stringify({ 
+        success: false, 
+        message: 'Recipe not found' 
+      }), {
+        status: 404,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+    
+    return new Response(JSON.stringify({ 
+      success: true, 
+      message: 'Recipe deleted'
+    }), {
+      headers: { 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('Recipe error:', error);
+    return new Response(JSON.stringify({ 
+      success: false, 
+      message: 'Failed to delete recipe',
+      error: (error as Error).message
+    }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+}
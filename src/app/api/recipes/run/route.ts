@@ -0,0 +1,88 @@
+import { type NextRequest } from 'next/server';
+import { rateLimit } from '@/lib/middleware/rateLimit';
+import { allowlistMiddleware } from '@/lib/security/allowlist';
+import { SsrfBlockedError } from '@/lib/security/networkGuard';
+import { RobotsBlockedError } from '@/lib/scraping/robots';
+import { runRecipe } from '@/lib/scraping/recipeRunner';
+import { getRecipe } from '@/lib/storage/recipeStorage';
+import { requireWorkspace } from '@/lib/auth/workspace';
+
+export async function POST(request: NextRequest) {
+  try {
+    // Apply rate limiting
+    const rateLimitResponse = rateLimit(request, 10, 60 * 1000);
+    if (rateLimitResponse) {
+      return rateLimitResponse;
+    }
+    
+    const body = await request.json();
+    const { id, url, repair = true, provider, model } = body;
+    const { workspaceId, response: workspaceResponse } = await requireWorkspace(request);
+    if (workspaceResponse) {
+      return workspaceResponse;
+    }
+    
+    if (!id) {
+      return new Response(JSON.stringify({ 
+        success: false, 
+        message: 'Recipe ID is required' 
+      }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+    
+    const recipe = await getRecipe(id, workspaceId);
+    
+    if (!recipe) {
+      return new Response(JSON.stringify({ 
+        success: false, 
+        message: 'Recipe not found' 
+      }), {
+        status: 404,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+    
+    // Check the URL against the domain rules
+    const allowlistResponse = allowlistMiddleware(url || recipe.url, workspaceId);
+    if (allowlistResponse) {
+      return allowlistResponse;
+    }
+    
+    const result = await runRecipe(recipe, {
+      url,
+      repair,
+      llm: { provider, model, workspaceId },
+    });
+    
+    return new Response(JSON.stringify({ 
+      success: true, 
+      message: result.drift.drifted ? 'Recipe ran, but its selectors drifted' : 'Recipe ran',
+      data: result
+    }), {
+      headers: { 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('Recipe run error:', error);
+    
+    if (error instanceof SsrfBlockedError || error instanceof RobotsBlockedError) {
+      return new Response(JSON.stringify({ 
+        success: false, 
+        message: error.message
+      }), {
+        status: 403,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+    
+    return new Response(JSON.stringify({ 
+      success: false, 
+      message: 'Failed to run recipe',
+      error: (error as Error).message
+    }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+}
@@ -1,8 +1,81 @@
 import { type NextRequest } from 'next/server';
-import { scrapeWithCheerio, extractContent, extractStructuredData } from '@/lib/scraping/cheerio';
-import { processWithGroq } from '@/lib/groq/client';
+import { extractStructuredData } from '@/lib/scraping/cheerio';
+import { crawlWithCheerio, crawlRequestSchema } from '@/lib/scraping/crawler';
+import { scrapeWithEngine, SCRAPE_ENGINES, type ScrapedContent, type ScrapeEngine } from '@/lib/scraping/engine';
+import { navigationStepsSchema, NavigationStepError } from '@/lib/scraping/navigation';
+import { RobotsBlockedError } from '@/lib/scraping/robots';
+import { getSitemapEntries } from '@/lib/scraping/sitemap';
+import { SsrfBlockedError } from '@/lib/security/networkGuard';
+import { allowlistMiddleware, isUrlAllowed } from '@/lib/security/allowlist';
+import { requireWorkspace } from '@/lib/auth/workspace';
+import { paginateWithCheerio, paginateWithPuppeteer, mergePaginatedPages, buildPageUrl, paginationRequestSchema } from '@/lib/scraping/pagination';
 import { rateLimit } from '@/lib/middleware/rateLimit';
 import { getCacheItem, setCacheItem } from '@/lib/cache/memoryCache';
+import { MarkdownConverter } from '@/lib/data/markdown';
+
+const OUTPUT_FORMATS = ['json', 'markdown'];
+
+/**
+ * Trim scraped content down to the fields returned to the client
+ * @param content Scraped content
+ * @param url Page URL for resolving links in the Markdown
+ * @returns Result fields for the response
+ */
+function summarizeContent(content: ScrapedContent, url: string) {
+  return {
+    title: content.title,
+    metaDescription: content.metaDescription,
+    bodyText: content.bodyText.substring(0, 1000) + (content.bodyText.length > 1000 ? '...' : ''),
+    // The full main article, which is what gets sent to Groq
+    article: {
+      title: content.article.title,
+      byline: content.article.byline,
+      publishedAt: content.article.publishedAt,
+      leadImage: content.article.leadImage,
+      excerpt: content.article.excerpt,
+      blocks: content.article.blocks,
+      text: content.article.text,
+    },
+    markdown: MarkdownConverter.fromArticle(content.article, { baseUrl: url }),
+    links: content.links.slice(0, 20),
+    images: content.images.slice(0, 20),
+    structuredData: extractStructuredData(content.html),
+  };
+}
+
+/**
+ * Interface for the scrape results read by the Markdown export
+ * Single pages carry their own Markdown, crawls carry pages, selector extraction carries neither
+ */
+interface ScrapeResults {
+  markdown?: string;
+  pages?: { url: string; markdown: string }[];
+  // Other fields are only exported as JSON
+  [field: string]: unknown;
+}
+
+/**
+ * Build a Markdown export of scrape results
+ * @param results Scrape results
+ * @returns Markdown response
+ */
+function markdownResponse(results: ScrapeResults) {
+  let markdown: string;
+  
+  if (results.markdown) {
+    markdown = results.markdown;
+  } else if (Array.isArray(results.pages)) {
+    // One section per crawled page
+    markdown = results.pages.map(page => `<!-- ${page.url} -->\n\n${page.markdown}`).join('\n\n---\n\n');
+  } else {
+    // Selector extraction has no page body, so export the data itself
+    markdown = `\`\`\`json\n${JSON.stringify(results, null, 2)}\n\`\`\``;
+  }
+  
+  return new Response(markdown, {
+    headers: { 'Content-Type': 'text/markdown; charset=utf-8' },
+  });
+}
 
 export async function POST(request: NextRequest) {
   try {
@@ -13,7 +86,70 @@ export async function POST(request: NextRequest) {
     }
     
     const body = await request.json();
-    const { url, instructions, waitFor } = body;
+    const { url, instructions, waitFor, selectors } = body;
+    const engine: ScrapeEngine = body.engine || 'auto';
+    const format: string = body.format || 'json';
+    
+    if (!OUTPUT_FORMATS.includes(format)) {
+      return new Response(JSON.stringify({ 
+        success: false, 
+        message: `Invalid format, expected one of: ${OUTPUT_FORMATS.join(', ')}` 
+      }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+    
+    if (!SCRAPE_ENGINES.includes(engine)) {
+      return new Response(JSON.stringify({ 
+        success: false, 
+        message: `Invalid engine, expected one of: ${SCRAPE_ENGINES.join(', ')}` 
+      }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+    
+    // Validate navigation steps if provided
+    const parsedSteps = navigationStepsSchema.optional().safeParse(body.steps);
+    if (!parsedSteps.success) {
+      return new Response(JSON.stringify({ 
+        success: false, 
+        message: 'Invalid navigation steps',
+        errors: parsedSteps.error.issues
+      }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+    const steps = parsedSteps.data;
+    
+    // Crawl and pagination limits are capped, and their URL patterns must be safe to run
+    const parsedCrawl = crawlRequestSchema.optional().safeParse(body.crawl);
+    if (!parsedCrawl.success) {
+      return new Response(JSON.stringify({ 
+        success: false, 
+        message: 'Invalid crawl options',
+        errors: parsedCrawl.error.issues
+      }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+    const crawl = parsedCrawl.data;
+    
+    const parsedPagination = paginationRequestSchema.optional().safeParse(body.pagination);
+    if (!parsedPagination.success) {
+      return new Response(JSON.stringify({ 
+        success: false, 
+        message: 'Invalid pagination options',
+        errors: parsedPagination.error.issues
+      }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+    const pagination = parsedPagination.data;
     
     if (!url) {
       return new Response(JSON.stringify({ 
@@ -25,12 +161,31 @@ export async function POST(request: NextRequest) {
       });
     }
     
-    // Check cache first
-    const cacheKey = `scrape:${url}:${waitFor || ''}`;
+    const { workspaceId, response: workspaceResponse } = await requireWorkspace(request);
+    if (workspaceResponse) {
+      return workspaceResponse;
+    }
+    
+    // Check the URL against the domain rules; template pagination starts somewhere else
+    const allowlistResponse = allowlistMiddleware(url, workspaceId)
+      || (pagination?.type === 'template'
+        ? allowlistMiddleware(buildPageUrl(pagination.template, pagination.startPage ?? 1), workspaceId)
+        : undefined);
+    if (allowlistResponse) {
+      return allowlistResponse;
+    }
+    
+    // Check cache first; workspaces have their own domain rules, so they do not share results
+    const cacheKey = `scrape:${workspaceId}:${url}:${waitFor || ''}:${JSON.stringify({ engine, crawl, pagination, selectors, steps })}`;
     const cachedResult = getCacheItem(cacheKey);
     
     if (cachedResult) {
       console.log('Returning cached result for:', url);
+      
+      if (format === 'markdown') {
+        return markdownResponse(cachedResult.results);
+      }
+      
       return new Response(JSON.stringify({ 
         success: true, 
         message: 'Scraping completed (cached)',
@@ -40,32 +195,100 @@ export async function POST(request: NextRequest) {
       });
     }
     
-    // Perform the scraping
-    console.log('Scraping URL:', url);
-    const scrapedContent = await scrapeWithCheerio(url, waitFor);
+    let results;
+    let engineDecision;
     
-    // Extract structured data if available
-    const structuredData = extractStructuredData(scrapedContent.html);
+    if (crawl) {
+      // Crawl from the seed URL and return one result per page
+      console.log('Crawling from URL:', url);
+      
+      // Seed the crawl with sitemap URLs when requested
+      const seedUrls = crawl.sitemap
+        ? (await getSitemapEntries(url, crawl.sitemap === true ? {} : crawl.sitemap)).entries.map(entry => entry.loc)
+        : undefined;
+      
+      const crawlResult = await crawlWithCheerio(url, {
+        ...crawl,
+        waitFor,
+        seedUrls,
+        isAllowed: (candidate) => isUrlAllowed(candidate, workspaceId),
+      });
+      
+      results = {
+        pages: crawlResult.pages.map(page => ({
+          url: page.url,
+          depth: page.depth,
+          ...summarizeContent(page, page.url),
+        })),
+        failures: crawlResult.failures,
+        stats: crawlResult.stats,
+      };
+    } else if (pagination && (pagination.type === 'loadMore' || selectors)) {
+      // Clicking "load more" needs a browser; extract the selectors across every page
+      console.log('Paginating with Puppeteer from URL:', url);
+      const paginated = await paginateWithPuppeteer(
+        url,
+        selectors || { items: pagination.itemSelector || 'body' },
+        { ...pagination, waitFor, isAllowed: (candidate) => isUrlAllowed(candidate, workspaceId) }
+      );
+      
+      results = {
+        extracted: paginated.result,
+        pagination: {
+          pageUrls: paginated.pageUrls,
+          stoppedReason: paginated.stoppedReason,
+        },
+      };
+    } else if (pagination) {
+      // Follow pagination and merge every page into one result
+      console.log('Paginating from URL:', url);
+      const paginated = await paginateWithCheerio(url, {
+        ...pagination,
+        waitFor,
+        isAllowed: (candidate) => isUrlAllowed(candidate, workspaceId),
+      });
+      
+      results = {
+        ...summarizeContent(mergePaginatedPages(paginated.pages), url),
+        records: paginated.records.map(record => record.text),
+        pagination: {
+          pageUrls: paginated.pages.map(page => page.url),
+          stoppedReason: paginated.stoppedReason,
+        },
+      };
+    } else {
+      // Perform the scraping with the requested engine
+      console.log('Scraping URL:', url);
+      const scraped = await scrapeWithEngine(url, { engine, waitFor, steps });
+      engineDecision = scraped.engine;
+      
+      results = {
+        ...summarizeContent(scraped.content, url),
+        ...(scraped.content.extracted && { extracted: scraped.content.extracted }),
+        ...(scraped.content.stepScreenshots && { screenshots: scraped.content.stepScreenshots }),
+      };
+    }
     
     // Create the result object
     const result = {
       url,
       instructions,
       waitFor,
+      crawl,
+      pagination,
+      steps,
+      engine: engineDecision,
       timestamp: new Date().toISOString(),
-      results: {
-        title: scrapedContent.title,
-        metaDescription: scrapedContent.metaDescription,
-        bodyText: scrapedContent.bodyText.substring(0, 1000) + (scrapedContent.bodyText.length > 1000 ? '...' : ''),
-        links: scrapedContent.links.slice(0, 20),
-        images: scrapedContent.images.slice(0, 20),
-        structuredData: structuredData,
-      }
+      results,
     };
     
     // Cache the result
     setCacheItem(cacheKey, result, 60 * 60 * 1000); // Cache for 1 hour
     
+    if (format === 'markdown') {
+      return markdownResponse(results);
+    }
+    
     return new Response(JSON.stringify({ 
       success: true, 
       message: 'Scraping completed',
@@ -75,6 +298,50 @@ export async function POST(request: NextRequest) {
     });
   } catch (error) {
     console.error('Scraping error:', error);
+    
+    if (error instanceof SsrfBlockedError) {
+      return new Response(JSON.stringify({ 
+        success: false, 
+        message: error.message,
+        reason: error.reason
+      }), {
+        status: 403,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+    
+    if (error instanceof RobotsBlockedError) {
+      return new Response(JSON.stringify({ 
+        success: false, 
+        message: error.message,
+        robots: {
+          url: error.url,
+          userAgent: error.userAgent,
+          rule: error.rule,
+          crawlDelay: error.crawlDelay,
+        }
+      }), {
+        status: 403,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+    
+    if (error instanceof NavigationStepError) {
+      return new Response(JSON.stringify({ 
+        success: false, 
+        message: error.message,
+        failedStep: {
+          index: error.stepIndex,
+          step: error.step,
+          error: error.cause.message,
+          screenshot: error.screenshot,
+        }
+      }), {
+        status: 422,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+    
     return new Response(JSON.stringify({ 
       success: false, 
       message: 'Failed to scrape content',
@@ -0,0 +1,112 @@
+import { type NextRequest } from 'next/server';
+import { rateLimit } from '@/lib/middleware/rateLimit';
+import { getSitemapEntries, sitemapOptionsSchema } from '@/lib/scraping/sitemap';
+import { getCacheItem, setCacheItem } from '@/lib/cache/memoryCache';
+import { SsrfBlockedError } from '@/lib/security/networkGuard';
+import { allowlistMiddleware } from '@/lib/security/allowlist';
+import { requireWorkspace } from '@/lib/auth/workspace';
+
+export async function GET(request: NextRequest) {
+  try {
+    // Apply rate limiting
+    const rateLimitResponse = rateLimit(request, 10, 60 * 1000);
+    if (rateLimitResponse) {
+      return rateLimitResponse;
+    }
+    
+    // Get query parameters
+    const params = new URL(request.url).searchParams;
+    const url = params.get('url');
+    
+    if (!url) {
+      return new Response(JSON.stringify({
+        success: false,
+        message: 'URL is required'
+      }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+    
+    const { workspaceId, response: workspaceResponse } = await requireWorkspace(request);
+    if (workspaceResponse) {
+      return workspaceResponse;
+    }
+    
+    // Check the URL against the domain rules
+    const allowlistResponse = allowlistMiddleware(url, workspaceId);
+    if (allowlistResponse) {
+      return allowlistResponse;
+    }
+    
+    const limitParam = params.get('limit');
+    const parsedOptions = sitemapOptionsSchema.safeParse({
+      sitemapUrl: params.get('sitemap') || undefined,
+      include: params.getAll('include'),
+      exclude: params.getAll('exclude'),
+      lastmodFrom: params.get('lastmodFrom') || undefined,
+      lastmodTo: params.get('lastmodTo') || undefined,
+      limit: limitParam ? parseInt(limitParam, 10) : undefined,
+    });
+    if (!parsedOptions.success) {
+      return new Response(JSON.stringify({
+        success: false,
+        message: 'Invalid sitemap options',
+        errors: parsedOptions.error.issues
+      }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+    const options = parsedOptions.data;
+    
+    // Check cache first
+    const cacheKey = `sitemap:${url}:${JSON.stringify(options)}`;
+    const cachedResult = getCacheItem(cacheKey);
+    
+    if (cachedResult) {
+      return new Response(JSON.stringify({
+        success: true,
+        message: 'Sitemap read (cached)',
+        data: cachedResult
+      }), {
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+    
+    const result = await getSitemapEntries(url, options);
+    
+    // Cache the result
+    setCacheItem(cacheKey, result, 60 * 60 * 1000); // Cache for 1 hour
+    
+    return new Response(JSON.stringify({
+      success: true,
+      message: 'Sitemap read',
+      data: result
+    }), {
+      headers: { 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('Sitemap error:', error);
+    
+    if (error instanceof SsrfBlockedError) {
+      return new Response(JSON.stringify({
+        success: false,
+        message: error.message,
+        reason: error.reason
+      }), {
+        status: 403,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+    
+    return new Response(JSON.stringify({
+      success: false,
+      message: 'Failed to read sitemap',
+      error: (error as Error).message
+    }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+}
@@ -0,0 +1,69 @@
+import { type NextRequest } from 'next/server';
+import { rateLimit } from '@/lib/middleware/rateLimit';
+import { getSnapshot, diffSnapshots } from '@/lib/storage/snapshotStorage';
+import { requireWorkspace } from '@/lib/auth/workspace';
+import { getCurrentUser } from '@/lib/auth/auth';
+
+export async function GET(request: NextRequest) {
+  try {
+    // Apply rate limiting
+    const rateLimitResponse = rateLimit(request, 20, 60 * 1000);
+    if (rateLimitResponse) {
+      return rateLimitResponse;
+    }
+    
+    const url = new URL(request.url);
+    const fromId = url.searchParams.get('from');
+    const toId = url.searchParams.get('to');
+    
+    if (!fromId || !toId) {
+      return new Response(JSON.stringify({ 
+        success: false, 
+        message: 'Both from and to snapshot IDs are required' 
+      }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+    
+    const { workspaceId, response: workspaceResponse } = await requireWorkspace(request);
+    if (workspaceResponse) {
+      return workspaceResponse;
+    }
+    
+    const user = await getCurrentUser(request);
+    const owners = [undefined, user ? `user:${user.id}` : undefined, `workspace:${workspaceId}`];
+    const [before, after] = await Promise.all([getSnapshot(fromId), getSnapshot(toId)]);
+    
+    if (!before || !after || !owners.includes(before.owner) || !owners.includes(after.owner)) {
+      return new Response(JSON.stringify({ 
+        success: false, 
+        message: 'Snapshot not found' 
+      }), {
+        status: 404,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+    
+    const diff = diffSnapshots(before, after, url.searchParams.get('key') || undefined);
+    
+    return new Response(JSON.stringify({ 
+      success: true, 
+      from: { id: before.id, url: before.url, version: before.version, createdAt: before.createdAt },
+      to: { id: after.id, url: after.url, version: after.version, createdAt: after.createdAt },
+      diff
+    }), {
+      headers: { 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('Snapshot diff error:', error);
+    return new Response(JSON.stringify({ 
+      success: false, 
+      message: 'Failed to diff snapshots',
+      error: (error as Error).message
+    }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+}
@@ -0,0 +1,97 @@
+import { type NextRequest } from 'next/server';
+import { rateLimit } from '@/lib/middleware/rateLimit';
+import { getSnapshot, getSnapshotTimeline } from '@/lib/storage/snapshotStorage';
+import { getRecipe } from '@/lib/storage/recipeStorage';
+import { parseLimit } from '@/lib/storage/historySearch';
+import { requireWorkspace } from '@/lib/auth/workspace';
+import { getCurrentUser } from '@/lib/auth/auth';
+
+export async function GET(request: NextRequest) {
+  try {
+    // Apply rate limiting
+    const rateLimitResponse = rateLimit(request, 20, 60 * 1000);
+    if (rateLimitResponse) {
+      return rateLimitResponse;
+    }
+    
+    const user = await getCurrentUser(request);
+    const { workspaceId, response: workspaceResponse } = await requireWorkspace(request);
+    if (workspaceResponse) {
+      return workspaceResponse;
+    }
+    const url = new URL(request.url);
+    const id = url.searchParams.get('id');
+    const pageUrl = url.searchParams.get('url');
+    const recipeId = url.searchParams.get('recipeId') || undefined;
+    const scope = url.searchParams.get('scope');
+    
+    // If ID is provided, get a specific snapshot with its content
+    if (id) {
+      const snapshot = await getSnapshot(id);
+      
+      // Snapshots without an owner are shared, like history without a user
+      const owners = [undefined, user ? `user:${user.id}` : undefined, `workspace:${workspaceId}`];
+      if (!snapshot || !owners.includes(snapshot.owner)) {
+        return new Response(JSON.stringify({ 
+          success: false, 
+          message: 'Snapshot not found' 
+        }), {
+          status: 404,
+          headers: { 'Content-Type': 'application/json' },
+        });
+      }
+      
+      return new Response(JSON.stringify({ 
+        success: true, 
+        snapshot
+      }), {
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+    
+    if (!pageUrl) {
+      return new Response(JSON.stringify({ 
+        success: false, 
+        message: 'Snapshot ID or URL is required' 
+      }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+    
+    // Recipe and job timelines belong to the workspace, others to the user
+    if (recipeId && !(await getRecipe(recipeId, workspaceId))) {
+      return new Response(JSON.stringify({ 
+        success: false, 
+        message: 'Recipe not found' 
+      }), {
+        status: 404,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+    
+    const limitParam = url.searchParams.get('limit');
+    const snapshots = await getSnapshotTimeline(pageUrl, {
+      recipeId,
+      owner: recipeId || scope === 'workspace' ? `workspace:${workspaceId}` : user ? `user:${user.id}` : undefined,
+      limit: parseLimit(limitParam, 50, 100),
+    });
+    
+    return new Response(JSON.stringify({ 
+      success: true, 
+      snapshots
+    }), {
+      headers: { 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('Snapshot error:', error);
+    return new Response(JSON.stringify({ 
+      success: false, 
+      message: 'Failed to fetch snapshots',
+      error: (error as Error).message
+    }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+}
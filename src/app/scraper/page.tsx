@@ -1,15 +1,97 @@
 "use client"
 
-import { useState } from 'react';
+import { useEffect, useRef, useState } from 'react';
 import Layout from '@/components/Layout';
 
 export default function ScraperPage() {
   const [url, setUrl] = useState('');
   const [instructions, setInstructions] = useState('');
   const [waitFor, setWaitFor] = useState('');
+  const [engine, setEngine] = useState('auto');
   const [isLoading, setIsLoading] = useState(false);
-  const [results, setResults] = useState(null);
+  const [results, setResults] = useState<any>(null);
   const [error, setError] = useState('');
+  const [streamedText, setStreamedText] = useState('');
+  const [progress, setProgress] = useState<any>(null);
+  const [models, setModels] = useState<any[]>([]);
+  const [selectedModel, setSelectedModel] = useState('');
+  const abortControllerRef = useRef<AbortController | null>(null);
+  
+  // Load the models the server can use, preselecting the workspace default
+  useEffect(() => {
+    fetch('/api/models')
+      .then(response => response.json())
+      .then(data => {
+        if (data.success) {
+          setModels(data.models);
+          setSelectedModel(`${data.default.provider}:${data.default.model}`);
+        }
+      })
+      .catch(err => console.error('Error loading models:', err));
+  }, []);
+  
+  // Read server-sent events from the streaming process endpoint
+  const streamProcessing = async (content: any, signal: AbortSignal) => {
+    // Options are "provider:model"; model IDs may contain colons themselves
+    const separator = selectedModel.indexOf(':');
+    const llm = separator > 0
+      ? { provider: selectedModel.slice(0, separator), model: selectedModel.slice(separator + 1) }
+      : {};
+    
+    const response = await fetch('/api/process/stream', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        content,
+        instructions,
+        ...llm,
+      }),
+      signal,
+    });
+    
+    if (!response.ok || !response.body) {
+      const data = await response.json().catch(() => ({}));
+      throw new Error(data.message || 'Failed to process content');
+    }
+    
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) {
+        break;
+      }
+      
+      buffer += decoder.decode(value, { stream: true });
+      const events = buffer.split('\n\n');
+      buffer = events.pop() || '';
+      
+      for (const rawEvent of events) {
+        const event = rawEvent.match(/^event: (.*)$/m)?.[1];
+        const data = JSON.parse(rawEvent.match(/^data: (.*)$/m)?.[1] || 'null');
+        
+        if (event === 'token') {
+          setStreamedText(text => text + data.text);
+        } else if (event === 'progress') {
+          setProgress(data);
+        } else if (event === 'error') {
+          throw new Error(data.error || data.message);
+        } else if (event === 'done') {
+          return data;
+        }
+      }
+    }
+    
+    throw new Error('Processing stream ended unexpectedly');
+  };
+  
+  const handleCancel = () => {
+    abortControllerRef.current?.abort();
+  };
   
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -19,9 +101,14 @@ export default function ScraperPage() {
       return;
     }
     
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+    
     try {
       setIsLoading(true);
       setError('');
+      setStreamedText('');
+      setProgress(null);
       
       const response = await fetch('/api/scrape', {
         method: 'POST',
@@ -32,7 +119,9 @@ export default function ScraperPage() {
           url,
           instructions,
           waitFor,
+          engine,
         }),
+        signal: abortController.signal,
       });
       
       const data = await response.json();
@@ -42,30 +131,27 @@ export default function ScraperPage() {
       }
       
       setResults(data.data);
+      // State updates are not visible in this handler, so history gets this copy
+      let finalResults = data.data;
       
       // Process with Groq if instructions are provided
       if (instructions && data.data.results) {
-        const processResponse = await fetch('/api/process', {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify({
-            content: data.data.results,
-            instructions,
-          }),
-        });
-        
-        const processData = await processResponse.json();
-        
-        if (!processResponse.ok) {
-          throw new Error(processData.message || 'Failed to process content');
+        try {
+          // Stream the Groq output so long extractions show progress
+          const processData = await streamProcessing(data.data.results, abortController.signal);
+          
+          finalResults = {
+            ...data.data,
+            processed: processData.processed,
+          };
+          setResults(finalResults);
+        } catch (err) {
+          if (abortController.signal.aborted) {
+            throw err;
+          }
+          // Keep the scrape results when processing is unavailable
+          setError(`Scraping succeeded, but processing failed: ${(err as Error).message}`);
         }
-        
-        setResults({
-          ...data.data,
-          processed: processData.data.processed,
-        });
       }
       
       // Save to history
@@ -79,13 +165,14 @@ export default function ScraperPage() {
           instructions,
           waitFor,
           timestamp: new Date().toISOString(),
-          results: results,
+          results: finalResults,
         }),
       });
       
     } catch (err) {
-      setError((err as Error).message);
+      setError(abortController.signal.aborted ? 'Processing cancelled' : (err as Error).message);
     } finally {
+      abortControllerRef.current = null;
       setIsLoading(false);
     }
   };
@@ -126,6 +213,44 @@ export default function ScraperPage() {
               />
             </div>
             
+            <div className="mb-4">
+              <label htmlFor="engine" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                Scraping Engine
+              </label>
+              <select
+                id="engine"
+                value={engine}
+                onChange={(e) => setEngine(e.target.value)}
+                className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-md focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white"
+              >
+                <option value="auto">Auto (static, falling back to browser)</option>
+                <option value="static">Static HTML (fastest)</option>
+                <option value="browser">Headless browser</option>
+                <option value="stealth">Stealth browser</option>
+              </select>
+            </div>
+            
+            {models.length > 0 && (
+              <div className="mb-4">
+                <label htmlFor="model" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                  Model
+                </label>
+                <select
+                  id="model"
+                  value={selectedModel}
+                  onChange={(e) => setSelectedModel(e.target.value)}
+                  className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-md focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white"
+                >
+                  {models.map((model) => (
+                    <option key={`${model.provider}:${model.id}`} value={`${model.provider}:${model.id}`}>
+                      {model.label} ({model.provider}, {Math.round(model.contextWindow / 1024)}K context
+                      {model.pricing.input > 0 ? `, $${model.pricing.input}/$${model.pricing.output} per 1M tokens` : ''})
+                    </option>
+                  ))}
+                </select>
+              </div>
+            )}
+            
             <div className="mb-6">
               <label htmlFor="waitFor" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
                 Wait For Element (Optional)
@@ -143,7 +268,16 @@ export default function ScraperPage() {
               </p>
             </div>
             
-            <div className="flex justify-end">
+            <div className="flex justify-end space-x-4">
+              {isLoading && (
+                <button
+                  type="button"
+                  onClick={handleCancel}
+                  className="px-4 py-2 bg-gray-200 text-gray-800 rounded-md hover:bg-gray-300 focus:outline-none focus:ring-2 focus:ring-gray-400 focus:ring-offset-2 dark:bg-gray-700 dark:text-gray-200"
+                >
+                  Cancel
+                </button>
+              )}
               <button
                 type="submit"
                 disabled={isLoading}
@@ -161,10 +295,32 @@ export default function ScraperPage() {
           </div>
         )}
         
+        {isLoading && (streamedText || progress) && (
+          <div className="bg-white dark:bg-gray-800 rounded-lg shadow-lg p-6 mb-8">
+            <h2 className="text-xl font-semibold mb-4">Processing with Groq...</h2>
+            {progress && (
+              <p className="mb-4 text-sm text-gray-500 dark:text-gray-400">
+                {progress.stage === 'reduce' ? 'Merging partial results' : `Processed ${progress.completedChunks} of ${progress.totalChunks} chunks`} ({progress.usage.total_tokens} tokens)
+              </p>
+            )}
+            {streamedText && (
+              <div className="bg-gray-50 dark:bg-gray-900 p-4 rounded border border-gray-200 dark:border-gray-700">
+                <pre className="whitespace-pre-wrap text-sm">{streamedText}</pre>
+              </div>
+            )}
+          </div>
+        )}
+        
         {results && (
           <div className="bg-white dark:bg-gray-800 rounded-lg shadow-lg p-6 mb-8">
             <h2 className="text-xl font-semibold mb-4">Results</h2>
             
+            {results.engine && (
+              <p className="mb-4 text-sm text-gray-500 dark:text-gray-400">
+                Engine: {results.engine.used} ({results.engine.reason})
+              </p>
+            )}
+            
             <div className="mb-4">
               <h3 className="text-lg font-medium mb-2">Scraped Content</h3>
               <div className="bg-gray-50 dark:bg-gray-900 p-4 rounded border border-gray-200 dark:border-gray-700">
@@ -0,0 +1,17 @@
+// src/instrumentation.ts
+
+/**
+ * Start the in-process job scheduler when the Node server starts
+ * Cloudflare Workers cannot keep timers between requests and run jobs from a cron trigger instead (see worker.ts)
+ */
+export async function register() {
+  const onWorkers = typeof navigator !== 'undefined' && navigator.userAgent === 'Cloudflare-Workers';
+  
+  if (process.env.NEXT_RUNTIME !== 'nodejs' || onWorkers || process.env.SCHEDULER_ENABLED === 'false') {
+    return;
+  }
+  
+  const { startScheduler } = await import('./lib/scheduler/scheduler');
+  startScheduler(parseInt(process.env.SCHEDULER_INTERVAL_MS || '30000', 10));
+  console.log('In-process job scheduler started');
+}
@@ -0,0 +1,123 @@
+// src/lib/alerts/alertEngine.test.ts
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { evaluateAlerts } from './alertEngine';
+import { safeFetch } from '@/lib/security/networkGuard';
+import { setStorageAdapter } from '@/lib/storage/adapter';
+import { MemoryStorageAdapter } from '@/lib/storage/memoryAdapter';
+import { getAlertRule, saveAlertRule, type AlertRuleInput } from '@/lib/storage/alertStorage';
+import { recordSnapshot } from '@/lib/storage/snapshotStorage';
+
+vi.mock('@/lib/security/networkGuard', async importOriginal => ({
+  ...(await importOriginal<typeof import('@/lib/security/networkGuard')>()),
+  safeFetch: vi.fn(),
+}));
+
+const URL = 'https://example.com/products';
+
+/**
+ * Save an enabled rule of the test workspace
+ * @param fields Rule fields
+ * @returns Saved rule
+ */
+function addRule(fields: Partial<AlertRuleInput> & Pick<AlertRuleInput, 'condition'>) {
+  return saveAlertRule({ workspaceId: 'ws', name: 'Rule', cooldownMinutes: 0, enabled: true, ...fields });
+}
+
+/**
+ * Snapshot the page twice, with the price going from one value to another
+ * @param before Earlier price
+ * @param after Later price
+ * @returns Latest snapshot
+ */
+async function recordPriceChange(before: string, after: string) {
+  await recordSnapshot({ url: URL, body: 'Products', records: { items: [{ id: 1, price: before }] } });
+  const { snapshot, created } = await recordSnapshot({ url: URL, body: 'Products', records: { items: [{ id: 1, price: after }] } });
+  return { id: snapshot.id, changed: created };
+}
+
+describe('evaluateAlerts', () => {
+  beforeEach(() => {
+    setStorageAdapter(new MemoryStorageAdapter());
+    vi.useFakeTimers({ now: new Date('2024-01-01T10:00:00.000Z'), toFake: ['Date'] });
+  });
+  
+  afterEach(() => {
+    setStorageAdapter(null);
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+    vi.mocked(safeFetch).mockReset();
+  });
+  
+  it('fires field changes from the diff against the previous snapshot', async () => {
+    const rule = await addRule({ condition: { type: 'field_change', field: 'price', direction: 'decrease', thresholdPercent: 10 } });
+    const snapshot = await recordPriceChange('$100', '$80');
+    
+    const [alert] = await evaluateAlerts({ workspaceId: 'ws', url: URL, taskId: 'task_1', snapshot });
+    
+    expect(alert).toMatchObject({
+      ruleId: rule.id,
+      taskId: 'task_1',
+      message: 'price changed from $100 to $80 (-20%)',
+      matches: [{ field: 'price', before: '$100', after: '$80', changePercent: -20 }],
+      delivery: null,
+    });
+    expect(alert.diff).toMatchObject({ from: { version: 1 }, to: { id: snapshot.id, version: 2 }, records: { changed: 1 } });
+    expect((await getAlertRule(rule.id))!.lastTriggeredAt).toBe('2024-01-01T10:00:00.000Z');
+  });
+  
+  it('only checks enabled rules of the run\'s job, recipe and page', async () => {
+    const condition = { type: 'zero_matches' } as const;
+    const matching = await addRule({ condition, jobId: 'job_1', url: `${URL}#top` });
+    await addRule({ condition, enabled: false });
+    await addRule({ condition, jobId: 'job_2' });
+    await addRule({ condition, recipeId: 'recipe_1' });
+    await addRule({ condition, url: 'https://example.com/other' });
+    
+    const alerts = await evaluateAlerts({ workspaceId: 'ws', jobId: 'job_1', url: URL, extracted: { items: [] } });
+    
+    expect(alerts.map(alert => alert.ruleId)).toEqual([matching.id]);
+    expect(await evaluateAlerts({ workspaceId: 'other', url: URL, extracted: { items: [] } })).toEqual([]);
+  });
+  
+  it('keeps rules quiet until their cooldown ends', async () => {
+    await addRule({ condition: { type: 'zero_matches' }, cooldownMinutes: 60 });
+    const context = { workspaceId: 'ws', url: URL, extracted: { items: [] } };
+    
+    expect(await evaluateAlerts(context)).toHaveLength(1);
+    vi.advanceTimersByTime(59 * 60 * 1000);
+    expect(await evaluateAlerts(context)).toEqual([]);
+    vi.advanceTimersByTime(60 * 1000);
+    expect(await evaluateAlerts(context)).toHaveLength(1);
+  });
+  
+  it('fires mentions only for changed runs', async () => {
+    await addRule({ condition: { type: 'text_mentions', text: 'in stock', source: 'processed' } });
+    const processed = 'The blue widget is back in stock.';
+    
+    expect(await evaluateAlerts({ workspaceId: 'ws', url: URL, processed, snapshot: { id: 'snap', changed: false } })).toEqual([]);
+    
+    const [alert] = await evaluateAlerts({ workspaceId: 'ws', url: URL, processed, snapshot: { id: 'snap', changed: true } });
+    expect(alert.message).toBe('Summary mentions "in stock"');
+    expect(alert.matches).toEqual([{ excerpt: 'The blue widget is back in stock.' }]);
+  });
+  
+  it('delivers alerts of rules with a webhook right away', async () => {
+    await addRule({ condition: { type: 'zero_matches' }, webhookUrl: 'https://hooks.example.com/in' });
+    vi.mocked(safeFetch).mockResolvedValue(new Response('', { status: 200 }));
+    
+    const [alert] = await evaluateAlerts({ workspaceId: 'ws', url: URL, extracted: { items: [] } });
+    
+    expect(safeFetch).toHaveBeenCalledTimes(1);
+    expect(alert.delivery).toMatchObject({ status: 'delivered', attempts: 1 });
+  });
+  
+  it('leaves the delivery pending for the scheduler when the webhook fails', async () => {
+    await addRule({ condition: { type: 'zero_matches' }, webhookUrl: 'https://hooks.example.com/in' });
+    vi.mocked(safeFetch).mockRejectedValue(new Error('timeout'));
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    
+    const [alert] = await evaluateAlerts({ workspaceId: 'ws', url: URL, extracted: { items: [] } });
+    
+    expect(alert.delivery).toMatchObject({ status: 'pending', attempts: 1, lastError: 'timeout' });
+  });
+});
@@ -0,0 +1,144 @@
+// src/lib/alerts/alertEngine.ts
+import { evaluateCondition, describeMatches } from './conditions';
+import { deliverAlert } from './webhooks';
+import { normalizeUrl } from '@/lib/scraping/crawler';
+import type { DriftReport } from '@/lib/scraping/selectorDrift';
+import { getSnapshot, getPreviousSnapshot, diffSnapshots } from '@/lib/storage/snapshotStorage';
+import {
+  listAlertRules,
+  saveAlert,
+  updateAlertRule,
+  type Alert,
+  type AlertDiff,
+} from '@/lib/storage/alertStorage';
+
+/**
+ * Interface for a finished run that alert rules are checked against
+ */
+export interface AlertContext {
+  workspaceId: string;
+  jobId?: string;
+  recipeId?: string;
+  url: string;
+  // History task of the run
+  taskId?: string;
+  // Snapshot the run recorded; missing when none was, e.g. for drifted recipe runs
+  snapshot?: { id: string; changed: boolean };
+  extracted?: any;
+  drift?: DriftReport;
+  body?: string;
+  // Groq output as text
+  processed?: string;
+}
+
+// Limits that keep alerts and webhook payloads small; counts in the diff still cover everything
+const MAX_DIFF_HUNKS = 20;
+const MAX_DIFF_CHANGES = 100;
+const MAX_MATCHES = 50;
+
+/**
+ * Diff a run's snapshot against the previous one
+ * @param context Run context
+ * @returns Diff for alerts, and the full records diff for conditions
+ */
+async function buildDiff(context: AlertContext): Promise<{ diff: AlertDiff; records?: AlertDiff['records'] }> {
+  const diff: AlertDiff = context.drift?.drifted ? { drift: context.drift } : {};
+  
+  if (!context.snapshot?.changed) {
+    return { diff };
+  }
+  
+  const after = await getSnapshot(context.snapshot.id);
+  const before = after && await getPreviousSnapshot(after);
+  if (!after || !before) {
+    return { diff: after ? { ...diff, to: { id: after.id, version: after.version } } : diff };
+  }
+  
+  const { body, records } = diffSnapshots(before, after);
+  const truncated = body.hunks.length > MAX_DIFF_HUNKS || records.changes.length > MAX_DIFF_CHANGES;
+  
+  return {
+    diff: {
+      ...diff,
+      from: { id: before.id, version: before.version },
+      to: { id: after.id, version: after.version },
+      body: { ...body, hunks: body.hunks.slice(0, MAX_DIFF_HUNKS) },
+      records: { ...records, changes: records.changes.slice(0, MAX_DIFF_CHANGES) },
+      ...(truncated && { truncated }),
+    },
+    records,
+  };
+}
+
+/**
+ * Check the alert rules of a workspace against a finished run
+ * Fired alerts go to the notifications feed and, for rules with a webhook, are delivered right away;
+ * failed deliveries are retried by the scheduler
+ * @param context Run context
+ * @returns Alerts fired by the run
+ */
+export async function evaluateAlerts(context: AlertContext): Promise<Alert[]> {
+  const url = normalizeUrl(context.url) || context.url;
+  const rules = (await listAlertRules(context.workspaceId)).filter(rule => rule.enabled
+    && (!rule.jobId || rule.jobId === context.jobId)
+    && (!rule.recipeId || rule.recipeId === context.recipeId)
+    && (!rule.url || rule.url === url));
+  
+  if (rules.length === 0) {
+    return [];
+  }
+  
+  const { diff, records } = await buildDiff(context);
+  const now = new Date();
+  const fired: Alert[] = [];
+  
+  for (const rule of rules) {
+    // Rules that fired recently stay quiet
+    if (rule.lastTriggeredAt && now.getTime() - new Date(rule.lastTriggeredAt).getTime() < rule.cooldownMinutes * 60 * 1000) {
+      continue;
+    }
+    
+    const matches = evaluateCondition(rule.condition, {
+      changed: Boolean(context.snapshot?.changed),
+      records,
+      extracted: context.extracted,
+      drift: context.drift,
+      body: context.body,
+      processed: context.processed,
+    });
+    
+    if (matches.length === 0) {
+      continue;
+    }
+    
+    const alert = await saveAlert({
+      workspaceId: context.workspaceId,
+      ruleId: rule.id,
+      ruleName: rule.name,
+      condition: rule.condition,
+      jobId: context.jobId,
+      recipeId: context.recipeId,
+      url: context.url,
+      taskId: context.taskId,
+      message: describeMatches(rule.condition, matches),
+      matches: matches.slice(0, MAX_MATCHES),
+      diff,
+      delivery: rule.webhookUrl ? { status: 'pending', attempts: 0, nextAttemptAt: now.toISOString() } : null,
+    });
+    await updateAlertRule(rule.id, { lastTriggeredAt: now.toISOString() });
+    
+    if (rule.webhookUrl) {
+      try {
+        fired.push(await deliverAlert(alert, rule));
+        continue;
+      } catch (error) {
+        // The delivery stays pending, so the next scheduler tick tries again
+        console.error(`Error delivering alert ${alert.id}:`, error);
+      }
+    }
+    
+    fired.push(alert);
+  }
+  
+  return fired;
+}
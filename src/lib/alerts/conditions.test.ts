@@ -0,0 +1,139 @@
+// src/lib/alerts/conditions.test.ts
+import { describe, expect, it } from 'vitest';
+import { describeMatches, evaluateCondition, parseNumber } from './conditions';
+import type { JsonChange, JsonDiff } from '@/lib/data/diff';
+
+/**
+ * Build a diff from its changes
+ * @param changes Changes
+ * @returns JSON diff
+ */
+function diffOf(...changes: JsonChange[]): JsonDiff {
+  return {
+    added: changes.filter(change => change.type === 'added').length,
+    removed: changes.filter(change => change.type === 'removed').length,
+    changed: changes.filter(change => change.type === 'changed').length,
+    changes,
+  };
+}
+
+describe('parseNumber', () => {
+  it('reads numbers from scraped values', () => {
+    expect(parseNumber(1299.99)).toBe(1299.99);
+    expect(parseNumber('$1,299.99')).toBe(1299.99);
+    expect(parseNumber('12 %')).toBe(12);
+    expect(parseNumber('-3.5')).toBe(-3.5);
+    expect(parseNumber('Sold out')).toBeNull();
+    expect(parseNumber(Infinity)).toBeNull();
+    expect(parseNumber(null)).toBeNull();
+  });
+});
+
+describe('evaluateCondition', () => {
+  describe('field_change', () => {
+    const priceDrop = diffOf({ path: '$.items[id=1].price', type: 'changed', before: '$100', after: '$80' });
+    
+    it('fires when a field changes by more than the threshold in the direction', () => {
+      const matches = evaluateCondition(
+        { type: 'field_change', field: 'price', direction: 'decrease', thresholdPercent: 10 },
+        { changed: true, records: priceDrop }
+      );
+      
+      expect(matches).toEqual([{ path: '$.items[id=1].price', field: 'price', before: '$100', after: '$80', changePercent: -20 }]);
+    });
+    
+    it('ignores changes in the other direction, within the threshold or of other fields', () => {
+      const context = { changed: true, records: priceDrop };
+      
+      expect(evaluateCondition({ type: 'field_change', field: 'price', direction: 'increase', thresholdPercent: 0 }, context)).toEqual([]);
+      expect(evaluateCondition({ type: 'field_change', field: 'price', direction: 'any', thresholdPercent: 20 }, context)).toEqual([]);
+      expect(evaluateCondition({ type: 'field_change', field: 'pri', direction: 'any', thresholdPercent: 0 }, context)).toEqual([]);
+    });
+    
+    it('counts a value replaced at the same list position as a change', () => {
+      const records = diffOf(
+        { path: '$.price[0]', type: 'removed', before: '10' },
+        { path: '$.price[0]', type: 'added', after: '15' }
+      );
+      
+      const matches = evaluateCondition({ type: 'field_change', field: 'price', direction: 'any', thresholdPercent: 0 }, { changed: true, records });
+      
+      expect(matches).toEqual([{ path: '$.price[0]', field: 'price', before: '10', after: '15', changePercent: 50 }]);
+    });
+    
+    it('leaves out the percentage of a change from zero', () => {
+      const records = diffOf({ path: '$.stock', type: 'changed', before: 0, after: 5 });
+      
+      const [match] = evaluateCondition({ type: 'field_change', field: 'stock', direction: 'increase', thresholdPercent: 1000 }, { changed: true, records });
+      
+      expect(match).toEqual({ path: '$.stock', field: 'stock', before: 0, after: 5 });
+    });
+    
+    it('needs a changed run with a diff', () => {
+      const condition = { type: 'field_change', field: 'price', direction: 'any', thresholdPercent: 0 } as const;
+      
+      expect(evaluateCondition(condition, { changed: false, records: priceDrop })).toEqual([]);
+      expect(evaluateCondition(condition, { changed: true })).toEqual([]);
+    });
+  });
+  
+  it('finds added and removed items, optionally under one field', () => {
+    const records = diffOf(
+      { path: '$.items[id=3]', type: 'added', after: { id: 3 } },
+      { path: '$.links[2]', type: 'added', after: '/c' },
+      { path: '$.items[id=1]', type: 'removed', before: { id: 1 } },
+      { path: '$.meta', type: 'added', after: {} }
+    );
+    const context = { changed: true, records };
+    
+    expect(evaluateCondition({ type: 'item_added' }, context).map(match => match.path)).toEqual(['$.items[id=3]', '$.links[2]']);
+    expect(evaluateCondition({ type: 'item_added', field: 'items' }, context).map(match => match.path)).toEqual(['$.items[id=3]']);
+    expect(evaluateCondition({ type: 'item_removed' }, context)).toEqual([{ path: '$.items[id=1]', before: { id: 1 } }]);
+  });
+  
+  it('finds recipe fields without matches in the drift report', () => {
+    const drift = {
+      drifted: true,
+      fields: [
+        { field: 'title', reason: 'no_matches' as const, matches: 0, fillRate: 0 },
+        { field: 'price', reason: 'match_drop' as const, matches: 2, fillRate: 1 },
+      ],
+    };
+    
+    expect(evaluateCondition({ type: 'zero_matches' }, { changed: false, drift })).toEqual([{ field: 'title', after: 0 }]);
+    expect(evaluateCondition({ type: 'zero_matches', field: 'price' }, { changed: false, drift })).toEqual([]);
+  });
+  
+  it('finds empty lists in the records of runs without a recipe', () => {
+    const extracted = { products: [], links: ['/a'] };
+    
+    expect(evaluateCondition({ type: 'zero_matches' }, { changed: false, extracted })).toEqual([{ field: 'products', after: 0 }]);
+    expect(evaluateCondition({ type: 'zero_matches', field: 'links' }, { changed: false, extracted })).toEqual([]);
+    expect(evaluateCondition({ type: 'zero_matches' }, { changed: false, extracted: [] })).toEqual([{ after: 0 }]);
+    expect(evaluateCondition({ type: 'zero_matches' }, { changed: false })).toEqual([]);
+  });
+  
+  it('finds mentions in changed runs with an excerpt', () => {
+    const processed = `${'a '.repeat(100)}Now BACK IN STOCK today`;
+    
+    const [match] = evaluateCondition({ type: 'text_mentions', text: 'back in stock', source: 'processed' }, { changed: true, processed });
+    
+    expect(match.excerpt).toMatch(/^….*Now BACK IN STOCK today$/);
+    expect(evaluateCondition({ type: 'text_mentions', text: 'back in stock', source: 'processed' }, { changed: false, processed })).toEqual([]);
+    expect(evaluateCondition({ type: 'text_mentions', text: 'back in stock', source: 'body' }, { changed: true, processed })).toEqual([]);
+  });
+});
+
+describe('describeMatches', () => {
+  it('describes each kind of condition', () => {
+    expect(describeMatches(
+      { type: 'field_change', field: 'price', direction: 'any', thresholdPercent: 0 },
+      [{ before: '$100', after: '$120', changePercent: 20 }, { before: '$5', after: '$6' }]
+    )).toBe('price changed from $100 to $120 (+20%) (and 1 more)');
+    expect(describeMatches({ type: 'item_added', field: 'items' }, [{}, {}])).toBe('2 new item(s) in items');
+    expect(describeMatches({ type: 'item_removed' }, [{}])).toBe('1 item(s) removed');
+    expect(describeMatches({ type: 'zero_matches' }, [{ field: 'title' }, { field: 'price' }])).toBe('title, price returned zero matches');
+    expect(describeMatches({ type: 'zero_matches' }, [{ after: 0 }])).toBe('Extraction returned zero matches');
+    expect(describeMatches({ type: 'text_mentions', text: 'sale', source: 'body' }, [{ excerpt: 'sale' }])).toBe('Page mentions "sale"');
+  });
+});
@@ -0,0 +1,226 @@
+// src/lib/alerts/conditions.ts
+import type { JsonChange, JsonDiff } from '@/lib/data/diff';
+import type { DriftReport } from '@/lib/scraping/selectorDrift';
+import type { AlertCondition, AlertMatch } from '@/lib/storage/alertStorage';
+
+/**
+ * Interface for what a run produced, as seen by alert conditions
+ */
+export interface ConditionContext {
+  // Whether the run's snapshot differs from the previous one
+  changed: boolean;
+  // Diff against the previous snapshot; missing for the first snapshot of a page
+  records?: JsonDiff;
+  // Extracted records of the run
+  extracted?: any;
+  drift?: DriftReport;
+  // Page text and Groq output of the run
+  body?: string;
+  processed?: string;
+}
+
+// Characters shown on each side of a mentioned phrase
+const EXCERPT_RADIUS = 80;
+
+/**
+ * Check whether a diff path points at a field, e.g. $.items[id=3].price or $.price[0] for price
+ * @param path Diff path
+ * @param field Field name
+ * @returns Whether the path goes through the field
+ */
+function pathHasField(path: string, field: string): boolean {
+  const escaped = field.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  return new RegExp(`\\.${escaped}(?=$|\\[|\\.)`).test(path);
+}
+
+/**
+ * Read a number from a scraped value, such as 1299.99, "$1,299.99" or "12 %"
+ * @param value Scraped value
+ * @returns Number, or null if the value holds none
+ */
+export function parseNumber(value: any): number | null {
+  if (typeof value === 'number') {
+    return Number.isFinite(value) ? value : null;
+  }
+  if (typeof value !== 'string') {
+    return null;
+  }
+  
+  const match = value.replace(/,/g, '').match(/-?\d+(\.\d+)?/);
+  return match ? parseFloat(match[0]) : null;
+}
+
+/**
+ * Split the changes of a diff into value changes, added items and removed items
+ * Lists of plain values, like recipe fields, report a changed value as a removal and an
+ * addition at the same position, so those pairs count as changes
+ * @param diff JSON diff
+ * @returns Changes by kind
+ */
+function classifyChanges(diff: JsonDiff): { changed: JsonChange[]; added: JsonChange[]; removed: JsonChange[] } {
+  const added = new Map(diff.changes.filter(change => change.type === 'added').map(change => [change.path, change]));
+  const changed: JsonChange[] = diff.changes.filter(change => change.type === 'changed');
+  const removed: JsonChange[] = [];
+  
+  for (const change of diff.changes.filter(change => change.type === 'removed')) {
+    const partner = added.get(change.path);
+    if (partner) {
+      added.delete(change.path);
+      changed.push({ path: change.path, type: 'changed', before: change.before, after: partner.after });
+    } else {
+      removed.push(change);
+    }
+  }
+  
+  return { changed, added: Array.from(added.values()), removed };
+}
+
+/**
+ * Find where a phrase occurs in a text
+ * @param text Text to search
+ * @param phrase Phrase, matched case-insensitively
+ * @returns Excerpt around the first occurrence, or null
+ */
+function findMention(text: string, phrase: string): string | null {
+  const index = text.toLowerCase().indexOf(phrase.toLowerCase());
+  if (index < 0) {
+    return null;
+  }
+  
+  const start = Math.max(0, index - EXCERPT_RADIUS);
+  const end = Math.min(text.length, index + phrase.length + EXCERPT_RADIUS);
+  return `${start > 0 ? '…' : ''}${text.slice(start, end).replace(/\s+/g, ' ').trim()}${end < text.length ? '…' : ''}`;
+}
+
+/**
+ * Check a condition against a run
+ * Change conditions need a diff against an earlier snapshot; zero_matches is checked on every run,
+ * including drifted ones, which are not snapshotted
+ * @param condition Rule condition
+ * @param context What the run produced
+ * @returns Matches that fire the rule; empty when it does not fire
+ */
+export function evaluateCondition(condition: AlertCondition, context: ConditionContext): AlertMatch[] {
+  switch (condition.type) {
+    case 'field_change': {
+      if (!context.changed || !context.records) {
+        return [];
+      }
+      
+      const matches: AlertMatch[] = [];
+      for (const change of classifyChanges(context.records).changed) {
+        if (!pathHasField(change.path, condition.field)) {
+          continue;
+        }
+        
+        const before = parseNumber(change.before);
+        const after = parseNumber(change.after);
+        if (before === null || after === null || before === after) {
+          continue;
+        }
+        
+        // From zero, any increase or decrease is an infinite change
+        const changePercent = before === 0
+          ? (after > 0 ? Infinity : -Infinity)
+          : ((after - before) / Math.abs(before)) * 100;
+        const direction = changePercent > 0 ? 'increase' : 'decrease';
+        
+        if ((condition.direction === 'any' || condition.direction === direction)
+          && Math.abs(changePercent) > condition.thresholdPercent) {
+          matches.push({
+            path: change.path,
+            field: condition.field,
+            before: change.before,
+            after: change.after,
+            // JSON has no Infinity
+            ...(Number.isFinite(changePercent) && { changePercent: Math.round(changePercent * 100) / 100 }),
+          });
+        }
+      }
+      return matches;
+    }
+    
+    case 'item_added':
+    case 'item_removed': {
+      if (!context.changed || !context.records) {
+        return [];
+      }
+      
+      const { added, removed } = classifyChanges(context.records);
+      return (condition.type === 'item_added' ? added : removed)
+        // Items are array entries; new or dropped object keys are not
+        .filter(change => change.path.endsWith(']') && (!condition.field || pathHasField(change.path, condition.field)))
+        .map(change => ({ path: change.path, field: condition.field, before: change.before, after: change.after }));
+    }
+    
+    case 'zero_matches': {
+      if (context.drift) {
+        return context.drift.fields
+          .filter(field => field.reason === 'no_matches' && (!condition.field || field.field === condition.field))
+          .map(field => ({ field: field.field, after: 0 }));
+      }
+      
+      // Runs without a recipe look for empty lists in their records instead
+      const extracted = context.extracted;
+      if (Array.isArray(extracted)) {
+        return !condition.field && extracted.length === 0 ? [{ after: 0 }] : [];
+      }
+      if (!extracted || typeof extracted !== 'object') {
+        return [];
+      }
+      
+      return Object.entries(extracted)
+        .filter(([field, value]) => Array.isArray(value) && value.length === 0 && (!condition.field || field === condition.field))
+        .map(([field]) => ({ field, after: 0 }));
+    }
+    
+    case 'text_mentions': {
+      // Unchanged runs would repeat the same mention on every run
+      const text = condition.source === 'body' ? context.body : context.processed;
+      if (!context.changed || !text) {
+        return [];
+      }
+      
+      const excerpt = findMention(text, condition.text);
+      return excerpt ? [{ excerpt }] : [];
+    }
+  }
+}
+
+/**
+ * Format a value for an alert message
+ * @param value Value
+ * @returns Short text
+ */
+function formatValue(value: any): string {
+  const text = typeof value === 'string' ? value : JSON.stringify(value);
+  return text.length > 60 ? `${text.slice(0, 57)}...` : text;
+}
+
+/**
+ * Describe why a condition fired
+ * @param condition Rule condition
+ * @param matches Matches that fired it
+ * @returns One-line message for the feed and webhooks
+ */
+export function describeMatches(condition: AlertCondition, matches: AlertMatch[]): string {
+  const more = matches.length > 1 ? ` (and ${matches.length - 1} more)` : '';
+  const [first] = matches;
+  
+  switch (condition.type) {
+    case 'field_change': {
+      const percent = first.changePercent === undefined ? '' : ` (${first.changePercent > 0 ? '+' : ''}${first.changePercent}%)`;
+      return `${condition.field} changed from ${formatValue(first.before)} to ${formatValue(first.after)}${percent}${more}`;
+    }
+    case 'item_added':
+      return `${matches.length} new item(s)${condition.field ? ` in ${condition.field}` : ''}`;
+    case 'item_removed':
+      return `${matches.length} item(s) removed${condition.field ? ` from ${condition.field}` : ''}`;
+    case 'zero_matches':
+      return first.field
+        ? `${matches.map(match => match.field).join(', ')} returned zero matches`
+        : 'Extraction returned zero matches';
+    case 'text_mentions':
+      return `${condition.source === 'body' ? 'Page' : 'Summary'} mentions "${condition.text}"`;
+  }
+}
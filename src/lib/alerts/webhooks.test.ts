@@ -0,0 +1,188 @@
+// src/lib/alerts/webhooks.test.ts
+import crypto from 'crypto';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { deliverAlert, retryDueDeliveries, signWebhook } from './webhooks';
+import { safeFetch } from '@/lib/security/networkGuard';
+import { setStorageAdapter } from '@/lib/storage/adapter';
+import { MemoryStorageAdapter } from '@/lib/storage/memoryAdapter';
+import {
+  deleteAlertRule,
+  getAlert,
+  saveAlert,
+  saveAlertRule,
+  type Alert,
+  type AlertRule,
+} from '@/lib/storage/alertStorage';
+
+vi.mock('@/lib/security/networkGuard', async importOriginal => ({
+  ...(await importOriginal<typeof import('@/lib/security/networkGuard')>()),
+  safeFetch: vi.fn(),
+}));
+
+const NOW = new Date('2024-01-01T10:00:00.000Z');
+
+/**
+ * Answer the next webhook requests with a status
+ * @param status HTTP status
+ * @param body Response body
+ */
+function respond(status: number, body = '') {
+  vi.mocked(safeFetch).mockImplementation(async () => new Response(body, { status }));
+}
+
+/**
+ * Save a rule and an alert it fired, waiting for delivery
+ * @param webhookUrl Webhook of the rule
+ * @returns Rule and alert
+ */
+async function fireAlert(webhookUrl: string | null = 'https://hooks.example.com/in'): Promise<{ rule: AlertRule; alert: Alert }> {
+  const rule = await saveAlertRule({
+    workspaceId: 'ws',
+    name: 'Price drop',
+    condition: { type: 'item_added' },
+    webhookUrl: webhookUrl ?? undefined,
+    cooldownMinutes: 0,
+    enabled: true,
+  });
+  const alert = await saveAlert({
+    workspaceId: 'ws',
+    ruleId: rule.id,
+    ruleName: rule.name,
+    condition: rule.condition,
+    url: 'https://example.com/',
+    message: '1 new item(s)',
+    matches: [{ path: '$.items[0]' }],
+    diff: {},
+    delivery: { status: 'pending', attempts: 0, nextAttemptAt: NOW.toISOString() },
+  });
+  return { rule, alert };
+}
+
+describe('signWebhook', () => {
+  it('signs the timestamp and body with the secret', () => {
+    const expected = crypto.createHmac('sha256', 'whsec_1').update('1700000000.{"a":1}').digest('hex');
+    
+    expect(signWebhook('whsec_1', 1700000000, '{"a":1}')).toBe(`sha256=${expected}`);
+    expect(signWebhook('whsec_2', 1700000000, '{"a":1}')).not.toBe(`sha256=${expected}`);
+  });
+});
+
+describe('deliverAlert', () => {
+  beforeEach(() => {
+    setStorageAdapter(new MemoryStorageAdapter());
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+  
+  afterEach(() => {
+    setStorageAdapter(null);
+    vi.restoreAllMocks();
+    vi.mocked(safeFetch).mockReset();
+  });
+  
+  it('posts a signed payload without following redirects', async () => {
+    const { rule, alert } = await fireAlert();
+    respond(202);
+    
+    const delivered = await deliverAlert(alert, rule, NOW);
+    
+    const [url, init, redirects] = vi.mocked(safeFetch).mock.calls[0];
+    const headers = init!.headers as Record<string, string>;
+    expect(url).toBe('https://hooks.example.com/in');
+    expect(redirects).toBe(0);
+    expect(headers['X-Webhook-Id']).toBe(alert.id);
+    expect(headers['X-Webhook-Timestamp']).toBe('1704103200');
+    expect(headers['X-Webhook-Signature']).toBe(signWebhook(rule.webhookSecret, 1704103200, init!.body as string));
+    expect(JSON.parse(init!.body as string)).toMatchObject({ id: alert.id, rule: { id: rule.id }, message: '1 new item(s)' });
+    expect(delivered.delivery).toEqual({
+      status: 'delivered',
+      attempts: 1,
+      nextAttemptAt: null,
+      lastAttemptAt: NOW.toISOString(),
+      lastStatusCode: 202,
+      deliveredAt: NOW.toISOString(),
+    });
+    expect((await getAlert(alert.id))!.delivery!.status).toBe('delivered');
+  });
+  
+  it('schedules a retry after a failed attempt', async () => {
+    const { rule, alert } = await fireAlert();
+    respond(500, 'Internal error');
+    
+    const failed = await deliverAlert(alert, rule, NOW);
+    
+    expect(failed.delivery).toMatchObject({
+      status: 'pending',
+      attempts: 1,
+      nextAttemptAt: '2024-01-01T10:01:00.000Z',
+      lastStatusCode: 500,
+      lastError: 'Webhook returned 500: Internal error',
+    });
+  });
+  
+  it('records network errors as failed attempts', async () => {
+    const { rule, alert } = await fireAlert();
+    vi.mocked(safeFetch).mockRejectedValue(new Error('connect ECONNREFUSED'));
+    
+    const failed = await deliverAlert(alert, rule, NOW);
+    
+    expect(failed.delivery).toMatchObject({ status: 'pending', attempts: 1, lastError: 'connect ECONNREFUSED' });
+  });
+  
+  it('moves the delivery to the dead-letter list after the last retry', async () => {
+    const { rule, alert } = await fireAlert();
+    respond(500);
+    
+    const dead = await deliverAlert({ ...alert, delivery: { ...alert.delivery!, attempts: 5 } }, rule, NOW);
+    
+    expect(dead.delivery).toMatchObject({ status: 'dead', attempts: 6, nextAttemptAt: null, lastError: 'Webhook returned 500' });
+  });
+  
+  it('gives up on rules without a webhook', async () => {
+    const { rule, alert } = await fireAlert(null);
+    
+    const dead = await deliverAlert(alert, rule, NOW);
+    
+    expect(safeFetch).not.toHaveBeenCalled();
+    expect(dead.delivery).toEqual({ status: 'dead', attempts: 0, nextAttemptAt: null, lastError: 'Alert rule has no webhook' });
+  });
+});
+
+describe('retryDueDeliveries', () => {
+  beforeEach(() => {
+    setStorageAdapter(new MemoryStorageAdapter());
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+  
+  afterEach(() => {
+    setStorageAdapter(null);
+    vi.restoreAllMocks();
+    vi.mocked(safeFetch).mockReset();
+  });
+  
+  it('retries due deliveries and counts the outcomes', async () => {
+    const { alert: first } = await fireAlert();
+    const { alert: second } = await fireAlert();
+    vi.mocked(safeFetch)
+      .mockImplementationOnce(async () => new Response('', { status: 200 }))
+      .mockImplementationOnce(async () => new Response('', { status: 503 }));
+    
+    const pass = await retryDueDeliveries(NOW);
+    
+    expect(pass).toEqual({ attempted: 2, delivered: 1, dead: 0 });
+    expect([(await getAlert(first.id))!.delivery!.status, (await getAlert(second.id))!.delivery!.status].sort())
+      .toEqual(['delivered', 'pending']);
+    // The failed delivery waits for its retry
+    expect(await retryDueDeliveries(NOW)).toEqual({ attempted: 0, delivered: 0, dead: 0 });
+  });
+  
+  it('drops deliveries of deleted rules', async () => {
+    const { rule, alert } = await fireAlert();
+    await deleteAlertRule(rule.id, 'ws');
+    
+    const pass = await retryDueDeliveries(NOW);
+    
+    expect(pass).toEqual({ attempted: 1, delivered: 0, dead: 1 });
+    expect(safeFetch).not.toHaveBeenCalled();
+    expect((await getAlert(alert.id))!.delivery).toMatchObject({ status: 'dead', lastError: 'Alert rule was deleted' });
+  });
+});
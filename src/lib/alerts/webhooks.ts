@@ -0,0 +1,175 @@
+// src/lib/alerts/webhooks.ts
+import crypto from 'crypto';
+import { safeFetch } from '@/lib/security/networkGuard';
+import {
+  getAlertRule,
+  getDueDeliveries,
+  updateAlertDelivery,
+  type Alert,
+  type AlertRule,
+  type WebhookDelivery,
+} from '@/lib/storage/alertStorage';
+
+/**
+ * Interface for what a delivery pass did
+ */
+export interface DeliveryPass {
+  attempted: number;
+  delivered: number;
+  // Deliveries that ran out of attempts and moved to the dead-letter list
+  dead: number;
+}
+
+// Wait before each retry; after the last one the delivery is dead
+export const RETRY_DELAYS_MS = [60 * 1000, 5 * 60 * 1000, 30 * 60 * 1000, 2 * 60 * 60 * 1000, 12 * 60 * 60 * 1000];
+
+// Receivers must answer within this time
+const DELIVERY_TIMEOUT_MS = 10000;
+
+// Response bodies kept for debugging failed deliveries
+const MAX_ERROR_LENGTH = 500;
+
+/**
+ * Sign a webhook payload
+ * Receivers recompute the HMAC over `${timestamp}.${body}` with their secret and compare it in
+ * constant time; checking the timestamp as well rejects replayed requests
+ * @param secret Webhook secret of the rule
+ * @param timestamp Unix time in seconds, as sent in X-Webhook-Timestamp
+ * @param body Raw request body
+ * @returns Signature, as sent in X-Webhook-Signature
+ */
+export function signWebhook(secret: string, timestamp: number, body: string): string {
+  return `sha256=${crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')}`;
+}
+
+/**
+ * Build the webhook payload of an alert
+ * @param alert Alert
+ * @returns JSON body
+ */
+function toPayload(alert: Alert): string {
+  return JSON.stringify({
+    id: alert.id,
+    type: 'alert',
+    createdAt: alert.createdAt,
+    rule: { id: alert.ruleId, name: alert.ruleName, condition: alert.condition },
+    url: alert.url,
+    jobId: alert.jobId,
+    recipeId: alert.recipeId,
+    taskId: alert.taskId,
+    message: alert.message,
+    matches: alert.matches,
+    diff: alert.diff,
+  });
+}
+
+/**
+ * Send an alert to its rule's webhook once and record the attempt
+ * Failed attempts are retried later with growing delays, then moved to the dead-letter list.
+ * Deliveries are at least once, so receivers should ignore repeated X-Webhook-Id values
+ * @param alert Alert with a delivery
+ * @param rule Rule that fired it
+ * @param now Time of the attempt
+ * @returns Alert with the new delivery state
+ */
+export async function deliverAlert(alert: Alert, rule: AlertRule, now = new Date()): Promise<Alert> {
+  const attempts = (alert.delivery?.attempts || 0) + 1;
+  
+  if (!rule.webhookUrl) {
+    return updateAlertDelivery(alert, { status: 'dead', attempts: attempts - 1, nextAttemptAt: null, lastError: 'Alert rule has no webhook' });
+  }
+  
+  let statusCode: number | undefined;
+  let error: string | undefined;
+  
+  try {
+    const body = toPayload(alert);
+    const timestamp = Math.floor(now.getTime() / 1000);
+    
+    // Redirects are not followed, so a POST never ends up somewhere the rule did not name
+    const response = await safeFetch(rule.webhookUrl, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': 'GroqScraper-Webhooks/1.0',
+        'X-Webhook-Id': alert.id,
+        'X-Webhook-Timestamp': String(timestamp),
+        'X-Webhook-Signature': signWebhook(rule.webhookSecret, timestamp, body),
+      },
+      body,
+      signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS),
+    }, 0);
+    
+    statusCode = response.status;
+    if (!response.ok) {
+      const text = await response.text().catch(() => '');
+      error = `Webhook returned ${response.status}${text ? `: ${text.slice(0, MAX_ERROR_LENGTH)}` : ''}`;
+    }
+  } catch (fetchError) {
+    error = (fetchError as Error).message;
+  }
+  
+  const attemptedAt = now.toISOString();
+  let delivery: WebhookDelivery;
+  
+  if (!error) {
+    delivery = { status: 'delivered', attempts, nextAttemptAt: null, lastAttemptAt: attemptedAt, lastStatusCode: statusCode, deliveredAt: attemptedAt };
+  } else {
+    const delay = RETRY_DELAYS_MS[attempts - 1];
+    console.warn(`Webhook delivery of alert ${alert.id} failed (attempt ${attempts}): ${error}`);
+    delivery = {
+      status: delay === undefined ? 'dead' : 'pending',
+      attempts,
+      nextAttemptAt: delay === undefined ? null : new Date(now.getTime() + delay).toISOString(),
+      lastAttemptAt: attemptedAt,
+      lastStatusCode: statusCode,
+      lastError: error,
+    };
+  }
+  
+  return updateAlertDelivery(alert, delivery);
+}
+
+/**
+ * Retry webhook deliveries that are due
+ * Called on every scheduler tick
+ * @param now Current time
+ * @returns Counts of attempted, delivered and dead deliveries
+ */
+export async function retryDueDeliveries(now = new Date()): Promise<DeliveryPass> {
+  const pass: DeliveryPass = { attempted: 0, delivered: 0, dead: 0 };
+  
+  for (const alert of await getDueDeliveries(now)) {
+    const rule = await getAlertRule(alert.ruleId);
+    
+    // Deleting a rule or its webhook drops deliveries that are still waiting
+    const updated = rule
+      ? await deliverAlert(alert, rule, now)
+      : await updateAlertDelivery(alert, {
+        ...alert.delivery!,
+        status: 'dead',
+        nextAttemptAt: null,
+        lastError: 'Alert rule was deleted',
+      });
+    
+    pass.attempted++;
+    if (updated.delivery?.status === 'delivered') {
+      pass.delivered++;
+    } else if (updated.delivery?.status === 'dead') {
+      pass.dead++;
+    }
+  }
+  
+  return pass;
+}
+
+/**
+ * Send an alert again, e.g. from the dead-letter list once the receiver is fixed
+ * The alert gets a fresh set of retries
+ * @param alert Alert
+ * @param rule Rule that fired it
+ * @returns Alert with the new delivery state
+ */
+export async function redeliverAlert(alert: Alert, rule: AlertRule): Promise<Alert> {
+  return deliverAlert({ ...alert, delivery: { status: 'pending', attempts: 0, nextAttemptAt: null } }, rule);
+}
@@ -12,6 +12,8 @@ interface User {
   id: string;
   email: string;
   passwordHash: string;
+  // Workspaces the user belongs to; the first one applies when a request names none
+  workspaceIds?: string[];
   createdAt: string;
 }
 
@@ -111,6 +113,25 @@ export async function getCurrentUser(request: NextRequest): Promise<Omit<User, '
   return userWithoutPassword;
 }
 
+/**
+ * Set the workspaces a user belongs to
+ * @param email User email
+ * @param workspaceIds Workspace IDs, the user's default workspace first
+ * @returns Updated user, or null if the user does not exist
+ */
+export function setUserWorkspaces(email: string, workspaceIds: string[]): Omit<User, 'passwordHash'> | null {
+  const user = getCacheItem(`${USERS_CACHE_PREFIX}${email}`) as User | undefined;
+  if (!user) {
+    return null;
+  }
+  
+  const updated: User = { ...user, workspaceIds: Array.from(new Set(workspaceIds)) };
+  setCacheItem(`${USERS_CACHE_PREFIX}${email}`, updated, 30 * 24 * 60 * 60 * 1000); // 30 days
+  
+  const { passwordHash: _, ...userWithoutPassword } = updated;
+  return userWithoutPassword;
+}
+
 /**
  * Logout a user
  * @param request Next.js request
@@ -130,3 +151,41 @@ export function logoutUser(request: NextRequest): NextResponse {
   
   return response;
 }
+
+/**
+ * Check whether a user is an administrator
+ * @param user User object
+ * @returns Whether the user's email is listed in ADMIN_EMAILS
+ */
+export function isAdmin(user: Pick<User, 'email'> | null): boolean {
+  if (!user) {
+    return false;
+  }
+  
+  const adminEmails = process.env.ADMIN_EMAILS?.split(',').map(email => email.trim().toLowerCase()) || [];
+  return adminEmails.includes(user.email.toLowerCase());
+}
+
+/**
+ * Require the current user to be an administrator
+ * @param request Next.js request
+ * @returns The current user, and a 403 response if they are not an admin
+ */
+export async function requireAdmin(request: NextRequest): Promise<{
+  user: Omit<User, 'passwordHash'> | null;
+  response?: NextResponse;
+}> {
+  const user = await getCurrentUser(request);
+  
+  if (!isAdmin(user)) {
+    return {
+      user,
+      response: NextResponse.json(
+        { success: false, message: 'Admin access required' },
+        { status: 403 }
+      ),
+    };
+  }
+  
+  return { user };
+}
@@ -0,0 +1,60 @@
+// src/lib/auth/workspace.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUser, isAdmin } from './auth';
+
+export const DEFAULT_WORKSPACE_ID = 'default';
+
+/**
+ * Normalize a workspace ID
+ * @param workspaceId Raw workspace ID
+ * @returns Workspace ID, or the default workspace if it is empty or invalid
+ */
+export function normalizeWorkspaceId(workspaceId?: string | null): string {
+  const id = workspaceId?.trim().toLowerCase();
+  return id && /^[a-z0-9_-]{1,64}$/.test(id) ? id : DEFAULT_WORKSPACE_ID;
+}
+
+/**
+ * Get the workspaces a user belongs to
+ * @param user User, or null for anonymous requests
+ * @returns Workspace IDs, the user's default workspace first
+ */
+export function getUserWorkspaces(user: { workspaceIds?: string[] } | null): string[] {
+  const workspaceIds = (user?.workspaceIds || []).map(normalizeWorkspaceId);
+  return workspaceIds.length > 0 ? workspaceIds : [DEFAULT_WORKSPACE_ID];
+}
+
+/**
+ * Resolve the workspace a request belongs to from its session
+ * The x-workspace-id header picks one of the user's workspaces; without it the user's first workspace
+ * applies. Anonymous requests only get the default workspace, admins may pick any workspace
+ * @param request Next.js request
+ * @returns Workspace ID, and a 403 response if the user does not belong to the requested workspace
+ */
+export async function requireWorkspace(request: NextRequest): Promise<{
+  workspaceId: string;
+  response?: NextResponse;
+}> {
+  const user = await getCurrentUser(request);
+  const workspaceIds = getUserWorkspaces(user);
+  const requested = request.headers.get('x-workspace-id');
+  
+  if (!requested) {
+    return { workspaceId: workspaceIds[0] };
+  }
+  
+  const workspaceId = normalizeWorkspaceId(requested);
+  
+  // Invalid IDs are refused rather than quietly mapped to the default workspace
+  if (workspaceId !== requested.trim().toLowerCase() || (!workspaceIds.includes(workspaceId) && !isAdmin(user))) {
+    return {
+      workspaceId: workspaceIds[0],
+      response: NextResponse.json(
+        { success: false, message: user ? 'Not a member of this workspace' : 'Sign in to use this workspace' },
+        { status: 403 }
+      ),
+    };
+  }
+  
+  return { workspaceId };
+}
@@ -0,0 +1,124 @@
+// src/lib/data/diff.test.ts
+import { describe, expect, it } from 'vitest';
+import { ContentDiff } from './diff';
+
+describe('ContentDiff.canonicalize', () => {
+  it('sorts object keys at every level', () => {
+    expect(ContentDiff.canonicalize({ b: 1, a: [{ d: 1, c: 2 }] })).toBe('{"a":[{"c":2,"d":1}],"b":1}');
+  });
+  
+  it('serializes missing values as null', () => {
+    expect(ContentDiff.canonicalize(undefined)).toBe('null');
+  });
+});
+
+describe('ContentDiff.text', () => {
+  const before = ['a', 'b', 'c', 'd', 'e', 'f', 'g', 'h'].join('\n');
+  
+  it('counts lines and reports a changed line as a removal and an addition', () => {
+    const diff = ContentDiff.text(before, before.replace('d', 'D'), { context: 1 });
+    
+    expect(diff).toMatchObject({ added: 1, removed: 1, unchanged: 7 });
+    expect(diff.hunks).toEqual([
+      {
+        beforeStart: 3,
+        afterStart: 3,
+        lines: [
+          { type: 'equal', text: 'c' },
+          { type: 'removed', text: 'd' },
+          { type: 'added', text: 'D' },
+          { type: 'equal', text: 'e' },
+        ],
+      },
+    ]);
+  });
+  
+  it('keeps distant changes in separate hunks and merges close ones', () => {
+    const after = before.replace('a', 'A').replace('h', 'H');
+    
+    expect(ContentDiff.text(before, after, { context: 1 }).hunks.map(hunk => hunk.beforeStart)).toEqual([1, 7]);
+    expect(ContentDiff.text(before, after, { context: 3 }).hunks).toHaveLength(1);
+  });
+  
+  it('tracks line numbers in each text after insertions', () => {
+    const diff = ContentDiff.text(before, ['a', 'x', 'y', 'b', 'c', 'd', 'e', 'f', 'g', 'H'].join('\n'), { context: 0 });
+    
+    expect(diff.hunks.map(({ beforeStart, afterStart }) => ({ beforeStart, afterStart }))).toEqual([
+      { beforeStart: 2, afterStart: 2 },
+      { beforeStart: 8, afterStart: 10 },
+    ]);
+  });
+  
+  it('treats an empty text as having no lines', () => {
+    expect(ContentDiff.text('', 'a\nb')).toMatchObject({ added: 2, removed: 0, unchanged: 0 });
+    expect(ContentDiff.text(before, before).hunks).toEqual([]);
+  });
+});
+
+describe('ContentDiff.json', () => {
+  it('ignores the order of object keys', () => {
+    expect(ContentDiff.json({ a: 1, b: { c: 2, d: 3 } }, { b: { d: 3, c: 2 }, a: 1 }).changes).toEqual([]);
+  });
+  
+  it('reports added, removed and changed fields', () => {
+    const diff = ContentDiff.json({ title: 'Old', stale: true }, { title: 'New', price: 5 });
+    
+    expect(diff).toMatchObject({ added: 1, removed: 1, changed: 1 });
+    expect(diff.changes).toEqual([
+      { path: '$.title', type: 'changed', before: 'Old', after: 'New' },
+      { path: '$.stale', type: 'removed', before: true },
+      { path: '$.price', type: 'added', after: 5 },
+    ]);
+  });
+  
+  it('matches records by a detected key field', () => {
+    const diff = ContentDiff.json(
+      { items: [{ id: 1, price: 10 }, { id: 2, price: 5 }] },
+      { items: [{ id: 2, price: 6 }, { id: 3, price: 1 }] },
+    );
+    
+    expect(diff.changes).toEqual([
+      { path: '$.items[id=1]', type: 'removed', before: { id: 1, price: 10 } },
+      { path: '$.items[id=2].price', type: 'changed', before: 5, after: 6 },
+      { path: '$.items[id=3]', type: 'added', after: { id: 3, price: 1 } },
+    ]);
+  });
+  
+  it('uses a requested key only for arrays it identifies', () => {
+    const before = { items: [{ id: 1, sku: 'a', price: 10 }], tags: [{ id: 1, name: 'x' }, { id: 2, name: 'y' }] };
+    const after = { items: [{ id: 2, sku: 'a', price: 12 }], tags: [{ id: 2, name: 'y' }, { id: 1, name: 'z' }] };
+    
+    // tags has no sku, so its records are matched by content rather than by id
+    expect(ContentDiff.json(before, after, { key: 'sku' }).changes).toEqual([
+      { path: '$.items[sku=a].id', type: 'changed', before: 1, after: 2 },
+      { path: '$.items[sku=a].price', type: 'changed', before: 10, after: 12 },
+      { path: '$.tags[0].name', type: 'changed', before: 'x', after: 'z' },
+    ]);
+  });
+  
+  it('does not detect a key that is repeated', () => {
+    const diff = ContentDiff.json([{ id: 1, v: 'a' }, { id: 1, v: 'b' }], [{ id: 1, v: 'a' }]);
+    
+    expect(diff.changes).toEqual([{ path: '$[1]', type: 'removed', before: { id: 1, v: 'b' } }]);
+  });
+  
+  it('matches plain values by content, counting duplicates', () => {
+    expect(ContentDiff.json(['a', 'b', 'b', 'c'], ['c', 'b', 'a', 'd']).changes).toEqual([
+      { path: '$[2]', type: 'removed', before: 'b' },
+      { path: '$[3]', type: 'added', after: 'd' },
+    ]);
+  });
+  
+  it('pairs a record with the one that shares at least half of its fields', () => {
+    const diff = ContentDiff.json(
+      [{ name: 'Lamp', price: 10 }, { name: 'Desk', price: 90, color: 'oak' }],
+      [{ name: 'Lamp', price: 12 }, { name: 'Chair', price: 40, color: 'red' }],
+    );
+    
+    expect(diff.changes).toEqual([
+      { path: '$[0].price', type: 'changed', before: 10, after: 12 },
+      { path: '$[1]', type: 'removed', before: { name: 'Desk', price: 90, color: 'oak' } },
+      { path: '$[1]', type: 'added', after: { name: 'Chair', price: 40, color: 'red' } },
+    ]);
+  });
+});
@@ -0,0 +1,381 @@
+// src/lib/data/diff.ts
+
+/**
+ * Interface for one line of a text diff
+ */
+export interface DiffLine {
+  type: 'equal' | 'added' | 'removed';
+  text: string;
+}
+
+/**
+ * Interface for a run of changed lines with surrounding context
+ */
+export interface DiffHunk {
+  // 1-based line numbers where the hunk starts in each text
+  beforeStart: number;
+  afterStart: number;
+  lines: DiffLine[];
+}
+
+/**
+ * Interface for a line-based text diff
+ */
+export interface TextDiff {
+  added: number;
+  removed: number;
+  unchanged: number;
+  hunks: DiffHunk[];
+}
+
+/**
+ * Interface for one change between two JSON values
+ */
+export interface JsonChange {
+  // Location of the change, e.g. $.items[id=42].price or $.titles[3]
+  path: string;
+  type: 'added' | 'removed' | 'changed';
+  before?: any;
+  after?: any;
+}
+
+/**
+ * Interface for a structural JSON diff
+ */
+export interface JsonDiff {
+  added: number;
+  removed: number;
+  changed: number;
+  changes: JsonChange[];
+}
+
+/**
+ * Interface for diff options
+ */
+interface DiffOptions {
+  // Lines of context around text changes
+  context?: number;
+  // Field that identifies records in arrays; detected from common ID fields when omitted, and
+  // ignored for arrays where it is missing or repeated
+  key?: string;
+}
+
+// Fields that usually identify a record
+const KEY_CANDIDATES = ['id', 'sku', 'url', 'link', 'slug'];
+
+// Above this many line pairs, unmatched middles are reported as replaced wholesale
+const MAX_LCS_CELLS = 4000000;
+
+/**
+ * Compute text and structural diffs between scrape results
+ */
+export class ContentDiff {
+  /**
+   * Serialize a value as JSON with object keys sorted, so equal values serialize the same
+   * @param value Value to serialize
+   * @returns Canonical JSON string
+   */
+  static canonicalize(value: any): string {
+    if (Array.isArray(value)) {
+      return `[${value.map(item => this.canonicalize(item)).join(',')}]`;
+    }
+    if (value && typeof value === 'object') {
+      return `{${Object.keys(value).sort().map(key => `${JSON.stringify(key)}:${this.canonicalize(value[key])}`).join(',')}}`;
+    }
+    return JSON.stringify(value ?? null);
+  }
+  
+  /**
+   * Diff two texts line by line
+   * @param before Earlier text
+   * @param after Later text
+   * @param options Diff options
+   * @returns Line counts and hunks of changes with context
+   */
+  static text(before: string, after: string, options: DiffOptions = {}): TextDiff {
+    const { context = 3 } = options;
+    const lines = this.diffLines(before ? before.split('\n') : [], after ? after.split('\n') : []);
+    
+    // Line numbers in each text at every diff line
+    const positions: { before: number; after: number }[] = [];
+    let beforeLine = 1;
+    let afterLine = 1;
+    for (const line of lines) {
+      positions.push({ before: beforeLine, after: afterLine });
+      beforeLine += line.type === 'added' ? 0 : 1;
+      afterLine += line.type === 'removed' ? 0 : 1;
+    }
+    
+    // Each change shows `context` lines around it; overlapping ranges merge into one hunk
+    const ranges: [number, number][] = [];
+    lines.forEach((line, index) => {
+      if (line.type === 'equal') {
+        return;
+      }
+      const from = Math.max(0, index - context);
+      const to = Math.min(lines.length, index + context + 1);
+      const last = ranges[ranges.length - 1];
+      if (last && from <= last[1]) {
+        last[1] = to;
+      } else {
+        ranges.push([from, to]);
+      }
+    });
+    
+    const hunks: DiffHunk[] = ranges.map(([from, to]) => ({
+      beforeStart: positions[from].before,
+      afterStart: positions[from].after,
+      lines: lines.slice(from, to),
+    }));
+    
+    return {
+      added: lines.filter(line => line.type === 'added').length,
+      removed: lines.filter(line => line.type === 'removed').length,
+      unchanged: lines.filter(line => line.type === 'equal').length,
+      hunks,
+    };
+  }
+  
+  /**
+   * Diff two JSON values structurally
+   * Arrays of records are matched by a key field, by equal content, or by the most similar record
+   * @param before Earlier value
+   * @param after Later value
+   * @param options Diff options
+   * @returns Counts and list of added, removed and changed items
+   */
+  static json(before: any, after: any, options: DiffOptions = {}): JsonDiff {
+    const changes: JsonChange[] = [];
+    this.diffValues('$', before, after, options.key, changes);
+    
+    return {
+      added: changes.filter(change => change.type === 'added').length,
+      removed: changes.filter(change => change.type === 'removed').length,
+      changed: changes.filter(change => change.type === 'changed').length,
+      changes,
+    };
+  }
+  
+  /**
+   * Diff two lists of lines with a longest common subsequence
+   * @param before Earlier lines
+   * @param after Later lines
+   * @returns Diff lines in order
+   */
+  private static diffLines(before: string[], after: string[]): DiffLine[] {
+    // Common leading and trailing lines need no table
+    let start = 0;
+    while (start < before.length && start < after.length && before[start] === after[start]) {
+      start++;
+    }
+    let end = 0;
+    while (
+      end < before.length - start &&
+      end < after.length - start &&
+      before[before.length - 1 - end] === after[after.length - 1 - end]
+    ) {
+      end++;
+    }
+    
+    const a = before.slice(start, before.length - end);
+    const b = after.slice(start, after.length - end);
+    const middle: DiffLine[] = [];
+    
+    if (a.length * b.length > MAX_LCS_CELLS) {
+      middle.push(...a.map(text => ({ type: 'removed' as const, text })), ...b.map(text => ({ type: 'added' as const, text })));
+    } else {
+      // lengths[i * (m + 1) + j] is the LCS length of a[i:] and b[j:]
+      const m = b.length;
+      const lengths = new Uint32Array((a.length + 1) * (m + 1));
+      for (let i = a.length - 1; i >= 0; i--) {
+        for (let j = m - 1; j >= 0; j--) {
+          lengths[i * (m + 1) + j] = a[i] === b[j]
+            ? lengths[(i + 1) * (m + 1) + j + 1] + 1
+            : Math.max(lengths[(i + 1) * (m + 1) + j], lengths[i * (m + 1) + j + 1]);
+        }
+      }
+      
+      let i = 0;
+      let j = 0;
+      while (i < a.length && j < m) {
+        if (a[i] === b[j]) {
+          middle.push({ type: 'equal', text: a[i] });
+          i++;
+          j++;
+        } else if (lengths[(i + 1) * (m + 1) + j] >= lengths[i * (m + 1) + j + 1]) {
+          middle.push({ type: 'removed', text: a[i++] });
+        } else {
+          middle.push({ type: 'added', text: b[j++] });
+        }
+      }
+      middle.push(...a.slice(i).map(text => ({ type: 'removed' as const, text })), ...b.slice(j).map(text => ({ type: 'added' as const, text })));
+    }
+    
+    return [
+      ...before.slice(0, start).map(text => ({ type: 'equal' as const, text })),
+      ...middle,
+      ...before.slice(before.length - end).map(text => ({ type: 'equal' as const, text })),
+    ];
+  }
+  
+  /**
+   * Diff two values at a path and collect the changes
+   * @param path Path of the values
+   * @param before Earlier value
+   * @param after Later value
+   * @param key Record key field for arrays
+   * @param changes Collected changes
+   */
+  private static diffValues(path: string, before: any, after: any, key: string | undefined, changes: JsonChange[]) {
+    if (before === undefined && after === undefined) {
+      return;
+    }
+    if (before === undefined) {
+      changes.push({ path, type: 'added', after });
+      return;
+    }
+    if (after === undefined) {
+      changes.push({ path, type: 'removed', before });
+      return;
+    }
+    
+    if (Array.isArray(before) && Array.isArray(after)) {
+      this.diffArrays(path, before, after, key, changes);
+      return;
+    }
+    
+    if (this.isRecord(before) && this.isRecord(after)) {
+      const keys = Array.from(new Set([...Object.keys(before), ...Object.keys(after)]));
+      for (const name of keys) {
+        this.diffValues(`${path}.${name}`, before[name], after[name], key, changes);
+      }
+      return;
+    }
+    
+    if (this.canonicalize(before) !== this.canonicalize(after)) {
+      changes.push({ path, type: 'changed', before, after });
+    }
+  }
+  
+  /**
+   * Diff two arrays, matching items by key, by equal content, then by similarity
+   * A requested key only applies to arrays it identifies; other arrays are matched by content
+   * @param path Path of the arrays
+   * @param before Earlier array
+   * @param after Later array
+   * @param key Record key field
+   * @param changes Collected changes
+   */
+  private static diffArrays(path: string, before: any[], after: any[], key: string | undefined, changes: JsonChange[]) {
+    const recordKey = this.detectKey(before, after, key ? [key] : KEY_CANDIDATES);
+    
+    if (recordKey) {
+      const earlier = new Map(before.map(item => [String(item[recordKey]), item]));
+      const later = new Map(after.map(item => [String(item[recordKey]), item]));
+      
+      for (const [id, item] of Array.from(earlier)) {
+        this.diffValues(`${path}[${recordKey}=${id}]`, item, later.get(id), key, changes);
+      }
+      for (const [id, item] of Array.from(later)) {
+        if (!earlier.has(id)) {
+          changes.push({ path: `${path}[${recordKey}=${id}]`, type: 'added', after: item });
+        }
+      }
+      return;
+    }
+    
+    // Items present in both, counting duplicates, are unchanged
+    const remaining = new Map<string, number[]>();
+    after.forEach((item, index) => {
+      const serialized = this.canonicalize(item);
+      remaining.set(serialized, [...(remaining.get(serialized) || []), index]);
+    });
+    
+    const removed: number[] = [];
+    before.forEach((item, index) => {
+      const matches = remaining.get(this.canonicalize(item));
+      if (matches && matches.length > 0) {
+        matches.shift();
+      } else {
+        removed.push(index);
+      }
+    });
+    const added = new Set(Array.from(remaining.values()).flat());
+    
+    for (const index of removed) {
+      // A record that lost some fields but kept most is a change, not a removal and an addition
+      const partner = this.mostSimilar(before[index], after, added);
+      if (partner !== null) {
+        added.delete(partner);
+        this.diffValues(`${path}[${index}]`, before[index], after[partner], key, changes);
+      } else {
+        changes.push({ path: `${path}[${index}]`, type: 'removed', before: before[index] });
+      }
+    }
+    for (const index of Array.from(added).sort((a, b) => a - b)) {
+      changes.push({ path: `${path}[${index}]`, type: 'added', after: after[index] });
+    }
+  }
+  
+  /**
+   * Find the unmatched record that shares at least half of a record's field values
+   * @param record Earlier record
+   * @param candidates Later items
+   * @param available Indexes of later items that are still unmatched
+   * @returns Index of the most similar record, or null
+   */
+  private static mostSimilar(record: any, candidates: any[], available: Set<number>): number | null {
+    if (!this.isRecord(record)) {
+      return null;
+    }
+    
+    let best: number | null = null;
+    let bestShared = 0;
+    const fields = Object.keys(record);
+    
+    for (const index of Array.from(available)) {
+      const candidate = candidates[index];
+      if (!this.isRecord(candidate)) {
+        continue;
+      }
+      const shared = fields.filter(field => this.canonicalize(record[field]) === this.canonicalize(candidate[field])).length;
+      const total = new Set([...fields, ...Object.keys(candidate)]).size;
+      if (shared > bestShared && shared * 2 >= total) {
+        best = index;
+        bestShared = shared;
+      }
+    }
+    
+    return best;
+  }
+  
+  /**
+   * Find a field that identifies every record in both arrays
+   * @param before Earlier records
+   * @param after Later records
+   * @param candidates Fields to try, in order
+   * @returns Key field, or undefined if there is none
+   */
+  private static detectKey(before: any[], after: any[], candidates: string[]): string | undefined {
+    const items = [...before, ...after];
+    if (items.length === 0 || !items.every(item => this.isRecord(item))) {
+      return undefined;
+    }
+    
+    // The key must be present and unique within each array
+    const identifies = (list: any[], field: string) =>
+      list.every(item => ['string', 'number'].includes(typeof item[field])) &&
+      new Set(list.map(item => String(item[field]))).size === list.length;
+    
+    return candidates.find(field => identifies(before, field) && identifies(after, field));
+  }
+  
+  /**
+   * Check whether a value is a plain object
+   * @param value Value
+   * @returns Whether the value is a non-array object
+   */
+  private static isRecord(value: any): value is Record<string, any> {
+    return Boolean(value) && typeof value === 'object' && !Array.isArray(value);
+  }
+}
@@ -0,0 +1,336 @@
+// src/lib/data/markdown.ts
+import * as cheerio from 'cheerio';
+import type { Article } from '@/lib/scraping/readability';
+
+/**
+ * Interface for Markdown conversion options
+ */
+interface MarkdownOptions {
+  baseUrl?: string;
+  includeImages?: boolean;
+}
+
+const BLOCK_TAGS = new Set([
+  'address', 'article', 'aside', 'blockquote', 'body', 'dd', 'details', 'div', 'dl', 'dt', 'fieldset', 'figcaption',
+  'figure', 'footer', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'header', 'hr', 'li', 'main', 'ol', 'p', 'pre', 'section',
+  'summary', 'table', 'ul',
+]);
+
+const SKIPPED_TAGS = new Set(['head', 'script', 'style', 'noscript', 'template', 'iframe', 'svg', 'canvas', 'button', 'select', 'textarea', 'input']);
+
+/**
+ * Convert HTML to Markdown for LLM input and export
+ */
+export class MarkdownConverter {
+  /**
+   * Convert HTML to Markdown
+   * @param html HTML content
+   * @param options Conversion options
+   * @returns Markdown string
+   */
+  static fromHtml(html: string, options: MarkdownOptions = {}): string {
+    try {
+      const $ = cheerio.load(html);
+      const root = $('body').length > 0 ? $('body').get(0) : $.root().get(0);
+      
+      return this.normalize(this.renderChildren(root, options));
+    } catch (error) {
+      console.error('Error converting HTML to Markdown:', error);
+      throw new Error(`Failed to convert HTML to Markdown: ${(error as Error).message}`);
+    }
+  }
+  
+  /**
+   * Convert an extracted article to Markdown, with its metadata above the body
+   * @param article Main article from readability extraction
+   * @param options Conversion options
+   * @returns Markdown string
+   */
+  static fromArticle(article: Article, options: MarkdownOptions = {}): string {
+    try {
+      const body = this.fromHtml(article.html, options);
+      const parts: string[] = [];
+      
+      // The article HTML usually starts with its own title
+      if (article.title && !body.startsWith(`# ${article.title}`)) {
+        parts.push(`# ${article.title}`);
+      }
+      
+      const byline = [article.byline && `By ${article.byline}`, article.publishedAt].filter(Boolean).join(' · ');
+      if (byline) {
+        parts.push(`_${byline}_`);
+      }
+      
+      if (article.leadImage && options.includeImages !== false && !body.includes(article.leadImage)) {
+        parts.push(`![](${article.leadImage})`);
+      }
+      
+      parts.push(body);
+      return parts.join('\n\n');
+    } catch (error) {
+      console.error('Error converting article to Markdown:', error);
+      throw new Error(`Failed to convert article to Markdown: ${(error as Error).message}`);
+    }
+  }
+  
+  /**
+   * Render all children of a node
+   * @param node DOM node
+   * @param options Conversion options
+   * @returns Markdown fragment
+   */
+  private static renderChildren(node: any, options: MarkdownOptions): string {
+    return (node.children || []).map((child: any) => this.renderNode(child, options)).join('');
+  }
+  
+  /**
+   * Render a single node
+   * @param node DOM node
+   * @param options Conversion options
+   * @returns Markdown fragment; block elements are surrounded by blank lines
+   */
+  private static renderNode(node: any, options: MarkdownOptions): string {
+    if (node.type === 'text') {
+      return this.escape(node.data.replace(/\s+/g, ' '));
+    }
+    
+    if (node.type !== 'tag' || SKIPPED_TAGS.has(node.name)) {
+      return '';
+    }
+    
+    const tag: string = node.name;
+    const block = (content: string) => content.trim() ? `\n\n${content.trim()}\n\n` : '';
+    
+    switch (tag) {
+      case 'h1':
+      case 'h2':
+      case 'h3':
+      case 'h4':
+      case 'h5':
+      case 'h6':
+        return block(`${'#'.repeat(parseInt(tag[1], 10))} ${this.inline(this.renderChildren(node, options))}`);
+      
+      case 'p':
+        return block(this.renderChildren(node, options));
+      
+      case 'br':
+        return '\n';
+      
+      case 'hr':
+        return block('---');
+      
+      case 'strong':
+      case 'b': {
+        const content = this.renderChildren(node, options).trim();
+        return content ? `**${content}**` : '';
+      }
+      
+      case 'em':
+      case 'i': {
+        const content = this.renderChildren(node, options).trim();
+        return content ? `_${content}_` : '';
+      }
+      
+      case 'del':
+      case 's': {
+        const content = this.renderChildren(node, options).trim();
+        return content ? `~~${content}~~` : '';
+      }
+      
+      case 'code': {
+        const text = this.textOf(node);
+        const fence = text.includes('`') ? '``' : '`';
+        return text ? `${fence}${text}${fence}` : '';
+      }
+      
+      case 'pre':
+        return block(this.renderCodeBlock(node));
+      
+      case 'a':
+        return this.renderLink(node, options);
+      
+      case 'img':
+        return this.renderImage(node, options);
+      
+      case 'ul':
+      case 'ol':
+        return block(this.renderList(node, options));
+      
+      case 'blockquote':
+        return block(
+          this.normalize(this.renderChildren(node, options))
+            .split('\n')
+            .map(line => line ? `> ${line}` : '>')
+            .join('\n')
+        );
+      
+      case 'table':
+        return block(this.renderTable(node, options));
+      
+      default:
+        if (BLOCK_TAGS.has(tag)) {
+          return block(this.renderChildren(node, options));
+        }
+        return this.renderChildren(node, options);
+    }
+  }
+  
+  /**
+   * Render a link with its URL resolved against the page URL
+   * @param node Anchor node
+   * @param options Conversion options
+   * @returns Markdown link, or the link text for in-page and script links
+   */
+  private static renderLink(node: any, options: MarkdownOptions): string {
+    const text = this.inline(this.renderChildren(node, options));
+    const href = node.attribs?.href?.trim();
+    
+    if (!href || href.startsWith('#') || /^javascript:/i.test(href) || !text) {
+      return text;
+    }
+    
+    return `[${text}](${this.resolve(href, options.baseUrl)})`;
+  }
+  
+  /**
+   * Render an image with its URL resolved against the page URL
+   * @param node Image node
+   * @param options Conversion options
+   * @returns Markdown image, or nothing for inline data images
+   */
+  private static renderImage(node: any, options: MarkdownOptions): string {
+    const src = node.attribs?.src?.trim();
+    
+    // Inline data URIs would only waste tokens
+    if (options.includeImages === false || !src || src.startsWith('data:')) {
+      return '';
+    }
+    
+    const alt = (node.attribs?.alt || '').replace(/[\[\]]/g, '');
+    return `![${alt}](${this.resolve(src, options.baseUrl)})`;
+  }
+  
+  /**
+   * Render a fenced code block, keeping the language hint if there is one
+   * @param node Pre node
+   * @returns Fenced code block
+   */
+  private static renderCodeBlock(node: any): string {
+    const code = (node.children || []).find((child: any) => child.type === 'tag' && child.name === 'code');
+    const className = `${node.attribs?.class || ''} ${code?.attribs?.class || ''}`;
+    const language = className.match(/(?:language|lang)-([\w+-]+)/)?.[1] || '';
+    const text = this.textOf(node).replace(/^\n+|\s+$/g, '');
+    
+    // Use a longer fence when the code itself contains one
+    const fence = text.includes('```') ? '````' : '```';
+    return `${fence}${language}\n${text}\n${fence}`;
+  }
+  
+  /**
+   * Render a list, indenting nested content under each item
+   * @param node List node
+   * @param options Conversion options
+   * @returns Markdown list
+   */
+  private static renderList(node: any, options: MarkdownOptions): string {
+    const ordered = node.name === 'ol';
+    const start = parseInt(node.attribs?.start, 10) || 1;
+    const items = (node.children || []).filter((child: any) => child.type === 'tag' && child.name === 'li');
+    
+    return items.map((item: any, index: number) => {
+      const marker = ordered ? `${start + index}. ` : '- ';
+      const content = this.normalize(this.renderChildren(item, options)).replace(/\n{2,}/g, '\n');
+      const [first, ...rest] = content.split('\n');
+      
+      return [marker + first, ...rest.map(line => ' '.repeat(marker.length) + line)].join('\n');
+    }).join('\n');
+  }
+  
+  /**
+   * Render a table as a pipe table, using the first row as the header
+   * @param node Table node
+   * @param options Conversion options
+   * @returns Markdown table
+   */
+  private static renderTable(node: any, options: MarkdownOptions): string {
+    const $ = cheerio.load('');
+    const rows = $(node)
+      .find('tr')
+      .filter((i, tr) => $(tr).closest('table').get(0) === node)
+      .toArray()
+      .map(tr => $(tr)
+        .children('th, td')
+        .toArray()
+        .map(cell => this.inline(this.renderChildren(cell, options)).replace(/\|/g, '\\|'))
+      )
+      .filter(cells => cells.length > 0);
+    
+    if (rows.length === 0) {
+      return '';
+    }
+    
+    const columns = Math.max(...rows.map(cells => cells.length));
+    const line = (cells: string[]) => `| ${Array.from({ length: columns }, (_, i) => cells[i] || '').join(' | ')} |`;
+    const [header, ...body] = rows;
+    
+    return [line(header), line(Array(columns).fill('---')), ...body.map(line)].join('\n');
+  }
+  
+  /**
+   * Get the raw text of a node, keeping whitespace
+   * @param node DOM node
+   * @returns Text content
+   */
+  private static textOf(node: any): string {
+    if (node.type === 'text') {
+      return node.data;
+    }
+    return (node.children || []).map((child: any) => this.textOf(child)).join('');
+  }
+  
+  /**
+   * Flatten a fragment onto one line
+   * @param markdown Markdown fragment
+   * @returns Single-line fragment
+   */
+  private static inline(markdown: string): string {
+    return markdown.replace(/\s*\n\s*/g, ' ').trim();
+  }
+  
+  /**
+   * Escape characters that would otherwise start Markdown formatting
+   * @param text Plain text
+   * @returns Escaped text
+   */
+  private static escape(text: string): string {
+    return text.replace(/([\\`*])/g, '\\$1');
+  }
+  
+  /**
+   * Resolve a URL against the page URL
+   * @param url URL from the page
+   * @param baseUrl Page URL
+   * @returns Absolute URL, or the URL unchanged if it cannot be resolved
+   */
+  private static resolve(url: string, baseUrl?: string): string {
+    try {
+      return new URL(url, baseUrl).toString();
+    } catch {
+      return url;
+    }
+  }
+  
+  /**
+   * Tidy whitespace: strip trailing spaces and collapse runs of blank lines
+   * @param markdown Markdown string
+   * @returns Normalized Markdown
+   */
+  private static normalize(markdown: string): string {
+    return markdown
+      .split('\n')
+      .map(line => line.replace(/[ \t]+$/, ''))
+      .join('\n')
+      .replace(/\n{3,}/g, '\n\n')
+      .trim();
+  }
+}
@@ -0,0 +1,71 @@
+// src/lib/groq/chunker.test.ts
+import { describe, expect, it } from 'vitest';
+import { MIN_CHUNK_TOKENS, chunkContent, estimateTokens } from './chunker';
+
+// Forty distinct paragraphs of about 30 tokens each
+const paragraphs = Array.from({ length: 40 }, (_, i) => `Paragraph ${i}: ${'lorem ipsum '.repeat(9).trim()}.`);
+const text = paragraphs.join('\n\n');
+
+/**
+ * Get the paragraphs a chunk contains
+ * @param chunkText Chunk text
+ * @returns Paragraphs in order
+ */
+function paragraphsOf(chunkText: string): string[] {
+  return chunkText.split('\n\n');
+}
+
+describe('estimateTokens', () => {
+  it('counts about four characters per token', () => {
+    expect(estimateTokens('')).toBe(0);
+    expect(estimateTokens('abcdefghijklmnopqrst')).toBe(5);
+  });
+  
+  it('uses the word count for text of short words', () => {
+    expect(estimateTokens('a b c d e f g h i j')).toBe(13);
+  });
+});
+
+describe('chunkContent', () => {
+  it('keeps text that fits in one chunk', () => {
+    expect(chunkContent('Short text', { maxTokens: 1000 })).toEqual([{ index: 0, text: 'Short text', tokens: estimateTokens('Short text') }]);
+  });
+  
+  it('splits on paragraphs, stays within the budget and covers all content in order', () => {
+    const chunks = chunkContent(text, { maxTokens: 600, overlapTokens: 0 });
+    
+    expect(chunks.length).toBeGreaterThan(1);
+    expect(chunks.map(chunk => chunk.index)).toEqual(chunks.map((_, index) => index));
+    for (const chunk of chunks) {
+      expect(chunk.tokens).toBeLessThanOrEqual(600);
+    }
+    expect(chunks.flatMap(chunk => paragraphsOf(chunk.text))).toEqual(paragraphs);
+  });
+  
+  it('repeats the end of each chunk at the start of the next', () => {
+    const overlap = estimateTokens(paragraphs[0]) * 2;
+    const chunks = chunkContent(text, { maxTokens: 600, overlapTokens: overlap });
+    
+    for (let i = 1; i < chunks.length; i++) {
+      expect(paragraphsOf(chunks[i].text).slice(0, 2)).toEqual(paragraphsOf(chunks[i - 1].text).slice(-2));
+    }
+  });
+  
+  it('raises chunks to the minimum size', () => {
+    const chunks = chunkContent(text, { maxTokens: 50, overlapTokens: 0 });
+    
+    expect(chunks[0].tokens).toBeGreaterThan(MIN_CHUNK_TOKENS - estimateTokens(paragraphs[0]));
+    expect(chunks[0].tokens).toBeLessThanOrEqual(MIN_CHUNK_TOKENS);
+  });
+  
+  it('keeps the overlap below half a chunk so every chunk adds new content', () => {
+    const chunks = chunkContent(text, { maxTokens: MIN_CHUNK_TOKENS, overlapTokens: 10000 });
+    
+    for (let i = 1; i < chunks.length; i++) {
+      const previous = new Set(paragraphsOf(chunks[i - 1].text));
+      const repeated = paragraphsOf(chunks[i].text).filter(paragraph => previous.has(paragraph));
+      expect(repeated.reduce((sum, paragraph) => sum + estimateTokens(paragraph), 0)).toBeLessThan(MIN_CHUNK_TOKENS / 2);
+    }
+    expect(paragraphsOf(chunks[chunks.length - 1].text).pop()).toBe(paragraphs[paragraphs.length - 1]);
+  });
+});
@@ -0,0 +1,132 @@
+// src/lib/groq/chunker.ts
+
+// Smallest chunk size; smaller chunks cost more in repeated instructions than they save
+export const MIN_CHUNK_TOKENS = 500;
+
+/**
+ * Interface for chunking options
+ */
+export interface ChunkOptions {
+  maxTokens?: number;
+  overlapTokens?: number;
+}
+
+/**
+ * Interface for a chunk of content
+ */
+export interface ContentChunk {
+  index: number;
+  text: string;
+  tokens: number;
+}
+
+/**
+ * Estimate the number of tokens in a text
+ * Uses the common ~4 characters per token heuristic, with a floor based on word count for short-word text
+ * @param text Text to measure
+ * @returns Estimated token count
+ */
+export function estimateTokens(text: string): number {
+  if (!text) {
+    return 0;
+  }
+  const words = text.trim().split(/\s+/).length;
+  return Math.max(Math.ceil(text.length / 4), Math.ceil(words * 1.3));
+}
+
+/**
+ * Split text into pieces on the most structural boundary that makes them small enough
+ * Tries Markdown headings, then blank lines, then lines, then sentences, then words
+ * @param text Text to split
+ * @param maxTokens Maximum tokens per piece
+ * @returns Pieces in order
+ */
+function splitStructurally(text: string, maxTokens: number): string[] {
+  if (estimateTokens(text) <= maxTokens) {
+    return [text];
+  }
+  
+  const separators = [/\n(?=#{1,6} )/, /\n{2,}/, /\n/, /(?<=[.!?])\s+/, /\s+/];
+  
+  for (const separator of separators) {
+    const parts = text.split(separator).filter(part => part.trim());
+    if (parts.length > 1) {
+      return parts.flatMap(part => splitStructurally(part, maxTokens));
+    }
+  }
+  
+  // A single unbroken run of characters, cut it by length
+  const maxChars = maxTokens * 4;
+  const pieces: string[] = [];
+  for (let i = 0; i < text.length; i += maxChars) {
+    pieces.push(text.slice(i, i + maxChars));
+  }
+  return pieces;
+}
+
+/**
+ * Take the trailing pieces of a chunk to repeat at the start of the next one
+ * @param pieces Pieces of the previous chunk
+ * @param overlapTokens Token budget for the overlap
+ * @returns Overlap pieces
+ */
+function takeOverlap(pieces: string[], overlapTokens: number): string[] {
+  const overlap: string[] = [];
+  let tokens = 0;
+  
+  for (let i = pieces.length - 1; i >= 0; i--) {
+    const pieceTokens = estimateTokens(pieces[i]);
+    if (tokens + pieceTokens > overlapTokens) {
+      break;
+    }
+    overlap.unshift(pieces[i]);
+    tokens += pieceTokens;
+  }
+  
+  return overlap;
+}
+
+/**
+ * Split content into overlapping chunks on structural boundaries
+ * Chunks are at least MIN_CHUNK_TOKENS long, and the overlap is kept below half a chunk so
+ * every chunk adds new content
+ * @param text Content to split, usually Markdown
+ * @param options Chunking options
+ * @returns Chunks in order
+ */
+export function chunkContent(text: string, options: ChunkOptions = {}): ContentChunk[] {
+  const maxTokens = Math.max(MIN_CHUNK_TOKENS, options.maxTokens ?? 3000);
+  const overlapTokens = Math.min(Math.max(0, options.overlapTokens ?? 200), Math.ceil(maxTokens / 2) - 1);
+  
+  if (estimateTokens(text) <= maxTokens) {
+    return [{ index: 0, text, tokens: estimateTokens(text) }];
+  }
+  
+  // Leave room for the overlap so chunks stay within the budget
+  const pieces = splitStructurally(text, Math.max(1, maxTokens - overlapTokens));
+  const chunks: string[][] = [];
+  let current: string[] = [];
+  let currentTokens = 0;
+  
+  for (const piece of pieces) {
+    const pieceTokens = estimateTokens(piece);
+    
+    if (current.length > 0 && currentTokens + pieceTokens > maxTokens) {
+      chunks.push(current);
+      current = takeOverlap(current, overlapTokens);
+      currentTokens = current.reduce((sum, part) => sum + estimateTokens(part), 0);
+    }
+    
+    current.push(piece);
+    currentTokens += pieceTokens;
+  }
+  
+  if (current.length > 0) {
+    chunks.push(current);
+  }
+  
+  return chunks.map((parts, index) => {
+    const chunkText = parts.join('\n\n');
+    return { index, text: chunkText, tokens: estimateTokens(chunkText) };
+  });
+}
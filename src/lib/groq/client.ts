@@ -1,49 +1,79 @@
 // src/lib/groq/client.ts
-import { env } from 'process';
+import { MarkdownConverter } from '@/lib/data/markdown';
+import { complete, streamComplete, type CompletionOptions } from '@/lib/llm/completion';
+import type { ChatMessage, TokenUsage } from '@/lib/llm/provider';
 
 /**
- * Interface for Groq API response
+ * Render a scraped article as text with its metadata
+ * @param article Article fields from a scrape result
+ * @returns Article text
  */
-interface GroqResponse {
-  id: string;
-  object: string;
-  created: number;
-  model: string;
-  choices: {
-    index: number;
-    message: {
-      role: string;
-      content: string;
-    };
-    finish_reason: string;
-  }[];
-  usage: {
-    prompt_tokens: number;
-    completion_tokens: number;
-    total_tokens: number;
-  };
+function formatArticle(article: { title?: string; byline?: string; publishedAt?: string; text: string }): string {
+  const header = [
+    article.title && `Title: ${article.title}`,
+    article.byline && `By: ${article.byline}`,
+    article.publishedAt && `Published: ${article.publishedAt}`,
+  ].filter(Boolean).join('\n');
+  
+  return header ? `${header}\n\n${article.text}` : article.text;
+}
+
+/**
+ * Render a single scraped page, preferring Markdown, then article text, then raw HTML converted to Markdown
+ * @param page Scrape result for one page
+ * @returns Page text, or null if the page has no body to render
+ */
+function formatPage(page: any): string | null {
+  if (page.markdown) {
+    return page.markdown;
+  }
+  if (page.article?.text) {
+    return formatArticle(page.article);
+  }
+  if (typeof page.html === 'string') {
+    return MarkdownConverter.fromHtml(page.html, { baseUrl: page.url });
+  }
+  return null;
+}
+
+/**
+ * Prepare content for the prompt as Markdown instead of the raw scrape JSON
+ * @param content Scrape result, crawl result or raw content
+ * @returns Text to send to Groq
+ */
+export function prepareContent(content: any): string {
+  if (typeof content !== 'object' || content === null) {
+    return String(content);
+  }
+  
+  const page = formatPage(content);
+  if (page) {
+    return page;
+  }
+  
+  // Crawl results hold one page per entry
+  if (Array.isArray(content.pages) && content.pages.some((entry: any) => formatPage(entry))) {
+    return content.pages
+      .map((entry: any) => `URL: ${entry.url}\n\n${formatPage(entry) || entry.bodyText || ''}`)
+      .join('\n\n---\n\n');
+  }
+  
+  return JSON.stringify(content, null, 2);
 }
 
 /**
- * Process content with Groq API
+ * Build the messages for processing content with instructions
  * @param content Content to process
  * @param instructions Instructions for processing
- * @returns Processed content
+ * @returns Chat messages
  */
-export async function processWithGroq(content: any, instructions: string) {
-  try {
-    const apiKey = process.env.GROQ_API_KEY;
-    
-    if (!apiKey) {
-      throw new Error('GROQ_API_KEY environment variable is not set');
-    }
-    
-    // Prepare the prompt
-    const prompt = `
+function buildProcessingMessages(content: any, instructions: string): ChatMessage[] {
+  // Prepare the prompt
+  const prompt = `
 You are a web scraping assistant that helps extract and structure data from web content.
 
 CONTENT:
-${typeof content === 'object' ? JSON.stringify(content, null, 2) : content}
+${prepareContent(content)}
 
 INSTRUCTIONS:
 ${instructions}
@@ -51,66 +81,103 @@ ${instructions}
 Please process the content according to the instructions and provide a structured response.
 `;
 
-    // Call Groq API
-    const response = await fetch('https://api.groq.com/openai/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${apiKey}`,
-      },
-      body: JSON.stringify({
-        model: 'llama3-70b-8192',
-        messages: [
-          {
-            role: 'system',
-            content: 'You are a helpful assistant that processes and structures web content.'
-          },
-          {
-            role: 'user',
-            content: prompt
-          }
-        ],
-        temperature: 0.2,
-        max_tokens: 4000,
-      }),
-    });
+  return [
+    {
+      role: 'system',
+      content: 'You are a helpful assistant that processes and structures web content.'
+    },
+    {
+      role: 'user',
+      content: prompt
+    }
+  ];
+}
 
-    if (!response.ok) {
-      const errorData = await response.json();
-      throw new Error(`Groq API error: ${response.status} ${response.statusText} - ${JSON.stringify(errorData)}`);
+/**
+ * Turn a model reply into a processing result, parsing it as JSON when it looks like JSON
+ * @param processedContent Model reply
+ * @param usage Token usage
+ * @returns Processed content
+ */
+function parseProcessedContent(processedContent: string, usage: TokenUsage) {
+  // Try to parse as JSON if it looks like JSON
+  if (processedContent && (processedContent.trim().startsWith('{') || processedContent.trim().startsWith('['))) {
+    try {
+      return {
+        raw: processedContent,
+        structured: JSON.parse(processedContent),
+        usage,
+      };
+    } catch (e) {
+      // If parsing fails, return as text
+      return {
+        raw: processedContent,
+        text: processedContent,
+        usage,
+      };
     }
+  }
+  
+  // Return as text
+  return {
+    raw: processedContent,
+    text: processedContent,
+    usage,
+  };
+}
 
-    const data = await response.json() as GroqResponse;
+/**
+ * Process content with Groq API, or the provider selected for the request or workspace
+ * @param content Content to process
+ * @param instructions Instructions for processing
+ * @param options Provider, model and workspace selection
+ * @returns Processed content
+ */
+export async function processWithGroq(content: any, instructions: string, options: CompletionOptions = {}) {
+  try {
+    const completion = await complete(buildProcessingMessages(content, instructions), options);
     
     // Extract the response content
-    const processedContent = data.choices[0]?.message.content;
+    return parseProcessedContent(completion.content, completion.usage);
+  } catch (error) {
+    console.error('Error processing with Groq:', error);
+    throw error;
+  }
+}
+
+/**
+ * Process content with Groq API, streaming the reply as it is generated
+ * @param content Content to process
+ * @param instructions Instructions for processing
+ * @param options Provider selection, callback for each token and an abort signal
+ * @returns Processed content, in the same shape as processWithGroq, and its cost in USD
+ */
+export async function streamWithGroq(
+  content: any,
+  instructions: string,
+  options: CompletionOptions & { onToken?: (token: string) => void } = {}
+) {
+  const { onToken, ...completionOptions } = options;
+  
+  try {
+    let processedContent = '';
+    let usage: TokenUsage = { prompt_tokens: 0, completion_tokens: 0, total_tokens: 0 };
+    let cost = 0;
     
-    // Try to parse as JSON if it looks like JSON
-    if (processedContent && (processedContent.trim().startsWith('{') || processedContent.trim().startsWith('['))) {
-      try {
-        return {
-          raw: processedContent,
-          structured: JSON.parse(processedContent),
-          usage: data.usage,
-        };
-      } catch (e) {
-        // If parsing fails, return as text
-        return {
-          raw: processedContent,
-          text: processedContent,
-          usage: data.usage,
-        };
+    for await (const event of streamComplete(buildProcessingMessages(content, instructions), completionOptions)) {
+      if (event.delta) {
+        processedContent += event.delta;
+        onToken?.(event.delta);
+      }
+      if (event.usage) {
+        usage = event.usage;
+        cost = event.cost ?? 0;
       }
     }
     
-    // Return as text
-    return {
-      raw: processedContent,
-      text: processedContent,
-      usage: data.usage,
-    };
+    return { ...parseProcessedContent(processedContent, usage), cost };
   } catch (error) {
-    console.error('Error processing with Groq:', error);
+    console.error('Error streaming with Groq:', error);
     throw error;
   }
 }
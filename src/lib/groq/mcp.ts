@@ -1,5 +1,6 @@
 // src/lib/groq/mcp.ts
-import { env } from 'process';
+import { prepareContent } from './client';
+import { complete } from '@/lib/llm/completion';
 
 /**
  * Interface for Model Control Protocol options
@@ -8,7 +9,11 @@ interface MCPOptions {
   temperature?: number;
   maxTokens?: number;
   model?: string;
+  provider?: string;
+  workspaceId?: string;
   systemPrompt?: string;
+  maxRetries?: number;
+  signal?: AbortSignal;
 }
 
 /**
@@ -37,17 +42,15 @@ export async function processWithMCP(
   options: MCPOptions = {}
 ): Promise<MCPResponse> {
   try {
-    const apiKey = process.env.GROQ_API_KEY;
-    
-    if (!apiKey) {
-      throw new Error('GROQ_API_KEY environment variable is not set');
-    }
-    
     // Set default options
     const {
       temperature = 0.2,
       maxTokens = 4000,
-      model = 'llama3-70b-8192',
+      model,
+      provider,
+      workspaceId,
+      maxRetries,
+      signal,
       systemPrompt = 'You are a helpful assistant that processes and structures web content.'
     } = options;
     
@@ -58,7 +61,7 @@ Process and analyze the following web content according to the instructions.
 </task>
 
 <content>
-${typeof content === 'object' ? JSON.stringify(content, null, 2) : content}
+${prepareContent(content)}
 </content>
 
 <instructions>
@@ -83,39 +86,21 @@ Please provide your response in JSON format with the following structure:
 </output_format>
 `;
 
-    // Call Groq API
-    const response = await fetch('https://api.groq.com/openai/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${apiKey}`,
+    // Call the selected provider
+    const completion = await complete([
+      {
+        role: 'system',
+        content: systemPrompt
       },
-      body: JSON.stringify({
-        model,
-        messages: [
-          {
-            role: 'system',
-            content: systemPrompt
-          },
-          {
-            role: 'user',
-            content: prompt
-          }
-        ],
-        temperature,
-        max_tokens: maxTokens,
-      }),
-    });
-
-    if (!response.ok) {
-      const errorData = await response.json();
-      throw new Error(`Groq API error: ${response.status} ${response.statusText} - ${JSON.stringify(errorData)}`);
-    }
-
-    const data = await response.json();
+      {
+        role: 'user',
+        content: prompt
+      }
+    ], { model, provider, workspaceId, temperature, maxTokens, maxRetries, signal });
     
     // Extract the response content
-    const processedContent = data.choices[0]?.message.content;
+    const processedContent = completion.content;
+    const usage = completion.usage;
     
     // Try to parse as JSON if it looks like JSON
     if (processedContent && (processedContent.trim().startsWith('{') || processedContent.trim().startsWith('['))) {
@@ -123,13 +108,13 @@ Please provide your response in JSON format with the following structure:
         return {
           content: processedContent,
           structured: JSON.parse(processedContent),
-          usage: data.usage,
+          usage,
         };
       } catch (e) {
         // If parsing fails, return as text
         return {
           content: processedContent,
-          usage: data.usage,
+          usage,
         };
       }
     }
@@ -137,7 +122,7 @@ Please provide your response in JSON format with the following structure:
     // Return as text
     return {
       content: processedContent,
-      usage: data.usage,
+      usage,
     };
   } catch (error) {
     console.error('Error processing with MCP:', error);
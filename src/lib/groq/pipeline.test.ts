@@ -0,0 +1,55 @@
+// src/lib/groq/pipeline.test.ts
+import { describe, expect, it } from 'vitest';
+import { chunkingOptionsSchema, mapWithConcurrency } from './pipeline';
+
+describe('chunkingOptionsSchema', () => {
+  it('checks the overlap against a requested chunk size', () => {
+    expect(chunkingOptionsSchema.safeParse({ maxChunkTokens: 1000, overlapTokens: 499 }).success).toBe(true);
+    expect(chunkingOptionsSchema.safeParse({ maxChunkTokens: 1000, overlapTokens: 500 }).success).toBe(false);
+  });
+  
+  it('leaves the overlap to the pipeline when the chunk size comes from the model', () => {
+    expect(chunkingOptionsSchema.safeParse({ overlapTokens: 300 }).success).toBe(true);
+  });
+  
+  it('rejects negative and fractional values', () => {
+    expect(chunkingOptionsSchema.safeParse({ overlapTokens: -1 }).success).toBe(false);
+    expect(chunkingOptionsSchema.safeParse({ maxChunkTokens: 1000.5 }).success).toBe(false);
+    expect(chunkingOptionsSchema.safeParse({ concurrency: 5 }).success).toBe(false);
+  });
+});
+
+describe('mapWithConcurrency', () => {
+  it('keeps results in input order with at most limit calls in flight', async () => {
+    let inFlight = 0;
+    let maxInFlight = 0;
+    
+    const results = await mapWithConcurrency([30, 10, 20, 0, 5], 2, async (delay, index) => {
+      inFlight++;
+      maxInFlight = Math.max(maxInFlight, inFlight);
+      await new Promise(resolve => setTimeout(resolve, delay));
+      inFlight--;
+      return index;
+    });
+    
+    expect(results).toEqual([0, 1, 2, 3, 4]);
+    expect(maxInFlight).toBe(2);
+  });
+  
+  it('starts no new calls after one fails', async () => {
+    const started: number[] = [];
+    
+    await expect(mapWithConcurrency([0, 1, 2, 3, 4, 5], 2, async index => {
+      started.push(index);
+      await new Promise(resolve => setTimeout(resolve, index === 1 ? 0 : 10));
+      if (index === 1) {
+        throw new Error('chunk failed');
+      }
+      return index;
+    })).rejects.toThrow('chunk failed');
+    
+    // Give the other worker time to finish its call
+    await new Promise(resolve => setTimeout(resolve, 30));
+    expect(started).toEqual([0, 1]);
+  });
+});
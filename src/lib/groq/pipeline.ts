@@ -0,0 +1,278 @@
+// src/lib/groq/pipeline.ts
+import { z } from 'zod';
+import { processWithGroq, prepareContent } from './client';
+import { chunkContent, estimateTokens, MIN_CHUNK_TOKENS, type ContentChunk } from './chunker';
+import type { CompletionOptions } from '@/lib/llm/completion';
+import { chunkTokensFor, estimateCost, requireModelInfo } from '@/lib/llm/models';
+import type { TokenUsage } from '@/lib/llm/provider';
+import { resolveLLM, type LLMSelection } from '@/lib/llm/registry';
+
+/**
+ * Interface for pipeline progress updates
+ */
+export interface PipelineProgress {
+  stage: 'map' | 'reduce' | 'done';
+  completedChunks: number;
+  totalChunks: number;
+  usage: TokenUsage;
+}
+
+/**
+ * Interface for pipeline options
+ */
+export interface PipelineOptions extends LLMSelection {
+  workspaceId?: string;
+  // Defaults to a size that fits the model's context window
+  maxChunkTokens?: number;
+  overlapTokens?: number;
+  concurrency?: number;
+  // 'auto' merges array outputs deterministically and falls back to a reduce prompt
+  mergeStrategy?: 'auto' | 'reduce';
+  onProgress?: (progress: PipelineProgress) => void;
+  // Aborts every chunk and reduce call, e.g. when a streaming client disconnects
+  signal?: AbortSignal;
+}
+
+/**
+ * Schema for the chunking options a client may set
+ * Chunk sizes are clamped to what the model fits when the pipeline runs, and the overlap to below
+ * half of the resolved size, so the overlap is only checked here against a requested size
+ */
+export const chunkingOptionsSchema = z.object({
+  maxChunkTokens: z.number().int().positive().optional(),
+  overlapTokens: z.number().int().min(0).optional(),
+  concurrency: z.number().int().min(1).max(4).optional(),
+  mergeStrategy: z.enum(['auto', 'reduce']).optional(),
+}).refine(options => options.overlapTokens === undefined || options.maxChunkTokens === undefined || options.overlapTokens < options.maxChunkTokens / 2, {
+  message: 'overlapTokens must be less than half of maxChunkTokens',
+  path: ['overlapTokens'],
+});
+
+/**
+ * Interface for the result of processing one chunk
+ */
+export interface ChunkResult {
+  index: number;
+  estimatedTokens: number;
+  usage?: TokenUsage;
+}
+
+type GroqResult = Awaited<ReturnType<typeof processWithGroq>>;
+
+/**
+ * Add token usage to a running total
+ * @param total Running total, updated in place
+ * @param usage Usage to add
+ */
+function addUsage(total: TokenUsage, usage?: Partial<TokenUsage>) {
+  total.prompt_tokens += usage?.prompt_tokens || 0;
+  total.completion_tokens += usage?.completion_tokens || 0;
+  total.total_tokens += usage?.total_tokens || 0;
+}
+
+/**
+ * Run an async function over items with at most `limit` calls in flight
+ * No new calls start once one has failed; calls already in flight run to completion
+ * @param items Items to process
+ * @param limit Maximum concurrent calls
+ * @param fn Function to run for each item
+ * @returns Results in input order
+ * @throws The first error raised by fn
+ */
+export async function mapWithConcurrency<T, R>(items: T[], limit: number, fn: (item: T, index: number) => Promise<R>): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  let failed = false;
+  
+  const worker = async () => {
+    while (!failed && next < items.length) {
+      const index = next++;
+      try {
+        results[index] = await fn(items[index], index);
+      } catch (error) {
+        failed = true;
+        throw error;
+      }
+    }
+  };
+  
+  await Promise.all(Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, worker));
+  return results;
+}
+
+/**
+ * Merge partial results without another model call when they are all arrays, or objects of arrays
+ * @param partials Partial results
+ * @returns Merged structured result, or undefined if the outputs cannot be merged deterministically
+ */
+function mergeArrays(partials: GroqResult[]): any[] | Record<string, any[]> | undefined {
+  const structured = partials.map(partial => 'structured' in partial ? partial.structured : undefined);
+  const dedupe = (items: any[]) => {
+    const seen = new Set<string>();
+    return items.filter(item => {
+      const key = JSON.stringify(item);
+      if (seen.has(key)) {
+        return false;
+      }
+      seen.add(key);
+      return true;
+    });
+  };
+  
+  if (structured.every(Array.isArray)) {
+    return dedupe(structured.flat());
+  }
+  
+  const isObjectOfArrays = (value: any) =>
+    value && typeof value === 'object' && !Array.isArray(value) && Object.values(value).every(Array.isArray);
+  
+  if (structured.every(isObjectOfArrays)) {
+    const merged: Record<string, any[]> = {};
+    for (const value of structured) {
+      for (const [key, items] of Object.entries(value as Record<string, any[]>)) {
+        merged[key] = [...(merged[key] || []), ...items];
+      }
+    }
+    for (const key of Object.keys(merged)) {
+      merged[key] = dedupe(merged[key]);
+    }
+    return merged;
+  }
+  
+  return undefined;
+}
+
+/**
+ * Combine partial results with reduce prompts, in batches that fit the chunk budget
+ * @param partials Partial results
+ * @param instructions Original instructions
+ * @param maxChunkTokens Token budget per prompt
+ * @param usage Running usage total, updated in place
+ * @param llm Provider, model and workspace selection
+ * @returns Final result
+ */
+async function reducePartials(
+  partials: GroqResult[],
+  instructions: string,
+  maxChunkTokens: number,
+  usage: TokenUsage,
+  llm: CompletionOptions
+): Promise<GroqResult> {
+  let current = partials;
+  
+  while (current.length > 1) {
+    // Group partial results into batches that fit one prompt, at least two per batch so every round shrinks
+    const batches: GroqResult[][] = [];
+    let batch: GroqResult[] = [];
+    let batchTokens = 0;
+    
+    for (const partial of current) {
+      const tokens = estimateTokens(partial.raw || '');
+      if (batch.length >= 2 && batchTokens + tokens > maxChunkTokens) {
+        batches.push(batch);
+        batch = [];
+        batchTokens = 0;
+      }
+      batch.push(partial);
+      batchTokens += tokens;
+    }
+    batches.push(batch);
+    
+    current = [];
+    for (const group of batches) {
+      if (group.length === 1) {
+        current.push(group[0]);
+        continue;
+      }
+      
+      const content = group.map((partial, i) => `PARTIAL RESULT ${i + 1}:\n${partial.raw}`).join('\n\n');
+      const reduced = await processWithGroq(
+        content,
+        `The content was too long to process at once, so it was split into parts and processed separately.
+Merge the partial results below into a single result that satisfies these original instructions, removing duplicates and keeping the same output format:
+
+${instructions}`,
+        llm
+      );
+      addUsage(usage, reduced.usage);
+      current.push(reduced);
+    }
+  }
+  
+  return current[0];
+}
+
+/**
+ * Process content of any length: split it into chunks, run the instructions on each chunk, then merge the results
+ * @param content Content to process
+ * @param instructions Instructions for processing
+ * @param options Pipeline options
+ * @returns Processed content with total and per-chunk token usage and the total cost in USD
+ */
+export async function processInChunks(content: any, instructions: string, options: PipelineOptions = {}) {
+  const {
+    overlapTokens = 200,
+    concurrency = 2,
+    mergeStrategy = 'auto',
+    onProgress,
+    provider,
+    model,
+    workspaceId,
+    signal,
+  } = options;
+  const llm: CompletionOptions = { provider, model, workspaceId, signal };
+  
+  try {
+    const resolved = resolveLLM({ provider, model }, workspaceId);
+    const modelInfo = requireModelInfo(resolved.provider.name, resolved.model);
+    // Requested sizes may not exceed what fits the model's context window
+    const modelChunkTokens = modelInfo ? chunkTokensFor(modelInfo) : 3000;
+    const maxChunkTokens = Math.max(MIN_CHUNK_TOKENS, Math.min(options.maxChunkTokens ?? modelChunkTokens, modelChunkTokens));
+    
+    const text = prepareContent(content);
+    const chunks: ContentChunk[] = chunkContent(text, { maxTokens: maxChunkTokens, overlapTokens });
+    const usage: TokenUsage = { prompt_tokens: 0, completion_tokens: 0, total_tokens: 0 };
+    const chunkResults: ChunkResult[] = chunks.map(chunk => ({ index: chunk.index, estimatedTokens: chunk.tokens }));
+    let completedChunks = 0;
+    
+    const report = (stage: PipelineProgress['stage']) => {
+      onProgress?.({ stage, completedChunks, totalChunks: chunks.length, usage: { ...usage } });
+    };
+    
+    // Map: run the instructions over every chunk
+    report('map');
+    const partials = await mapWithConcurrency(chunks, concurrency, async (chunk) => {
+      const chunkInstructions = chunks.length === 1
+        ? instructions
+        : `${instructions}\n\nThis is part ${chunk.index + 1} of ${chunks.length} of the content. Only use information from this part; the parts overlap slightly.`;
+      
+      const result = await processWithGroq(chunk.text, chunkInstructions, llm);
+      addUsage(usage, result.usage);
+      chunkResults[chunk.index].usage = result.usage;
+      completedChunks++;
+      report('map');
+      return result;
+    });
+    
+    if (partials.length === 1) {
+      report('done');
+      return { ...partials[0], usage, cost: estimateCost(modelInfo, usage), chunks: chunkResults, merge: 'single' as const };
+    }
+    
+    // Reduce: merge arrays directly, otherwise ask the model to combine the partial results
+    const merged = mergeStrategy === 'auto' ? mergeArrays(partials) : undefined;
+    if (merged) {
+      report('done');
+      const raw = JSON.stringify(merged, null, 2);
+      return { raw, structured: merged, usage, cost: estimateCost(modelInfo, usage), chunks: chunkResults, merge: 'array' as const };
+    }
+    
+    report('reduce');
+    const reduced = await reducePartials(partials, instructions, maxChunkTokens, usage, llm);
+    report('done');
+    return { ...reduced, usage, cost: estimateCost(modelInfo, usage), chunks: chunkResults, merge: 'reduce' as const };
+  } catch (error) {
+    console.error('Error in processing pipeline:', error);
+    throw error;
+  }
+}
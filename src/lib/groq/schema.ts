@@ -0,0 +1,252 @@
+// src/lib/groq/schema.ts
+import { z } from 'zod';
+import { findUnsafePattern } from '@/lib/security/patterns';
+
+/**
+ * Interface for the subset of JSON Schema accepted from API callers
+ */
+export interface JsonSchema {
+  type?: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean' | 'null' | ('object' | 'array' | 'string' | 'number' | 'integer' | 'boolean' | 'null')[];
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JsonSchema;
+  items?: JsonSchema;
+  enum?: (string | number | boolean | null)[];
+  const?: string | number | boolean | null;
+  anyOf?: JsonSchema[];
+  oneOf?: JsonSchema[];
+  nullable?: boolean;
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  format?: string;
+  minimum?: number;
+  maximum?: number;
+  minItems?: number;
+  maxItems?: number;
+}
+
+/**
+ * Build a union from two or more schemas, or return the only one
+ * @param schemas Member schemas
+ * @returns Zod schema
+ */
+function unionOf(schemas: z.ZodTypeAny[]): z.ZodTypeAny {
+  if (schemas.length === 0) {
+    return z.any();
+  }
+  if (schemas.length === 1) {
+    return schemas[0];
+  }
+  return z.union(schemas as [z.ZodTypeAny, z.ZodTypeAny, ...z.ZodTypeAny[]]);
+}
+
+/**
+ * Find a `pattern` in a JSON Schema that is not safe to run on the server
+ * @param schema JSON Schema from an API caller
+ * @param path Path of the schema, for the message
+ * @returns Description of the first unsafe pattern, or null if there is none
+ */
+export function findUnsafeSchemaPattern(schema: JsonSchema, path = '$'): string | null {
+  if (typeof schema.pattern === 'string') {
+    const problem = findUnsafePattern(schema.pattern);
+    if (problem) {
+      return `${path}.pattern: ${problem}`;
+    }
+  }
+  
+  const children: [string, JsonSchema][] = Object.entries(schema.properties || {})
+    .map(([key, child]) => [`${path}.properties.${key}`, child]);
+  if (schema.items) {
+    children.push([`${path}.items`, schema.items]);
+  }
+  if (typeof schema.additionalProperties === 'object') {
+    children.push([`${path}.additionalProperties`, schema.additionalProperties]);
+  }
+  (schema.anyOf || []).forEach((child, index) => children.push([`${path}.anyOf[${index}]`, child]));
+  (schema.oneOf || []).forEach((child, index) => children.push([`${path}.oneOf[${index}]`, child]));
+  
+  for (const [childPath, child] of children) {
+    const problem = child && typeof child === 'object' ? findUnsafeSchemaPattern(child, childPath) : null;
+    if (problem) {
+      return problem;
+    }
+  }
+  
+  return null;
+}
+
+/**
+ * Check a schema from a request body before extracting with it
+ * @param schema Schema value from the request
+ * @returns Why the schema is refused, or null if it can be used
+ */
+export function findSchemaProblem(schema: unknown): string | null {
+  if (typeof schema !== 'object' || schema === null || Array.isArray(schema)) {
+    return 'Schema must be a JSON Schema object';
+  }
+  
+  // Patterns run on the server, so ones that could backtrack for a long time are refused
+  const problem = findUnsafeSchemaPattern(schema as JsonSchema);
+  return problem ? `Invalid schema: ${problem}` : null;
+}
+
+/**
+ * Convert a JSON Schema into an equivalent zod schema
+ * @param schema JSON Schema
+ * @returns Zod schema
+ * @throws Error if a `pattern` is not safe to run; check caller schemas with findUnsafeSchemaPattern first
+ */
+export function jsonSchemaToZod(schema: JsonSchema): z.ZodTypeAny {
+  let result: z.ZodTypeAny;
+  
+  if (schema.anyOf || schema.oneOf) {
+    result = unionOf((schema.anyOf || schema.oneOf)!.map(jsonSchemaToZod));
+  } else if (schema.const !== undefined) {
+    result = z.literal(schema.const);
+  } else if (schema.enum) {
+    result = unionOf(schema.enum.map(value => z.literal(value)));
+  } else if (Array.isArray(schema.type)) {
+    result = unionOf(schema.type.map(type => jsonSchemaToZod({ ...schema, type })));
+  } else {
+    switch (schema.type) {
+      case 'object': {
+        const required = new Set(schema.required || []);
+        const shape: Record<string, z.ZodTypeAny> = {};
+        for (const [key, property] of Object.entries(schema.properties || {})) {
+          const field = jsonSchemaToZod(property);
+          shape[key] = required.has(key) ? field : field.optional();
+        }
+        const object = z.object(shape);
+        result = schema.additionalProperties === false
+          ? object.strict()
+          : typeof schema.additionalProperties === 'object'
+            ? object.catchall(jsonSchemaToZod(schema.additionalProperties))
+            : object.passthrough();
+        break;
+      }
+      
+      case 'array': {
+        let array = z.array(schema.items ? jsonSchemaToZod(schema.items) : z.any());
+        if (schema.minItems !== undefined) {
+          array = array.min(schema.minItems);
+        }
+        if (schema.maxItems !== undefined) {
+          array = array.max(schema.maxItems);
+        }
+        result = array;
+        break;
+      }
+      
+      case 'string': {
+        let string = z.string();
+        if (schema.minLength !== undefined) {
+          string = string.min(schema.minLength);
+        }
+        if (schema.maxLength !== undefined) {
+          string = string.max(schema.maxLength);
+        }
+        if (schema.pattern) {
+          const problem = findUnsafePattern(schema.pattern);
+          if (problem) {
+            throw new Error(`Invalid schema pattern: ${problem}`);
+          }
+          string = string.regex(new RegExp(schema.pattern));
+        }
+        if (schema.format === 'email') {
+          string = string.email();
+        } else if (schema.format === 'uri' || schema.format === 'url') {
+          string = string.url();
+        } else if (schema.format === 'date-time') {
+          string = string.datetime({ offset: true });
+        }
+        result = string;
+        break;
+      }
+      
+      case 'number':
+      case 'integer': {
+        let number = schema.type === 'integer' ? z.number().int() : z.number();
+        if (schema.minimum !== undefined) {
+          number = number.min(schema.minimum);
+        }
+        if (schema.maximum !== undefined) {
+          number = number.max(schema.maximum);
+        }
+        result = number;
+        break;
+      }
+      
+      case 'boolean':
+        result = z.boolean();
+        break;
+      
+      case 'null':
+        result = z.null();
+        break;
+      
+      default:
+        result = z.any();
+    }
+  }
+  
+  if (schema.description) {
+    result = result.describe(schema.description);
+  }
+  
+  return schema.nullable ? result.nullable() : result;
+}
+
+/**
+ * Describe a zod schema as JSON Schema so it can be shown to the model
+ * Covers the zod types used for extraction schemas; anything else is described as unconstrained
+ * @param schema Zod schema
+ * @returns JSON Schema
+ */
+export function zodToJsonSchema(schema: z.ZodTypeAny): JsonSchema {
+  const def = schema._def;
+  const withDescription = (json: JsonSchema): JsonSchema =>
+    schema.description ? { ...json, description: schema.description } : json;
+  
+  switch (def.typeName) {
+    case z.ZodFirstPartyTypeKind.ZodObject: {
+      const shape = (schema as z.ZodObject<z.ZodRawShape>).shape;
+      const properties: Record<string, JsonSchema> = {};
+      const required: string[] = [];
+      for (const [key, field] of Object.entries(shape)) {
+        properties[key] = zodToJsonSchema(field as z.ZodTypeAny);
+        if (!(field as z.ZodTypeAny).isOptional()) {
+          required.push(key);
+        }
+      }
+      return withDescription({ type: 'object', properties, required });
+    }
+    case z.ZodFirstPartyTypeKind.ZodArray:
+      return withDescription({ type: 'array', items: zodToJsonSchema(def.type) });
+    case z.ZodFirstPartyTypeKind.ZodString:
+      return withDescription({ type: 'string' });
+    case z.ZodFirstPartyTypeKind.ZodNumber:
+      return withDescription({ type: def.checks?.some((check: any) => check.kind === 'int') ? 'integer' : 'number' });
+    case z.ZodFirstPartyTypeKind.ZodBoolean:
+      return withDescription({ type: 'boolean' });
+    case z.ZodFirstPartyTypeKind.ZodNull:
+      return withDescription({ type: 'null' });
+    case z.ZodFirstPartyTypeKind.ZodLiteral:
+      return withDescription({ const: def.value });
+    case z.ZodFirstPartyTypeKind.ZodEnum:
+      return withDescription({ type: 'string', enum: def.values });
+    case z.ZodFirstPartyTypeKind.ZodUnion:
+      return withDescription({ anyOf: def.options.map(zodToJsonSchema) });
+    case z.ZodFirstPartyTypeKind.ZodOptional:
+      return withDescription(zodToJsonSchema(def.innerType));
+    case z.ZodFirstPartyTypeKind.ZodNullable:
+      return withDescription({ ...zodToJsonSchema(def.innerType), nullable: true });
+    case z.ZodFirstPartyTypeKind.ZodDefault:
+      return withDescription(zodToJsonSchema(def.innerType));
+    case z.ZodFirstPartyTypeKind.ZodEffects:
+      return withDescription(zodToJsonSchema(def.schema));
+    default:
+      return withDescription({});
+  }
+}
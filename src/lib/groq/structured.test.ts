@@ -0,0 +1,108 @@
+// src/lib/groq/structured.test.ts
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { z } from 'zod';
+import { complete, streamComplete } from '@/lib/llm/completion';
+import { extractStructured, maxRepairsSchema, StructuredExtractionError } from './structured';
+
+vi.mock('@/lib/llm/completion', () => ({
+  complete: vi.fn(),
+  streamComplete: vi.fn(),
+}));
+
+const usage = { prompt_tokens: 10, completion_tokens: 5, total_tokens: 15 };
+
+/**
+ * Make the model reply with fixed texts, one per call
+ * @param replies Reply texts in call order
+ */
+function reply(...replies: string[]) {
+  for (const content of replies) {
+    vi.mocked(complete).mockResolvedValueOnce({ content, model: 'test', usage, provider: 'test', cost: 0.01 });
+  }
+}
+
+describe('extractStructured', () => {
+  const schema = z.object({ title: z.string(), price: z.number() });
+  
+  afterEach(() => {
+    vi.mocked(complete).mockReset();
+    vi.restoreAllMocks();
+  });
+  
+  it('returns valid data from the first reply', async () => {
+    reply('{"title":"Lamp","price":12}');
+    
+    const result = await extractStructured('content', schema);
+    
+    expect(result).toMatchObject({ data: { title: 'Lamp', price: 12 }, report: { valid: true, attempts: 1, failures: [] }, cost: 0.01 });
+    expect(complete).toHaveBeenCalledWith(expect.any(Array), expect.objectContaining({ temperature: 0, responseFormat: 'json_object' }));
+  });
+  
+  it('shows the model what was wrong and adds up usage across repairs', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    reply('not json', '{"title":"Lamp","price":"12"}', '{"title":"Lamp","price":12}');
+    
+    const result = await extractStructured('content', schema, { maxRepairs: 2 });
+    
+    expect(result.report).toMatchObject({ valid: true, attempts: 3 });
+    expect(result.report.failures.map(failure => failure.issues[0].path)).toEqual(['(root)', 'price']);
+    expect(result.usage.total_tokens).toBe(45);
+    
+    const messages = vi.mocked(complete).mock.calls[2][0];
+    expect(messages.slice(-2)).toEqual([
+      { role: 'assistant', content: '{"title":"Lamp","price":"12"}' },
+      { role: 'user', content: expect.stringContaining('- price: Expected number, received string') },
+    ]);
+  });
+  
+  it('throws once the repair budget is spent', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    reply('{}');
+    
+    const error = await extractStructured('content', schema, { maxRepairs: 0 }).catch(caught => caught);
+    
+    expect(error).toBeInstanceOf(StructuredExtractionError);
+    expect(error.report).toMatchObject({ valid: false, attempts: 1 });
+    expect(error.raw).toBe('{}');
+  });
+  
+  it('streams the first reply and repairs it without streaming', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    vi.mocked(streamComplete).mockImplementationOnce(async function* () {
+      yield { delta: '{"title":' };
+      yield { delta: '"Lamp"}' };
+      yield { usage, cost: 0.02 };
+    });
+    reply('{"title":"Lamp","price":12}');
+    const tokens: string[] = [];
+    
+    const result = await extractStructured('content', schema, { onToken: token => tokens.push(token) });
+    
+    expect(tokens).toEqual(['{"title":', '"Lamp"}']);
+    expect(result).toMatchObject({ data: { title: 'Lamp', price: 12 }, report: { attempts: 2 }, cost: 0.03 });
+    expect(vi.mocked(complete).mock.calls[0][0].at(-2)).toEqual({ role: 'assistant', content: '{"title":"Lamp"}' });
+  });
+  
+  it('unwraps top-level arrays from JSON Schemas', async () => {
+    reply('{"items":[{"name":"a"},{"name":"b"}]}');
+    
+    const result = await extractStructured('content', {
+      type: 'array',
+      items: { type: 'object', properties: { name: { type: 'string' } }, required: ['name'] },
+    });
+    
+    expect(result.data).toEqual([{ name: 'a' }, { name: 'b' }]);
+  });
+});
+
+describe('maxRepairsSchema', () => {
+  it('accepts whole numbers from 0 to 5', () => {
+    expect(maxRepairsSchema.safeParse(0).success).toBe(true);
+    expect(maxRepairsSchema.safeParse(5).success).toBe(true);
+  });
+  
+  it.each([-1, 6, 1.5, NaN, '2'])('rejects %s', value => {
+    expect(maxRepairsSchema.safeParse(value).success).toBe(false);
+  });
+});
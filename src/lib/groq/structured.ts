@@ -0,0 +1,200 @@
+// src/lib/groq/structured.ts
+import { z } from 'zod';
+import { prepareContent } from './client';
+import { jsonSchemaToZod, zodToJsonSchema, type JsonSchema } from './schema';
+import { complete, streamComplete, type CompletionOptions } from '@/lib/llm/completion';
+import type { ChatMessage, TokenUsage } from '@/lib/llm/provider';
+
+/**
+ * Interface for structured extraction options
+ */
+export interface StructuredExtractionOptions {
+  instructions?: string;
+  maxRepairs?: number;
+  model?: string;
+  provider?: string;
+  workspaceId?: string;
+  // Receives the first reply as it is generated; repair replies are not streamed
+  onToken?: (token: string) => void;
+  signal?: AbortSignal;
+}
+
+// Most repair prompts a client may ask for
+export const MAX_REPAIRS = 5;
+
+/**
+ * Schema for the number of repair attempts a client may set
+ */
+export const maxRepairsSchema = z.number().int().min(0).max(MAX_REPAIRS);
+
+/**
+ * Interface for a single validation issue
+ */
+export interface ValidationIssue {
+  path: string;
+  message: string;
+}
+
+/**
+ * Interface for the record of every validation attempt
+ */
+export interface ValidationReport {
+  valid: boolean;
+  attempts: number;
+  failures: { attempt: number; issues: ValidationIssue[] }[];
+}
+
+/**
+ * Error raised when the model cannot produce valid data within the repair budget
+ */
+export class StructuredExtractionError extends Error {
+  constructor(public report: ValidationReport, public raw: string) {
+    super(`Structured extraction failed validation after ${report.attempts} attempts`);
+    this.name = 'StructuredExtractionError';
+  }
+}
+
+/**
+ * Check whether a value is a zod schema rather than a JSON Schema
+ * @param schema Schema to check
+ * @returns Whether the schema is a zod schema
+ */
+function isZodSchema(schema: unknown): schema is z.ZodTypeAny {
+  return schema instanceof z.ZodType;
+}
+
+/**
+ * Flatten zod issues into path and message pairs
+ * @param error Zod error
+ * @returns Validation issues
+ */
+function toIssues(error: z.ZodError): ValidationIssue[] {
+  return error.issues.map(issue => ({
+    path: issue.path.length > 0 ? issue.path.join('.') : '(root)',
+    message: issue.message,
+  }));
+}
+
+/**
+ * Stream a reply, passing each token on as it arrives
+ * @param messages Conversation messages
+ * @param options Completion options
+ * @param onToken Callback for each token
+ * @returns Whole reply with token usage and cost in USD
+ */
+async function streamReply(messages: ChatMessage[], options: CompletionOptions, onToken: (token: string) => void) {
+  let content = '';
+  let usage: TokenUsage = { prompt_tokens: 0, completion_tokens: 0, total_tokens: 0 };
+  let cost = 0;
+  
+  for await (const event of streamComplete(messages, options)) {
+    if (event.delta) {
+      content += event.delta;
+      onToken(event.delta);
+    }
+    if (event.usage) {
+      usage = event.usage;
+      cost = event.cost ?? 0;
+    }
+  }
+  
+  return { content, usage, cost };
+}
+
+/**
+ * Extract data matching a schema from content, re-prompting with validation errors until it is valid
+ * @param content Content to extract from
+ * @param schema Zod schema, or a JSON Schema supplied by an API caller
+ * @param options Extraction options
+ * @returns Validated data, the validation report, token usage and cost in USD
+ * @throws StructuredExtractionError if the reply is still invalid after every repair attempt
+ */
+export async function extractStructured<T = any>(
+  content: any,
+  schema: z.ZodType<T> | JsonSchema,
+  options: StructuredExtractionOptions = {}
+): Promise<{ data: T; report: ValidationReport; usage: TokenUsage; cost: number; raw: string }> {
+  const { instructions = 'Extract the data described by the schema.', maxRepairs = 2, model, provider, workspaceId, onToken, signal } = options;
+  
+  try {
+    const validator = (isZodSchema(schema) ? schema : jsonSchemaToZod(schema)) as z.ZodType<T>;
+    const jsonSchema = isZodSchema(schema) ? zodToJsonSchema(schema) : schema;
+    
+    // JSON mode only returns objects, so top-level arrays travel inside an "items" wrapper
+    const wrapped = jsonSchema.type === 'array';
+    const promptSchema = wrapped
+      ? { type: 'object', properties: { items: jsonSchema }, required: ['items'] }
+      : jsonSchema;
+    
+    const messages: ChatMessage[] = [
+      {
+        role: 'system',
+        content: 'You extract structured data from web content. Reply with a single JSON object that matches the given JSON Schema exactly, with no commentary.',
+      },
+      {
+        role: 'user',
+        content: `CONTENT:
+${prepareContent(content)}
+
+INSTRUCTIONS:
+${instructions}
+
+JSON SCHEMA:
+${JSON.stringify(promptSchema, null, 2)}
+
+Leave out optional fields the content does not provide, and never invent data.`,
+      },
+    ];
+    
+    const report: ValidationReport = { valid: false, attempts: 0, failures: [] };
+    const usage: TokenUsage = { prompt_tokens: 0, completion_tokens: 0, total_tokens: 0 };
+    let cost = 0;
+    let raw = '';
+    
+    for (let attempt = 1; attempt <= maxRepairs + 1; attempt++) {
+      const llm: CompletionOptions = { model, provider, workspaceId, signal, temperature: 0, responseFormat: 'json_object' };
+      const response = attempt === 1 && onToken
+        ? await streamReply(messages, llm, onToken)
+        : await complete(messages, llm);
+      raw = response.content;
+      usage.prompt_tokens += response.usage.prompt_tokens;
+      usage.completion_tokens += response.usage.completion_tokens;
+      usage.total_tokens += response.usage.total_tokens;
+      cost += response.cost;
+      report.attempts = attempt;
+      
+      let issues: ValidationIssue[];
+      try {
+        const parsed = JSON.parse(raw);
+        const result = validator.safeParse(wrapped ? parsed?.items : parsed);
+        if (result.success) {
+          report.valid = true;
+          return { data: result.data, report, usage, cost, raw };
+        }
+        issues = toIssues(result.error);
+      } catch (error) {
+        issues = [{ path: '(root)', message: `Invalid JSON: ${(error as Error).message}` }];
+      }
+      
+      report.failures.push({ attempt, issues });
+      console.warn(`Structured extraction attempt ${attempt} failed validation:`, issues);
+      
+      // Show the model its reply and what was wrong with it
+      messages.push(
+        { role: 'assistant', content: raw },
+        {
+          role: 'user',
+          content: `That JSON does not match the schema:
+${issues.map(issue => `- ${issue.path}: ${issue.message}`).join('\n')}
+
+Reply with corrected JSON only.`,
+        }
+      );
+    }
+    
+    throw new StructuredExtractionError(report, raw);
+  } catch (error) {
+    console.error('Error extracting structured data:', error);
+    throw error;
+  }
+}
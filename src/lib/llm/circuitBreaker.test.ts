@@ -0,0 +1,137 @@
+// src/lib/llm/circuitBreaker.test.ts
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { CircuitBreaker, CircuitOpenError } from './circuitBreaker';
+import { LLMProviderError } from './provider';
+
+/**
+ * Build a provider error
+ * @param kind Error kind
+ * @returns Error
+ */
+function providerError(kind: LLMProviderError['kind']): LLMProviderError {
+  return new LLMProviderError(`${kind} error`, 'groq', kind);
+}
+
+/**
+ * Run calls through a circuit, ignoring their errors
+ * @param breaker Circuit breaker
+ * @param outcomes Errors to fail with, or null for a success
+ */
+async function run(breaker: CircuitBreaker, outcomes: (Error | null)[]) {
+  for (const outcome of outcomes) {
+    await breaker.execute(async () => {
+      if (outcome) {
+        throw outcome;
+      }
+    }).catch(() => {});
+  }
+}
+
+describe('CircuitBreaker', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+  
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+  
+  it('opens once the failure rate reaches the threshold after the minimum calls', async () => {
+    const breaker = new CircuitBreaker('groq', { minimumCalls: 4, failureRateThreshold: 0.5 });
+    
+    await run(breaker, [providerError('server'), providerError('server'), providerError('server')]);
+    expect(breaker.state).toBe('closed');
+    
+    await run(breaker, [null]);
+    expect(breaker.state).toBe('open');
+    expect(breaker.getStatus()).toMatchObject({ calls: 4, failures: 3, failureRate: 0.75 });
+  });
+  
+  it('stays closed while the failure rate is below the threshold', async () => {
+    const breaker = new CircuitBreaker('groq', { minimumCalls: 4, failureRateThreshold: 0.5 });
+    
+    await run(breaker, [providerError('server'), null, null, null]);
+    
+    expect(breaker.state).toBe('closed');
+  });
+  
+  it('does not count bad requests against the provider', async () => {
+    const breaker = new CircuitBreaker('groq', { minimumCalls: 2 });
+    
+    await run(breaker, [providerError('auth'), providerError('bad_request'), new Error('parse failed')]);
+    
+    expect(breaker.state).toBe('closed');
+    expect(breaker.getStatus().calls).toBe(0);
+  });
+  
+  it('forgets failures that leave the window', async () => {
+    const breaker = new CircuitBreaker('groq', { minimumCalls: 2, windowMs: 1000 });
+    
+    await run(breaker, [providerError('server')]);
+    vi.advanceTimersByTime(1001);
+    await run(breaker, [providerError('server')]);
+    
+    expect(breaker.state).toBe('closed');
+  });
+  
+  it('rejects calls without running them while open', async () => {
+    const breaker = new CircuitBreaker('groq', { minimumCalls: 1, openDurationMs: 5000 });
+    await run(breaker, [providerError('timeout')]);
+    const fn = vi.fn(async () => 'ok');
+    
+    const error = await breaker.execute(fn).catch(caught => caught);
+    
+    expect(error).toBeInstanceOf(CircuitOpenError);
+    expect(error.retryAfterMs).toBe(5000);
+    expect(fn).not.toHaveBeenCalled();
+  });
+  
+  it('lets a trial call through after the open period and closes when it succeeds', async () => {
+    const breaker = new CircuitBreaker('groq', { minimumCalls: 1, openDurationMs: 5000 });
+    await run(breaker, [providerError('server')]);
+    
+    vi.advanceTimersByTime(5000);
+    expect(breaker.state).toBe('half-open');
+    
+    await expect(breaker.execute(async () => 'ok')).resolves.toBe('ok');
+    expect(breaker.state).toBe('closed');
+    expect(breaker.getStatus().calls).toBe(0);
+  });
+  
+  it('reopens when the trial call fails', async () => {
+    const breaker = new CircuitBreaker('groq', { minimumCalls: 1, openDurationMs: 5000 });
+    await run(breaker, [providerError('server')]);
+    vi.advanceTimersByTime(5000);
+    
+    await run(breaker, [providerError('server')]);
+    
+    expect(breaker.state).toBe('open');
+    expect(breaker.getStatus().retryAfterMs).toBe(5000);
+  });
+  
+  it('allows only the configured number of trial calls at once', async () => {
+    const breaker = new CircuitBreaker('groq', { minimumCalls: 1, openDurationMs: 5000 });
+    await run(breaker, [providerError('server')]);
+    vi.advanceTimersByTime(5000);
+    
+    const trial = breaker.begin();
+    
+    expect(() => breaker.begin()).toThrow(CircuitOpenError);
+    trial.release();
+    expect(() => breaker.begin()).not.toThrow();
+  });
+  
+  it('settles a stream handle only once', async () => {
+    const breaker = new CircuitBreaker('groq', { minimumCalls: 1 });
+    
+    const call = breaker.begin();
+    call.succeed();
+    call.fail(providerError('server'));
+    
+    expect(breaker.state).toBe('closed');
+    expect(breaker.getStatus()).toMatchObject({ calls: 1, failures: 0 });
+  });
+});
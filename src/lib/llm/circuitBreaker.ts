@@ -0,0 +1,260 @@
+// src/lib/llm/circuitBreaker.ts
+import { LLMProviderError } from './provider';
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+/**
+ * Interface for circuit breaker options
+ */
+export interface CircuitBreakerOptions {
+  // Window over which the error rate is measured
+  windowMs?: number;
+  // Calls needed in the window before the error rate can open the circuit
+  minimumCalls?: number;
+  failureRateThreshold?: number;
+  // How long the circuit stays open before letting a trial call through
+  openDurationMs?: number;
+  halfOpenMaxCalls?: number;
+}
+
+/**
+ * Interface for a snapshot of a circuit breaker
+ */
+export interface CircuitStatus {
+  name: string;
+  state: CircuitState;
+  calls: number;
+  failures: number;
+  failureRate: number;
+  retryAfterMs: number;
+}
+
+/**
+ * Error raised without calling the provider while its circuit is open
+ */
+export class CircuitOpenError extends Error {
+  constructor(public provider: string, public retryAfterMs: number) {
+    super(`${provider} is temporarily unavailable after repeated failures; retry in ${Math.ceil(retryAfterMs / 1000)}s`);
+    this.name = 'CircuitOpenError';
+  }
+}
+
+/**
+ * Check whether an error says the provider itself is unhealthy, as opposed to a bad request
+ * @param error Error from a call
+ * @returns Whether the error counts against the circuit
+ */
+function isProviderFailure(error: unknown): boolean {
+  return error instanceof LLMProviderError && error.retryable;
+}
+
+/**
+ * Circuit breaker that stops calling a provider while its recent error rate is too high
+ */
+export class CircuitBreaker {
+  private outcomes: { at: number; failed: boolean }[] = [];
+  private currentState: CircuitState = 'closed';
+  private openedAt = 0;
+  private halfOpenCalls = 0;
+  private options: Required<CircuitBreakerOptions>;
+  
+  constructor(public name: string, options: CircuitBreakerOptions = {}) {
+    this.options = {
+      windowMs: 60000,
+      minimumCalls: 10,
+      failureRateThreshold: 0.5,
+      openDurationMs: 30000,
+      halfOpenMaxCalls: 1,
+      ...options,
+    };
+  }
+  
+  /**
+   * Current state; an open circuit turns half-open once its open period has passed
+   */
+  get state(): CircuitState {
+    if (this.currentState === 'open' && Date.now() - this.openedAt >= this.options.openDurationMs) {
+      this.currentState = 'half-open';
+      this.halfOpenCalls = 0;
+    }
+    return this.currentState;
+  }
+  
+  /**
+   * Get a snapshot of the circuit
+   * @returns Circuit status
+   */
+  getStatus(): CircuitStatus {
+    const state = this.state;
+    const outcomes = this.recentOutcomes();
+    const failures = outcomes.filter(outcome => outcome.failed).length;
+    
+    return {
+      name: this.name,
+      state,
+      calls: outcomes.length,
+      failures,
+      failureRate: outcomes.length > 0 ? failures / outcomes.length : 0,
+      retryAfterMs: this.retryAfterMs(),
+    };
+  }
+  
+  /**
+   * Fail fast if the circuit does not allow a call right now
+   * @throws CircuitOpenError if the circuit is open, or half-open with its trial calls in flight
+   */
+  assertAvailable() {
+    const state = this.state;
+    if (state === 'open' || (state === 'half-open' && this.halfOpenCalls >= this.options.halfOpenMaxCalls)) {
+      throw new CircuitOpenError(this.name, this.retryAfterMs());
+    }
+  }
+  
+  /**
+   * Start a call through the circuit; the caller reports how it ended
+   * Used directly for streams, whose outcome is only known once they finish
+   * @returns Handle to report the outcome; settling it twice has no effect
+   * @throws CircuitOpenError if the circuit does not allow the call
+   */
+  begin(): { succeed: () => void; fail: (error: unknown) => void; release: () => void } {
+    this.assertAvailable();
+    
+    const trial = this.state === 'half-open';
+    if (trial) {
+      this.halfOpenCalls++;
+    }
+    
+    let settled = false;
+    const settle = (outcome: () => void) => {
+      if (!settled) {
+        settled = true;
+        outcome();
+      }
+    };
+    
+    // A call that ends without a provider failure, such as a bad request or a cancellation, says nothing about its health
+    const release = () => settle(() => {
+      if (trial) {
+        this.halfOpenCalls--;
+      }
+    });
+    
+    return {
+      succeed: () => settle(() => this.record(false, trial)),
+      fail: (error) => isProviderFailure(error) ? settle(() => this.record(true, trial)) : release(),
+      release,
+    };
+  }
+  
+  /**
+   * Run a call through the circuit
+   * @param fn Call to the provider
+   * @returns Result of the call
+   * @throws CircuitOpenError if the circuit does not allow the call
+   */
+  async execute<T>(fn: () => Promise<T>): Promise<T> {
+    const call = this.begin();
+    
+    try {
+      const result = await fn();
+      call.succeed();
+      return result;
+    } catch (error) {
+      call.fail(error);
+      throw error;
+    }
+  }
+  
+  /**
+   * Record the outcome of a call and move between states
+   * @param failed Whether the call failed because of the provider
+   * @param trial Whether the call was a half-open trial
+   */
+  private record(failed: boolean, trial: boolean) {
+    if (trial) {
+      if (failed) {
+        this.open();
+      } else {
+        console.log(`Circuit for ${this.name} closed after a successful trial call`);
+        this.currentState = 'closed';
+        this.outcomes = [];
+      }
+      return;
+    }
+    
+    this.outcomes.push({ at: Date.now(), failed });
+    const outcomes = this.recentOutcomes();
+    this.outcomes = outcomes;
+    
+    const failures = outcomes.filter(outcome => outcome.failed).length;
+    if (
+      this.currentState === 'closed' &&
+      outcomes.length >= this.options.minimumCalls &&
+      failures / outcomes.length >= this.options.failureRateThreshold
+    ) {
+      this.open();
+    }
+  }
+  
+  /**
+   * Open the circuit
+   */
+  private open() {
+    console.warn(`Circuit for ${this.name} opened; calls are rejected for ${this.options.openDurationMs}ms`);
+    this.currentState = 'open';
+    this.openedAt = Date.now();
+    this.halfOpenCalls = 0;
+  }
+  
+  /**
+   * Get the outcomes inside the measurement window
+   * @returns Recent outcomes
+   */
+  private recentOutcomes() {
+    const since = Date.now() - this.options.windowMs;
+    return this.outcomes.filter(outcome => outcome.at >= since);
+  }
+  
+  /**
+   * How long until the circuit lets a call through again
+   * @returns Delay in milliseconds
+   */
+  private retryAfterMs(): number {
+    if (this.currentState === 'open') {
+      return Math.max(0, this.openedAt + this.options.openDurationMs - Date.now());
+    }
+    // A half-open circuit with a trial in flight settles within about one call
+    return this.currentState === 'half-open' ? 1000 : 0;
+  }
+}
+
+// Circuit breakers by provider name
+const breakers = new Map<string, CircuitBreaker>();
+
+/**
+ * Get the process-wide circuit breaker for a provider
+ * @param provider Provider name
+ * @returns Circuit breaker
+ */
+export function getCircuitBreaker(provider: string): CircuitBreaker {
+  let breaker = breakers.get(provider);
+  
+  if (!breaker) {
+    breaker = new CircuitBreaker(provider, {
+      minimumCalls: parseInt(process.env.LLM_CIRCUIT_MIN_CALLS || '10', 10),
+      failureRateThreshold: parseFloat(process.env.LLM_CIRCUIT_FAILURE_RATE || '0.5'),
+      openDurationMs: parseInt(process.env.LLM_CIRCUIT_OPEN_MS || '30000', 10),
+    });
+    breakers.set(provider, breaker);
+  }
+  
+  return breaker;
+}
+
+/**
+ * Get the status of every circuit breaker
+ * @returns Circuit statuses
+ */
+export function getCircuitStatuses(): CircuitStatus[] {
+  return Array.from(breakers.values()).map(breaker => breaker.getStatus());
+}
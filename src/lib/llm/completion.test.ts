@@ -0,0 +1,39 @@
+// src/lib/llm/completion.test.ts
+import { describe, expect, it } from 'vitest';
+import { CircuitOpenError } from './circuitBreaker';
+import { describeLLMError } from './completion';
+import { LLMProviderError, type LLMErrorKind } from './provider';
+import { DeadlineExceededError } from './retry';
+
+describe('describeLLMError', () => {
+  it.each<[LLMErrorKind, number]>([
+    ['auth', 401],
+    ['rate_limit', 429],
+    ['timeout', 504],
+    ['bad_request', 502],
+    ['server', 502],
+    ['network', 502],
+  ])('answers %s errors with %i', (kind, status) => {
+    expect(describeLLMError(new LLMProviderError('upstream', 'groq', kind)).status).toBe(status);
+  });
+  
+  it('leaves the upstream error body out of the message', () => {
+    const error = new LLMProviderError('Groq API error: {"error":{"message":"Invalid API Key sk-123"}}', 'groq', 'auth', 401);
+    
+    expect(describeLLMError(error)).toEqual({
+      kind: 'auth',
+      message: 'Authentication with groq failed. Please check the API key.',
+      retryable: false,
+      status: 401,
+    });
+  });
+  
+  it('describes open circuits and missed deadlines', () => {
+    expect(describeLLMError(new CircuitOpenError('groq', 30000))).toMatchObject({ kind: 'unavailable', status: 503, retryable: true });
+    expect(describeLLMError(new DeadlineExceededError(120000, 3))).toMatchObject({ kind: 'timeout', status: 504 });
+  });
+  
+  it('passes other errors through as internal errors', () => {
+    expect(describeLLMError(new Error('boom'))).toMatchObject({ kind: 'unknown', message: 'boom', status: 500 });
+  });
+});
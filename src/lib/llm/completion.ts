@@ -0,0 +1,199 @@
+// src/lib/llm/completion.ts
+import { resolveLLM, type LLMSelection } from './registry';
+import { estimateCost, requireModelInfo, validateModelRequest, type ModelInfo } from './models';
+import { DeadlineExceededError, withRetry } from './retry';
+import { CircuitOpenError, getCircuitBreaker } from './circuitBreaker';
+import { getLimiter } from './limiter';
+import { estimateTokens } from '@/lib/groq/chunker';
+import {
+  LLMProviderError,
+  type ChatCompletion,
+  type ChatCompletionDelta,
+  type ChatCompletionOptions,
+  type ChatMessage,
+  type TokenUsage,
+} from './provider';
+
+/**
+ * Interface for completion options
+ */
+export interface CompletionOptions extends ChatCompletionOptions, LLMSelection {
+  workspaceId?: string;
+  maxRetries?: number;
+  // Total time for every attempt and retry wait, in milliseconds
+  deadlineMs?: number;
+}
+
+/**
+ * Interface for accumulated usage of one provider and model
+ */
+export interface UsageTotals extends TokenUsage {
+  provider: string;
+  model: string;
+  requests: number;
+  cost: number;
+}
+
+// Usage by provider and model since the process started
+const usageTotals = new Map<string, UsageTotals>();
+
+/**
+ * Add the usage of one call to the running totals
+ * @param provider Provider name
+ * @param model Model name
+ * @param usage Token usage of the call
+ * @param cost Cost of the call in USD
+ */
+function recordUsage(provider: string, model: string, usage: TokenUsage, cost: number) {
+  const key = `${provider}:${model}`;
+  const totals = usageTotals.get(key) || { provider, model, requests: 0, prompt_tokens: 0, completion_tokens: 0, total_tokens: 0, cost: 0 };
+  
+  totals.requests++;
+  totals.prompt_tokens += usage.prompt_tokens || 0;
+  totals.completion_tokens += usage.completion_tokens || 0;
+  totals.total_tokens += usage.total_tokens || 0;
+  totals.cost += cost;
+  usageTotals.set(key, totals);
+}
+
+/**
+ * Check a call against the model registry and fit its output budget to the context window
+ * @param providerName Provider name
+ * @param model Model ID
+ * @param messages Conversation messages
+ * @param options Completion options
+ * @returns Model metadata, the options to send and the tokens to reserve against rate limits
+ * @throws ModelValidationError if the model cannot serve the call
+ */
+function prepareCall(
+  providerName: string,
+  model: string,
+  messages: ChatMessage[],
+  options: ChatCompletionOptions
+): { info?: ModelInfo; options: ChatCompletionOptions; reservedTokens: number } {
+  const info = requireModelInfo(providerName, model);
+  const promptTokens = estimateTokens(messages.map(message => message.content).join('\n'));
+  
+  if (!info) {
+    return { options: { ...options, model }, reservedTokens: promptTokens + (options.maxTokens ?? 4000) };
+  }
+  
+  const maxTokens = validateModelRequest(info, { promptTokens, maxTokens: options.maxTokens, responseFormat: options.responseFormat });
+  return { info, options: { ...options, model, maxTokens }, reservedTokens: promptTokens + maxTokens };
+}
+
+/**
+ * Get token usage by provider and model
+ * @returns Usage totals
+ */
+export function getUsageTotals(): UsageTotals[] {
+  return Array.from(usageTotals.values()).map(totals => ({ ...totals }));
+}
+
+/**
+ * Create a chat completion with the selected provider, retrying transient failures
+ * @param messages Conversation messages
+ * @param options Completion options with the provider, model and workspace
+ * @returns Completion with the name of the provider that served it and its cost in USD
+ */
+export async function complete(messages: ChatMessage[], options: CompletionOptions = {}): Promise<ChatCompletion & { provider: string; cost: number }> {
+  const { provider: providerName, model: requestedModel, workspaceId, maxRetries = 2, deadlineMs = 120000, signal, ...completionOptions } = options;
+  const { provider, model } = resolveLLM({ provider: providerName, model: requestedModel }, workspaceId);
+  const call = prepareCall(provider.name, model, messages, completionOptions);
+  const breaker = getCircuitBreaker(provider.name);
+  const limiter = getLimiter(provider.name, model, call.info?.limits);
+  
+  // Fail fast while the provider is unhealthy instead of queueing behind it
+  breaker.assertAvailable();
+  
+  const completion = await withRetry(async (attempt) => {
+    const release = await limiter.acquire(call.reservedTokens, attempt.signal);
+    let usedTokens: number | undefined;
+    
+    try {
+      const result = await breaker.execute(() => provider.createChatCompletion(messages, { ...call.options, signal: attempt.signal }));
+      usedTokens = result.usage.total_tokens;
+      return result;
+    } finally {
+      release(usedTokens);
+    }
+  }, { maxRetries, deadlineMs, signal });
+  
+  const cost = estimateCost(call.info, completion.usage);
+  recordUsage(provider.name, model, completion.usage, cost);
+  return { ...completion, provider: provider.name, cost };
+}
+
+/**
+ * Stream a chat completion with the selected provider
+ * Streams are not retried, since part of the reply may already have been delivered
+ * @param messages Conversation messages
+ * @param options Completion options with the provider, model and workspace
+ * @returns Content deltas; the final item carries token usage and its cost in USD
+ */
+export async function* streamComplete(messages: ChatMessage[], options: CompletionOptions = {}): AsyncGenerator<ChatCompletionDelta & { cost?: number }> {
+  const { provider: providerName, model: requestedModel, workspaceId, maxRetries, deadlineMs, ...completionOptions } = options;
+  const { provider, model } = resolveLLM({ provider: providerName, model: requestedModel }, workspaceId);
+  const call = prepareCall(provider.name, model, messages, completionOptions);
+  const limiter = getLimiter(provider.name, model, call.info?.limits);
+  const circuit = getCircuitBreaker(provider.name).begin();
+  let release: ((actualTokens?: number) => void) | undefined;
+  let usedTokens: number | undefined;
+  
+  try {
+    release = await limiter.acquire(call.reservedTokens, completionOptions.signal);
+    
+    for await (const event of provider.streamChatCompletion(messages, call.options)) {
+      if (event.usage) {
+        const cost = estimateCost(call.info, event.usage);
+        usedTokens = event.usage.total_tokens;
+        recordUsage(provider.name, model, event.usage, cost);
+        yield { ...event, cost };
+      } else {
+        yield event;
+      }
+    }
+    
+    circuit.succeed();
+  } catch (error) {
+    circuit.fail(error);
+    throw error;
+  } finally {
+    // Also reached when the consumer stops reading early
+    circuit.release();
+    release?.(usedTokens);
+  }
+}
+
+/**
+ * Describe an LLM error in a form that is safe to show to users
+ * Upstream error bodies are left out, since they can hold request details
+ * @param error Error thrown by a provider
+ * @returns Error kind, message and the HTTP status to answer with
+ */
+export function describeLLMError(error: unknown): { kind: string; message: string; retryable: boolean; status: number } {
+  if (error instanceof LLMProviderError) {
+    const messages: Record<string, string> = {
+      auth: `Authentication with ${error.provider} failed. Please check the API key.`,
+      rate_limit: `${error.provider} rate limit exceeded. Please try again later.`,
+      bad_request: `${error.provider} rejected the request. Please check the model and instructions.`,
+      server: `${error.provider} is having problems. Please try again later.`,
+      timeout: `${error.provider} timed out. Please try again.`,
+      network: `Could not reach ${error.provider}. Please check the provider URL.`,
+      aborted: 'The request was cancelled.',
+    };
+    // Other failures are the upstream API's, so they are a bad gateway
+    const statuses: Record<string, number> = { auth: 401, rate_limit: 429, timeout: 504 };
+    return { kind: error.kind, message: messages[error.kind], retryable: error.retryable, status: statuses[error.kind] || 502 };
+  }
+  
+  if (error instanceof CircuitOpenError) {
+    return { kind: 'unavailable', message: `${error.provider} is temporarily unavailable. Please try again in ${Math.ceil(error.retryAfterMs / 1000)} seconds.`, retryable: true, status: 503 };
+  }
+  
+  if (error instanceof DeadlineExceededError) {
+    return { kind: 'timeout', message: `The request did not complete within ${Math.round(error.deadlineMs / 1000)} seconds. Please try again.`, retryable: true, status: 504 };
+  }
+  
+  return { kind: 'unknown', message: (error as Error)?.message || 'Unknown error', retryable: false, status: 500 };
+}
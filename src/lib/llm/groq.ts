@@ -0,0 +1,49 @@
+// src/lib/llm/groq.ts
+import { OpenAICompatibleProvider } from './openaiCompatible';
+import { DEFAULT_GROQ_MODEL } from './models';
+import { classifyStatus, LLMProviderError, type TokenUsage } from './provider';
+
+/**
+ * Error returned by the Groq API, with its status, error code and response headers
+ */
+export class GroqApiError extends LLMProviderError {
+  constructor(message: string, status: number, code?: string, headers: Record<string, string> = {}, details?: unknown) {
+    super(message, 'groq', classifyStatus(status), status, details, code, headers);
+    this.name = 'GroqApiError';
+  }
+}
+
+/**
+ * Groq chat completions, which follow the OpenAI API with a few extensions
+ */
+export class GroqProvider extends OpenAICompatibleProvider {
+  constructor(apiKey = process.env.GROQ_API_KEY) {
+    super({
+      name: 'groq',
+      baseUrl: 'https://api.groq.com/openai/v1',
+      apiKey,
+      requireApiKey: true,
+      defaultModel: DEFAULT_GROQ_MODEL,
+    });
+  }
+  
+  protected createApiError(response: Response, errorData: any, headers: Record<string, string>): LLMProviderError {
+    return new GroqApiError(
+      `Groq API error: ${response.status} ${response.statusText} - ${JSON.stringify(errorData)}`,
+      response.status,
+      errorData?.error?.code || errorData?.error?.type,
+      headers,
+      errorData
+    );
+  }
+  
+  protected streamOptions(): Record<string, unknown> {
+    // Groq always reports usage on the last chunk
+    return {};
+  }
+  
+  protected readStreamUsage(chunk: any): TokenUsage | undefined {
+    // Groq reports usage on the last chunk under x_groq
+    return chunk.x_groq?.usage || chunk.usage || undefined;
+  }
+}
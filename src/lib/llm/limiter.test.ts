@@ -0,0 +1,126 @@
+// src/lib/llm/limiter.test.ts
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ProviderLimiter } from './limiter';
+
+/**
+ * Track whether a promise has settled
+ * @param promise Promise to watch
+ * @returns Function reporting whether it has resolved
+ */
+function settled(promise: Promise<unknown>): () => boolean {
+  let done = false;
+  promise.then(() => { done = true; }, () => { done = true; });
+  return () => done;
+}
+
+describe('ProviderLimiter', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+  
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+  
+  it('holds requests beyond the concurrency limit until one is released', async () => {
+    const limiter = new ProviderLimiter('groq:test', { maxConcurrent: 2 });
+    
+    const first = await limiter.acquire(10);
+    await limiter.acquire(10);
+    const third = limiter.acquire(10);
+    const thirdStarted = settled(third);
+    await vi.advanceTimersByTimeAsync(0);
+    
+    expect(thirdStarted()).toBe(false);
+    expect(limiter.getStatus()).toMatchObject({ active: 2, queued: 1 });
+    
+    first();
+    await vi.advanceTimersByTimeAsync(0);
+    expect(thirdStarted()).toBe(true);
+  });
+  
+  it('ignores a second release of the same request', async () => {
+    const limiter = new ProviderLimiter('groq:test', { maxConcurrent: 2 });
+    
+    const release = await limiter.acquire(10);
+    await limiter.acquire(10);
+    release();
+    release();
+    
+    expect(limiter.getStatus().active).toBe(1);
+  });
+  
+  it('waits for the request window to free up', async () => {
+    const limiter = new ProviderLimiter('groq:test', { maxConcurrent: 10, requestsPerMinute: 1 });
+    
+    (await limiter.acquire(10))();
+    const second = limiter.acquire(10);
+    const secondStarted = settled(second);
+    
+    await vi.advanceTimersByTimeAsync(59999);
+    expect(secondStarted()).toBe(false);
+    
+    await vi.advanceTimersByTimeAsync(1);
+    expect(secondStarted()).toBe(true);
+  });
+  
+  it('waits for the token window and counts the actual usage on release', async () => {
+    const limiter = new ProviderLimiter('groq:test', { maxConcurrent: 10, tokensPerMinute: 1000 });
+    
+    const release = await limiter.acquire(900);
+    const next = limiter.acquire(500);
+    const nextStarted = settled(next);
+    await vi.advanceTimersByTimeAsync(0);
+    expect(nextStarted()).toBe(false);
+    
+    // The first request used far fewer tokens than estimated, which makes room
+    release(200);
+    await vi.advanceTimersByTimeAsync(0);
+    
+    expect(nextStarted()).toBe(true);
+    expect(limiter.getStatus().tokensLastMinute).toBe(700);
+  });
+  
+  it('lets a request larger than the whole budget run on its own', async () => {
+    const limiter = new ProviderLimiter('groq:test', { maxConcurrent: 10, tokensPerMinute: 1000 });
+    
+    await expect(limiter.acquire(5000)).resolves.toBeTypeOf('function');
+  });
+  
+  it('starts queued requests in arrival order', async () => {
+    const limiter = new ProviderLimiter('groq:test', { maxConcurrent: 1 });
+    const order: number[] = [];
+    
+    const release = await limiter.acquire(10);
+    const queued = [1, 2, 3].map(id => limiter.acquire(10).then(next => {
+      order.push(id);
+      next();
+    }));
+    release();
+    await Promise.all(queued);
+    
+    expect(order).toEqual([1, 2, 3]);
+  });
+  
+  it('removes an aborted request from the queue', async () => {
+    const limiter = new ProviderLimiter('groq:test', { maxConcurrent: 1 });
+    const controller = new AbortController();
+    
+    const release = await limiter.acquire(10);
+    const aborted = limiter.acquire(10, controller.signal);
+    controller.abort();
+    
+    await expect(aborted).rejects.toThrow('aborted');
+    expect(limiter.getStatus().queued).toBe(0);
+    
+    release();
+    expect(limiter.getStatus().active).toBe(0);
+  });
+  
+  it('rejects a request whose signal is already aborted', async () => {
+    const limiter = new ProviderLimiter('groq:test', { maxConcurrent: 1 });
+    
+    await expect(limiter.acquire(10, AbortSignal.abort())).rejects.toThrow('aborted');
+    expect(limiter.getStatus().active).toBe(0);
+  });
+});
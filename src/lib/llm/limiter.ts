@@ -0,0 +1,202 @@
+// src/lib/llm/limiter.ts
+
+/**
+ * Interface for provider limits
+ */
+export interface ProviderLimits {
+  maxConcurrent: number;
+  requestsPerMinute?: number;
+  tokensPerMinute?: number;
+}
+
+/**
+ * Interface for a queued request
+ */
+interface Waiter {
+  tokens: number;
+  resolve: (release: (actualTokens?: number) => void) => void;
+  reject: (error: Error) => void;
+  signal?: AbortSignal;
+  onAbort?: () => void;
+}
+
+/**
+ * Interface for a snapshot of a limiter
+ */
+export interface LimiterStatus {
+  name: string;
+  active: number;
+  queued: number;
+  requestsLastMinute: number;
+  tokensLastMinute: number;
+  limits: ProviderLimits;
+}
+
+const MINUTE_MS = 60000;
+
+/**
+ * Queue that holds LLM requests back until they fit the provider's concurrency, request and token limits
+ * Requests are started in arrival order
+ */
+export class ProviderLimiter {
+  private active = 0;
+  private queue: Waiter[] = [];
+  private usage: { at: number; tokens: number }[] = [];
+  private timer?: ReturnType<typeof setTimeout>;
+  
+  constructor(public name: string, public limits: ProviderLimits) {}
+  
+  /**
+   * Wait for room to send a request
+   * @param tokens Estimated tokens the request will use, prompt and reply
+   * @param signal Abort signal that removes the request from the queue
+   * @returns Release function; pass the actual token usage to correct the estimate
+   */
+  acquire(tokens: number, signal?: AbortSignal): Promise<(actualTokens?: number) => void> {
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(new Error('Request was aborted while waiting for the provider rate limit'));
+        return;
+      }
+      
+      const waiter: Waiter = { tokens, resolve, reject, signal };
+      if (signal) {
+        waiter.onAbort = () => {
+          this.queue = this.queue.filter(queued => queued !== waiter);
+          reject(new Error('Request was aborted while waiting for the provider rate limit'));
+        };
+        signal.addEventListener('abort', waiter.onAbort);
+      }
+      
+      this.queue.push(waiter);
+      this.drain();
+    });
+  }
+  
+  /**
+   * Get a snapshot of the limiter
+   * @returns Limiter status
+   */
+  getStatus(): LimiterStatus {
+    const usage = this.recentUsage();
+    return {
+      name: this.name,
+      active: this.active,
+      queued: this.queue.length,
+      requestsLastMinute: usage.length,
+      tokensLastMinute: usage.reduce((sum, entry) => sum + entry.tokens, 0),
+      limits: this.limits,
+    };
+  }
+  
+  /**
+   * Start queued requests while they fit, and schedule another pass when the window frees up
+   */
+  private drain() {
+    clearTimeout(this.timer);
+    this.timer = undefined;
+    
+    while (this.queue.length > 0 && this.active < this.limits.maxConcurrent) {
+      const waiter = this.queue[0];
+      const wait = this.waitFor(waiter.tokens);
+      
+      if (wait > 0) {
+        this.timer = setTimeout(() => this.drain(), wait);
+        return;
+      }
+      
+      this.queue.shift();
+      if (waiter.signal && waiter.onAbort) {
+        waiter.signal.removeEventListener('abort', waiter.onAbort);
+      }
+      
+      const entry = { at: Date.now(), tokens: waiter.tokens };
+      this.usage.push(entry);
+      this.active++;
+      
+      let released = false;
+      waiter.resolve((actualTokens?: number) => {
+        if (released) {
+          return;
+        }
+        released = true;
+        if (actualTokens !== undefined) {
+          entry.tokens = actualTokens;
+        }
+        this.active--;
+        this.drain();
+      });
+    }
+  }
+  
+  /**
+   * How long a request must wait for the per-minute windows to have room for it
+   * @param tokens Estimated tokens of the request
+   * @returns Delay in milliseconds, 0 if it can start now
+   */
+  private waitFor(tokens: number): number {
+    const usage = this.recentUsage();
+    this.usage = usage;
+    
+    if (usage.length === 0) {
+      // A request larger than the whole budget still runs, alone
+      return 0;
+    }
+    
+    const { requestsPerMinute, tokensPerMinute } = this.limits;
+    const usedTokens = usage.reduce((sum, entry) => sum + entry.tokens, 0);
+    const requestsFit = !requestsPerMinute || usage.length < requestsPerMinute;
+    const tokensFit = !tokensPerMinute || usedTokens + tokens <= tokensPerMinute;
+    
+    if (requestsFit && tokensFit) {
+      return 0;
+    }
+    
+    // Wait until the oldest request leaves the window, then check again
+    return Math.max(1, usage[0].at + MINUTE_MS - Date.now());
+  }
+  
+  /**
+   * Get the requests started within the last minute
+   * @returns Recent usage entries, oldest first
+   */
+  private recentUsage() {
+    const since = Date.now() - MINUTE_MS;
+    return this.usage.filter(entry => entry.at > since);
+  }
+}
+
+// Limiters by provider and model, since published limits are per model
+const limiters = new Map<string, ProviderLimiter>();
+
+/**
+ * Get the process-wide limiter for a provider and model
+ * @param provider Provider name
+ * @param model Model ID
+ * @param published Published limits of the model, if known
+ * @returns Limiter
+ */
+export function getLimiter(provider: string, model: string, published: Partial<ProviderLimits> = {}): ProviderLimiter {
+  const key = `${provider}:${model}`;
+  let limiter = limiters.get(key);
+  
+  if (!limiter) {
+    // Environment settings override the published limits, e.g. for a higher paid tier
+    limiter = new ProviderLimiter(key, {
+      maxConcurrent: parseInt(process.env.LLM_MAX_CONCURRENT || '', 10) || published.maxConcurrent || 4,
+      requestsPerMinute: parseInt(process.env.LLM_REQUESTS_PER_MINUTE || '', 10) || published.requestsPerMinute,
+      tokensPerMinute: parseInt(process.env.LLM_TOKENS_PER_MINUTE || '', 10) || published.tokensPerMinute,
+    });
+    limiters.set(key, limiter);
+  }
+  
+  return limiter;
+}
+
+/**
+ * Get the status of every limiter
+ * @returns Limiter statuses
+ */
+export function getLimiterStatuses(): LimiterStatus[] {
+  return Array.from(limiters.values()).map(limiter => limiter.getStatus());
+}
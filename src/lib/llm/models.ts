@@ -0,0 +1,227 @@
+// src/lib/llm/models.ts
+import type { TokenUsage } from './provider';
+
+/**
+ * Interface for model metadata
+ */
+export interface ModelInfo {
+  id: string;
+  provider: string;
+  label: string;
+  contextWindow: number;
+  maxOutputTokens: number;
+  supportsJsonMode: boolean;
+  supportsTools: boolean;
+  // USD per million tokens
+  pricing: {
+    input: number;
+    output: number;
+  };
+  // Published rate limits, used to queue requests before the API rejects them
+  limits?: {
+    requestsPerMinute: number;
+    tokensPerMinute: number;
+  };
+}
+
+/**
+ * Error raised when a request does not fit what the model supports
+ */
+export class ModelValidationError extends Error {
+  constructor(message: string, public model: string, public provider: string) {
+    super(message);
+    this.name = 'ModelValidationError';
+  }
+}
+
+export const DEFAULT_GROQ_MODEL = 'llama3-70b-8192';
+
+// Models served by Groq, with published limits and prices (free tier rate limits)
+const GROQ_MODELS: ModelInfo[] = [
+  {
+    id: 'llama3-70b-8192',
+    provider: 'groq',
+    label: 'Llama 3 70B',
+    contextWindow: 8192,
+    maxOutputTokens: 8192,
+    supportsJsonMode: true,
+    supportsTools: true,
+    pricing: { input: 0.59, output: 0.79 },
+    limits: { requestsPerMinute: 30, tokensPerMinute: 6000 },
+  },
+  {
+    id: 'llama3-8b-8192',
+    provider: 'groq',
+    label: 'Llama 3 8B',
+    contextWindow: 8192,
+    maxOutputTokens: 8192,
+    supportsJsonMode: true,
+    supportsTools: true,
+    pricing: { input: 0.05, output: 0.08 },
+    limits: { requestsPerMinute: 30, tokensPerMinute: 30000 },
+  },
+  {
+    id: 'llama-3.3-70b-versatile',
+    provider: 'groq',
+    label: 'Llama 3.3 70B Versatile',
+    contextWindow: 131072,
+    maxOutputTokens: 32768,
+    supportsJsonMode: true,
+    supportsTools: true,
+    pricing: { input: 0.59, output: 0.79 },
+    limits: { requestsPerMinute: 30, tokensPerMinute: 12000 },
+  },
+  {
+    id: 'llama-3.1-8b-instant',
+    provider: 'groq',
+    label: 'Llama 3.1 8B Instant',
+    contextWindow: 131072,
+    maxOutputTokens: 8192,
+    supportsJsonMode: true,
+    supportsTools: true,
+    pricing: { input: 0.05, output: 0.08 },
+    limits: { requestsPerMinute: 30, tokensPerMinute: 6000 },
+  },
+  {
+    id: 'mixtral-8x7b-32768',
+    provider: 'groq',
+    label: 'Mixtral 8x7B',
+    contextWindow: 32768,
+    maxOutputTokens: 32768,
+    supportsJsonMode: true,
+    supportsTools: true,
+    pricing: { input: 0.24, output: 0.24 },
+    limits: { requestsPerMinute: 30, tokensPerMinute: 5000 },
+  },
+  {
+    id: 'gemma2-9b-it',
+    provider: 'groq',
+    label: 'Gemma 2 9B',
+    contextWindow: 8192,
+    maxOutputTokens: 8192,
+    supportsJsonMode: true,
+    supportsTools: false,
+    pricing: { input: 0.2, output: 0.2 },
+    limits: { requestsPerMinute: 30, tokensPerMinute: 15000 },
+  },
+];
+
+/**
+ * Describe a model on an OpenAI-compatible server, whose limits come from the environment
+ * Local servers can load any model, so every model ID is accepted
+ * @param id Model ID
+ * @returns Model metadata
+ */
+function openAICompatibleModel(id: string): ModelInfo {
+  return {
+    id,
+    provider: 'openai-compatible',
+    label: id,
+    contextWindow: parseInt(process.env.OPENAI_COMPATIBLE_CONTEXT_WINDOW || '8192', 10),
+    maxOutputTokens: parseInt(process.env.OPENAI_COMPATIBLE_MAX_OUTPUT_TOKENS || '4096', 10),
+    supportsJsonMode: process.env.OPENAI_COMPATIBLE_JSON_MODE !== 'false',
+    supportsTools: process.env.OPENAI_COMPATIBLE_TOOLS === 'true',
+    pricing: { input: 0, output: 0 },
+  };
+}
+
+/**
+ * List the models of the given providers
+ * @param providers Provider names
+ * @returns Model metadata
+ */
+export function listModels(providers: string[]): ModelInfo[] {
+  return providers.flatMap(provider => {
+    if (provider === 'groq') {
+      return GROQ_MODELS;
+    }
+    if (provider === 'openai-compatible') {
+      return [openAICompatibleModel(process.env.OPENAI_COMPATIBLE_MODEL || 'llama3')];
+    }
+    return [];
+  });
+}
+
+/**
+ * Look up a model
+ * @param provider Provider name
+ * @param model Model ID
+ * @returns Model metadata, or undefined if the provider does not offer the model
+ */
+export function getModelInfo(provider: string, model: string): ModelInfo | undefined {
+  if (provider === 'openai-compatible') {
+    return openAICompatibleModel(model);
+  }
+  if (provider === 'groq') {
+    return GROQ_MODELS.find(info => info.id === model);
+  }
+  return undefined;
+}
+
+/**
+ * Look up the model a call will use
+ * @param provider Provider name
+ * @param model Model ID
+ * @returns Model metadata, or undefined for custom providers the registry does not describe
+ * @throws ModelValidationError if a described provider does not offer the model
+ */
+export function requireModelInfo(provider: string, model: string): ModelInfo | undefined {
+  const info = getModelInfo(provider, model);
+  if (!info && provider === 'groq') {
+    throw new ModelValidationError(`Unknown model ${model} for provider ${provider}`, model, provider);
+  }
+  return info;
+}
+
+/**
+ * Check a request against a model's limits
+ * @param info Model metadata
+ * @param request Estimated prompt size, requested output size and response format
+ * @returns Output token budget that fits the context window
+ * @throws ModelValidationError if the model cannot serve the request
+ */
+export function validateModelRequest(
+  info: ModelInfo,
+  request: { promptTokens: number; maxTokens?: number; responseFormat?: 'text' | 'json_object' }
+): number {
+  if (request.responseFormat === 'json_object' && !info.supportsJsonMode) {
+    throw new ModelValidationError(`Model ${info.id} does not support JSON mode`, info.id, info.provider);
+  }
+  
+  const available = info.contextWindow - request.promptTokens;
+  if (available <= 0) {
+    throw new ModelValidationError(
+      `Prompt of about ${request.promptTokens} tokens does not fit the ${info.contextWindow}-token context window of ${info.id}`,
+      info.id,
+      info.provider
+    );
+  }
+  
+  // Shrink the output budget rather than fail when the prompt leaves less room than requested
+  return Math.min(request.maxTokens ?? 4000, info.maxOutputTokens, available);
+}
+
+/**
+ * Pick a chunk size that leaves room in the context window for instructions and the reply
+ * @param info Model metadata
+ * @returns Maximum tokens per content chunk
+ */
+export function chunkTokensFor(info: ModelInfo): number {
+  const outputBudget = Math.min(info.maxOutputTokens, 4000);
+  
+  // Large windows still get bounded chunks, since very long prompts lose detail
+  return Math.max(500, Math.min(Math.floor((info.contextWindow - outputBudget) * 0.75), 24000));
+}
+
+/**
+ * Compute the price of a call
+ * @param info Model metadata
+ * @param usage Token usage
+ * @returns Cost in USD
+ */
+export function estimateCost(info: ModelInfo | undefined, usage: TokenUsage): number {
+  if (!info) {
+    return 0;
+  }
+  return (usage.prompt_tokens * info.pricing.input + usage.completion_tokens * info.pricing.output) / 1000000;
+}
@@ -0,0 +1,258 @@
+// src/lib/llm/openaiCompatible.ts
+import {
+  classifyStatus,
+  LLMProviderError,
+  type ChatCompletion,
+  type ChatCompletionDelta,
+  type ChatCompletionOptions,
+  type ChatMessage,
+  type LLMProvider,
+  type TokenUsage,
+} from './provider';
+
+/**
+ * Interface for OpenAI-compatible provider settings
+ */
+export interface OpenAICompatibleConfig {
+  name: string;
+  // Base URL up to and including the API version, e.g. http://localhost:11434/v1
+  baseUrl: string;
+  apiKey?: string;
+  // Local servers usually need no key; hosted APIs fail fast without one
+  requireApiKey?: boolean;
+  defaultModel: string;
+}
+
+/**
+ * Interface for an OpenAI-style chat completions response
+ */
+interface ChatCompletionResponse {
+  model: string;
+  choices: {
+    index: number;
+    message: {
+      role: string;
+      content: string;
+    };
+    finish_reason: string;
+  }[];
+  usage?: TokenUsage;
+}
+
+const EMPTY_USAGE: TokenUsage = { prompt_tokens: 0, completion_tokens: 0, total_tokens: 0 };
+
+/**
+ * Provider for any server that implements the OpenAI chat completions API (Ollama, llama.cpp, vLLM, test stand-ins)
+ */
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly name: string;
+  readonly defaultModel: string;
+  private baseUrl: string;
+  private apiKey?: string;
+  private requireApiKey: boolean;
+  
+  constructor(config: OpenAICompatibleConfig) {
+    this.name = config.name;
+    this.defaultModel = config.defaultModel;
+    this.baseUrl = config.baseUrl.replace(/\/+$/, '');
+    this.apiKey = config.apiKey;
+    this.requireApiKey = config.requireApiKey ?? false;
+  }
+  
+  /**
+   * Create a chat completion
+   * @param messages Conversation messages
+   * @param options Completion options
+   * @returns Completion text, model and token usage
+   */
+  async createChatCompletion(messages: ChatMessage[], options: ChatCompletionOptions = {}): Promise<ChatCompletion> {
+    const response = await this.request(this.buildBody(messages, options), options.signal);
+    const data = await response.json() as ChatCompletionResponse;
+    
+    return {
+      content: data.choices[0]?.message.content || '',
+      model: data.model || options.model || this.defaultModel,
+      finishReason: data.choices[0]?.finish_reason,
+      usage: data.usage || { ...EMPTY_USAGE },
+    };
+  }
+  
+  /**
+   * Create a chat completion with streaming, yielding content deltas as they arrive
+   * @param messages Conversation messages
+   * @param options Completion options
+   * @returns Content deltas; the final item carries token usage
+   */
+  async *streamChatCompletion(messages: ChatMessage[], options: ChatCompletionOptions = {}): AsyncGenerator<ChatCompletionDelta> {
+    const response = await this.request(
+      { ...this.buildBody(messages, options), stream: true, ...this.streamOptions() },
+      options.signal
+    );
+    
+    if (!response.body) {
+      throw new LLMProviderError(`${this.name} API returned an empty stream`, this.name, 'server', response.status);
+    }
+    
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    
+    try {
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) {
+          break;
+        }
+        
+        buffer += decoder.decode(value, { stream: true });
+        
+        // Server-sent events are separated by newlines; keep any partial line for the next read
+        const lines = buffer.split('\n');
+        buffer = lines.pop() || '';
+        
+        for (const line of lines) {
+          if (!line.startsWith('data:')) {
+            continue;
+          }
+          
+          const data = line.slice('data:'.length).trim();
+          if (!data || data === '[DONE]') {
+            continue;
+          }
+          
+          const chunk = JSON.parse(data);
+          const delta = chunk.choices?.[0]?.delta?.content;
+          if (delta) {
+            yield { delta };
+          }
+          
+          const usage = this.readStreamUsage(chunk);
+          if (usage) {
+            yield { usage };
+          }
+        }
+      }
+    } catch (error) {
+      throw this.wrapFetchError(error, options.signal);
+    } finally {
+      reader.releaseLock();
+    }
+  }
+  
+  /**
+   * Extra request fields for streaming requests
+   * @returns Fields merged into the request body
+   */
+  protected streamOptions(): Record<string, unknown> {
+    // Ask for a final usage chunk, which OpenAI-compatible servers otherwise leave out
+    return { stream_options: { include_usage: true } };
+  }
+  
+  /**
+   * Read token usage from a streamed chunk
+   * @param chunk Parsed stream chunk
+   * @returns Token usage, if the chunk carries it
+   */
+  protected readStreamUsage(chunk: any): TokenUsage | undefined {
+    return chunk.usage || undefined;
+  }
+  
+  /**
+   * Create the error for an unsuccessful response
+   * @param response Upstream response
+   * @param errorData Parsed error body
+   * @param headers Response headers, used for rate limit hints
+   * @returns Classified error
+   */
+  protected createApiError(response: Response, errorData: any, headers: Record<string, string>): LLMProviderError {
+    return new LLMProviderError(
+      `${this.name} API error: ${response.status} ${response.statusText} - ${JSON.stringify(errorData)}`,
+      this.name,
+      classifyStatus(response.status),
+      response.status,
+      errorData,
+      errorData?.error?.code || errorData?.error?.type,
+      headers
+    );
+  }
+  
+  /**
+   * Build the request body shared by streaming and non-streaming calls
+   * @param messages Conversation messages
+   * @param options Completion options
+   * @returns Request body
+   */
+  private buildBody(messages: ChatMessage[], options: ChatCompletionOptions): Record<string, unknown> {
+    const {
+      model = this.defaultModel,
+      temperature = 0.2,
+      maxTokens = 4000,
+      responseFormat = 'text',
+    } = options;
+    
+    return {
+      model,
+      messages,
+      temperature,
+      max_tokens: maxTokens,
+      ...(responseFormat === 'json_object' && { response_format: { type: 'json_object' } }),
+    };
+  }
+  
+  /**
+   * Send a chat completions request, turning failures into classified errors
+   * @param body Request body
+   * @param signal Abort signal
+   * @returns Successful response
+   */
+  private async request(body: Record<string, unknown>, signal?: AbortSignal): Promise<Response> {
+    if (this.requireApiKey && !this.apiKey) {
+      throw new LLMProviderError(`API key for ${this.name} is not set`, this.name, 'auth');
+    }
+    
+    let response: Response;
+    try {
+      response = await fetch(`${this.baseUrl}/chat/completions`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(this.apiKey && { 'Authorization': `Bearer ${this.apiKey}` }),
+        },
+        body: JSON.stringify(body),
+        signal,
+      });
+    } catch (error) {
+      throw this.wrapFetchError(error, signal);
+    }
+    
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      const headers: Record<string, string> = {};
+      response.headers.forEach((value, key) => {
+        headers[key] = value;
+      });
+      throw this.createApiError(response, errorData, headers);
+    }
+    
+    return response;
+  }
+  
+  /**
+   * Classify an error thrown while talking to the server
+   * @param error Original error
+   * @param signal Abort signal of the request
+   * @returns Classified error
+   */
+  private wrapFetchError(error: unknown, signal?: AbortSignal): Error {
+    if (error instanceof LLMProviderError) {
+      return error;
+    }
+    if (signal?.aborted) {
+      return new LLMProviderError(`${this.name} request was aborted`, this.name, 'aborted');
+    }
+    if (error instanceof SyntaxError) {
+      return new LLMProviderError(`${this.name} API returned malformed data: ${error.message}`, this.name, 'server');
+    }
+    return new LLMProviderError(`${this.name} API is unreachable: ${(error as Error).message}`, this.name, 'network');
+  }
+}
@@ -0,0 +1,106 @@
+// src/lib/llm/provider.ts
+
+/**
+ * Interface for a chat message
+ */
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+/**
+ * Interface for token usage
+ */
+export interface TokenUsage {
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
+}
+
+/**
+ * Interface for chat completion options
+ */
+export interface ChatCompletionOptions {
+  model?: string;
+  temperature?: number;
+  maxTokens?: number;
+  // JSON mode guarantees the reply is a single JSON object
+  responseFormat?: 'text' | 'json_object';
+  signal?: AbortSignal;
+}
+
+/**
+ * Interface for a finished chat completion
+ */
+export interface ChatCompletion {
+  content: string;
+  model: string;
+  finishReason?: string;
+  usage: TokenUsage;
+}
+
+/**
+ * Interface for one streamed completion event; the final event carries token usage
+ */
+export interface ChatCompletionDelta {
+  delta?: string;
+  usage?: TokenUsage;
+}
+
+/**
+ * Interface for an LLM backend
+ */
+export interface LLMProvider {
+  readonly name: string;
+  readonly defaultModel: string;
+  createChatCompletion(messages: ChatMessage[], options?: ChatCompletionOptions): Promise<ChatCompletion>;
+  streamChatCompletion(messages: ChatMessage[], options?: ChatCompletionOptions): AsyncGenerator<ChatCompletionDelta>;
+}
+
+export type LLMErrorKind = 'auth' | 'rate_limit' | 'bad_request' | 'server' | 'timeout' | 'network' | 'aborted';
+
+/**
+ * Error raised by an LLM provider, classified so callers can decide whether to retry
+ */
+export class LLMProviderError extends Error {
+  constructor(
+    message: string,
+    public provider: string,
+    public kind: LLMErrorKind,
+    public status?: number,
+    public details?: unknown,
+    public code?: string,
+    public headers?: Record<string, string>
+  ) {
+    super(message);
+    this.name = 'LLMProviderError';
+  }
+  
+  /**
+   * Whether the same request may succeed if it is sent again
+   */
+  get retryable(): boolean {
+    return this.kind === 'rate_limit' || this.kind === 'server' || this.kind === 'timeout' || this.kind === 'network';
+  }
+}
+
+/**
+ * Classify an HTTP status from an LLM API
+ * @param status HTTP status code
+ * @returns Error kind
+ */
+export function classifyStatus(status: number): LLMErrorKind {
+  if (status === 401 || status === 403) {
+    return 'auth';
+  }
+  if (status === 429) {
+    return 'rate_limit';
+  }
+  if (status === 408 || status === 504) {
+    return 'timeout';
+  }
+  if (status >= 500) {
+    return 'server';
+  }
+  return 'bad_request';
+}
@@ -0,0 +1,135 @@
+// src/lib/llm/registry.ts
+import { DEFAULT_WORKSPACE_ID } from '@/lib/auth/workspace';
+import { GroqProvider } from './groq';
+import { OpenAICompatibleProvider } from './openaiCompatible';
+import type { LLMProvider } from './provider';
+
+/**
+ * Interface for choosing a provider and model
+ */
+export interface LLMSelection {
+  provider?: string;
+  model?: string;
+}
+
+// Provider instances by name
+const providers = new Map<string, LLMProvider>();
+
+// Workspace provider settings (would be a database in production)
+const workspaceSettings = new Map<string, LLMSelection>();
+
+/**
+ * Create a provider from environment configuration
+ * @param name Provider name
+ * @returns Provider, or undefined if it is unknown or not configured
+ */
+function createProvider(name: string): LLMProvider | undefined {
+  switch (name) {
+    case 'groq':
+      return new GroqProvider();
+    
+    case 'openai-compatible': {
+      const baseUrl = process.env.OPENAI_COMPATIBLE_BASE_URL;
+      if (!baseUrl) {
+        return undefined;
+      }
+      return new OpenAICompatibleProvider({
+        name,
+        baseUrl,
+        apiKey: process.env.OPENAI_COMPATIBLE_API_KEY || undefined,
+        defaultModel: process.env.OPENAI_COMPATIBLE_MODEL || 'llama3',
+      });
+    }
+    
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Get the names of the providers that are configured or registered
+ * @returns Provider names
+ */
+export function getProviderNames(): string[] {
+  const configured = ['groq', ...(process.env.OPENAI_COMPATIBLE_BASE_URL ? ['openai-compatible'] : [])];
+  return Array.from(new Set([...configured, ...Array.from(providers.keys())]));
+}
+
+/**
+ * Get a provider by name
+ * @param name Provider name, or the LLM_PROVIDER default
+ * @returns Provider
+ * @throws Error if the provider is unknown or not configured
+ */
+export function getProvider(name = process.env.LLM_PROVIDER || 'groq'): LLMProvider {
+  let provider = providers.get(name);
+  
+  if (!provider) {
+    provider = createProvider(name);
+    if (!provider) {
+      throw new Error(`Unknown or unconfigured LLM provider: ${name}`);
+    }
+    providers.set(name, provider);
+  }
+  
+  return provider;
+}
+
+/**
+ * Register a provider instance, replacing any provider with the same name
+ * @param provider Provider to register
+ */
+export function registerProvider(provider: LLMProvider) {
+  providers.set(provider.name, provider);
+}
+
+/**
+ * Get the provider settings of a workspace
+ * @param workspaceId Workspace ID
+ * @returns Provider and model selection, empty if the workspace uses the defaults
+ */
+export function getWorkspaceLLMSettings(workspaceId: string = DEFAULT_WORKSPACE_ID): LLMSelection {
+  return workspaceSettings.get(workspaceId) || {};
+}
+
+/**
+ * Set the provider settings of a workspace
+ * @param workspaceId Workspace ID
+ * @param selection Provider and model; an empty selection restores the defaults
+ * @returns Saved settings
+ * @throws Error if the provider is unknown or not configured
+ */
+export function setWorkspaceLLMSettings(workspaceId: string, selection: LLMSelection): LLMSelection {
+  const settings: LLMSelection = {
+    ...(selection.provider && { provider: selection.provider }),
+    ...(selection.model && { model: selection.model }),
+  };
+  
+  if (settings.provider) {
+    getProvider(settings.provider);
+  }
+  
+  if (settings.provider || settings.model) {
+    workspaceSettings.set(workspaceId, settings);
+  } else {
+    workspaceSettings.delete(workspaceId);
+  }
+  
+  return settings;
+}
+
+/**
+ * Resolve the provider and model for a call: the request wins over the workspace, which wins over the defaults
+ * @param selection Provider and model requested for this call
+ * @param workspaceId Workspace the call belongs to
+ * @returns Provider and model to use
+ */
+export function resolveLLM(selection: LLMSelection = {}, workspaceId?: string): { provider: LLMProvider; model: string } {
+  const workspace = getWorkspaceLLMSettings(workspaceId);
+  const provider = getProvider(selection.provider || workspace.provider || undefined);
+  
+  // A workspace model only applies to the workspace provider
+  const workspaceModel = !selection.provider || selection.provider === workspace.provider ? workspace.model : undefined;
+  
+  return { provider, model: selection.model || workspaceModel || provider.defaultModel };
+}
@@ -0,0 +1,143 @@
+// src/lib/llm/retry.test.ts
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { LLMProviderError } from './provider';
+import { DeadlineExceededError, getRetryAfter, isRetryableError, withRetry } from './retry';
+
+/**
+ * Build a provider error
+ * @param kind Error kind
+ * @param headers Response headers
+ * @returns Error
+ */
+function providerError(kind: LLMProviderError['kind'], headers?: Record<string, string>): LLMProviderError {
+  return new LLMProviderError(`${kind} error`, 'groq', kind, undefined, undefined, undefined, headers);
+}
+
+describe('isRetryableError', () => {
+  it('retries rate limits, server errors, timeouts and network failures only', () => {
+    expect(isRetryableError(providerError('rate_limit'))).toBe(true);
+    expect(isRetryableError(providerError('server'))).toBe(true);
+    expect(isRetryableError(new TypeError('fetch failed'))).toBe(true);
+    expect(isRetryableError(providerError('auth'))).toBe(false);
+    expect(isRetryableError(providerError('bad_request'))).toBe(false);
+    expect(isRetryableError(new Error('fetch failed'))).toBe(false);
+  });
+});
+
+describe('getRetryAfter', () => {
+  it('reads Retry-After in seconds or as a date', () => {
+    vi.useFakeTimers({ now: new Date('2024-01-01T00:00:00Z') });
+    
+    expect(getRetryAfter(providerError('rate_limit', { 'retry-after': '3' }))).toBe(3000);
+    expect(getRetryAfter(providerError('server', { 'retry-after': 'Mon, 01 Jan 2024 00:00:10 GMT' }))).toBe(10000);
+    
+    vi.useRealTimers();
+  });
+  
+  it('waits for the exhausted rate limit to reset', () => {
+    const error = providerError('rate_limit', {
+      'x-ratelimit-remaining-requests': '5',
+      'x-ratelimit-reset-requests': '2.5s',
+      'x-ratelimit-remaining-tokens': '0',
+      'x-ratelimit-reset-tokens': '1m0.5s',
+    });
+    
+    expect(getRetryAfter(error)).toBe(60500);
+  });
+  
+  it('ignores rate limit headers on other errors', () => {
+    expect(getRetryAfter(providerError('server', { 'x-ratelimit-reset-tokens': '5s' }))).toBeUndefined();
+    expect(getRetryAfter(new Error('plain'))).toBeUndefined();
+  });
+});
+
+describe('withRetry', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    // Always wait the full backoff
+    vi.spyOn(Math, 'random').mockReturnValue(1);
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+  
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+  
+  it('retries transient failures with exponential backoff', async () => {
+    const fn = vi.fn()
+      .mockRejectedValueOnce(providerError('server'))
+      .mockRejectedValueOnce(providerError('server'))
+      .mockResolvedValue('ok');
+    
+    const result = withRetry(fn, { initialDelay: 100 });
+    
+    await vi.advanceTimersByTimeAsync(99);
+    expect(fn).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(fn).toHaveBeenCalledTimes(2);
+    await vi.advanceTimersByTimeAsync(200);
+    await expect(result).resolves.toBe('ok');
+    expect(fn.mock.calls.map(([attempt]) => attempt.attempt)).toEqual([0, 1, 2]);
+  });
+  
+  it('does not retry errors that will fail again', async () => {
+    const fn = vi.fn().mockRejectedValue(providerError('auth'));
+    
+    await expect(withRetry(fn)).rejects.toMatchObject({ kind: 'auth' });
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+  
+  it('throws the last error once retries run out', async () => {
+    const fn = vi.fn().mockRejectedValue(providerError('server'));
+    
+    const result = expect(withRetry(fn, { maxRetries: 2, initialDelay: 10 })).rejects.toMatchObject({ kind: 'server' });
+    await vi.advanceTimersByTimeAsync(100);
+    await result;
+    expect(fn).toHaveBeenCalledTimes(3);
+  });
+  
+  it('waits as long as the API asks', async () => {
+    const fn = vi.fn()
+      .mockRejectedValueOnce(providerError('rate_limit', { 'retry-after': '5' }))
+      .mockResolvedValue('ok');
+    
+    const result = withRetry(fn, { initialDelay: 100 });
+    
+    await vi.advanceTimersByTimeAsync(4999);
+    expect(fn).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+    await expect(result).resolves.toBe('ok');
+  });
+  
+  it('gives up at once when the requested wait passes the deadline', async () => {
+    const fn = vi.fn().mockRejectedValue(providerError('rate_limit', { 'retry-after': '60' }));
+    
+    await expect(withRetry(fn, { deadlineMs: 10000 })).rejects.toBeInstanceOf(DeadlineExceededError);
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+  
+  it('aborts an attempt that runs past the deadline', async () => {
+    let attemptSignal: AbortSignal | undefined;
+    const fn = vi.fn(({ signal }: { signal: AbortSignal }) => new Promise((_, reject) => {
+      attemptSignal = signal;
+      signal.addEventListener('abort', () => reject(providerError('aborted')));
+    }));
+    
+    const result = expect(withRetry(fn, { deadlineMs: 1000 })).rejects.toMatchObject({ name: 'DeadlineExceededError', attempts: 1 });
+    await vi.advanceTimersByTimeAsync(1000);
+    await result;
+    expect(attemptSignal?.aborted).toBe(true);
+  });
+  
+  it('stops waiting when the caller aborts', async () => {
+    const controller = new AbortController();
+    const fn = vi.fn().mockRejectedValue(providerError('server'));
+    
+    const result = expect(withRetry(fn, { initialDelay: 5000, signal: controller.signal })).rejects.toMatchObject({ kind: 'server' });
+    await vi.advanceTimersByTimeAsync(10);
+    controller.abort();
+    await result;
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+});
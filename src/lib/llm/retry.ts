@@ -0,0 +1,205 @@
+// src/lib/llm/retry.ts
+import { LLMProviderError } from './provider';
+
+/**
+ * Interface for retry options
+ */
+export interface RetryOptions {
+  maxRetries?: number;
+  initialDelay?: number;
+  maxDelay?: number;
+  backoffFactor?: number;
+  // Total time budget for every attempt and wait, in milliseconds
+  deadlineMs?: number;
+  signal?: AbortSignal;
+  shouldRetry?: (error: unknown) => boolean;
+}
+
+/**
+ * Interface for the context passed to each attempt
+ */
+export interface RetryAttempt {
+  attempt: number;
+  // Aborts when the deadline passes or the caller's signal aborts
+  signal: AbortSignal;
+}
+
+/**
+ * Error raised when the total deadline passes before any attempt succeeds
+ */
+export class DeadlineExceededError extends Error {
+  constructor(public deadlineMs: number, public attempts: number, public lastError?: unknown) {
+    super(`Request did not complete within ${deadlineMs}ms after ${attempts} attempts${lastError ? `: ${(lastError as Error).message}` : ''}`);
+    this.name = 'DeadlineExceededError';
+  }
+}
+
+/**
+ * Check whether an error is worth retrying: 408, 429 and 5xx responses and network failures
+ * @param error Error from an attempt
+ * @returns Whether to retry
+ */
+export function isRetryableError(error: unknown): boolean {
+  if (error instanceof LLMProviderError) {
+    return error.retryable;
+  }
+  // fetch rejects with a TypeError when the connection fails
+  return error instanceof TypeError && /fetch failed|network/i.test(error.message);
+}
+
+/**
+ * Parse a rate limit reset duration such as "7.66s", "2m59.56s" or "250ms"
+ * @param value Header value
+ * @returns Duration in milliseconds, or undefined if it cannot be parsed
+ */
+function parseResetDuration(value: string): number | undefined {
+  const pattern = /(\d+(?:\.\d+)?)(ms|h|m|s)/g;
+  const units: Record<string, number> = { h: 3600000, m: 60000, s: 1000, ms: 1 };
+  let total = 0;
+  let matched = false;
+  let match: RegExpExecArray | null;
+  
+  while ((match = pattern.exec(value)) !== null) {
+    total += parseFloat(match[1]) * units[match[2]];
+    matched = true;
+  }
+  
+  return matched ? Math.ceil(total) : undefined;
+}
+
+/**
+ * Read how long the upstream API asked us to wait before retrying
+ * @param error Error from an attempt
+ * @returns Delay in milliseconds, or undefined if the response did not say
+ */
+export function getRetryAfter(error: unknown): number | undefined {
+  if (!(error instanceof LLMProviderError) || !error.headers) {
+    return undefined;
+  }
+  
+  const headers = error.headers;
+  const retryAfter = headers['retry-after'];
+  if (retryAfter) {
+    const seconds = Number(retryAfter);
+    if (!isNaN(seconds)) {
+      return Math.max(0, seconds * 1000);
+    }
+    const date = Date.parse(retryAfter);
+    if (!isNaN(date)) {
+      return Math.max(0, date - Date.now());
+    }
+  }
+  
+  if (error.kind !== 'rate_limit') {
+    return undefined;
+  }
+  
+  // Wait for whichever exhausted limit resets, or the sooner one if the response does not say which
+  const resets = (['requests', 'tokens'] as const)
+    .map(limit => ({
+      exhausted: headers[`x-ratelimit-remaining-${limit}`] === '0',
+      delay: headers[`x-ratelimit-reset-${limit}`] ? parseResetDuration(headers[`x-ratelimit-reset-${limit}`]) : undefined,
+    }))
+    .filter((reset): reset is { exhausted: boolean; delay: number } => reset.delay !== undefined);
+  
+  const exhausted = resets.filter(reset => reset.exhausted);
+  if (exhausted.length > 0) {
+    return Math.max(...exhausted.map(reset => reset.delay));
+  }
+  return resets.length > 0 ? Math.min(...resets.map(reset => reset.delay)) : undefined;
+}
+
+/**
+ * Wait for a time unless a signal aborts first
+ * @param ms Time to wait in milliseconds
+ * @param signal Abort signal
+ * @returns Whether the whole time passed
+ */
+function sleep(ms: number, signal: AbortSignal): Promise<boolean> {
+  return new Promise(resolve => {
+    if (signal.aborted) {
+      resolve(false);
+      return;
+    }
+    
+    const onAbort = () => {
+      clearTimeout(timer);
+      resolve(false);
+    };
+    const timer = setTimeout(() => {
+      signal.removeEventListener('abort', onAbort);
+      resolve(true);
+    }, ms);
+    signal.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Run an async operation, retrying transient failures with jittered exponential backoff
+ * Waits as long as the upstream API asks, and gives up once the total deadline passes
+ * @param fn Operation to run; receives the attempt number and a signal that aborts at the deadline
+ * @param options Retry options
+ * @returns Result of the first successful attempt
+ * @throws The last error if it is not retryable or retries run out, or DeadlineExceededError
+ */
+export async function withRetry<T>(fn: (context: RetryAttempt) => Promise<T>, options: RetryOptions = {}): Promise<T> {
+  const {
+    maxRetries = 3,
+    initialDelay = 1000,
+    maxDelay = 10000,
+    backoffFactor = 2,
+    deadlineMs,
+    signal,
+    shouldRetry = isRetryableError,
+  } = options;
+  
+  const startedAt = Date.now();
+  const controller = new AbortController();
+  const abort = () => controller.abort();
+  const timer = deadlineMs !== undefined ? setTimeout(abort, deadlineMs) : undefined;
+  
+  if (signal?.aborted) {
+    controller.abort();
+  }
+  signal?.addEventListener('abort', abort);
+  
+  try {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await fn({ attempt, signal: controller.signal });
+      } catch (error) {
+        const remaining = deadlineMs !== undefined ? deadlineMs - (Date.now() - startedAt) : Infinity;
+        
+        // The deadline aborted this attempt
+        if (remaining <= 0 && !signal?.aborted) {
+          throw new DeadlineExceededError(deadlineMs!, attempt + 1, error);
+        }
+        
+        if (signal?.aborted || attempt >= maxRetries || !shouldRetry(error)) {
+          throw error;
+        }
+        
+        // Wait between half and all of the exponential backoff so concurrent callers spread out
+        const backoff = Math.min(initialDelay * Math.pow(backoffFactor, attempt), maxDelay);
+        const jittered = backoff / 2 + Math.random() * backoff / 2;
+        const delay = Math.max(getRetryAfter(error) ?? 0, jittered);
+        
+        if (delay >= remaining) {
+          throw new DeadlineExceededError(deadlineMs!, attempt + 1, error);
+        }
+        
+        console.warn(`Attempt ${attempt + 1}/${maxRetries + 1} failed, retrying in ${Math.round(delay)}ms:`, (error as Error).message);
+        // Cancelling or the deadline ends the wait early
+        if (!(await sleep(delay, controller.signal))) {
+          if (signal?.aborted) {
+            throw error;
+          }
+          throw new DeadlineExceededError(deadlineMs!, attempt + 1, error);
+        }
+      }
+    }
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', abort);
+  }
+}
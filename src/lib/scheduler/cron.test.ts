@@ -0,0 +1,115 @@
+// src/lib/scheduler/cron.test.ts
+import { describe, expect, it } from 'vitest';
+import { CronParseError, cronTimesBetween, nextCronTime, parseCron } from './cron';
+
+/**
+ * Find the next run of an expression as an ISO string
+ * @param expression Cron expression
+ * @param after ISO time to search from
+ * @returns Next run time, or null
+ */
+function next(expression: string, after: string): string | null {
+  return nextCronTime(parseCron(expression), new Date(after))?.toISOString() ?? null;
+}
+
+/**
+ * List the runs of an expression in a window as ISO strings
+ * @param expression Cron expression
+ * @param from ISO start of the window
+ * @param to ISO end of the window
+ * @returns Run times
+ */
+function between(expression: string, from: string, to: string): string[] {
+  return cronTimesBetween(parseCron(expression), new Date(from), new Date(to), 100).map(time => time.toISOString());
+}
+
+describe('parseCron', () => {
+  it('expands steps over the whole field, a range and a start value', () => {
+    expect(parseCron('*/15 * * * *').minutes).toEqual(new Set([0, 15, 30, 45]));
+    expect(parseCron('10-40/10 * * * *').minutes).toEqual(new Set([10, 20, 30, 40]));
+    expect(parseCron('5/20 * * * *').minutes).toEqual(new Set([5, 25, 45]));
+  });
+  
+  it('reads names, lists and 7 as Sunday', () => {
+    expect(parseCron('0 0 * JAN,mar MON-FRI').months).toEqual(new Set([1, 3]));
+    expect(parseCron('0 0 * * MON-FRI').daysOfWeek).toEqual(new Set([1, 2, 3, 4, 5]));
+    expect(parseCron('0 0 * * 7').daysOfWeek).toEqual(new Set([0]));
+  });
+  
+  it('expands macros', () => {
+    expect(parseCron('@daily').hours).toEqual(new Set([0]));
+    expect(parseCron('@weekly').daysOfWeek).toEqual(new Set([0]));
+  });
+  
+  it('only counts day fields that do not start with * as restricted', () => {
+    const schedule = parseCron('0 0 */10 * 1');
+    expect(schedule.restrictedDayOfMonth).toBe(false);
+    expect(schedule.restrictedDayOfWeek).toBe(true);
+  });
+  
+  it.each([
+    ['60 * * * *'],
+    ['* * *'],
+    ['* * * * * *'],
+    ['5-1 * * * *'],
+    ['*/0 * * * *'],
+    ['*/x * * * *'],
+    ['0 0 * * FOO'],
+    ['0 0 30 2 *'],
+  ])('rejects %s', expression => {
+    expect(() => parseCron(expression)).toThrow(CronParseError);
+  });
+});
+
+describe('nextCronTime', () => {
+  it('returns the next matching minute', () => {
+    expect(next('*/15 * * * *', '2024-01-01T00:07:30Z')).toBe('2024-01-01T00:15:00.000Z');
+  });
+  
+  it('only returns times strictly after the given time', () => {
+    expect(next('0 * * * *', '2024-01-01T01:00:00Z')).toBe('2024-01-01T02:00:00.000Z');
+  });
+  
+  it('skips days of the week that do not match', () => {
+    // 2024-01-06 is a Saturday
+    expect(next('0 9 * * MON-FRI', '2024-01-06T10:00:00Z')).toBe('2024-01-08T09:00:00.000Z');
+    expect(next('0 0 * * 7', '2024-01-01T00:00:00Z')).toBe('2024-01-07T00:00:00.000Z');
+  });
+  
+  it('crosses month and year boundaries', () => {
+    expect(next('@monthly', '2024-01-31T23:59:00Z')).toBe('2024-02-01T00:00:00.000Z');
+    expect(next('@yearly', '2024-06-01T00:00:00Z')).toBe('2025-01-01T00:00:00.000Z');
+    expect(next('0 0 29 2 *', '2024-03-01T00:00:00Z')).toBe('2028-02-29T00:00:00.000Z');
+  });
+  
+  it('runs on days matching either day field when both are restricted', () => {
+    // The 13th, or any Friday: 2024-01-05 and 2024-01-12 are Fridays, 2024-01-13 is a Saturday
+    expect(between('0 0 13 * 5', '2024-01-01T00:00:00Z', '2024-01-14T00:00:00Z')).toEqual([
+      '2024-01-05T00:00:00.000Z',
+      '2024-01-12T00:00:00.000Z',
+      '2024-01-13T00:00:00.000Z',
+    ]);
+  });
+  
+  it('runs on days matching both day fields when one starts with *', () => {
+    // Mondays that fall on the 1st, 11th, 21st or 31st
+    expect(next('0 0 */10 * 1', '2023-12-31T12:00:00Z')).toBe('2024-01-01T00:00:00.000Z');
+    expect(next('0 0 */10 * 1', '2024-01-01T00:00:00Z')).toBe('2024-03-11T00:00:00.000Z');
+  });
+});
+
+describe('cronTimesBetween', () => {
+  it('includes both ends of the window', () => {
+    expect(between('0 */6 * * *', '2024-01-01T00:00:00Z', '2024-01-01T12:00:00Z')).toEqual([
+      '2024-01-01T00:00:00.000Z',
+      '2024-01-01T06:00:00.000Z',
+      '2024-01-01T12:00:00.000Z',
+    ]);
+  });
+  
+  it('stops at the limit', () => {
+    const times = cronTimesBetween(parseCron('* * * * *'), new Date('2024-01-01T00:00:00Z'), new Date('2024-01-02T00:00:00Z'), 3);
+    expect(times).toHaveLength(3);
+    expect(times[2].toISOString()).toBe('2024-01-01T00:02:00.000Z');
+  });
+});
@@ -0,0 +1,215 @@
+// src/lib/scheduler/cron.ts
+
+/**
+ * Interface for a parsed cron expression
+ * Times are evaluated in UTC, like Cloudflare cron triggers
+ */
+export interface CronSchedule {
+  expression: string;
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  // 0 is Sunday
+  daysOfWeek: Set<number>;
+  // When both day fields are restricted, a day matching either one is enough
+  restrictedDayOfMonth: boolean;
+  restrictedDayOfWeek: boolean;
+}
+
+/**
+ * Error raised for an invalid cron expression
+ */
+export class CronParseError extends Error {
+  constructor(public expression: string, message: string) {
+    super(`Invalid cron expression "${expression}": ${message}`);
+    this.name = 'CronParseError';
+  }
+}
+
+const MACROS: Record<string, string> = {
+  '@yearly': '0 0 1 1 *',
+  '@annually': '0 0 1 1 *',
+  '@monthly': '0 0 1 * *',
+  '@weekly': '0 0 * * 0',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@hourly': '0 * * * *',
+};
+
+const MONTH_NAMES = ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'];
+const DAY_NAMES = ['SUN', 'MON', 'TUE', 'WED', 'THU', 'FRI', 'SAT'];
+
+// Fields in expression order
+const FIELDS = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12, names: MONTH_NAMES },
+  // 7 is accepted as Sunday
+  { name: 'day of week', min: 0, max: 7, names: DAY_NAMES },
+];
+
+// Expressions that match nothing within this span, such as February 30th, are rejected
+const MAX_SEARCH_YEARS = 5;
+
+const MINUTE_MS = 60 * 1000;
+
+/**
+ * Parse one field of a cron expression
+ * Supports *, values, names, ranges, lists and steps such as 1-5, MON-FRI, *\/15 or 10-40/10
+ * @param expression Whole expression, for error messages
+ * @param value Field text
+ * @param field Field definition
+ * @returns Matching values
+ * @throws CronParseError if the field is invalid
+ */
+function parseField(expression: string, value: string, field: typeof FIELDS[number]): Set<number> {
+  const values = new Set<number>();
+  
+  const toNumber = (text: string): number => {
+    const index = field.names?.indexOf(text.toUpperCase()) ?? -1;
+    const number = index >= 0 ? index + field.min : /^\d+$/.test(text) ? parseInt(text, 10) : NaN;
+    if (isNaN(number) || number < field.min || number > field.max) {
+      throw new CronParseError(expression, `${field.name} "${text}" must be between ${field.min} and ${field.max}`);
+    }
+    return number;
+  };
+  
+  for (const part of value.split(',')) {
+    const [range, stepText] = part.split('/');
+    const step = stepText === undefined ? 1 : parseInt(stepText, 10);
+    if (!range || isNaN(step) || step < 1 || (stepText !== undefined && !/^\d+$/.test(stepText))) {
+      throw new CronParseError(expression, `invalid ${field.name} "${part}"`);
+    }
+    
+    let start: number;
+    let end: number;
+    if (range === '*') {
+      start = field.min;
+      end = field.max;
+    } else if (range.includes('-')) {
+      const [from, to] = range.split('-');
+      start = toNumber(from);
+      end = toNumber(to);
+      if (start > end) {
+        throw new CronParseError(expression, `${field.name} range "${range}" is reversed`);
+      }
+    } else {
+      start = toNumber(range);
+      // A single value with a step runs from that value to the end of the field
+      end = stepText === undefined ? start : field.max;
+    }
+    
+    for (let current = start; current <= end; current += step) {
+      values.add(current);
+    }
+  }
+  
+  return values;
+}
+
+/**
+ * Parse a five-field cron expression (minute hour day-of-month month day-of-week) or a macro such as @daily
+ * @param expression Cron expression
+ * @returns Parsed schedule
+ * @throws CronParseError if the expression is invalid or never matches
+ */
+export function parseCron(expression: string): CronSchedule {
+  const trimmed = expression.trim();
+  const parts = (MACROS[trimmed.toLowerCase()] || trimmed).split(/\s+/);
+  
+  if (parts.length !== 5) {
+    throw new CronParseError(expression, 'expected 5 fields: minute hour day-of-month month day-of-week');
+  }
+  
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = parts.map((part, index) => parseField(expression, part, FIELDS[index]));
+  
+  if (daysOfWeek.delete(7)) {
+    daysOfWeek.add(0);
+  }
+  
+  const schedule: CronSchedule = {
+    expression: trimmed,
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    restrictedDayOfMonth: !parts[2].startsWith('*'),
+    restrictedDayOfWeek: !parts[4].startsWith('*'),
+  };
+  
+  if (!nextCronTime(schedule, new Date())) {
+    throw new CronParseError(expression, 'it never matches a date');
+  }
+  
+  return schedule;
+}
+
+/**
+ * Check whether a schedule runs on a day
+ * @param schedule Parsed schedule
+ * @param date Any time on the day, in UTC
+ * @returns Whether the day matches
+ */
+function matchesDay(schedule: CronSchedule, date: Date): boolean {
+  const dayOfMonth = schedule.daysOfMonth.has(date.getUTCDate());
+  const dayOfWeek = schedule.daysOfWeek.has(date.getUTCDay());
+  
+  if (schedule.restrictedDayOfMonth && schedule.restrictedDayOfWeek) {
+    return dayOfMonth || dayOfWeek;
+  }
+  return dayOfMonth && dayOfWeek;
+}
+
+/**
+ * Find the first time a schedule fires strictly after a given time
+ * @param schedule Parsed schedule
+ * @param after Time to search from
+ * @returns Next run time, or null if there is none within a few years
+ */
+export function nextCronTime(schedule: CronSchedule, after: Date): Date | null {
+  // Start at the next whole minute
+  const time = new Date(Math.floor(after.getTime() / MINUTE_MS) * MINUTE_MS + MINUTE_MS);
+  const limit = after.getTime() + MAX_SEARCH_YEARS * 366 * 24 * 60 * MINUTE_MS;
+  
+  // Skip whole months, days and hours that cannot match before stepping by minutes
+  while (time.getTime() <= limit) {
+    if (!schedule.months.has(time.getUTCMonth() + 1)) {
+      time.setUTCMonth(time.getUTCMonth() + 1, 1);
+      time.setUTCHours(0, 0, 0, 0);
+    } else if (!matchesDay(schedule, time)) {
+      time.setUTCDate(time.getUTCDate() + 1);
+      time.setUTCHours(0, 0, 0, 0);
+    } else if (!schedule.hours.has(time.getUTCHours())) {
+      time.setUTCHours(time.getUTCHours() + 1, 0, 0, 0);
+    } else if (!schedule.minutes.has(time.getUTCMinutes())) {
+      time.setUTCMinutes(time.getUTCMinutes() + 1, 0, 0);
+    } else {
+      return time;
+    }
+  }
+  
+  return null;
+}
+
+/**
+ * List the times a schedule fires in a window
+ * @param schedule Parsed schedule
+ * @param from Start of the window (inclusive)
+ * @param to End of the window (inclusive)
+ * @param limit Maximum number of times to return
+ * @returns Run times in order
+ */
+export function cronTimesBetween(schedule: CronSchedule, from: Date, to: Date, limit: number): Date[] {
+  const times: Date[] = [];
+  let next = nextCronTime(schedule, new Date(from.getTime() - 1));
+  
+  while (next && next.getTime() <= to.getTime() && times.length < limit) {
+    times.push(next);
+    next = nextCronTime(schedule, next);
+  }
+  
+  return times;
+}
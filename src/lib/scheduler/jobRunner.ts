@@ -0,0 +1,124 @@
+// src/lib/scheduler/jobRunner.ts
+import { scrapeWithEngine } from '@/lib/scraping/engine';
+import { runRecipe } from '@/lib/scraping/recipeRunner';
+import { processInChunks } from '@/lib/groq/pipeline';
+import { MarkdownConverter } from '@/lib/data/markdown';
+import { isUrlAllowed } from '@/lib/security/allowlist';
+import { getRecipe } from '@/lib/storage/recipeStorage';
+import { saveScrapingTask } from '@/lib/storage/historyStorage';
+import { evaluateAlerts, type AlertContext } from '@/lib/alerts/alertEngine';
+import type { ScheduledJob, JobRunStatus } from '@/lib/storage/jobStorage';
+
+/**
+ * Interface for the outcome of one job run
+ */
+export interface JobRunResult {
+  status: JobRunStatus;
+  // History task holding the results
+  taskId: string;
+  error?: string;
+}
+
+/**
+ * Run a job once, save its results to history and check the workspace's alert rules
+ * Failures are saved too, so history shows every run of a job
+ * @param job Job to run
+ * @param scheduledFor Scheduled time of the run; omitted for manual runs
+ * @returns Run status and the history task
+ */
+export async function runJob(job: ScheduledJob, scheduledFor?: string): Promise<JobRunResult> {
+  let url = job.url;
+  let results: any;
+  let error: string | undefined;
+  let alertContext: AlertContext | undefined;
+  
+  try {
+    const recipe = job.recipeId ? await getRecipe(job.recipeId, job.workspaceId) : null;
+    if (job.recipeId && !recipe) {
+      throw new Error(`Recipe ${job.recipeId} not found`);
+    }
+    url = url || recipe!.url;
+    
+    // Domain rules may have changed since the job was saved
+    if (!isUrlAllowed(url, job.workspaceId)) {
+      throw new Error('URL is not allowed by the domain rules');
+    }
+    
+    const llm = { provider: job.provider, model: job.model, workspaceId: job.workspaceId };
+    
+    if (recipe) {
+      const run = await runRecipe(recipe, { url, llm });
+      results = {
+        recipe: { id: run.recipe.id, version: run.recipe.version },
+        extracted: run.data,
+        drift: run.drift,
+        repairProposalId: run.repairProposal?.id,
+      };
+      alertContext = {
+        workspaceId: job.workspaceId,
+        jobId: job.id,
+        recipeId: recipe.id,
+        url,
+        snapshot: run.snapshot && { id: run.snapshot.id, changed: run.snapshot.changed },
+        extracted: run.data,
+        drift: run.drift,
+      };
+    } else {
+      const { content, engine } = await scrapeWithEngine(url, { engine: job.engine, waitFor: job.waitFor });
+      results = {
+        title: content.title,
+        metaDescription: content.metaDescription,
+        article: {
+          title: content.article.title,
+          byline: content.article.byline,
+          publishedAt: content.article.publishedAt,
+          excerpt: content.article.excerpt,
+          text: content.article.text,
+        },
+        markdown: MarkdownConverter.fromArticle(content.article, { baseUrl: url }),
+        engine,
+      };
+      alertContext = { workspaceId: job.workspaceId, jobId: job.id, url, body: content.article.text };
+    }
+    
+    if (job.instructions) {
+      results.processed = await processInChunks(recipe ? results.extracted : results, job.instructions, llm);
+      alertContext.processed = results.processed.raw;
+      if (!recipe) {
+        alertContext.extracted = results.processed.structured;
+      }
+    }
+  } catch (runError) {
+    console.error(`Error running job ${job.id}:`, runError);
+    error = (runError as Error).message;
+  }
+  
+  // Jobs belong to their workspace, so their pages share its timelines rather than the creator's
+  const task = await saveScrapingTask({
+    userId: job.createdBy,
+    url: url || '',
+    instructions: job.instructions,
+    waitFor: job.waitFor,
+    timestamp: new Date().toISOString(),
+    status: error ? 'failed' : 'completed',
+    tags: ['job', `job:${job.id}`],
+    results: {
+      job: { id: job.id, name: job.name, scheduledFor },
+      ...(error ? { error } : { results }),
+    },
+  }, { snapshotOwner: `workspace:${job.workspaceId}` });
+  
+  // Alerts never fail a run that already succeeded
+  if (alertContext && !error) {
+    try {
+      if (!alertContext.recipeId) {
+        alertContext.snapshot = task.snapshot && { id: task.snapshot.id, changed: task.snapshot.changed };
+      }
+      await evaluateAlerts({ ...alertContext, taskId: task.id });
+    } catch (alertError) {
+      console.error(`Error evaluating alerts for job ${job.id}:`, alertError);
+    }
+  }
+  
+  return { status: error ? 'failed' : 'completed', taskId: task.id, ...(error && { error }) };
+}
@@ -0,0 +1,160 @@
+// src/lib/scheduler/scheduler.test.ts
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { runJob } from './jobRunner';
+import { JobBusyError, planNextRun, runDueJobs, runJobNow, upcomingRuns } from './scheduler';
+import { setStorageAdapter, type StorageAdapter } from '@/lib/storage/adapter';
+import { D1StorageAdapter } from '@/lib/storage/d1Adapter';
+import { MemoryStorageAdapter } from '@/lib/storage/memoryAdapter';
+import type { ScheduledJob } from '@/lib/storage/jobStorage';
+import { createSqliteD1 } from '@/lib/storage/testing/sqliteD1';
+
+vi.mock('./jobRunner', () => ({ runJob: vi.fn() }));
+
+const NOW = new Date('2024-01-01T10:00:30.000Z');
+
+/**
+ * Build an hourly job due at 10:00
+ * @param fields Fields to override
+ * @returns Scheduled job
+ */
+function hourlyJob(fields: Partial<ScheduledJob> = {}): ScheduledJob {
+  return {
+    id: 'job_c',
+    workspaceId: 'ws',
+    name: 'Prices',
+    url: 'https://example.com/prices',
+    engine: 'static',
+    schedule: '0 * * * *',
+    jitterSeconds: 0,
+    catchUp: 'once',
+    status: 'active',
+    scheduledFor: '2024-01-01T10:00:00.000Z',
+    nextRunAt: '2024-01-01T10:00:00.000Z',
+    createdAt: '2024-01-01T00:00:00.000Z',
+    updatedAt: '2024-01-01T00:00:00.000Z',
+    ...fields,
+  };
+}
+
+describe('planNextRun', () => {
+  it('plans the next scheduled time with a stable jitter', () => {
+    const job = hourlyJob({ jitterSeconds: 600 });
+    const planned = planNextRun(job, NOW);
+    const delay = new Date(planned.nextRunAt!).getTime() - new Date(planned.scheduledFor!).getTime();
+    
+    expect(planned.scheduledFor).toBe('2024-01-01T11:00:00.000Z');
+    expect(delay).toBeGreaterThanOrEqual(0);
+    expect(delay).toBeLessThanOrEqual(600000);
+    expect(planNextRun(job, NOW)).toEqual(planned);
+  });
+  
+  it('lists upcoming runs only for active jobs', () => {
+    expect(upcomingRuns(hourlyJob(), 2)).toEqual(['2024-01-01T10:00:00.000Z', '2024-01-01T11:00:00.000Z']);
+    expect(upcomingRuns(hourlyJob({ status: 'paused' }))).toEqual([]);
+  });
+});
+
+describe.each([
+  ['memory', async () => new MemoryStorageAdapter()],
+  ['d1', async () => new D1StorageAdapter(await createSqliteD1())],
+])('runDueJobs with %s storage', (_, create: () => Promise<StorageAdapter>) => {
+  let storage: StorageAdapter;
+  
+  beforeEach(async () => {
+    storage = await create();
+    setStorageAdapter(storage);
+    vi.mocked(runJob).mockResolvedValue({ status: 'completed', taskId: 'task_1' });
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+  
+  afterEach(() => {
+    setStorageAdapter(null);
+    vi.restoreAllMocks();
+    vi.mocked(runJob).mockReset();
+  });
+  
+  it('runs a due job and plans its next run', async () => {
+    await storage.saveJob(hourlyJob());
+    
+    const [outcome] = await runDueJobs(NOW);
+    
+    expect(outcome.runs).toEqual([{ scheduledFor: '2024-01-01T10:00:00.000Z', status: 'completed', taskId: 'task_1' }]);
+    expect(await storage.getJob('job_c')).toMatchObject({
+      scheduledFor: '2024-01-01T11:00:00.000Z',
+      lastRunStatus: 'completed',
+      lastTaskId: 'task_1',
+      lockedUntil: undefined,
+    });
+  });
+  
+  it('does not run a job again for a tick that listed it before another tick ran it', async () => {
+    await storage.saveJob(hourlyJob());
+    // An overlapping tick read the due jobs before the first tick ran and unlocked this one
+    const stale = await storage.listDueJobs(NOW.toISOString(), 50);
+    
+    await runDueJobs(NOW);
+    vi.spyOn(storage, 'listDueJobs').mockResolvedValueOnce(stale);
+    const outcomes = await runDueJobs(NOW);
+    
+    expect(outcomes).toEqual([]);
+    expect(runJob).toHaveBeenCalledTimes(1);
+  });
+  
+  it('does not run a job paused after it was listed', async () => {
+    await storage.saveJob(hourlyJob());
+    const stale = await storage.listDueJobs(NOW.toISOString(), 50);
+    await storage.saveJob(hourlyJob({ status: 'paused', scheduledFor: null, nextRunAt: null }));
+    
+    vi.spyOn(storage, 'listDueJobs').mockResolvedValueOnce(stale);
+    
+    expect(await runDueJobs(NOW)).toEqual([]);
+    expect(runJob).not.toHaveBeenCalled();
+  });
+  
+  it('follows the catch-up policy for missed runs', async () => {
+    const missed = { scheduledFor: '2024-01-01T07:00:00.000Z', nextRunAt: '2024-01-01T07:00:00.000Z' };
+    await storage.saveJob(hourlyJob({ id: 'all', catchUp: 'all', ...missed }));
+    await storage.saveJob(hourlyJob({ id: 'once', catchUp: 'once', ...missed }));
+    await storage.saveJob(hourlyJob({ id: 'skip', catchUp: 'skip', ...missed }));
+    
+    const outcomes = await runDueJobs(new Date('2024-01-01T10:30:00.000Z'));
+    const byJob = Object.fromEntries(outcomes.map(outcome => [outcome.jobId, outcome]));
+    
+    expect(byJob.all.runs.map(run => run.scheduledFor)).toEqual([
+      '2024-01-01T07:00:00.000Z',
+      '2024-01-01T08:00:00.000Z',
+      '2024-01-01T09:00:00.000Z',
+      '2024-01-01T10:00:00.000Z',
+    ]);
+    expect(byJob.once).toMatchObject({ runs: [{ scheduledFor: '2024-01-01T10:00:00.000Z' }], skipped: 3 });
+    expect(byJob.skip).toMatchObject({ runs: [], skipped: 4 });
+    expect((await storage.getJob('skip'))!.scheduledFor).toBe('2024-01-01T11:00:00.000Z');
+  });
+  
+  it('retries a job later when its tick fails', async () => {
+    await storage.saveJob(hourlyJob());
+    vi.mocked(runJob).mockRejectedValue(new Error('storage unavailable'));
+    
+    const [outcome] = await runDueJobs(NOW);
+    
+    expect(outcome.error).toBe('storage unavailable');
+    expect(await storage.getJob('job_c')).toMatchObject({
+      lastError: 'storage unavailable',
+      scheduledFor: '2024-01-01T10:00:00.000Z',
+      nextRunAt: '2024-01-01T10:05:30.000Z',
+      lockedUntil: undefined,
+    });
+  });
+  
+  it('refuses to run a job now while it is running', async () => {
+    const job = hourlyJob({ status: 'paused' });
+    await storage.saveJob(job);
+    await storage.lockJob(job.id, NOW.toISOString(), '2999-01-01T00:00:00.000Z');
+    
+    await expect(runJobNow(job)).rejects.toBeInstanceOf(JobBusyError);
+    
+    await storage.unlockJob(job.id);
+    await expect(runJobNow(job)).resolves.toMatchObject({ run: { status: 'completed' } });
+  });
+});
@@ -0,0 +1,298 @@
+// src/lib/scheduler/scheduler.ts
+import { parseCron, nextCronTime, cronTimesBetween, CronParseError } from './cron';
+import { runJob, type JobRunResult } from './jobRunner';
+import { mapWithConcurrency } from '@/lib/groq/pipeline';
+import { retryDueDeliveries, type DeliveryPass } from '@/lib/alerts/webhooks';
+import {
+  getDueJobs,
+  getJob,
+  updateJob,
+  lockJob,
+  unlockJob,
+  MAX_JITTER_SECONDS,
+  type ScheduledJob,
+} from '@/lib/storage/jobStorage';
+
+/**
+ * Interface for what a scheduler tick did with a due job
+ */
+export interface TickOutcome {
+  jobId: string;
+  runs: (JobRunResult & { scheduledFor: string })[];
+  // Scheduled times passed over because of the job's catch-up policy
+  skipped: number;
+  error?: string;
+}
+
+/**
+ * Interface for what a scheduler tick did
+ */
+export interface TickResult {
+  outcomes: TickOutcome[];
+  // Webhook deliveries of alerts that were retried
+  deliveries: DeliveryPass;
+}
+
+/**
+ * Error raised when a job is started while it is already running
+ */
+export class JobBusyError extends Error {
+  constructor(public jobId: string) {
+    super('Job is already running');
+    this.name = 'JobBusyError';
+  }
+}
+
+// A run more than this late was missed, e.g. because the scheduler was down
+export const MISSED_RUN_GRACE_MS = 5 * 60 * 1000;
+
+// Locks outlive a crashed run by this long at most
+const LOCK_MS = 15 * 60 * 1000;
+
+// Catch-up runs per job and tick under the "all" policy
+const MAX_CATCH_UP_RUNS = 10;
+
+// Missed times are counted up to this many
+const MAX_MISSED_TIMES = 1000;
+
+// Jobs run side by side within a tick
+const TICK_CONCURRENCY = 2;
+
+// Wait before retrying a job whose tick failed unexpectedly, e.g. because storage was unavailable
+const ERROR_RETRY_MS = 5 * 60 * 1000;
+
+/**
+ * Get the delay of a run after its scheduled time
+ * The delay is derived from the job and the time, so every tick computes the same due time
+ * @param job Job
+ * @param scheduledFor Scheduled time
+ * @returns Delay in milliseconds
+ */
+function jitterMs(job: Pick<ScheduledJob, 'id' | 'jitterSeconds'>, scheduledFor: Date): number {
+  if (job.jitterSeconds <= 0) {
+    return 0;
+  }
+  
+  // FNV-1a hash of the job and the time
+  let hash = 0x811c9dc5;
+  for (const char of `${job.id}:${scheduledFor.toISOString()}`) {
+    hash = Math.imul(hash ^ char.charCodeAt(0), 0x01000193) >>> 0;
+  }
+  
+  return (hash % (Math.min(job.jitterSeconds, MAX_JITTER_SECONDS) + 1)) * 1000;
+}
+
+/**
+ * Plan the first run of a job after a time
+ * @param job Job
+ * @param after Time to plan from
+ * @returns Scheduled time and due time of the next run, both null if the schedule never fires
+ * @throws CronParseError if the job's schedule is invalid
+ */
+export function planNextRun(
+  job: Pick<ScheduledJob, 'id' | 'schedule' | 'jitterSeconds'>,
+  after: Date
+): Pick<ScheduledJob, 'scheduledFor' | 'nextRunAt'> {
+  const next = nextCronTime(parseCron(job.schedule), after);
+  
+  return {
+    scheduledFor: next ? next.toISOString() : null,
+    nextRunAt: next ? new Date(next.getTime() + jitterMs(job, next)).toISOString() : null,
+  };
+}
+
+/**
+ * List the next due times of a job
+ * @param job Job
+ * @param count Number of runs to list
+ * @returns Due times, including jitter; empty while the job is paused
+ */
+export function upcomingRuns(job: ScheduledJob, count = 3): string[] {
+  if (job.status !== 'active' || !job.scheduledFor) {
+    return [];
+  }
+  
+  const schedule = parseCron(job.schedule);
+  const runs: string[] = [];
+  let next: Date | null = new Date(job.scheduledFor);
+  
+  while (next && runs.length < count) {
+    runs.push(new Date(next.getTime() + jitterMs(job, next)).toISOString());
+    next = nextCronTime(schedule, next);
+  }
+  
+  return runs;
+}
+
+/**
+ * Run the scheduled times of a job that are due, following its catch-up policy
+ * @param job Locked job
+ * @param now Current time
+ * @returns What was run and skipped
+ */
+async function runScheduledJob(job: ScheduledJob, now: Date): Promise<TickOutcome> {
+  const first = new Date(job.scheduledFor!);
+  const due = [first, ...cronTimesBetween(parseCron(job.schedule), new Date(first.getTime() + 1), now, MAX_MISSED_TIMES)];
+  const latest = due[due.length - 1];
+  
+  // "all" runs every missed time, "once" only the latest, "skip" the latest only if it is not late
+  let toRun: Date[];
+  if (job.catchUp === 'all') {
+    toRun = due.slice(-MAX_CATCH_UP_RUNS);
+  } else if (job.catchUp === 'skip' && now.getTime() - (latest.getTime() + jitterMs(job, latest)) > MISSED_RUN_GRACE_MS) {
+    toRun = [];
+  } else {
+    toRun = [latest];
+  }
+  
+  const outcome: TickOutcome = { jobId: job.id, runs: [], skipped: due.length - toRun.length };
+  if (outcome.skipped > 0) {
+    console.warn(`Job ${job.id} skipped ${outcome.skipped} missed run(s) (catch-up policy: ${job.catchUp})`);
+  }
+  
+  for (const time of toRun) {
+    outcome.runs.push({ scheduledFor: time.toISOString(), ...(await runJob(job, time.toISOString())) });
+  }
+  
+  // Pausing or editing the job while it ran planned its schedule already
+  const current = await getJob(job.id, job.workspaceId);
+  const replanned = !current || current.status !== 'active' || current.scheduledFor !== job.scheduledFor;
+  const last = outcome.runs[outcome.runs.length - 1];
+  
+  await updateJob(job.id, {
+    ...(last && {
+      lastRunAt: new Date().toISOString(),
+      lastRunStatus: last.status,
+      lastError: last.error,
+      lastTaskId: last.taskId,
+    }),
+    ...(!replanned && planNextRun(job, now)),
+  });
+  
+  return outcome;
+}
+
+/**
+ * Run every job that is due
+ * Called by the in-process scheduler and by the Cloudflare cron trigger; jobs are locked while
+ * they run, so overlapping ticks and several instances never run the same job twice
+ * @param now Current time
+ * @returns Outcome per job that was handled
+ */
+export async function runDueJobs(now = new Date()): Promise<TickOutcome[]> {
+  const jobs = await getDueJobs(now);
+  
+  const outcomes = await mapWithConcurrency(jobs, TICK_CONCURRENCY, async (job): Promise<TickOutcome | null> => {
+    // Another tick may have run this time and unlocked the job since it was listed
+    if (!(await lockJob(job.id, now, LOCK_MS, job.scheduledFor!))) {
+      return null;
+    }
+    
+    try {
+      return await runScheduledJob(job, now);
+    } catch (error) {
+      console.error(`Error scheduling job ${job.id}:`, error);
+      // An invalid stored schedule can never run, so it stops the job; other errors only delay it
+      await updateJob(job.id, error instanceof CronParseError
+        ? { lastError: error.message, scheduledFor: null, nextRunAt: null }
+        : { lastError: (error as Error).message, nextRunAt: new Date(now.getTime() + ERROR_RETRY_MS).toISOString() });
+      return { jobId: job.id, runs: [], skipped: 0, error: (error as Error).message };
+    } finally {
+      await unlockJob(job.id);
+    }
+  });
+  
+  return outcomes.filter((outcome): outcome is TickOutcome => outcome !== null);
+}
+
+/**
+ * Run due jobs, then retry due webhook deliveries
+ * @param now Current time
+ * @returns Job outcomes and delivery counts
+ */
+export async function runTick(now = new Date()): Promise<TickResult> {
+  const outcomes = await runDueJobs(now);
+  // Alerts fired by this tick's runs were just delivered, so retries look at the time after the runs
+  const deliveries = await retryDueDeliveries(new Date());
+  return { outcomes, deliveries };
+}
+
+/**
+ * Run a job immediately, without changing its schedule
+ * Works for paused jobs too
+ * @param job Job to run
+ * @returns Updated job and the run result
+ * @throws JobBusyError if the job is already running
+ */
+export async function runJobNow(job: ScheduledJob): Promise<{ job: ScheduledJob; run: JobRunResult }> {
+  if (!(await lockJob(job.id, new Date(), LOCK_MS))) {
+    throw new JobBusyError(job.id);
+  }
+  
+  try {
+    const run = await runJob(job);
+    const updated = await updateJob(job.id, {
+      lastRunAt: new Date().toISOString(),
+      lastRunStatus: run.status,
+      lastError: run.error,
+      lastTaskId: run.taskId,
+    });
+    
+    return { job: updated || job, run };
+  } finally {
+    await unlockJob(job.id);
+  }
+}
+
+// Timer of the in-process scheduler
+let timer: ReturnType<typeof setInterval> | null = null;
+let ticking = false;
+
+/**
+ * Start running due jobs and webhook retries on an interval in this process
+ * Used on Node servers; Cloudflare Workers use the cron trigger in wrangler.toml instead
+ * @param intervalMs Time between ticks
+ * @returns Whether the scheduler was started, false if it was already running
+ */
+export function startScheduler(intervalMs = 30000): boolean {
+  if (timer) {
+    return false;
+  }
+  
+  timer = setInterval(async () => {
+    // A slow tick delays the next one instead of overlapping it
+    if (ticking) {
+      return;
+    }
+    ticking = true;
+    
+    try {
+      const { outcomes, deliveries } = await runTick();
+      const runs = outcomes.reduce((sum, outcome) => sum + outcome.runs.length, 0);
+      if (runs > 0) {
+        console.log(`Scheduler ran ${runs} job run(s)`);
+      }
+      if (deliveries.attempted > 0) {
+        console.log(`Scheduler retried ${deliveries.attempted} webhook deliveries, ${deliveries.delivered} delivered`);
+      }
+    } catch (error) {
+      console.error('Scheduler tick failed:', error);
+    } finally {
+      ticking = false;
+    }
+  }, intervalMs);
+  
+  // Do not keep the process alive just for the scheduler
+  timer.unref?.();
+  return true;
+}
+
+/**
+ * Stop the in-process scheduler
+ */
+export function stopScheduler() {
+  if (timer) {
+    clearInterval(timer);
+    timer = null;
+  }
+}
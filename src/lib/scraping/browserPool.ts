@@ -0,0 +1,275 @@
+// src/lib/scraping/browserPool.ts
+import puppeteer, { type Browser, type Page } from 'puppeteer';
+
+/**
+ * Interface for browser pool options
+ */
+export interface BrowserPoolOptions {
+  maxConcurrentPages?: number;
+  recycleAfterPages?: number;
+  healthCheckIntervalMs?: number;
+  launchArgs?: string[];
+}
+
+/**
+ * Interface for a browser managed by the pool
+ */
+interface PooledBrowser {
+  browser: Browser;
+  pagesServed: number;
+  activePages: number;
+  retired: boolean;
+}
+
+/**
+ * Shared headless browser manager.
+ *
+ * Reuses one browser across jobs, gives every job its own incognito context,
+ * caps the number of concurrently open pages and replaces the browser after
+ * a number of pages or when it crashes.
+ */
+export class BrowserPool {
+  private readonly maxConcurrentPages: number;
+  private readonly recycleAfterPages: number;
+  private readonly launchArgs: string[];
+  private current: PooledBrowser | null = null;
+  private launching: Promise<PooledBrowser> | null = null;
+  private activeJobs = 0;
+  private waiters: (() => void)[] = [];
+  private healthCheckTimer: ReturnType<typeof setInterval> | null = null;
+
+  constructor(options: BrowserPoolOptions = {}) {
+    this.maxConcurrentPages = options.maxConcurrentPages ?? 4;
+    this.recycleAfterPages = options.recycleAfterPages ?? 50;
+    this.launchArgs = options.launchArgs ?? ['--no-sandbox', '--disable-setuid-sandbox'];
+
+    const interval = options.healthCheckIntervalMs ?? 30000;
+    if (interval > 0) {
+      this.healthCheckTimer = setInterval(() => {
+        this.checkHealth().catch(error => console.error('Browser pool health check failed:', error));
+      }, interval);
+      // Do not keep the process alive just for health checks
+      this.healthCheckTimer.unref?.();
+    }
+  }
+
+  /**
+   * Run a job with a fresh page in an isolated incognito context
+   * @param job Function that receives the page
+   * @returns Result of the job
+   */
+  async withPage<T>(job: (page: Page) => Promise<T>): Promise<T> {
+    await this.acquireSlot();
+
+    let entry: PooledBrowser | null = null;
+    try {
+      entry = await this.getBrowser();
+      entry.activePages++;
+      entry.pagesServed++;
+
+      const context = await entry.browser.createIncognitoBrowserContext();
+      try {
+        const page = await context.newPage();
+        return await job(page);
+      } finally {
+        await context.close().catch(error => console.error('Error closing browser context:', error));
+      }
+    } finally {
+      if (entry) {
+        await this.releaseBrowser(entry);
+      }
+      this.releaseSlot();
+    }
+  }
+
+  /**
+   * Get pool statistics
+   * @returns Pool statistics
+   */
+  getStats() {
+    return {
+      activeJobs: this.activeJobs,
+      queuedJobs: this.waiters.length,
+      maxConcurrentPages: this.maxConcurrentPages,
+      pagesServed: this.current?.pagesServed ?? 0,
+      connected: this.current?.browser.isConnected() ?? false,
+    };
+  }
+
+  /**
+   * Close the browser and stop health checks
+   */
+  async shutdown() {
+    if (this.healthCheckTimer) {
+      clearInterval(this.healthCheckTimer);
+      this.healthCheckTimer = null;
+    }
+
+    const entry = this.current;
+    this.current = null;
+    if (entry) {
+      await entry.browser.close().catch(() => undefined);
+    }
+  }
+
+  /**
+   * Wait until a page slot is free
+   */
+  private async acquireSlot() {
+    if (this.activeJobs < this.maxConcurrentPages) {
+      this.activeJobs++;
+      return;
+    }
+
+    // The releasing job hands its slot straight to the next waiter
+    await new Promise<void>(resolve => this.waiters.push(resolve));
+  }
+
+  /**
+   * Free a page slot
+   */
+  private releaseSlot() {
+    const next = this.waiters.shift();
+    if (next) {
+      next();
+    } else {
+      this.activeJobs--;
+    }
+  }
+
+  /**
+   * Get the current browser, launching a new one if needed
+   * @returns Pooled browser
+   */
+  private async getBrowser(): Promise<PooledBrowser> {
+    if (this.current && !this.current.retired && this.current.browser.isConnected()) {
+      return this.current;
+    }
+
+    if (!this.launching) {
+      this.launching = this.launch().finally(() => {
+        this.launching = null;
+      });
+    }
+
+    return this.launching;
+  }
+
+  /**
+   * Launch a new browser and make it current
+   * @returns Pooled browser
+   */
+  private async launch(): Promise<PooledBrowser> {
+    const browser = await puppeteer.launch({
+      headless: 'new',
+      args: this.launchArgs,
+    });
+
+    const entry: PooledBrowser = { browser, pagesServed: 0, activePages: 0, retired: false };
+
+    // A crashed browser is dropped so the next job launches a fresh one
+    browser.on('disconnected', () => {
+      entry.retired = true;
+      if (this.current === entry) {
+        this.current = null;
+      }
+    });
+
+    this.current = entry;
+    return entry;
+  }
+
+  /**
+   * Release a browser after a job and recycle it if it has served enough pages
+   * @param entry Pooled browser
+   */
+  private async releaseBrowser(entry: PooledBrowser) {
+    entry.activePages--;
+
+    if (entry.pagesServed >= this.recycleAfterPages) {
+      this.retire(entry);
+    }
+
+    if (entry.retired && entry.activePages === 0 && entry.browser.isConnected()) {
+      await entry.browser.close().catch(error => console.error('Error closing recycled browser:', error));
+    }
+  }
+
+  /**
+   * Stop handing out a browser; it is closed once its last job finishes
+   * @param entry Pooled browser
+   */
+  private retire(entry: PooledBrowser) {
+    entry.retired = true;
+    if (this.current === entry) {
+      this.current = null;
+    }
+  }
+
+  /**
+   * Check that the current browser still responds and recycle it if not
+   */
+  private async checkHealth() {
+    const entry = this.current;
+    if (!entry) {
+      return;
+    }
+
+    try {
+      await Promise.race([
+        entry.browser.version(),
+        new Promise((_, reject) => setTimeout(() => reject(new Error('Browser health check timed out')), 5000)),
+      ]);
+    } catch (error) {
+      console.error('Recycling unhealthy browser:', error);
+      this.retire(entry);
+      if (entry.activePages === 0) {
+        await entry.browser.close().catch(() => undefined);
+      }
+    }
+  }
+}
+
+const pools = new Map<string, BrowserPool>();
+
+/**
+ * Read a positive whole number from an environment variable
+ * @param name Variable name
+ * @param fallback Value when the variable is unset or not a positive whole number
+ * @returns Configured value
+ */
+function readPositiveInt(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return Number.isInteger(value) && value > 0 ? value : fallback;
+}
+
+/**
+ * Get the shared browser pool for a launch profile
+ * @param profile Launch profile ('default' or 'stealth')
+ * @returns Browser pool
+ */
+export function getBrowserPool(profile: 'default' | 'stealth' = 'default'): BrowserPool {
+  let pool = pools.get(profile);
+
+  if (!pool) {
+    const launchArgs = profile === 'stealth'
+      ? [
+          '--no-sandbox',
+          '--disable-setuid-sandbox',
+          '--disable-dev-shm-usage',
+          '--disable-accelerated-2d-canvas',
+          '--disable-gpu',
+          '--window-size=1920,1080',
+        ]
+      : ['--no-sandbox', '--disable-setuid-sandbox'];
+
+    pool = new BrowserPool({
+      maxConcurrentPages: readPositiveInt('BROWSER_POOL_MAX_PAGES', 4),
+      recycleAfterPages: readPositiveInt('BROWSER_POOL_RECYCLE_AFTER', 50),
+      launchArgs,
+    });
+    pools.set(profile, pool);
+  }
+
+  return pool;
+}
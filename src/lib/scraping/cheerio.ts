@@ -1,5 +1,18 @@
 // src/lib/scraping/cheerio.ts
 import * as cheerio from 'cheerio';
+import { enforceRobots } from './robots';
+import { extractArticle } from './readability';
+import { safeFetch } from '@/lib/security/networkGuard';
+
+/**
+ * Error raised when the scraped URL responds with a non-2xx status
+ */
+export class FetchStatusError extends Error {
+  constructor(public status: number, statusText: string, public body: string) {
+    super(`Failed to fetch URL: ${status} ${statusText}`);
+    this.name = 'FetchStatusError';
+  }
+}
 
 /**
  * Scrape content from a URL using Cheerio
@@ -9,15 +22,20 @@ import * as cheerio from 'cheerio';
  */
 export async function scrapeWithCheerio(url: string, waitFor?: string) {
   try {
+    // Honour robots.txt before fetching
+    await enforceRobots(url);
+    
     // Fetch the HTML content
-    const response = await fetch(url, {
+    const response = await safeFetch(url, {
       headers: {
         'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/91.0.4472.124 Safari/537.36',
       },
     });
 
     if (!response.ok) {
-      throw new Error(`Failed to fetch URL: ${response.status} ${response.statusText}`);
+      // Keep the body so callers can recognise bot-challenge pages
+      const body = await response.text().catch(() => '');
+      throw new FetchStatusError(response.status, response.statusText, body);
     }
 
     const html = await response.text();
@@ -46,11 +64,15 @@ export async function scrapeWithCheerio(url: string, waitFor?: string) {
       return { src, alt };
     }).get();
     
+    // Extract the main article without navigation and other boilerplate
+    const article = extractArticle(html, url);
+    
     // Return the scraped content
     return {
       title,
       metaDescription,
       bodyText,
+      article,
       links,
       images,
       html, // Include the full HTML for more specific extraction later
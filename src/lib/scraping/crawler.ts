@@ -0,0 +1,233 @@
+// src/lib/scraping/crawler.ts
+import { z } from 'zod';
+import { scrapeWithCheerio } from './cheerio';
+import { sitemapOptionsSchema } from './sitemap';
+import { safePatternSchema } from '@/lib/security/patterns';
+
+// Limits on crawls requested through the API
+export const MAX_CRAWL_PAGES = 100;
+export const MAX_CRAWL_DEPTH = 5;
+
+/**
+ * Schema for crawl options sent by an API client
+ * Include and exclude patterns run against every discovered URL, so they must be safe to run
+ */
+export const crawlRequestSchema = z.object({
+  scope: z.enum(['same-origin', 'path-prefix']).optional(),
+  pathPrefix: z.string().startsWith('/').optional(),
+  include: z.array(safePatternSchema).max(20).optional(),
+  exclude: z.array(safePatternSchema).max(20).optional(),
+  maxDepth: z.number().int().min(0).max(MAX_CRAWL_DEPTH).optional(),
+  maxPages: z.number().int().positive().max(MAX_CRAWL_PAGES).optional(),
+  // Seed the crawl with the site's sitemap, optionally filtered
+  sitemap: z.union([z.boolean(), sitemapOptionsSchema]).optional(),
+});
+
+/**
+ * Interface for crawl options
+ */
+export interface CrawlOptions {
+  scope?: 'same-origin' | 'path-prefix';
+  pathPrefix?: string;
+  include?: string[];
+  exclude?: string[];
+  maxDepth?: number;
+  maxPages?: number;
+  waitFor?: string;
+  // Extra start URLs crawled at depth 0, e.g. from a sitemap
+  seedUrls?: string[];
+  // Extra check applied to every URL, e.g. the workspace's domain rules
+  isAllowed?: (url: string) => boolean;
+}
+
+/**
+ * A single crawled page: the Cheerio scrape result plus its position in the crawl
+ */
+export type CrawledPage = Awaited<ReturnType<typeof scrapeWithCheerio>> & {
+  url: string;
+  depth: number;
+};
+
+/**
+ * Interface for a page that could not be crawled
+ */
+export interface CrawlFailure {
+  url: string;
+  depth: number;
+  error: string;
+}
+
+/**
+ * Interface for crawl result
+ */
+export interface CrawlResult {
+  seedUrl: string;
+  pages: CrawledPage[];
+  failures: CrawlFailure[];
+  stats: {
+    visited: number;
+    discovered: number;
+    maxDepthReached: number;
+  };
+}
+
+/**
+ * Normalize a URL so that equivalent URLs dedupe to the same key
+ * @param url URL to normalize
+ * @param base Optional base URL for resolving relative URLs
+ * @returns Normalized URL or null if it is not a crawlable http(s) URL
+ */
+export function normalizeUrl(url: string, base?: string): string | null {
+  try {
+    const parsed = new URL(url, base);
+
+    if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+      return null;
+    }
+
+    // Drop fragments and default ports, and sort the query so parameter order does not matter
+    parsed.hash = '';
+    parsed.hostname = parsed.hostname.toLowerCase();
+    if ((parsed.protocol === 'http:' && parsed.port === '80') || (parsed.protocol === 'https:' && parsed.port === '443')) {
+      parsed.port = '';
+    }
+    parsed.searchParams.sort();
+
+    // Treat "/path/" and "/path" as the same page
+    if (parsed.pathname.length > 1 && parsed.pathname.endsWith('/')) {
+      parsed.pathname = parsed.pathname.slice(0, -1);
+    }
+
+    return parsed.toString();
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Interface for the compiled include and exclude patterns of a crawl
+ */
+interface CrawlPatterns {
+  include: RegExp[];
+  exclude: RegExp[];
+}
+
+/**
+ * Check whether a URL falls inside the crawl rules
+ * @param url Normalized URL to check
+ * @param seed Parsed seed URL
+ * @param options Crawl options
+ * @param patterns Compiled include and exclude patterns
+ * @returns Whether the URL should be crawled
+ */
+function isInScope(url: string, seed: URL, options: CrawlOptions, patterns: CrawlPatterns): boolean {
+  const parsed = new URL(url);
+
+  if (parsed.origin !== seed.origin) {
+    return false;
+  }
+
+  if (options.scope === 'path-prefix') {
+    const prefix = options.pathPrefix || seed.pathname;
+    if (!parsed.pathname.startsWith(prefix)) {
+      return false;
+    }
+  }
+
+  if (patterns.include.length > 0 && !patterns.include.some(pattern => pattern.test(url))) {
+    return false;
+  }
+
+  if (patterns.exclude.some(pattern => pattern.test(url))) {
+    return false;
+  }
+
+  if (options.isAllowed && !options.isAllowed(url)) {
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * Crawl a site starting from a seed URL, following extracted links
+ * @param seedUrl URL to start crawling from
+ * @param options Crawl options
+ * @returns Per-page crawl results
+ */
+export async function crawlWithCheerio(seedUrl: string, options: CrawlOptions = {}): Promise<CrawlResult> {
+  const {
+    maxDepth = 2,
+    maxPages = 20,
+    waitFor,
+  } = options;
+
+  const normalizedSeed = normalizeUrl(seedUrl);
+  if (!normalizedSeed) {
+    throw new Error(`Invalid seed URL: ${seedUrl}`);
+  }
+
+  const seed = new URL(normalizedSeed);
+  // Compiled once, so an invalid pattern fails the crawl before any page is fetched
+  const patterns: CrawlPatterns = {
+    include: (options.include || []).map(pattern => new RegExp(pattern)),
+    exclude: (options.exclude || []).map(pattern => new RegExp(pattern)),
+  };
+  const seen = new Set<string>([normalizedSeed]);
+  const queue: { url: string; depth: number }[] = [{ url: normalizedSeed, depth: 0 }];
+
+  for (const extra of options.seedUrls || []) {
+    const normalized = normalizeUrl(extra);
+    if (normalized && !seen.has(normalized) && isInScope(normalized, seed, options, patterns)) {
+      seen.add(normalized);
+      queue.push({ url: normalized, depth: 0 });
+    }
+  }
+  const pages: CrawledPage[] = [];
+  const failures: CrawlFailure[] = [];
+  let maxDepthReached = 0;
+
+  // Breadth-first so that shallow pages are preferred when maxPages cuts the crawl short
+  while (queue.length > 0 && pages.length < maxPages) {
+    const { url, depth } = queue.shift()!;
+
+    try {
+      const scraped = await scrapeWithCheerio(url, waitFor);
+      pages.push({ url, depth, ...scraped });
+      maxDepthReached = Math.max(maxDepthReached, depth);
+
+      if (depth >= maxDepth) {
+        continue;
+      }
+
+      // Queue in-scope links that have not been seen yet
+      for (const link of scraped.links) {
+        if (!link.href) {
+          continue;
+        }
+
+        const next = normalizeUrl(link.href, url);
+        if (!next || seen.has(next) || !isInScope(next, seed, options, patterns)) {
+          continue;
+        }
+
+        seen.add(next);
+        queue.push({ url: next, depth: depth + 1 });
+      }
+    } catch (error) {
+      console.error(`Error crawling ${url}:`, error);
+      failures.push({ url, depth, error: (error as Error).message });
+    }
+  }
+
+  return {
+    seedUrl: normalizedSeed,
+    pages,
+    failures,
+    stats: {
+      visited: pages.length + failures.length,
+      discovered: seen.size,
+      maxDepthReached,
+    },
+  };
+}
@@ -0,0 +1,182 @@
+// src/lib/scraping/engine.ts
+import * as cheerio from 'cheerio';
+import { scrapeWithCheerio, FetchStatusError } from './cheerio';
+import { scrapeWithPuppeteer, bypassAntiScrapingMeasures } from './puppeteer';
+import type { NavigationStep } from './navigation';
+import { RobotsBlockedError } from './robots';
+import type { Article } from './readability';
+import { SsrfBlockedError } from '@/lib/security/networkGuard';
+
+/**
+ * Engines that can be requested for a scrape
+ */
+export type ScrapeEngine = 'static' | 'browser' | 'stealth' | 'auto';
+
+/**
+ * All engine names accepted by the scrape API
+ */
+export const SCRAPE_ENGINES: ScrapeEngine[] = ['static', 'browser', 'stealth', 'auto'];
+
+/**
+ * Interface for the page fields shared by every engine
+ */
+export interface ScrapedContent {
+  title: string;
+  metaDescription: string | null;
+  bodyText: string;
+  article: Article;
+  links: { href?: string; text: string }[];
+  images: { src?: string; alt: string }[];
+  html: string;
+  screenshot?: string;
+  extracted?: Record<string, unknown>;
+  stepScreenshots?: { name: string; data: string }[];
+}
+
+/**
+ * Interface for the record of which engine was used and why
+ */
+export interface EngineDecision {
+  requested: ScrapeEngine;
+  used: Exclude<ScrapeEngine, 'auto'>;
+  reason: string;
+  escalations: string[];
+}
+
+/**
+ * Interface for engine options
+ */
+export interface EngineOptions {
+  engine?: ScrapeEngine;
+  waitFor?: string;
+  timeout?: number;
+  steps?: NavigationStep[];
+}
+
+const CHALLENGE_PATTERNS = [
+  /cf-browser-verification|challenge-platform|cf_chl_/i,
+  /<title>\s*(just a moment|attention required|access denied)/i,
+  /_incapsula_resource|px-captcha|datadome|perimeterx/i,
+  /g-recaptcha|h-captcha|hcaptcha\.com/i,
+];
+
+/**
+ * Detect whether HTML is a bot-challenge or captcha page
+ * @param html HTML content
+ * @returns Whether the page looks like a bot challenge
+ */
+export function isBotChallenge(html: string): boolean {
+  return CHALLENGE_PATTERNS.some(pattern => pattern.test(html));
+}
+
+/**
+ * Detect whether static HTML is an empty client-side app shell
+ * @param html HTML content
+ * @param bodyText Visible body text
+ * @returns Whether the page needs JavaScript to render its content
+ */
+export function isJsAppShell(html: string, bodyText: string): boolean {
+  const $ = cheerio.load(html);
+
+  // Ignore script and noscript text when measuring visible content
+  $('script, style, noscript').remove();
+  const visibleText = $('body').text().trim().replace(/\s+/g, ' ');
+
+  const hasMountPoint = /<div[^>]+id=["'](root|app|__next|__nuxt|svelte)["']/i.test(html);
+  const asksForJs = /enable javascript|requires javascript|javascript is (disabled|required)/i.test(bodyText);
+  const scriptCount = (html.match(/<script\b/gi) || []).length;
+
+  return asksForJs || (visibleText.length < 200 && (hasMountPoint || scriptCount > 0));
+}
+
+/**
+ * Scrape a URL with the requested engine, escalating from static to browser in auto mode
+ * @param url URL to scrape
+ * @param options Engine options
+ * @returns Scraped content and the engine decision
+ */
+export async function scrapeWithEngine(
+  url: string,
+  options: EngineOptions = {}
+): Promise<{ content: ScrapedContent; engine: EngineDecision }> {
+  const { engine = 'auto', waitFor, timeout = 30000, steps = [] } = options;
+  const escalations: string[] = [];
+
+  const decide = (used: EngineDecision['used'], reason: string): EngineDecision => ({
+    requested: engine,
+    used,
+    reason,
+    escalations,
+  });
+
+  // Navigation steps can only run against a live page
+  if (steps.length > 0) {
+    const content = await scrapeWithPuppeteer(url, waitFor, timeout, steps);
+    return { content, engine: decide('browser', 'navigation steps require a browser') };
+  }
+
+  if (engine === 'static') {
+    const content = await scrapeWithCheerio(url, waitFor);
+    return { content, engine: decide('static', 'requested') };
+  }
+
+  if (engine === 'browser') {
+    const content = await scrapeWithPuppeteer(url, waitFor, timeout);
+    return { content, engine: decide('browser', 'requested') };
+  }
+
+  if (engine === 'stealth') {
+    const content = await bypassAntiScrapingMeasures(url, waitFor);
+    return { content, engine: decide('stealth', 'requested') };
+  }
+
+  // Auto: try the cheap static fetch first
+  let reason: string;
+  let target: 'browser' | 'stealth' = 'browser';
+  try {
+    const content = await scrapeWithCheerio(url, waitFor);
+
+    if (isBotChallenge(content.html)) {
+      reason = 'bot challenge detected in static HTML';
+      target = 'stealth';
+    } else if (waitFor && cheerio.load(content.html)(waitFor).length === 0) {
+      reason = `waitFor selector "${waitFor}" not present in static HTML`;
+    } else if (isJsAppShell(content.html, content.bodyText)) {
+      reason = 'static HTML looks like an empty JavaScript app shell';
+    } else {
+      return { content, engine: decide('static', 'static HTML contained the content') };
+    }
+  } catch (error) {
+    if (error instanceof FetchStatusError && ([403, 429, 503].includes(error.status) || isBotChallenge(error.body))) {
+      reason = `static fetch blocked with status ${error.status}`;
+      target = 'stealth';
+    } else if (
+      error instanceof FetchStatusError ||
+      error instanceof RobotsBlockedError ||
+      error instanceof SsrfBlockedError
+    ) {
+      throw error;
+    } else {
+      reason = `static fetch failed: ${(error as Error).message}`;
+    }
+  }
+
+  // Bot protection goes straight to the stealth engine
+  if (target === 'stealth') {
+    escalations.push(`static -> stealth: ${reason}`);
+    const content = await bypassAntiScrapingMeasures(url, waitFor);
+    return { content, engine: decide('stealth', reason) };
+  }
+
+  escalations.push(`static -> browser: ${reason}`);
+  const content = await scrapeWithPuppeteer(url, waitFor, timeout);
+
+  if (isBotChallenge(content.html)) {
+    const browserReason = 'bot challenge detected in rendered page';
+    escalations.push(`browser -> stealth: ${browserReason}`);
+    const stealthContent = await bypassAntiScrapingMeasures(url, waitFor);
+    return { content: stealthContent, engine: decide('stealth', browserReason) };
+  }
+
+  return { content, engine: decide('browser', reason) };
+}
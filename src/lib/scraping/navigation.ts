@@ -0,0 +1,156 @@
+// src/lib/scraping/navigation.ts
+import { z } from 'zod';
+import type { Page } from 'puppeteer';
+
+const selector = z.string().min(1);
+const timeout = z.number().int().positive().max(120000).optional();
+
+/**
+ * Schema for a single navigation step
+ */
+export const navigationStepSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('click'), selector, timeout }),
+  z.object({ type: z.literal('type'), selector, text: z.string(), delay: z.number().int().nonnegative().optional() }),
+  z.object({ type: z.literal('select'), selector, values: z.array(z.string()).min(1) }),
+  z.object({ type: z.literal('hover'), selector }),
+  z.object({ type: z.literal('press'), key: z.string().min(1) }),
+  z.object({ type: z.literal('scroll'), selector: selector.optional(), y: z.number().optional() }),
+  z.object({ type: z.literal('waitForSelector'), selector, timeout }),
+  z.object({ type: z.literal('waitForNetworkIdle'), idleTime: z.number().int().nonnegative().optional(), timeout }),
+  z.object({ type: z.literal('waitForTimeout'), ms: z.number().int().nonnegative().max(60000) }),
+  z.object({
+    type: z.literal('extract'),
+    name: z.string().min(1),
+    selector,
+    attribute: z.string().optional(),
+    all: z.boolean().optional(),
+  }),
+  z.object({ type: z.literal('screenshot'), name: z.string().optional(), fullPage: z.boolean().optional() }),
+]);
+
+/**
+ * Schema for an ordered list of navigation steps
+ */
+export const navigationStepsSchema = z.array(navigationStepSchema).max(50);
+
+export type NavigationStep = z.infer<typeof navigationStepSchema>;
+
+/**
+ * Interface for the output of a navigation run
+ */
+export interface NavigationResult {
+  extracted: Record<string, string | null | (string | null)[]>;
+  screenshots: { name: string; data: string }[];
+}
+
+/**
+ * Error raised when a navigation step fails
+ */
+export class NavigationStepError extends Error {
+  constructor(
+    public stepIndex: number,
+    public step: NavigationStep,
+    public cause: Error,
+    public screenshot?: string
+  ) {
+    super(`Navigation step ${stepIndex + 1} (${step.type}) failed: ${cause.message}`);
+    this.name = 'NavigationStepError';
+  }
+}
+
+/**
+ * Run a single navigation step against a page
+ * @param page Puppeteer page
+ * @param step Step to run
+ * @param result Accumulated navigation result
+ * @param defaultTimeout Timeout for steps that wait
+ */
+async function runStep(page: Page, step: NavigationStep, result: NavigationResult, defaultTimeout: number) {
+  switch (step.type) {
+    case 'click':
+      await page.waitForSelector(step.selector, { timeout: step.timeout ?? defaultTimeout });
+      await page.click(step.selector);
+      break;
+
+    case 'type':
+      await page.type(step.selector, step.text, { delay: step.delay });
+      break;
+
+    case 'select':
+      await page.select(step.selector, ...step.values);
+      break;
+
+    case 'hover':
+      await page.hover(step.selector);
+      break;
+
+    case 'press':
+      await page.keyboard.press(step.key as Parameters<Page['keyboard']['press']>[0]);
+      break;
+
+    case 'scroll':
+      if (step.selector) {
+        await page.$eval(step.selector, el => el.scrollIntoView({ block: 'center' }));
+      } else {
+        await page.evaluate((y) => window.scrollTo(0, y ?? document.body.scrollHeight), step.y);
+      }
+      break;
+
+    case 'waitForSelector':
+      await page.waitForSelector(step.selector, { timeout: step.timeout ?? defaultTimeout });
+      break;
+
+    case 'waitForNetworkIdle':
+      await page.waitForNetworkIdle({ idleTime: step.idleTime ?? 500, timeout: step.timeout ?? defaultTimeout });
+      break;
+
+    case 'waitForTimeout':
+      await new Promise(resolve => setTimeout(resolve, step.ms));
+      break;
+
+    case 'extract':
+      result.extracted[step.name] = await page.$$eval(step.selector, (elements, attribute, all) => {
+        const values = elements.map(el => attribute ? el.getAttribute(attribute) : el.textContent?.trim() ?? null);
+        return all ? values : values[0] ?? null;
+      }, step.attribute, step.all ?? false);
+      break;
+
+    case 'screenshot': {
+      const data = await page.screenshot({ encoding: 'base64', fullPage: step.fullPage ?? false });
+      result.screenshots.push({
+        name: step.name || `step-${result.screenshots.length + 1}`,
+        data: `data:image/png;base64,${data}`,
+      });
+      break;
+    }
+  }
+}
+
+/**
+ * Run navigation steps against a page in order
+ * @param page Puppeteer page
+ * @param steps Validated navigation steps
+ * @param timeout Default timeout in milliseconds for steps that wait
+ * @returns Extracted values and screenshots
+ */
+export async function runNavigationSteps(page: Page, steps: NavigationStep[], timeout = 30000): Promise<NavigationResult> {
+  const result: NavigationResult = { extracted: {}, screenshots: [] };
+
+  for (const [index, step] of steps.entries()) {
+    try {
+      await runStep(page, step, result, timeout);
+    } catch (error) {
+      // Capture the page as it was when the step broke
+      let screenshot: string | undefined;
+      try {
+        screenshot = `data:image/png;base64,${await page.screenshot({ encoding: 'base64' })}`;
+      } catch (screenshotError) {
+        console.error('Error taking failure screenshot:', screenshotError);
+      }
+
+      throw new NavigationStepError(index, step, error as Error, screenshot);
+    }
+  }
+
+  return result;
+}
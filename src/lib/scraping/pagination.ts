@@ -0,0 +1,346 @@
+// src/lib/scraping/pagination.ts
+import * as cheerio from 'cheerio';
+import { z } from 'zod';
+import { scrapeWithCheerio, extractContent } from './cheerio';
+import { normalizeUrl } from './crawler';
+import { getBrowserPool } from './browserPool';
+import { enforceRobots } from './robots';
+import { assertPublicUrl, installNetworkGuard } from '@/lib/security/networkGuard';
+
+/**
+ * Supported pagination strategies
+ */
+export type PaginationStrategy =
+  | { type: 'selector'; selector: string }
+  | { type: 'relNext' }
+  | { type: 'template'; template: string; startPage?: number }
+  | { type: 'loadMore'; selector: string };
+
+// Most pages a request may walk
+export const MAX_PAGINATION_PAGES = 50;
+
+const paginationLimits = {
+  maxPages: z.number().int().positive().max(MAX_PAGINATION_PAGES).optional(),
+  itemSelector: z.string().min(1).optional(),
+};
+
+/**
+ * Schema for pagination options sent by an API client
+ */
+export const paginationRequestSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('selector'), selector: z.string().min(1), ...paginationLimits }),
+  z.object({ type: z.literal('relNext'), ...paginationLimits }),
+  z.object({
+    type: z.literal('template'),
+    template: z.string().url().includes('{page}'),
+    startPage: z.number().int().min(0).optional(),
+    ...paginationLimits,
+  }),
+  z.object({ type: z.literal('loadMore'), selector: z.string().min(1), ...paginationLimits }),
+]);
+
+/**
+ * Interface for pagination options
+ */
+export type PaginationOptions = PaginationStrategy & {
+  maxPages?: number;
+  itemSelector?: string;
+  waitFor?: string;
+  // Extra check applied to every page URL, e.g. the workspace's domain rules
+  isAllowed?: (url: string) => boolean;
+};
+
+/**
+ * Why pagination stopped
+ */
+export type PaginationStopReason = 'no-next-page' | 'max-pages' | 'no-records' | 'loop' | 'not-allowed';
+
+/**
+ * A single page fetched while paginating with Cheerio
+ */
+export type PaginatedPage = Awaited<ReturnType<typeof scrapeWithCheerio>> & {
+  url: string;
+  pageNumber: number;
+};
+
+/**
+ * Interface for Cheerio pagination result
+ */
+export interface PaginationResult {
+  pages: PaginatedPage[];
+  records: { text: string; html: string | null }[];
+  stoppedReason: PaginationStopReason;
+}
+
+/**
+ * Interface for Puppeteer pagination result
+ */
+export interface PuppeteerPaginationResult {
+  pageUrls: string[];
+  result: Record<string, (string | undefined)[]>;
+  stoppedReason: PaginationStopReason;
+}
+
+/**
+ * Build the URL for a page number from a `{page}` URL template
+ * @param template URL template containing `{page}`
+ * @param page Page number
+ * @returns Page URL
+ */
+export function buildPageUrl(template: string, page: number): string {
+  if (!template.includes('{page}')) {
+    throw new Error('Pagination template must contain a {page} placeholder');
+  }
+
+  return template.split('{page}').join(String(page));
+}
+
+/**
+ * Check the first page URL against the pagination options
+ * Later pages that are not allowed end pagination instead
+ * @param url URL of the first page
+ * @param options Pagination options
+ * @throws Error if the URL is not allowed
+ */
+function assertFirstPageAllowed(url: string, options: PaginationOptions): void {
+  if (options.isAllowed && !options.isAllowed(url)) {
+    throw new Error(`Pagination URL is not allowed: ${url}`);
+  }
+}
+
+/**
+ * Find the next page URL in static HTML
+ * @param html HTML content of the current page
+ * @param currentUrl URL of the current page
+ * @param strategy Pagination strategy
+ * @returns Absolute next page URL or null if there is none
+ */
+function findNextUrl(html: string, currentUrl: string, strategy: PaginationStrategy): string | null {
+  const $ = cheerio.load(html);
+  let href: string | undefined;
+
+  if (strategy.type === 'selector') {
+    href = $(strategy.selector).first().attr('href');
+  } else if (strategy.type === 'relNext') {
+    href = $('link[rel~="next"]').first().attr('href') || $('a[rel~="next"]').first().attr('href');
+  }
+
+  return href ? normalizeUrl(href, currentUrl) : null;
+}
+
+/**
+ * Walk paginated listings with Cheerio
+ * @param url URL of the first page (ignored for template strategies)
+ * @param options Pagination options
+ * @returns Fetched pages and merged records
+ */
+export async function paginateWithCheerio(url: string, options: PaginationOptions): Promise<PaginationResult> {
+  const { maxPages = 10, itemSelector, waitFor } = options;
+
+  if (options.type === 'loadMore') {
+    throw new Error('The loadMore pagination strategy requires the Puppeteer engine');
+  }
+
+  const pages: PaginatedPage[] = [];
+  const records: { text: string; html: string | null }[] = [];
+  const visited = new Set<string>();
+  const startPage = options.type === 'template' ? options.startPage ?? 1 : 1;
+  let nextUrl: string | null = options.type === 'template' ? buildPageUrl(options.template, startPage) : url;
+  let stoppedReason: PaginationStopReason = 'max-pages';
+  assertFirstPageAllowed(nextUrl, options);
+
+  while (pages.length < maxPages) {
+    if (!nextUrl) {
+      stoppedReason = 'no-next-page';
+      break;
+    }
+
+    if (options.isAllowed && !options.isAllowed(nextUrl)) {
+      stoppedReason = 'not-allowed';
+      break;
+    }
+
+    const key = normalizeUrl(nextUrl) || nextUrl;
+    if (visited.has(key)) {
+      stoppedReason = 'loop';
+      break;
+    }
+    visited.add(key);
+
+    let scraped;
+    try {
+      scraped = await scrapeWithCheerio(nextUrl, waitFor);
+    } catch (error) {
+      // Templates have no explicit end, so a failing page past the first one marks the end
+      if (options.type === 'template' && pages.length > 0) {
+        stoppedReason = 'no-next-page';
+        break;
+      }
+      throw error;
+    }
+
+    const pageRecords = itemSelector ? extractContent(scraped.html, itemSelector) : [];
+    if (itemSelector && pageRecords.length === 0 && pages.length > 0) {
+      stoppedReason = 'no-records';
+      break;
+    }
+
+    pages.push({ ...scraped, url: nextUrl, pageNumber: startPage + pages.length });
+    records.push(...pageRecords);
+
+    nextUrl = options.type === 'template'
+      ? buildPageUrl(options.template, startPage + pages.length)
+      : findNextUrl(scraped.html, nextUrl, options);
+  }
+
+  return { pages, records, stoppedReason };
+}
+
+/**
+ * Merge paginated pages into a single scrape result
+ * @param pages Pages fetched while paginating
+ * @returns Merged content in the same shape as a single Cheerio scrape
+ */
+export function mergePaginatedPages(pages: PaginatedPage[]): Awaited<ReturnType<typeof scrapeWithCheerio>> {
+  const [first] = pages;
+
+  return {
+    title: first?.title || '',
+    metaDescription: first?.metaDescription || '',
+    bodyText: pages.map(page => page.bodyText).join(' '),
+    // Keep the first page's metadata and append the article body of every page
+    article: {
+      ...first?.article,
+      title: first?.article.title || '',
+      excerpt: first?.article.excerpt || '',
+      blocks: pages.flatMap(page => page.article.blocks),
+      text: pages.map(page => page.article.text).join('\n\n'),
+      html: pages.map(page => page.article.html).join('\n'),
+    },
+    links: pages.flatMap(page => page.links),
+    images: pages.flatMap(page => page.images),
+    html: pages.map(page => page.html).join('\n'),
+  };
+}
+
+/**
+ * Walk paginated listings with Puppeteer, extracting selectors on every page
+ * @param url URL of the first page (ignored for template strategies)
+ * @param selectors Object with CSS selectors to extract
+ * @param options Pagination options
+ * @returns Merged extracted content
+ */
+export async function paginateWithPuppeteer(
+  url: string,
+  selectors: Record<string, string>,
+  options: PaginationOptions
+): Promise<PuppeteerPaginationResult> {
+  const { maxPages = 10, waitFor } = options;
+  try {
+    return await getBrowserPool().withPage(async (page) => {
+      await installNetworkGuard(page);
+      await page.setUserAgent('Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/91.0.4472.124 Safari/537.36');
+
+      const extract = async () => {
+        const values: Record<string, (string | undefined)[]> = {};
+        for (const [key, selector] of Object.entries(selectors)) {
+          values[key] = await page.evaluate((sel) => {
+            return Array.from(document.querySelectorAll(sel)).map(el => el.textContent?.trim());
+          }, selector);
+        }
+        return values;
+      };
+
+      const merge = (target: Record<string, (string | undefined)[]>, values: Record<string, (string | undefined)[]>) => {
+        for (const [key, items] of Object.entries(values)) {
+          target[key] = [...(target[key] || []), ...items];
+        }
+      };
+
+      const startPage = options.type === 'template' ? options.startPage ?? 1 : 1;
+      const firstUrl = options.type === 'template' ? buildPageUrl(options.template, startPage) : url;
+      assertFirstPageAllowed(firstUrl, options);
+      await assertPublicUrl(firstUrl);
+      await enforceRobots(firstUrl);
+      await page.goto(firstUrl, { waitUntil: 'networkidle2' });
+      if (waitFor) {
+        await page.waitForSelector(waitFor);
+      }
+
+      const pageUrls = [firstUrl];
+      const result: Record<string, (string | undefined)[]> = {};
+      let stoppedReason: PaginationStopReason = 'max-pages';
+
+      // "Load more" keeps appending to the same document, so extract once at the end
+      if (options.type === 'loadMore') {
+        while (pageUrls.length < maxPages) {
+          const button = await page.$(options.selector);
+          const clickable = button && await button.evaluate(el => {
+            const style = window.getComputedStyle(el);
+            return !(el as HTMLButtonElement).disabled && style.display !== 'none' && style.visibility !== 'hidden';
+          });
+
+          if (!button || !clickable) {
+            stoppedReason = 'no-next-page';
+            break;
+          }
+
+          await button.click();
+          await page.waitForNetworkIdle({ idleTime: 500, timeout: 30000 }).catch(() => undefined);
+          pageUrls.push(page.url());
+        }
+
+        merge(result, await extract());
+        return { pageUrls, result, stoppedReason };
+      }
+
+      merge(result, await extract());
+      const visited = new Set([normalizeUrl(firstUrl) || firstUrl]);
+
+      while (pageUrls.length < maxPages) {
+        const nextUrl = options.type === 'template'
+          ? buildPageUrl(options.template, startPage + pageUrls.length)
+          : findNextUrl(await page.content(), page.url(), options);
+
+        if (!nextUrl) {
+          stoppedReason = 'no-next-page';
+          break;
+        }
+
+        if (options.isAllowed && !options.isAllowed(nextUrl)) {
+          stoppedReason = 'not-allowed';
+          break;
+        }
+
+        const key = normalizeUrl(nextUrl) || nextUrl;
+        if (visited.has(key)) {
+          stoppedReason = 'loop';
+          break;
+        }
+        visited.add(key);
+
+        await assertPublicUrl(nextUrl);
+        await enforceRobots(nextUrl);
+        const response = await page.goto(nextUrl, { waitUntil: 'networkidle2' });
+        if (response && !response.ok()) {
+          stoppedReason = 'no-next-page';
+          break;
+        }
+
+        const values = await extract();
+        if (Object.values(values).every(items => items.length === 0)) {
+          stoppedReason = 'no-records';
+          break;
+        }
+
+        pageUrls.push(nextUrl);
+        merge(result, values);
+      }
+
+      return { pageUrls, result, stoppedReason };
+    });
+  } catch (error) {
+    console.error('Error paginating with Puppeteer:', error);
+    throw error;
+  }
+}
@@ -1,96 +1,105 @@
 // src/lib/scraping/puppeteer.ts
-import puppeteer from 'puppeteer';
+import type { Page } from 'puppeteer';
+import { getBrowserPool } from './browserPool';
+import { runNavigationSteps, type NavigationStep } from './navigation';
+import { enforceRobots } from './robots';
+import { extractArticle } from './readability';
+import { assertPublicUrl, installNetworkGuard } from '@/lib/security/networkGuard';
 
 /**
  * Scrape content from a URL using Puppeteer for JavaScript-rendered content
  * @param url URL to scrape
  * @param waitFor Optional CSS selector to wait for
  * @param timeout Timeout in milliseconds
+ * @param steps Optional navigation steps to run before extracting
  * @returns Scraped content
  */
-export async function scrapeWithPuppeteer(url: string, waitFor?: string, timeout = 30000) {
-  let browser;
+export async function scrapeWithPuppeteer(url: string, waitFor?: string, timeout = 30000, steps: NavigationStep[] = []) {
   try {
-    // Launch a headless browser
-    browser = await puppeteer.launch({
-      headless: 'new',
-      args: ['--no-sandbox', '--disable-setuid-sandbox'],
-    });
-
-    // Create a new page
-    const page = await browser.newPage();
+    return await getBrowserPool().withPage(async (page) => {
+      // Block requests to internal addresses, including redirects and subresources
+      await installNetworkGuard(page);
     
-    // Set user agent to avoid detection
-    await page.setUserAgent('Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/91.0.4472.124 Safari/537.36');
+      // Set user agent to avoid detection
+      await page.setUserAgent('Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/91.0.4472.124 Safari/537.36');
     
-    // Set viewport size
-    await page.setViewport({ width: 1280, height: 800 });
+      // Set viewport size
+      await page.setViewport({ width: 1280, height: 800 });
     
-    // Enable JavaScript
-    await page.setJavaScriptEnabled(true);
+      // Enable JavaScript
+      await page.setJavaScriptEnabled(true);
     
-    // Navigate to the URL
-    await page.goto(url, { waitUntil: 'networkidle2', timeout });
+      // Refuse internal targets and honour robots.txt before navigating
+      await assertPublicUrl(url);
+      await enforceRobots(url);
     
-    // Wait for specific element if provided
-    if (waitFor) {
-      await page.waitForSelector(waitFor, { timeout });
-    }
+      // Navigate to the URL
+      await page.goto(url, { waitUntil: 'networkidle2', timeout });
     
-    // Extract page title
-    const title = await page.title();
+      // Wait for specific element if provided
+      if (waitFor) {
+        await page.waitForSelector(waitFor, { timeout });
+      }
     
-    // Extract meta description
-    const metaDescription = await page.evaluate(() => {
-      const metaTag = document.querySelector('meta[name="description"]');
-      return metaTag ? metaTag.getAttribute('content') : '';
-    });
+      // Run custom navigation steps in order
+      const navigation = await runNavigationSteps(page, steps, timeout);
     
-    // Extract all text content
-    const bodyText = await page.evaluate(() => {
-      return document.body.innerText.trim().replace(/\s+/g, ' ');
-    });
+      // Extract page title
+      const title = await page.title();
     
-    // Extract all links
-    const links = await page.evaluate(() => {
-      return Array.from(document.querySelectorAll('a')).map(a => ({
-        href: a.href,
-        text: a.innerText.trim(),
-      }));
-    });
+      // Extract meta description
+      const metaDescription = await page.evaluate(() => {
+        const metaTag = document.querySelector('meta[name="description"]');
+        return metaTag ? metaTag.getAttribute('content') : '';
+      });
     
-    // Extract all images
-    const images = await page.evaluate(() => {
-      return Array.from(document.querySelectorAll('img')).map(img => ({
-        src: img.src,
-        alt: img.alt || '',
-      }));
-    });
+      // Extract all text content
+      const bodyText = await page.evaluate(() => {
+        return document.body.innerText.trim().replace(/\s+/g, ' ');
+      });
+    
+      // Extract all links
+      const links = await page.evaluate(() => {
+        return Array.from(document.querySelectorAll('a')).map(a => ({
+          href: a.href,
+          text: a.innerText.trim(),
+        }));
+      });
+    
+      // Extract all images
+      const images = await page.evaluate(() => {
+        return Array.from(document.querySelectorAll('img')).map(img => ({
+          src: img.src,
+          alt: img.alt || '',
+        }));
+      });
+    
+      // Get the full HTML
+      const html = await page.content();
     
-    // Get the full HTML
-    const html = await page.content();
-    
-    // Take a screenshot
-    const screenshot = await page.screenshot({ encoding: 'base64' });
-    
-    // Return the scraped content
-    return {
-      title,
-      metaDescription,
-      bodyText,
-      links,
-      images,
-      html,
-      screenshot: `data:image/png;base64,${screenshot}`,
-    };
+      // Extract the main article from the rendered HTML
+      const article = extractArticle(html, page.url());
+    
+      // Take a screenshot
+      const screenshot = await page.screenshot({ encoding: 'base64' });
+    
+      // Return the scraped content
+      return {
+        title,
+        metaDescription,
+        bodyText,
+        article,
+        links,
+        images,
+        html,
+        screenshot: `data:image/png;base64,${screenshot}`,
+        extracted: navigation.extracted,
+        stepScreenshots: navigation.screenshots,
+      };
+    });
   } catch (error) {
     console.error('Error scraping with Puppeteer:', error);
     throw error;
-  } finally {
-    // Close the browser
-    if (browser) {
-      await browser.close();
-    }
   }
 }
 
@@ -102,47 +111,41 @@ export async function scrapeWithPuppeteer(url: string, waitFor?: string, timeout
  * @returns Extracted content
  */
 export async function extractContentWithPuppeteer(url: string, selectors: Record<string, string>, waitFor?: string) {
-  let browser;
   try {
-    // Launch a headless browser
-    browser = await puppeteer.launch({
-      headless: 'new',
-      args: ['--no-sandbox', '--disable-setuid-sandbox'],
-    });
-
-    // Create a new page
-    const page = await browser.newPage();
+    return await getBrowserPool().withPage(async (page) => {
+      // Block requests to internal addresses, including redirects and subresources
+      await installNetworkGuard(page);
     
-    // Set user agent to avoid detection
-    await page.setUserAgent('Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/91.0.4472.124 Safari/537.36');
+      // Set user agent to avoid detection
+      await page.setUserAgent('Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/91.0.4472.124 Safari/537.36');
     
-    // Navigate to the URL
-    await page.goto(url, { waitUntil: 'networkidle2' });
+      // Refuse internal targets and honour robots.txt before navigating
+      await assertPublicUrl(url);
+      await enforceRobots(url);
     
-    // Wait for specific element if provided
-    if (waitFor) {
-      await page.waitForSelector(waitFor);
-    }
+      // Navigate to the URL
+      await page.goto(url, { waitUntil: 'networkidle2' });
     
-    // Extract content based on selectors
-    const result: Record<string, any> = {};
+      // Wait for specific element if provided
+      if (waitFor) {
+        await page.waitForSelector(waitFor);
+      }
     
-    for (const [key, selector] of Object.entries(selectors)) {
-      result[key] = await page.evaluate((sel) => {
-        const elements = Array.from(document.querySelectorAll(sel));
-        return elements.map(el => el.textContent?.trim());
-      }, selector);
-    }
+      // Extract content based on selectors
+      const result: Record<string, any> = {};
     
-    return result;
+      for (const [key, selector] of Object.entries(selectors)) {
+        result[key] = await page.evaluate((sel) => {
+          const elements = Array.from(document.querySelectorAll(sel));
+          return elements.map(el => el.textContent?.trim());
+        }, selector);
+      }
+    
+      return result;
+    });
   } catch (error) {
     console.error('Error extracting content with Puppeteer:', error);
     throw error;
-  } finally {
-    // Close the browser
-    if (browser) {
-      await browser.close();
-    }
   }
 }
 
@@ -153,100 +156,92 @@ export async function extractContentWithPuppeteer(url: string, selectors: Record
  * @returns Scraped content
  */
 export async function bypassAntiScrapingMeasures(url: string, waitFor?: string) {
-  let browser;
   try {
-    // Launch a headless browser with additional arguments to avoid detection
-    browser = await puppeteer.launch({
-      headless: 'new',
-      args: [
-        '--no-sandbox',
-        '--disable-setuid-sandbox',
-        '--disable-dev-shm-usage',
-        '--disable-accelerated-2d-canvas',
-        '--disable-gpu',
-        '--window-size=1920,1080',
-      ],
-    });
-
-    // Create a new page
-    const page = await browser.newPage();
-    
-    // Set a realistic user agent
-    await page.setUserAgent('Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/91.0.4472.124 Safari/537.36');
-    
-    // Set extra HTTP headers
-    await page.setExtraHTTPHeaders({
-      'Accept-Language': 'en-US,en;q=0.9',
-      'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,image/webp,image/apng,*/*;q=0.8',
-      'Accept-Encoding': 'gzip, deflate, br',
-      'Connection': 'keep-alive',
-      'Upgrade-Insecure-Requests': '1',
-    });
+    // The stealth pool launches browsers with additional arguments to avoid detection
+    return await getBrowserPool('stealth').withPage(async (page) => {
+      // Set a realistic user agent
+      await page.setUserAgent('Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/91.0.4472.124 Safari/537.36');
     
-    // Set viewport to a common resolution
-    await page.setViewport({ width: 1920, height: 1080 });
-    
-    // Enable JavaScript
-    await page.setJavaScriptEnabled(true);
-    
-    // Intercept requests to modify headers or block tracking
-    await page.setRequestInterception(true);
-    page.on('request', (request) => {
-      // Modify headers for specific requests if needed
-      if (request.resourceType() === 'document' || request.resourceType() === 'xhr') {
-        request.continue({
-          headers: {
-            ...request.headers(),
-            'Referer': 'https://www.google.com/',
-          },
-        });
-      } else {
-        request.continue();
-      }
-    });
+      // Set extra HTTP headers
+      await page.setExtraHTTPHeaders({
+        'Accept-Language': 'en-US,en;q=0.9',
+        'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,image/webp,image/apng,*/*;q=0.8',
+        'Accept-Encoding': 'gzip, deflate, br',
+        'Connection': 'keep-alive',
+        'Upgrade-Insecure-Requests': '1',
+      });
     
-    // Navigate to the URL with a timeout
-    await page.goto(url, { 
-      waitUntil: 'networkidle2',
-      timeout: 60000,
-    });
+      // Set viewport to a common resolution
+      await page.setViewport({ width: 1920, height: 1080 });
+    
+      // Enable JavaScript
+      await page.setJavaScriptEnabled(true);
     
-    // Simulate human-like behavior
-    await page.waitForTimeout(Math.random() * 1000 + 1000);
+      // Intercept requests to block internal addresses and modify headers
+      await installNetworkGuard(page, (request) => {
+        // Modify headers for specific requests if needed
+        if (request.resourceType() === 'document' || request.resourceType() === 'xhr') {
+          return {
+            headers: {
+              ...request.headers(),
+              'Referer': 'https://www.google.com/',
+            },
+          };
+        }
+        return undefined;
+      });
+    
+      // Refuse internal targets and honour robots.txt before navigating
+      await assertPublicUrl(url);
+      await enforceRobots(url);
+    
+      // Navigate to the URL with a timeout
+      await page.goto(url, { 
+        waitUntil: 'networkidle2',
+        timeout: 60000,
+      });
     
-    // Scroll down slowly to trigger lazy loading
-    await autoScroll(page);
+      // Simulate human-like behavior
+      await page.waitForTimeout(Math.random() * 1000 + 1000);
     
-    // Wait for specific element if provided
-    if (waitFor) {
-      await page.waitForSelector(waitFor, { timeout: 30000 });
-    }
+      // Scroll down slowly to trigger lazy loading
+      await autoScroll(page);
+    
+      // Wait for specific element if provided
+      if (waitFor) {
+        await page.waitForSelector(waitFor, { timeout: 30000 });
+      }
+    
+      // Extract page content
+      const content = await page.evaluate(() => {
+        return {
+          title: document.title,
+          metaDescription: document.querySelector('meta[name="description"]')?.getAttribute('content') || '',
+          bodyText: document.body.innerText.trim().replace(/\s+/g, ' '),
+          links: Array.from(document.querySelectorAll('a')).map(a => ({
+            href: a.href,
+            text: a.innerText.trim(),
+          })),
+          images: Array.from(document.querySelectorAll('img')).map(img => ({
+            src: img.src,
+            alt: img.alt || '',
+          })),
+          html: document.documentElement.outerHTML,
+        };
+      });
+    
+      // Take a screenshot
+      const screenshot = await page.screenshot({ encoding: 'base64' });
     
-    // Extract page content
-    const content = await page.evaluate(() => {
       return {
-        title: document.title,
-        metaDescription: document.querySelector('meta[name="description"]')?.getAttribute('content') || '',
-        bodyText: document.body.innerText.trim().replace(/\s+/g, ' '),
-        html: document.documentElement.outerHTML,
+        ...content,
+        article: extractArticle(content.html, page.url()),
+        screenshot: `data:image/png;base64,${screenshot}`,
       };
     });
-    
-    // Take a screenshot
-    const screenshot = await page.screenshot({ encoding: 'base64' });
-    
-    return {
-      ...content,
-      screenshot: `data:image/png;base64,${screenshot}`,
-    };
   } catch (error) {
     console.error('Error bypassing anti-scraping measures:', error);
     throw error;
-  } finally {
-    // Close the browser
-    if (browser) {
-      await browser.close();
-    }
   }
 }
 
@@ -254,7 +249,7 @@ export async function bypassAntiScrapingMeasures(url: string, waitFor?: string)
  * Auto-scroll function to simulate human scrolling and trigger lazy loading
  * @param page Puppeteer page
  */
-async function autoScroll(page: puppeteer.Page) {
+async function autoScroll(page: Page) {
   await page.evaluate(async () => {
     await new Promise<void>((resolve) => {
       let totalHeight = 0;
@@ -0,0 +1,390 @@
+// src/lib/scraping/readability.ts
+import * as cheerio from 'cheerio';
+
+/**
+ * A block of article content, kept in document order
+ */
+export type ArticleBlock =
+  | { type: 'heading'; level: number; text: string }
+  | { type: 'paragraph'; text: string }
+  | { type: 'list'; ordered: boolean; items: string[] }
+  | { type: 'quote'; text: string }
+  | { type: 'code'; text: string };
+
+/**
+ * Interface for the main article of a page
+ */
+export interface Article {
+  title: string;
+  byline?: string;
+  publishedAt?: string;
+  leadImage?: string;
+  excerpt: string;
+  blocks: ArticleBlock[];
+  // Blocks rendered as plain text with blank lines between them
+  text: string;
+  // Cleaned HTML of the article container
+  html: string;
+}
+
+// Class and id hints, following the heuristics popularised by Arc90's Readability
+const UNLIKELY_CANDIDATES = /ad-break|agegate|banner|breadcrumb|combx|comment|community|consent|cookie|disqus|extra|footer|gdpr|header|legends|menu|modal|nav|newsletter|pager|popup|promo|related|remark|replies|rss|share|shoutbox|sidebar|skyscraper|social|sponsor|subscribe|supplemental|tags|tool|widget/i;
+const MAYBE_CANDIDATE = /and|article|body|column|content|main|shadow|story|post|entry/i;
+const POSITIVE_HINTS = /article|body|content|entry|hentry|h-entry|main|page|post|text|blog|story/i;
+const NEGATIVE_HINTS = /-ad-|hidden|banner|combx|comment|com-|contact|cookie|consent|footer|gdpr|masthead|media|meta|newsletter|outbrain|promo|related|scroll|share|shoutbox|sidebar|skyscraper|sponsor|shopping|tags|tool|widget/i;
+
+// Elements that never hold article content
+const BOILERPLATE_SELECTOR = [
+  'script', 'style', 'noscript', 'template', 'iframe', 'svg', 'canvas', 'form', 'button', 'input', 'select', 'textarea',
+  'nav', 'aside', 'footer', 'dialog', '[hidden]', '[aria-hidden="true"]',
+  '[role="navigation"]', '[role="banner"]', '[role="contentinfo"]', '[role="dialog"]', '[role="alertdialog"]', '[role="complementary"]',
+].join(', ');
+
+const BLOCK_SELECTOR = 'h1, h2, h3, h4, h5, h6, p, ul, ol, pre, blockquote';
+
+/**
+ * Collapse whitespace in a text fragment
+ * @param text Raw text
+ * @returns Trimmed text on a single line
+ */
+function cleanText(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Resolve a possibly relative URL
+ * @param value URL from the page
+ * @param base Page URL
+ * @returns Absolute URL, or the value unchanged if it cannot be resolved
+ */
+function resolveUrl(value: string | undefined, base?: string): string | undefined {
+  if (!value) {
+    return undefined;
+  }
+  try {
+    return new URL(value, base).toString();
+  } catch {
+    return value;
+  }
+}
+
+/**
+ * Find the first JSON-LD object describing an article
+ * @param $ Loaded document
+ * @returns JSON-LD article object or undefined
+ */
+function findJsonLdArticle($: cheerio.CheerioAPI): any {
+  const candidates: any[] = [];
+  
+  $('script[type="application/ld+json"]').each((i, el) => {
+    try {
+      const json = JSON.parse($(el).html() || '{}');
+      const items = Array.isArray(json) ? json : [json, ...(json['@graph'] || [])];
+      candidates.push(...items);
+    } catch {
+      // Malformed JSON-LD is common and not worth failing over
+    }
+  });
+  
+  return candidates.find(item => /Article|BlogPosting|Report/.test([].concat(item?.['@type'] || []).join(' ')));
+}
+
+/**
+ * Read byline, publish date and lead image from meta tags, microdata and JSON-LD
+ * @param $ Loaded document
+ * @param url Page URL for resolving relative image URLs
+ * @returns Article metadata
+ */
+function extractMetadata($: cheerio.CheerioAPI, url?: string) {
+  const meta = (selector: string) => $(selector).first().attr('content')?.trim() || undefined;
+  const jsonLd = findJsonLdArticle($);
+  
+  const title = meta('meta[property="og:title"]')
+    || cleanText(jsonLd?.headline || '')
+    || cleanText($('h1').first().text())
+    || cleanText($('title').text());
+  
+  const jsonLdAuthor = [].concat(jsonLd?.author || [])
+    .map((author: any) => typeof author === 'string' ? author : author?.name)
+    .filter(Boolean)
+    .join(', ');
+  const bylineText = cleanText($('[rel="author"], [itemprop="author"], .byline, .author').first().text());
+  const byline = meta('meta[name="author"]')
+    || jsonLdAuthor
+    || (bylineText && bylineText.length < 100 ? bylineText : undefined);
+  
+  const rawDate = meta('meta[property="article:published_time"]')
+    || meta('meta[itemprop="datePublished"]')
+    || meta('meta[name="date"]')
+    || jsonLd?.datePublished
+    || $('[itemprop="datePublished"]').first().attr('datetime')
+    || $('time[datetime]').first().attr('datetime');
+  const parsedDate = rawDate ? Date.parse(rawDate) : NaN;
+  const publishedAt = rawDate ? (isNaN(parsedDate) ? rawDate : new Date(parsedDate).toISOString()) : undefined;
+  
+  const jsonLdImage = [].concat(jsonLd?.image || [])
+    .map((image: any) => typeof image === 'string' ? image : image?.url)
+    .find(Boolean);
+  const leadImage = resolveUrl(
+    meta('meta[property="og:image"]') || meta('meta[name="twitter:image"]') || jsonLdImage,
+    url
+  );
+  
+  return { title, byline, publishedAt, leadImage };
+}
+
+/**
+ * Weigh an element's class and id against the positive and negative hints
+ * @param $el Element
+ * @returns Score adjustment
+ */
+function classWeight($el: cheerio.Cheerio<any>): number {
+  let weight = 0;
+  for (const value of [$el.attr('class'), $el.attr('id')]) {
+    if (!value) {
+      continue;
+    }
+    if (NEGATIVE_HINTS.test(value)) {
+      weight -= 25;
+    }
+    if (POSITIVE_HINTS.test(value)) {
+      weight += 25;
+    }
+  }
+  return weight;
+}
+
+/**
+ * Starting score for a candidate container based on its tag
+ * @param $el Element
+ * @returns Initial score
+ */
+function initialScore($el: cheerio.Cheerio<any>): number {
+  const tag = ($el.prop('tagName') || '').toLowerCase();
+  const base: Record<string, number> = {
+    article: 10, main: 10, section: 5, div: 5,
+    pre: 3, td: 3, blockquote: 3,
+    address: -3, ol: -3, ul: -3, dl: -3, dd: -3, dt: -3, li: -3, form: -3,
+    h1: -5, h2: -5, h3: -5, h4: -5, h5: -5, h6: -5, th: -5,
+  };
+  return (base[tag] || 0) + classWeight($el);
+}
+
+/**
+ * Share of an element's text that sits inside links
+ * @param $ Loaded document
+ * @param $el Element
+ * @returns Link density between 0 and 1
+ */
+function linkDensity($: cheerio.CheerioAPI, $el: cheerio.Cheerio<any>): number {
+  const textLength = cleanText($el.text()).length;
+  if (textLength === 0) {
+    return 0;
+  }
+  const linkLength = $el.find('a').toArray().reduce((sum, a) => sum + cleanText($(a).text()).length, 0);
+  return Math.min(1, linkLength / textLength);
+}
+
+/**
+ * Strip scripts, navigation, cookie banners and other boilerplate in place
+ * @param $ Loaded document
+ */
+function removeBoilerplate($: cheerio.CheerioAPI) {
+  $(BOILERPLATE_SELECTOR).remove();
+  
+  // Site headers go, but headers inside an article often hold its title and byline
+  $('header').filter((i, el) => $(el).closest('article').length === 0).remove();
+  
+  $('body *').each((i, el) => {
+    const $el = $(el);
+    const tag = ($el.prop('tagName') || '').toLowerCase();
+    if (tag === 'article' || tag === 'main' || tag === 'a') {
+      return;
+    }
+    const hints = `${$el.attr('class') || ''} ${$el.attr('id') || ''}`;
+    if (UNLIKELY_CANDIDATES.test(hints) && !MAYBE_CANDIDATE.test(hints)) {
+      $el.remove();
+    }
+  });
+}
+
+/**
+ * Score paragraphs and pick the container with the most article-like content
+ * @param $ Loaded document with boilerplate removed
+ * @returns Elements that make up the article
+ */
+function findArticleRoots($: cheerio.CheerioAPI): cheerio.Cheerio<any>[] {
+  const scores = new Map<any, number>();
+  
+  // Divs without block children are paragraphs in disguise
+  const paragraphs = $('p, pre, td, blockquote').add(
+    $('div').filter((i, el) => $(el).children('div, p, pre, table, ul, ol, blockquote, section, article').length === 0)
+  );
+  
+  paragraphs.each((i, el) => {
+    const text = cleanText($(el).text());
+    if (text.length < 25) {
+      return;
+    }
+    
+    // Commas and length suggest prose; cap the length bonus so one long block cannot dominate
+    const contentScore = 1 + (text.split(',').length - 1) + Math.min(Math.floor(text.length / 100), 3);
+    
+    $(el).parents().slice(0, 3).each((level, ancestor) => {
+      if (!scores.has(ancestor)) {
+        scores.set(ancestor, initialScore($(ancestor)));
+      }
+      const divider = level === 0 ? 1 : level === 1 ? 2 : level * 3;
+      scores.set(ancestor, scores.get(ancestor)! + contentScore / divider);
+    });
+  });
+  
+  let top: any;
+  let topScore = -Infinity;
+  scores.forEach((score, el) => {
+    const tag = ($(el).prop('tagName') || '').toLowerCase();
+    if (tag === 'html' || tag === 'body') {
+      return;
+    }
+    // Link-heavy containers are menus and link lists, not articles
+    const adjusted = score * (1 - linkDensity($, $(el)));
+    scores.set(el, adjusted);
+    if (adjusted > topScore) {
+      top = el;
+      topScore = adjusted;
+    }
+  });
+  
+  if (!top) {
+    const fallback = $('article, main, [role="main"]').first();
+    return [fallback.length > 0 ? fallback : $('body')];
+  }
+  
+  // Pull in siblings that belong to the same article, such as a lead paragraph outside the main div
+  const threshold = Math.max(10, topScore * 0.2);
+  const roots: cheerio.Cheerio<any>[] = [];
+  $(top).parent().children().each((i, sibling) => {
+    const $sibling = $(sibling);
+    const text = cleanText($sibling.text());
+    const isProse = $sibling.is('p') && (
+      (text.length > 80 && linkDensity($, $sibling) < 0.25) ||
+      (text.length > 0 && linkDensity($, $sibling) === 0 && /\.( |$)/.test(text))
+    );
+    
+    if (sibling === top || (scores.get(sibling) || 0) >= threshold || isProse) {
+      roots.push($sibling);
+    }
+  });
+  
+  return roots;
+}
+
+/**
+ * Turn article containers into ordered content blocks
+ * @param $ Loaded document
+ * @param roots Article containers
+ * @returns Content blocks
+ */
+function collectBlocks($: cheerio.CheerioAPI, roots: cheerio.Cheerio<any>[]): ArticleBlock[] {
+  const blocks: ArticleBlock[] = [];
+  
+  for (const root of roots) {
+    // Only take outermost blocks so list items and quoted paragraphs are not repeated
+    const elements = root.is(BLOCK_SELECTOR)
+      ? root.toArray()
+      : root.find(BLOCK_SELECTOR).filter((i, el) => $(el).parentsUntil(root).filter('ul, ol, pre, blockquote, p').length === 0).toArray();
+    
+    if (elements.length === 0) {
+      const text = cleanText(root.text());
+      if (text) {
+        blocks.push({ type: 'paragraph', text });
+      }
+      continue;
+    }
+    
+    for (const el of elements) {
+      const $el = $(el);
+      const tag = ($el.prop('tagName') || '').toLowerCase();
+      
+      if (/^h[1-6]$/.test(tag)) {
+        const text = cleanText($el.text());
+        if (text) {
+          blocks.push({ type: 'heading', level: parseInt(tag[1], 10), text });
+        }
+      } else if (tag === 'ul' || tag === 'ol') {
+        const items = $el.children('li').map((i, li) => cleanText($(li).text())).get().filter(Boolean);
+        if (items.length > 0) {
+          blocks.push({ type: 'list', ordered: tag === 'ol', items });
+        }
+      } else if (tag === 'pre') {
+        const text = $el.text().replace(/^\n+|\s+$/g, '');
+        if (text) {
+          blocks.push({ type: 'code', text });
+        }
+      } else {
+        const text = cleanText($el.text());
+        if (text) {
+          blocks.push({ type: tag === 'blockquote' ? 'quote' : 'paragraph', text });
+        }
+      }
+    }
+  }
+  
+  return blocks;
+}
+
+/**
+ * Render blocks as plain text
+ * @param blocks Content blocks
+ * @returns Text with one block per paragraph
+ */
+function blocksToText(blocks: ArticleBlock[]): string {
+  return blocks.map(block => {
+    switch (block.type) {
+      case 'heading':
+        return `${'#'.repeat(block.level)} ${block.text}`;
+      case 'list':
+        return block.items.map((item, i) => `${block.ordered ? `${i + 1}.` : '-'} ${item}`).join('\n');
+      case 'quote':
+        return `> ${block.text}`;
+      default:
+        return block.text;
+    }
+  }).join('\n\n');
+}
+
+/**
+ * Extract the main article from a page, dropping navigation, banners and other boilerplate
+ * @param html Page HTML, from a fetch or Puppeteer's page.content()
+ * @param url Page URL for resolving relative URLs
+ * @returns Main article with metadata and ordered content blocks
+ */
+export function extractArticle(html: string, url?: string): Article {
+  try {
+    const $ = cheerio.load(html);
+    const metadata = extractMetadata($, url);
+    
+    removeBoilerplate($);
+    const roots = findArticleRoots($);
+    const blocks = collectBlocks($, roots);
+    
+    // Fall back to the first content image when the page declares no lead image
+    const leadImage = metadata.leadImage
+      || resolveUrl(roots.map(root => root.find('img').first().attr('src')).find(Boolean), url);
+    
+    const firstParagraph = blocks.find(block => block.type === 'paragraph') as { text: string } | undefined;
+    const description = $('meta[name="description"]').attr('content')?.trim();
+    
+    return {
+      ...metadata,
+      leadImage,
+      excerpt: description || (firstParagraph ? firstParagraph.text.substring(0, 200) : ''),
+      blocks,
+      text: blocksToText(blocks),
+      html: roots.map(root => $.html(root)).join('\n'),
+    };
+  } catch (error) {
+    console.error('Error extracting article:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,85 @@
+// src/lib/scraping/recipeRunner.test.ts
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { scrapeWithEngine } from './engine';
+import { runRecipe } from './recipeRunner';
+import { recordRecipeRun, saveRecipe, updateRecipe, type Recipe } from '@/lib/storage/recipeStorage';
+
+vi.mock('./engine', () => ({ scrapeWithEngine: vi.fn() }));
+vi.mock('@/lib/storage/snapshotStorage', () => ({ recordSnapshot: vi.fn(async () => null) }));
+
+/**
+ * Serve a page with the given number of list items
+ * @param items Number of items
+ */
+function servePage(items: number) {
+  const html = `<ul>${'<li class="item">Item</li>'.repeat(items)}</ul>`;
+  vi.mocked(scrapeWithEngine).mockResolvedValue({
+    content: { html, bodyText: 'Item'.repeat(items) },
+  } as unknown as Awaited<ReturnType<typeof scrapeWithEngine>>);
+}
+
+/**
+ * Record healthy earlier runs of a recipe
+ * @param recipe Recipe
+ * @param url Page the runs targeted
+ * @param version Recipe version of the runs
+ * @param matches Matches of the item field
+ */
+async function recordRuns(recipe: Recipe, url: string, version: number, matches: number) {
+  for (let i = 0; i < 3; i++) {
+    await recordRecipeRun({
+      recipeId: recipe.id,
+      recipeVersion: version,
+      url,
+      at: new Date().toISOString(),
+      stats: { item: { matches, fillRate: 1 } },
+      examples: { item: ['Item'] },
+      drifted: false,
+    });
+  }
+}
+
+describe('runRecipe', () => {
+  let recipe: Recipe;
+  
+  beforeEach(async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    recipe = await saveRecipe({
+      workspaceId: 'ws',
+      name: 'Listing',
+      url: 'https://example.com/list',
+      instructions: 'Items',
+      selectors: { item: '.item' },
+      engine: 'static',
+    });
+  });
+  
+  it('measures drift against earlier runs of the same page', async () => {
+    await recordRuns(recipe, recipe.url, recipe.version, 20);
+    servePage(5);
+    
+    const result = await runRecipe(recipe, { repair: false });
+    
+    expect(result.drift.drifted).toBe(true);
+  });
+  
+  it('ignores runs of other pages, which have other counts', async () => {
+    await recordRuns(recipe, 'https://example.com/big-list', recipe.version, 20);
+    servePage(5);
+    
+    const result = await runRecipe(recipe, { repair: false });
+    
+    expect(result.drift.drifted).toBe(false);
+  });
+  
+  it('ignores runs of earlier recipe versions', async () => {
+    await recordRuns(recipe, recipe.url, recipe.version, 20);
+    const updated = (await updateRecipe(recipe.id, { selectors: { item: 'li' } }))!;
+    servePage(5);
+    
+    const result = await runRecipe(updated, { repair: false });
+    
+    expect(updated.version).toBe(recipe.version + 1);
+    expect(result.drift.drifted).toBe(false);
+  });
+});
@@ -0,0 +1,127 @@
+// src/lib/scraping/recipeRunner.ts
+import * as cheerio from 'cheerio';
+import { scrapeWithEngine } from './engine';
+import { type CompileOptions } from './selectorCompiler';
+import { measureExtraction, computeBaseline, detectDrift, type DriftThresholds } from './selectorDrift';
+import { proposeRepair } from './selectorRepair';
+import { updateRecipe, getRecipeRuns, recordRecipeRun, type Recipe } from '@/lib/storage/recipeStorage';
+import type { RepairProposal } from '@/lib/storage/repairStorage';
+import { recordSnapshot } from '@/lib/storage/snapshotStorage';
+
+/**
+ * Interface for recipe run options
+ */
+export interface RecipeRunOptions {
+  // Page to run against; defaults to the page the recipe was compiled on
+  url?: string;
+  // Propose repaired selectors for review when the run drifts
+  repair?: boolean;
+  thresholds?: DriftThresholds;
+  llm?: Pick<CompileOptions, 'provider' | 'model' | 'workspaceId'>;
+}
+
+const EXAMPLES_PER_FIELD = 5;
+
+/**
+ * Extract text for every field of a selector map
+ * @param html HTML content
+ * @param selectors Field name to CSS selector
+ * @returns Trimmed, non-empty texts per field
+ */
+export function extractWithSelectors(html: string, selectors: Record<string, string>): Record<string, string[]> {
+  const $ = cheerio.load(html);
+  const data: Record<string, string[]> = {};
+  
+  for (const [field, selector] of Object.entries(selectors)) {
+    try {
+      data[field] = $(selector).map((i, el) => $(el).text().trim()).get().filter(Boolean);
+    } catch (error) {
+      // A selector Cheerio cannot parse extracts nothing, which shows up as drift
+      console.warn(`Invalid selector for field ${field}:`, (error as Error).message);
+      data[field] = [];
+    }
+  }
+  
+  return data;
+}
+
+/**
+ * Run a saved recipe: extract with its selectors without calling the model, compare the run
+ * against earlier runs, and queue a repair for review when fields drift
+ * Repairs are never applied here; the recipe keeps its selectors until a proposal is approved
+ * @param recipe Recipe to run
+ * @param options Run options
+ * @returns Extracted data, the drift report, the snapshot of a healthy run and any repair proposal
+ */
+export async function runRecipe(recipe: Recipe, options: RecipeRunOptions = {}) {
+  const { url = recipe.url, repair = true, thresholds = {}, llm = {} } = options;
+  
+  const { content } = await scrapeWithEngine(url, { engine: recipe.engine, waitFor: recipe.waitFor });
+  const data = extractWithSelectors(content.html, recipe.selectors);
+  
+  // Baselines come from earlier healthy runs of the same page with the same selectors;
+  // other pages have other counts, and an earlier version may extract different fields
+  const runs = (await getRecipeRuns(recipe.id))
+    .filter(run => run.url === url && run.recipeVersion === recipe.version);
+  const stats = measureExtraction(data);
+  const baseline = computeBaseline(
+    runs.filter(run => !run.drifted).map(run => run.stats),
+    thresholds.baselineRuns
+  );
+  const drift = detectDrift(stats, baseline, thresholds);
+  
+  if (drift.drifted) {
+    console.warn(`Recipe ${recipe.id} drifted on ${url}: ${drift.fields.map(field => `${field.field} (${field.reason})`).join(', ')}`);
+  }
+  
+  // Keep a few values of the healthy fields to repair them from later
+  const driftedFields = new Set(drift.fields.map(field => field.field));
+  const examples: Record<string, string[]> = {};
+  for (const [field, values] of Object.entries(data)) {
+    if (!driftedFields.has(field)) {
+      examples[field] = values.slice(0, EXAMPLES_PER_FIELD);
+    }
+  }
+  
+  await recordRecipeRun({
+    recipeId: recipe.id,
+    recipeVersion: recipe.version,
+    url,
+    at: new Date().toISOString(),
+    stats,
+    examples,
+    drifted: drift.drifted,
+  });
+  
+  // Drifted runs would show selector breakage as content changes, so only healthy runs are snapshotted
+  const snapshot = drift.drifted ? null : await recordSnapshot({
+    url,
+    recipeId: recipe.id,
+    owner: `workspace:${recipe.workspaceId}`,
+    body: content.bodyText,
+    records: data,
+  });
+  
+  let proposal: RepairProposal | null = null;
+  let repairError: string | undefined;
+  if (drift.drifted && repair) {
+    try {
+      proposal = await proposeRepair(recipe, url, content.html, drift, runs, baseline, llm);
+    } catch (error) {
+      // The extraction itself succeeded, so a failed repair attempt does not fail the run
+      console.error(`Error repairing recipe ${recipe.id}:`, error);
+      repairError = (error as Error).message;
+    }
+  }
+  
+  const current = (await updateRecipe(recipe.id, { lastRunAt: new Date().toISOString() })) || recipe;
+  
+  return {
+    data,
+    recipe: current,
+    drift,
+    ...(snapshot && { snapshot: { id: snapshot.snapshot.id, version: snapshot.snapshot.version, changed: snapshot.created } }),
+    repairProposal: proposal,
+    ...(repairError && { repairError }),
+  };
+}
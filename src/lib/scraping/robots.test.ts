@@ -0,0 +1,151 @@
+// src/lib/scraping/robots.test.ts
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { safeFetch } from '@/lib/security/networkGuard';
+import {
+  RobotsBlockedError,
+  enforceRobots,
+  evaluateRobots,
+  parseRobotsTxt,
+  removeRobotsOverride,
+  setRobotsOverride,
+} from './robots';
+
+vi.mock('@/lib/security/networkGuard', async importOriginal => ({
+  ...(await importOriginal<typeof import('@/lib/security/networkGuard')>()),
+  safeFetch: vi.fn(),
+}));
+
+const ROBOTS = `
+# Comments are ignored
+User-agent: *
+Disallow: /private
+Allow: /private/public
+Disallow: /*.pdf$
+Crawl-delay: 2
+
+User-agent: web-scraper-groq
+User-agent: otherbot
+Disallow: /only-us
+Crawl-delay: 1
+
+Sitemap: https://example.com/sitemap.xml
+`;
+
+/**
+ * Serve a robots.txt body for the next fetches
+ * @param body robots.txt content
+ * @param status HTTP status
+ */
+function serveRobots(body: string, status = 200) {
+  vi.mocked(safeFetch).mockResolvedValue(new Response(body, { status }));
+}
+
+describe('parseRobotsTxt', () => {
+  it('groups consecutive user agents and collects rules, delays and sitemaps', () => {
+    const robots = parseRobotsTxt(ROBOTS);
+    
+    expect(robots.sitemaps).toEqual(['https://example.com/sitemap.xml']);
+    expect(robots.groups).toHaveLength(2);
+    expect(robots.groups[1]).toEqual({
+      userAgents: ['web-scraper-groq', 'otherbot'],
+      rules: [{ type: 'disallow', path: '/only-us' }],
+      crawlDelay: 1,
+    });
+  });
+  
+  it('treats an empty Disallow as allowing everything', () => {
+    expect(parseRobotsTxt('User-agent: *\nDisallow:').groups[0].rules).toEqual([]);
+  });
+});
+
+describe('evaluateRobots', () => {
+  const robots = parseRobotsTxt(ROBOTS);
+  
+  it('uses the most specific user agent group', () => {
+    expect(evaluateRobots(robots, 'https://example.com/private', 'web-scraper-groq/1.0')).toMatchObject({ allowed: true, crawlDelay: 1 });
+    expect(evaluateRobots(robots, 'https://example.com/only-us', 'web-scraper-groq/1.0').allowed).toBe(false);
+    expect(evaluateRobots(robots, 'https://example.com/only-us', 'somebot').allowed).toBe(true);
+  });
+  
+  it('lets the longest matching rule win', () => {
+    expect(evaluateRobots(robots, 'https://example.com/private/page', 'somebot')).toMatchObject({
+      allowed: false,
+      rule: { type: 'disallow', path: '/private' },
+    });
+    expect(evaluateRobots(robots, 'https://example.com/private/public/page', 'somebot').allowed).toBe(true);
+  });
+  
+  it('lets Allow win a tie', () => {
+    const tie = parseRobotsTxt('User-agent: *\nDisallow: /page\nAllow: /page');
+    expect(evaluateRobots(tie, 'https://example.com/page', 'somebot').allowed).toBe(true);
+  });
+  
+  it('supports wildcards and end anchors', () => {
+    expect(evaluateRobots(robots, 'https://example.com/files/report.pdf', 'somebot').allowed).toBe(false);
+    expect(evaluateRobots(robots, 'https://example.com/files/report.pdf?download=1', 'somebot').allowed).toBe(true);
+  });
+  
+  it('disallows everything when robots.txt was unreachable', () => {
+    expect(evaluateRobots({ groups: [], sitemaps: [], unreachable: true }, 'https://example.com/').allowed).toBe(false);
+  });
+});
+
+describe('enforceRobots', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.mocked(safeFetch).mockReset();
+  });
+  
+  it('throws for disallowed URLs', async () => {
+    serveRobots('User-agent: *\nDisallow: /admin');
+    
+    await expect(enforceRobots('https://blocked.example/admin/users')).rejects.toThrow(RobotsBlockedError);
+    await expect(enforceRobots('https://blocked.example/blog')).resolves.toBeUndefined();
+  });
+  
+  it('skips hosts with an override', async () => {
+    serveRobots('User-agent: *\nDisallow: /');
+    setRobotsOverride('override.example');
+    
+    await expect(enforceRobots('https://www.override.example/page')).resolves.toBeUndefined();
+    expect(safeFetch).not.toHaveBeenCalled();
+    
+    removeRobotsOverride('override.example');
+    await expect(enforceRobots('https://www.override.example/page')).rejects.toThrow(RobotsBlockedError);
+  });
+  
+  it('blocks every path while robots.txt returns a server error', async () => {
+    serveRobots('', 503);
+    
+    await expect(enforceRobots('https://down.example/')).rejects.toThrow(RobotsBlockedError);
+  });
+  
+  it('allows everything when robots.txt is missing', async () => {
+    serveRobots('', 404);
+    
+    await expect(enforceRobots('https://missing.example/anything')).resolves.toBeUndefined();
+  });
+  
+  it('spaces requests to a host by its crawl delay', async () => {
+    vi.useFakeTimers();
+    serveRobots('User-agent: *\nCrawl-delay: 5');
+    
+    await enforceRobots('https://slow.example/1');
+    let done = false;
+    const second = enforceRobots('https://slow.example/2').then(() => {
+      done = true;
+    });
+    
+    await vi.advanceTimersByTimeAsync(4000);
+    expect(done).toBe(false);
+    await vi.advanceTimersByTimeAsync(1000);
+    await second;
+    expect(done).toBe(true);
+  });
+  
+  it('refuses crawl delays that are too long to honour', async () => {
+    serveRobots('User-agent: *\nCrawl-delay: 120');
+    
+    await expect(enforceRobots('https://slower.example/')).rejects.toMatchObject({ name: 'RobotsBlockedError', crawlDelay: 120 });
+  });
+});
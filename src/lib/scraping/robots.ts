@@ -0,0 +1,356 @@
+// src/lib/scraping/robots.ts
+import { getCacheItem, setCacheItem } from '@/lib/cache/memoryCache';
+import { safeFetch, SsrfBlockedError } from '@/lib/security/networkGuard';
+
+const ROBOTS_CACHE_PREFIX = 'robots:';
+const ROBOTS_CACHE_TTL = 60 * 60 * 1000; // 1 hour
+
+/**
+ * Interface for a single Allow/Disallow rule
+ */
+export interface RobotsRule {
+  type: 'allow' | 'disallow';
+  path: string;
+}
+
+/**
+ * Interface for a user-agent group in robots.txt
+ */
+export interface RobotsGroup {
+  userAgents: string[];
+  rules: RobotsRule[];
+  crawlDelay?: number;
+}
+
+/**
+ * Interface for a parsed robots.txt file
+ */
+export interface RobotsTxt {
+  groups: RobotsGroup[];
+  sitemaps: string[];
+  // Set when robots.txt could not be fetched and everything is disallowed
+  unreachable?: boolean;
+}
+
+/**
+ * Interface for a per-domain robots.txt override
+ */
+export interface RobotsOverride {
+  domain: string;
+  reason?: string;
+  createdBy?: string;
+  createdAt: string;
+}
+
+/**
+ * Error raised when robots.txt disallows a URL, or asks for a crawl delay the scraper cannot wait out
+ */
+export class RobotsBlockedError extends Error {
+  constructor(public url: string, public userAgent: string, public rule?: RobotsRule, public crawlDelay?: number) {
+    super(`Blocked by robots.txt: ${url}${rule ? ` (${rule.type}: ${rule.path})` : ''}${crawlDelay ? ` (crawl-delay: ${crawlDelay}s)` : ''}`);
+    this.name = 'RobotsBlockedError';
+  }
+}
+
+// In-memory store for overrides (would be a database in production)
+const overrides = new Map<string, RobotsOverride>();
+
+// Earliest time the next request to each host may start
+const nextRequestAt = new Map<string, number>();
+
+// Longest crawl delay honoured; hosts asking for more block the scraper
+const MAX_CRAWL_DELAY_SECONDS = 30;
+
+// Longest a request waits for its turn at a host, so queued requests finish before they time out
+const MAX_CRAWL_WAIT_MS = 60 * 1000;
+
+/**
+ * Get the user agent token matched against robots.txt groups
+ * @returns User agent token
+ */
+export function getRobotsUserAgent(): string {
+  return process.env.ROBOTS_USER_AGENT || 'web-scraper-groq';
+}
+
+/**
+ * Parse a robots.txt file
+ * @param text robots.txt content
+ * @returns Parsed robots.txt
+ */
+export function parseRobotsTxt(text: string): RobotsTxt {
+  const groups: RobotsGroup[] = [];
+  const sitemaps: string[] = [];
+  let current: RobotsGroup | null = null;
+  let lastWasAgent = false;
+  
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.replace(/#.*$/, '').trim();
+    const separator = line.indexOf(':');
+    if (separator === -1) {
+      continue;
+    }
+    
+    const field = line.slice(0, separator).trim().toLowerCase();
+    const value = line.slice(separator + 1).trim();
+    
+    switch (field) {
+      case 'user-agent':
+        // Consecutive user-agent lines share one group
+        if (!current || !lastWasAgent) {
+          current = { userAgents: [], rules: [] };
+          groups.push(current);
+        }
+        current.userAgents.push(value.toLowerCase());
+        lastWasAgent = true;
+        continue;
+      
+      case 'allow':
+      case 'disallow':
+        // An empty Disallow allows everything and adds no rule
+        if (current && value) {
+          current.rules.push({ type: field, path: value });
+        }
+        break;
+      
+      case 'crawl-delay': {
+        const delay = parseFloat(value);
+        if (current && !isNaN(delay) && delay >= 0) {
+          current.crawlDelay = delay;
+        }
+        break;
+      }
+      
+      case 'sitemap':
+        if (value) {
+          sitemaps.push(value);
+        }
+        break;
+    }
+    
+    lastWasAgent = false;
+  }
+  
+  return { groups, sitemaps };
+}
+
+/**
+ * Pick the group that applies to a user agent
+ * @param robots Parsed robots.txt
+ * @param userAgent User agent token
+ * @returns Matching group or undefined if no group applies
+ */
+function findGroup(robots: RobotsTxt, userAgent: string): RobotsGroup | undefined {
+  const agent = userAgent.toLowerCase();
+  let best: RobotsGroup | undefined;
+  let bestLength = -1;
+  
+  // The most specific user-agent token wins, "*" is the fallback
+  for (const group of robots.groups) {
+    for (const token of group.userAgents) {
+      const length = token === '*' ? 0 : agent.includes(token) ? token.length : -1;
+      if (length > bestLength) {
+        best = group;
+        bestLength = length;
+      }
+    }
+  }
+  
+  return best;
+}
+
+/**
+ * Check whether a robots.txt path pattern matches a path
+ * @param pattern Rule path, supporting `*` and a trailing `$`
+ * @param path URL path and query
+ * @returns Whether the pattern matches
+ */
+function matchesPattern(pattern: string, path: string): boolean {
+  const anchored = pattern.endsWith('$');
+  const source = (anchored ? pattern.slice(0, -1) : pattern)
+    .split('*')
+    .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  
+  return new RegExp(`^${source}${anchored ? '$' : ''}`).test(path);
+}
+
+/**
+ * Evaluate robots.txt rules for a URL
+ * @param robots Parsed robots.txt
+ * @param url URL to check
+ * @param userAgent User agent token
+ * @returns Whether the URL is allowed, the deciding rule and the crawl delay
+ */
+export function evaluateRobots(robots: RobotsTxt, url: string, userAgent = getRobotsUserAgent()) {
+  if (robots.unreachable) {
+    return { allowed: false, rule: undefined, crawlDelay: undefined };
+  }
+  
+  const group = findGroup(robots, userAgent);
+  
+  if (!group) {
+    return { allowed: true, rule: undefined, crawlDelay: undefined };
+  }
+  
+  const { pathname, search } = new URL(url);
+  const path = pathname + search;
+  let match: RobotsRule | undefined;
+  
+  // The longest matching rule wins; Allow wins a tie
+  for (const rule of group.rules) {
+    if (!matchesPattern(rule.path, path)) {
+      continue;
+    }
+    if (
+      !match ||
+      rule.path.length > match.path.length ||
+      (rule.path.length === match.path.length && rule.type === 'allow')
+    ) {
+      match = rule;
+    }
+  }
+  
+  return {
+    allowed: !match || match.type === 'allow',
+    rule: match,
+    crawlDelay: group.crawlDelay,
+  };
+}
+
+/**
+ * Fetch and cache robots.txt for an origin
+ * @param origin Site origin
+ * @returns Parsed robots.txt
+ */
+export async function getRobotsTxt(origin: string): Promise<RobotsTxt> {
+  const cacheKey = `${ROBOTS_CACHE_PREFIX}${origin}`;
+  const cached = getCacheItem(cacheKey);
+  if (cached) {
+    return cached;
+  }
+  
+  let robots: RobotsTxt;
+  try {
+    const response = await safeFetch(`${origin}/robots.txt`, {
+      headers: { 'User-Agent': getRobotsUserAgent() },
+    });
+    
+    if (response.ok) {
+      robots = parseRobotsTxt(await response.text());
+    } else if (response.status >= 500) {
+      // Server errors mean the site is unavailable, so nothing may be crawled for now
+      robots = { groups: [], sitemaps: [], unreachable: true };
+    } else {
+      // A missing robots.txt allows everything
+      robots = { groups: [], sitemaps: [] };
+    }
+  } catch (error) {
+    if (error instanceof SsrfBlockedError) {
+      throw error;
+    }
+    
+    // Network errors surface on the page fetch itself, so do not block here
+    console.error(`Error fetching robots.txt for ${origin}:`, error);
+    robots = { groups: [], sitemaps: [] };
+  }
+  
+  // Retry unreachable sites sooner than healthy ones
+  setCacheItem(cacheKey, robots, robots.unreachable ? 5 * 60 * 1000 : ROBOTS_CACHE_TTL);
+  return robots;
+}
+
+/**
+ * Find the override that applies to a hostname
+ * @param hostname Hostname to check
+ * @returns Override or undefined
+ */
+export function getRobotsOverride(hostname: string): RobotsOverride | undefined {
+  const host = hostname.toLowerCase();
+  for (const override of overrides.values()) {
+    if (host === override.domain || host.endsWith(`.${override.domain}`)) {
+      return override;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Set a per-domain override that skips robots.txt checks
+ * @param domain Domain to override
+ * @param details Who set the override and why
+ * @returns Saved override
+ */
+export function setRobotsOverride(domain: string, details: { reason?: string; createdBy?: string } = {}): RobotsOverride {
+  const override: RobotsOverride = {
+    domain: domain.toLowerCase(),
+    ...details,
+    createdAt: new Date().toISOString(),
+  };
+  overrides.set(override.domain, override);
+  return override;
+}
+
+/**
+ * Remove a per-domain override
+ * @param domain Domain to remove
+ * @returns Whether an override was removed
+ */
+export function removeRobotsOverride(domain: string): boolean {
+  return overrides.delete(domain.toLowerCase());
+}
+
+/**
+ * List all per-domain overrides
+ * @returns Array of overrides
+ */
+export function getRobotsOverrides(): RobotsOverride[] {
+  return Array.from(overrides.values());
+}
+
+/**
+ * Wait until the host's crawl delay has passed and reserve the next slot
+ * @param host Hostname
+ * @param delaySeconds Crawl delay in seconds
+ * @returns Whether a slot was reserved; false if the wait would be longer than MAX_CRAWL_WAIT_MS
+ */
+async function waitForCrawlDelay(host: string, delaySeconds: number): Promise<boolean> {
+  const now = Date.now();
+  const startAt = Math.max(now, nextRequestAt.get(host) || 0);
+  
+  if (startAt - now > MAX_CRAWL_WAIT_MS) {
+    return false;
+  }
+  
+  // Reserve before waiting so concurrent requests queue up behind each other
+  nextRequestAt.set(host, startAt + delaySeconds * 1000);
+  
+  if (startAt > now) {
+    await new Promise(resolve => setTimeout(resolve, startAt - now));
+  }
+  return true;
+}
+
+/**
+ * Check robots.txt before fetching a URL and apply its crawl delay
+ * @param url URL about to be fetched
+ * @throws RobotsBlockedError if robots.txt disallows the URL, or its crawl delay is too long to wait for
+ */
+export async function enforceRobots(url: string) {
+  const { origin, hostname, protocol } = new URL(url);
+  
+  if ((protocol !== 'http:' && protocol !== 'https:') || getRobotsOverride(hostname)) {
+    return;
+  }
+  
+  const userAgent = getRobotsUserAgent();
+  const robots = await getRobotsTxt(origin);
+  const { allowed, rule, crawlDelay } = evaluateRobots(robots, url, userAgent);
+  
+  if (!allowed) {
+    throw new RobotsBlockedError(url, userAgent, rule);
+  }
+  
+  if (crawlDelay && (crawlDelay > MAX_CRAWL_DELAY_SECONDS || !(await waitForCrawlDelay(hostname, crawlDelay)))) {
+    throw new RobotsBlockedError(url, userAgent, undefined, crawlDelay);
+  }
+}
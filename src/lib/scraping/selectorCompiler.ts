@@ -0,0 +1,229 @@
+// src/lib/scraping/selectorCompiler.ts
+import * as cheerio from 'cheerio';
+import { z } from 'zod';
+import { complete, type CompletionOptions } from '@/lib/llm/completion';
+import type { ChatMessage, TokenUsage } from '@/lib/llm/provider';
+
+/**
+ * Interface for DOM outline options
+ */
+interface OutlineOptions {
+  maxLines?: number;
+  maxDepth?: number;
+}
+
+/**
+ * Interface for selector compilation options
+ */
+export interface CompileOptions extends Pick<CompletionOptions, 'provider' | 'model' | 'workspaceId'> {
+  // Selectors that used to work, shown to the model when recompiling
+  previousSelectors?: Record<string, string>;
+  // Only compile these fields, e.g. the ones that broke
+  fields?: string[];
+  maxRepairs?: number;
+}
+
+/**
+ * Interface for the check of one selector against a page
+ */
+export interface SelectorCheck {
+  field: string;
+  selector: string;
+  matches: number;
+  samples: string[];
+  error?: string;
+}
+
+/**
+ * Interface for the check of a whole selector map
+ */
+export interface SelectorVerification {
+  valid: boolean;
+  fields: SelectorCheck[];
+}
+
+/**
+ * Error raised when the model cannot produce selectors that match the page
+ */
+export class SelectorCompilationError extends Error {
+  constructor(public verification: SelectorVerification) {
+    super(`Compiled selectors do not match the page: ${verification.fields.filter(field => field.matches === 0).map(field => field.field).join(', ')}`);
+    this.name = 'SelectorCompilationError';
+  }
+}
+
+const SKIPPED_TAGS = new Set(['head', 'script', 'style', 'noscript', 'template', 'svg', 'canvas', 'iframe', 'link', 'meta']);
+
+// Attributes that make good selector hooks
+const OUTLINE_ATTRIBUTES = ['itemprop', 'itemtype', 'role', 'aria-label', 'data-testid', 'data-test', 'name', 'type'];
+
+const selectorMapSchema = z.object({
+  selectors: z.record(z.string().min(1)),
+});
+
+/**
+ * Describe one element as tag#id.class[attr] with a short sample of its own text
+ * @param $ Cheerio instance
+ * @param el Element
+ * @returns Element label
+ */
+function describeElement($: cheerio.CheerioAPI, el: any): string {
+  const id = el.attribs?.id ? `#${el.attribs.id}` : '';
+  const classes = (el.attribs?.class || '').split(/\s+/).filter(Boolean).slice(0, 4).map((name: string) => `.${name}`).join('');
+  const attributes = OUTLINE_ATTRIBUTES
+    .filter(name => el.attribs?.[name])
+    .map(name => `[${name}="${el.attribs[name].slice(0, 40)}"]`)
+    .join('');
+  const ownText = $(el).contents().filter((i, node) => node.type === 'text').text().replace(/\s+/g, ' ').trim();
+  const text = ownText ? ` "${ownText.slice(0, 60)}${ownText.length > 60 ? '…' : ''}"` : '';
+  
+  return `${el.name}${id}${classes}${attributes}${text}`;
+}
+
+/**
+ * Build a trimmed outline of a page's DOM for the model: tags, ids, classes and text samples,
+ * with runs of identical siblings collapsed
+ * @param html HTML content
+ * @param options Outline options
+ * @returns Outline text, one element per line
+ */
+export function buildDomOutline(html: string, options: OutlineOptions = {}): string {
+  const { maxLines = 400, maxDepth = 14 } = options;
+  const $ = cheerio.load(html);
+  const lines: string[] = [];
+  
+  const visit = (el: any, depth: number) => {
+    if (lines.length >= maxLines || depth > maxDepth || SKIPPED_TAGS.has(el.name)) {
+      return;
+    }
+    // Leave out elements that carry no text or media
+    if (!$(el).text().trim() && !$(el).is('img, a[href], input') && $(el).find('img').length === 0) {
+      return;
+    }
+    
+    lines.push(`${'  '.repeat(depth)}${describeElement($, el)}`);
+    
+    const children = $(el).children().toArray();
+    let i = 0;
+    while (i < children.length) {
+      // Siblings with the same tag and classes are usually list items; show two and count the rest
+      const signature = `${(children[i] as any).name}.${(children[i] as any).attribs?.class || ''}`;
+      let run = 1;
+      while (i + run < children.length && `${(children[i + run] as any).name}.${(children[i + run] as any).attribs?.class || ''}` === signature) {
+        run++;
+      }
+      
+      children.slice(i, i + Math.min(run, 2)).forEach(child => visit(child, depth + 1));
+      if (run > 2 && lines.length < maxLines) {
+        lines.push(`${'  '.repeat(depth + 1)}… ${run - 2} more like the above`);
+      }
+      i += run;
+    }
+  };
+  
+  const root = $('body').get(0) || $.root().children().get(0);
+  if (root) {
+    visit(root, 0);
+  }
+  
+  return lines.join('\n');
+}
+
+/**
+ * Check every selector in a map against a page
+ * @param html HTML content
+ * @param selectors Field name to CSS selector
+ * @returns Match counts and samples per field; valid when every field matches
+ */
+export function verifySelectors(html: string, selectors: Record<string, string>): SelectorVerification {
+  const $ = cheerio.load(html);
+  
+  const fields = Object.entries(selectors).map(([field, selector]): SelectorCheck => {
+    try {
+      const texts = $(selector).map((i, el) => $(el).text().trim()).get().filter(Boolean);
+      return { field, selector, matches: texts.length, samples: texts.slice(0, 3) };
+    } catch (error) {
+      return { field, selector, matches: 0, samples: [], error: `Invalid selector: ${(error as Error).message}` };
+    }
+  });
+  
+  return { valid: fields.length > 0 && fields.every(field => field.matches > 0), fields };
+}
+
+/**
+ * Ask the model for a CSS selector map that extracts what the instructions describe, and verify it against the page
+ * @param html HTML of a page with the target layout
+ * @param instructions What to extract, in natural language
+ * @param options Compilation options
+ * @returns Verified selectors, their verification, token usage and cost in USD
+ * @throws SelectorCompilationError if no attempt produces selectors that all match
+ */
+export async function compileSelectors(html: string, instructions: string, options: CompileOptions = {}) {
+  const { previousSelectors, fields, maxRepairs = 1, provider, model, workspaceId } = options;
+  
+  try {
+    const messages: ChatMessage[] = [
+      {
+        role: 'system',
+        content: 'You write CSS selectors for web scraping. Reply with a single JSON object of the form {"selectors": {"fieldName": "css selector"}} and nothing else.',
+      },
+      {
+        role: 'user',
+        content: `PAGE OUTLINE (tag#id.class[attributes] "text sample"; indentation shows nesting):
+${buildDomOutline(html)}
+
+INSTRUCTIONS:
+${instructions}
+${previousSelectors ? `
+These selectors used to work but no longer match the page; keep the same field names:
+${JSON.stringify(previousSelectors, null, 2)}
+` : ''}${fields ? `
+Only return selectors for these fields: ${fields.join(', ')}
+` : ''}
+Return one selector per field. A selector should match every element holding that field's values, for example every product title in a list.
+Prefer ids, stable class names and attributes; avoid :nth-child and generated class names.`,
+      },
+    ];
+    
+    const usage: TokenUsage = { prompt_tokens: 0, completion_tokens: 0, total_tokens: 0 };
+    let cost = 0;
+    let verification: SelectorVerification = { valid: false, fields: [] };
+    
+    for (let attempt = 0; attempt <= maxRepairs; attempt++) {
+      const response = await complete(messages, { provider, model, workspaceId, temperature: 0, responseFormat: 'json_object' });
+      usage.prompt_tokens += response.usage.prompt_tokens;
+      usage.completion_tokens += response.usage.completion_tokens;
+      usage.total_tokens += response.usage.total_tokens;
+      cost += response.cost;
+      
+      let problems: string;
+      try {
+        const { selectors } = selectorMapSchema.parse(JSON.parse(response.content));
+        verification = verifySelectors(html, selectors);
+        
+        if (verification.valid) {
+          return { selectors, verification, usage, cost };
+        }
+        problems = verification.fields
+          .filter(field => field.matches === 0)
+          .map(field => `- ${field.field} (${field.selector}): ${field.error || 'matches nothing'}`)
+          .join('\n');
+      } catch (error) {
+        problems = `- The reply is not a valid selector map: ${(error as Error).message}`;
+      }
+      
+      console.warn(`Selector compilation attempt ${attempt + 1} failed verification:\n${problems}`);
+      
+      // Show the model which selectors missed
+      messages.push(
+        { role: 'assistant', content: response.content },
+        { role: 'user', content: `These selectors do not match the page:\n${problems}\n\nReply with a corrected selector map as JSON only.` }
+      );
+    }
+    
+    throw new SelectorCompilationError(verification);
+  } catch (error) {
+    console.error('Error compiling selectors:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,133 @@
+// src/lib/scraping/selectorDrift.ts
+
+/**
+ * Interface for the measurements of one field in one run
+ */
+export interface FieldStats {
+  matches: number;
+  // Share of records that have this field: its matches over the largest field's matches
+  fillRate: number;
+}
+
+/**
+ * Interface for the normal behaviour of a field, taken from healthy runs
+ */
+export interface FieldBaseline {
+  matches: number;
+  fillRate: number;
+  runs: number;
+}
+
+/**
+ * Interface for drift detection thresholds
+ */
+export interface DriftThresholds {
+  // How many recent healthy runs make up the baseline
+  baselineRuns?: number;
+  // A field drifts when its matches fall below this share of the baseline
+  matchDropRatio?: number;
+  // A field drifts when its fill rate falls this far below the baseline
+  fillRateDrop?: number;
+}
+
+export type DriftReason = 'no_matches' | 'match_drop' | 'fill_rate_drop';
+
+/**
+ * Interface for a field that drifted
+ */
+export interface FieldDrift {
+  field: string;
+  reason: DriftReason;
+  matches: number;
+  fillRate: number;
+  baseline?: FieldBaseline;
+}
+
+/**
+ * Interface for a drift report
+ */
+export interface DriftReport {
+  drifted: boolean;
+  fields: FieldDrift[];
+}
+
+/**
+ * Measure match counts and fill rates of an extraction
+ * @param data Extracted texts per field
+ * @returns Stats per field
+ */
+export function measureExtraction(data: Record<string, string[]>): Record<string, FieldStats> {
+  const largest = Math.max(0, ...Object.values(data).map(values => values.length));
+  const stats: Record<string, FieldStats> = {};
+  
+  for (const [field, values] of Object.entries(data)) {
+    stats[field] = {
+      matches: values.length,
+      fillRate: largest > 0 ? values.length / largest : 0,
+    };
+  }
+  
+  return stats;
+}
+
+/**
+ * Compute per-field baselines from the stats of earlier healthy runs
+ * @param history Stats of earlier runs, most recent first
+ * @param baselineRuns How many runs to use
+ * @returns Baseline per field; fields never seen have none
+ */
+export function computeBaseline(history: Record<string, FieldStats>[], baselineRuns = 5): Record<string, FieldBaseline> {
+  const runs = history.slice(0, baselineRuns);
+  const baseline: Record<string, FieldBaseline> = {};
+  const fields = new Set(runs.flatMap(run => Object.keys(run)));
+  
+  for (const field of Array.from(fields)) {
+    const samples = runs.map(run => run[field]).filter((stats): stats is FieldStats => Boolean(stats));
+    // The median resists a single unusually large or small page
+    const matches = samples.map(stats => stats.matches).sort((a, b) => a - b);
+    
+    baseline[field] = {
+      matches: matches[Math.floor(matches.length / 2)],
+      fillRate: samples.reduce((sum, stats) => sum + stats.fillRate, 0) / samples.length,
+      runs: samples.length,
+    };
+  }
+  
+  return baseline;
+}
+
+/**
+ * Compare a run against the baselines
+ * Without a baseline only fields that match nothing are flagged
+ * @param stats Stats of the current run
+ * @param baseline Baseline per field
+ * @param thresholds Drift thresholds
+ * @returns Drift report
+ */
+export function detectDrift(
+  stats: Record<string, FieldStats>,
+  baseline: Record<string, FieldBaseline>,
+  thresholds: DriftThresholds = {}
+): DriftReport {
+  const { matchDropRatio = 0.5, fillRateDrop = 0.25 } = thresholds;
+  const fields: FieldDrift[] = [];
+  
+  for (const [field, current] of Object.entries(stats)) {
+    const normal = baseline[field];
+    let reason: DriftReason | undefined;
+    
+    if (current.matches === 0) {
+      reason = 'no_matches';
+    } else if (normal && current.matches < normal.matches * matchDropRatio) {
+      reason = 'match_drop';
+    } else if (normal && current.fillRate < normal.fillRate - fillRateDrop) {
+      reason = 'fill_rate_drop';
+    }
+    
+    if (reason) {
+      fields.push({ field, reason, ...current, baseline: normal });
+    }
+  }
+  
+  return { drifted: fields.length > 0, fields };
+}
@@ -0,0 +1,288 @@
+// src/lib/scraping/selectorRepair.ts
+import * as cheerio from 'cheerio';
+import { compileSelectors, verifySelectors, SelectorCompilationError, type CompileOptions } from './selectorCompiler';
+import type { DriftReport, FieldBaseline } from './selectorDrift';
+import { getRecipe, updateRecipe, type Recipe, type RecipeRun } from '@/lib/storage/recipeStorage';
+import {
+  saveRepairProposal,
+  getRepairProposal,
+  listRepairProposals,
+  reviewRepairProposal,
+  type RepairProposal,
+  type SelectorPreview,
+} from '@/lib/storage/repairStorage';
+
+/**
+ * Error raised when a repair proposal cannot be reviewed
+ */
+export class RepairReviewError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = 'RepairReviewError';
+  }
+}
+
+// Attributes that survive most redesigns
+const STABLE_ATTRIBUTES = ['itemprop', 'data-testid', 'data-test', 'name'];
+
+// Class names that look generated by CSS-in-JS tooling change on every build
+const GENERATED_CLASS = /^(css|sc|jsx|svelte)-|[0-9a-f]{5,}|\d{3,}/i;
+
+const MAX_EXAMPLES_PER_FIELD = 10;
+
+/**
+ * Collapse whitespace so texts compare the way they read
+ * @param text Text
+ * @returns Normalized text
+ */
+function normalizeText(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * List selectors that would match an element, from its attributes, classes and parent
+ * @param el Element
+ * @returns Candidate selectors
+ */
+function candidateSelectors(el: any): string[] {
+  const tag = el.name;
+  const classesOf = (node: any): string[] => (node?.attribs?.class || '')
+    .split(/\s+/)
+    .filter((name: string) => /^[A-Za-z_-][\w-]*$/.test(name) && !GENERATED_CLASS.test(name));
+  const candidates: string[] = [];
+  
+  for (const attribute of STABLE_ATTRIBUTES) {
+    const value = el.attribs?.[attribute];
+    if (value && !value.includes('"')) {
+      candidates.push(`[${attribute}="${value}"]`, `${tag}[${attribute}="${value}"]`);
+    }
+  }
+  
+  const classes = classesOf(el);
+  for (const name of classes) {
+    candidates.push(`.${name}`, `${tag}.${name}`);
+  }
+  
+  // Unclassed elements are often addressable through their container
+  const parent = el.parent?.type === 'tag' ? el.parent : null;
+  for (const name of classesOf(parent)) {
+    candidates.push(`.${name} > ${tag}`);
+    if (classes[0]) {
+      candidates.push(`.${name} > ${tag}.${classes[0]}`);
+    }
+  }
+  
+  return Array.from(new Set(candidates));
+}
+
+/**
+ * Find selectors that extract values seen in earlier runs of a field
+ * @param html Current page HTML
+ * @param examples Earlier values per field
+ * @param baseline Baseline per field, to prefer selectors with the usual number of matches
+ * @returns Selector per field for the fields that could be repaired
+ */
+export function repairFromExamples(
+  html: string,
+  examples: Record<string, string[]>,
+  baseline: Record<string, FieldBaseline> = {}
+): Record<string, string> {
+  const $ = cheerio.load(html);
+  const elements = $('body *').toArray();
+  const repaired: Record<string, string> = {};
+  
+  for (const [field, values] of Object.entries(examples)) {
+    const wanted = new Set(values.map(normalizeText).filter(Boolean));
+    if (wanted.size === 0) {
+      continue;
+    }
+    
+    // Elements whose text is exactly an earlier value
+    const holders = elements.filter(el => wanted.has(normalizeText($(el).text())));
+    const candidates = Array.from(new Set(holders.flatMap(candidateSelectors)));
+    
+    let best: { selector: string; hits: number; distance: number } | null = null;
+    for (const selector of candidates) {
+      const texts = $(selector).map((i, el) => normalizeText($(el).text())).get().filter(Boolean);
+      const hits = new Set(texts.filter(text => wanted.has(text))).size;
+      // How far the match count is from normal, on a log scale so double and half weigh the same
+      const distance = Math.abs(Math.log(texts.length / (baseline[field]?.matches || texts.length)));
+      
+      if (hits > 0 && (!best || hits > best.hits || (hits === best.hits && distance < best.distance))) {
+        best = { selector, hits, distance };
+      }
+    }
+    
+    // One stray hit is a coincidence unless there was only one value to find
+    if (best && best.hits >= Math.min(2, wanted.size)) {
+      repaired[field] = best.selector;
+    }
+  }
+  
+  return repaired;
+}
+
+/**
+ * Gather values of each field from earlier runs; runs only keep values of healthy fields
+ * @param runs Earlier runs, most recent first
+ * @param fields Fields to gather
+ * @returns Values per field
+ */
+function gatherExamples(runs: RecipeRun[], fields: string[]): Record<string, string[]> {
+  const examples: Record<string, string[]> = {};
+  
+  for (const field of fields) {
+    const values = runs.flatMap(run => run.examples[field] || []);
+    examples[field] = Array.from(new Set(values)).slice(0, MAX_EXAMPLES_PER_FIELD);
+  }
+  
+  return examples;
+}
+
+/**
+ * Show what a selector map extracts from a page
+ * @param html Page HTML
+ * @param selectors Selector map
+ * @returns Preview with sample values and match counts
+ */
+function previewSelectors(html: string, selectors: Record<string, string>): SelectorPreview {
+  const verification = verifySelectors(html, selectors);
+  
+  return {
+    selectors,
+    values: Object.fromEntries(verification.fields.map(field => [field.field, field.samples])),
+    matches: Object.fromEntries(verification.fields.map(field => [field.field, field.matches])),
+  };
+}
+
+/**
+ * Propose new selectors for the fields of a recipe that drifted, and queue them for review
+ * Stored examples are tried first; the model is only asked about fields they cannot repair
+ * @param recipe Recipe that drifted
+ * @param url Page the drifted run extracted from
+ * @param html Page HTML of the drifted run
+ * @param drift Drift report of the run
+ * @param runs Earlier runs of the recipe, most recent first
+ * @param baseline Baseline per field
+ * @param llm LLM options for the fallback
+ * @returns Queued proposal, the pending one if the recipe already has one, or null if nothing could be repaired
+ */
+export async function proposeRepair(
+  recipe: Recipe,
+  url: string,
+  html: string,
+  drift: DriftReport,
+  runs: RecipeRun[],
+  baseline: Record<string, FieldBaseline>,
+  llm: Pick<CompileOptions, 'provider' | 'model' | 'workspaceId'> = {}
+): Promise<RepairProposal | null> {
+  // One proposal per recipe version is enough to review
+  const [pending] = await listRepairProposals(recipe.workspaceId, { recipeId: recipe.id, status: 'pending' });
+  if (pending && pending.recipeVersion === recipe.version) {
+    return pending;
+  }
+  
+  const driftedFields = drift.fields.map(field => field.field);
+  const fromExamples = repairFromExamples(
+    html,
+    gatherExamples(runs, driftedFields),
+    baseline
+  );
+  const sources: Record<string, 'examples' | 'llm'> = {};
+  const repaired: Record<string, string> = {};
+  
+  for (const [field, selector] of Object.entries(fromExamples)) {
+    if (selector !== recipe.selectors[field]) {
+      repaired[field] = selector;
+      sources[field] = 'examples';
+    }
+  }
+  
+  const remaining = driftedFields.filter(field => !(field in fromExamples));
+  if (remaining.length > 0) {
+    console.log(`Asking the model to repair selectors of recipe ${recipe.id}: ${remaining.join(', ')}`);
+    
+    try {
+      const compiled = await compileSelectors(html, recipe.instructions, {
+        ...llm,
+        previousSelectors: recipe.selectors,
+        fields: remaining,
+      });
+      
+      for (const field of remaining) {
+        if (compiled.selectors[field] && compiled.selectors[field] !== recipe.selectors[field]) {
+          repaired[field] = compiled.selectors[field];
+          sources[field] = 'llm';
+        }
+      }
+    } catch (error) {
+      // Fields the model cannot fix stay as they are; a partial repair is still worth reviewing
+      if (!(error instanceof SelectorCompilationError) && Object.keys(repaired).length === 0) {
+        throw error;
+      }
+      console.warn(`Model could not repair ${remaining.join(', ')} for recipe ${recipe.id}:`, (error as Error).message);
+    }
+  }
+  
+  if (Object.keys(repaired).length === 0) {
+    return null;
+  }
+  
+  return saveRepairProposal({
+    recipeId: recipe.id,
+    workspaceId: recipe.workspaceId,
+    recipeVersion: recipe.version,
+    url,
+    drift,
+    sources,
+    before: previewSelectors(html, recipe.selectors),
+    after: previewSelectors(html, { ...recipe.selectors, ...repaired }),
+  });
+}
+
+/**
+ * Approve or reject a pending repair proposal; approving applies its selectors to the recipe
+ * @param id Proposal ID
+ * @param workspaceId Workspace the proposal must belong to
+ * @param action Review decision
+ * @param reviewedBy ID of the reviewing user
+ * @returns Reviewed proposal and the recipe as it stands afterwards
+ * @throws RepairReviewError if the proposal is missing, already reviewed or stale
+ */
+export async function reviewRepair(
+  id: string,
+  workspaceId: string,
+  action: 'approve' | 'reject',
+  reviewedBy?: string
+): Promise<{ proposal: RepairProposal; recipe: Recipe | null }> {
+  const proposal = await getRepairProposal(id, workspaceId);
+  
+  if (!proposal) {
+    throw new RepairReviewError('Repair proposal not found', 404);
+  }
+  
+  if (proposal.status !== 'pending') {
+    throw new RepairReviewError(`Repair proposal was already ${proposal.status}`, 409);
+  }
+  
+  const recipe = await getRecipe(proposal.recipeId, workspaceId);
+  
+  if (action === 'reject') {
+    const rejected = await reviewRepairProposal(id, 'rejected', reviewedBy);
+    return { proposal: rejected!, recipe };
+  }
+  
+  if (!recipe) {
+    throw new RepairReviewError('Recipe no longer exists', 404);
+  }
+  
+  // The recipe changed since the proposal was made, so its before preview no longer holds
+  if (recipe.version !== proposal.recipeVersion) {
+    throw new RepairReviewError(`Recipe is at version ${recipe.version}, but the proposal was made against version ${proposal.recipeVersion}`, 409);
+  }
+  
+  const updated = await updateRecipe(recipe.id, { selectors: proposal.after.selectors });
+  const approved = await reviewRepairProposal(id, 'approved', reviewedBy);
+  
+  return { proposal: approved!, recipe: updated };
+}
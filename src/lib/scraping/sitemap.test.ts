@@ -0,0 +1,110 @@
+// src/lib/scraping/sitemap.test.ts
+import { gzipSync } from 'zlib';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { safeFetch } from '@/lib/security/networkGuard';
+import { MAX_SITEMAP_BYTES, getSitemapEntries, parseSitemap } from './sitemap';
+
+vi.mock('@/lib/security/networkGuard', async importOriginal => ({
+  ...(await importOriginal<typeof import('@/lib/security/networkGuard')>()),
+  safeFetch: vi.fn(),
+}));
+
+/**
+ * Build a urlset sitemap
+ * @param entries URL and lastmod of each entry
+ * @returns Sitemap XML
+ */
+function urlset(entries: [string, string?][]): string {
+  const urls = entries.map(([loc, lastmod]) => `<url><loc>${loc}</loc>${lastmod ? `<lastmod>${lastmod}</lastmod>` : ''}</url>`);
+  return `<?xml version="1.0"?><urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">${urls.join('')}</urlset>`;
+}
+
+/**
+ * Serve fixed responses by URL; anything else is a 404
+ * @param routes Response body factories by URL
+ */
+function serve(routes: Record<string, () => Response>) {
+  vi.mocked(safeFetch).mockImplementation(async url => routes[url]?.() ?? new Response('', { status: 404 }));
+}
+
+describe('parseSitemap', () => {
+  it('reads entries and child sitemaps', () => {
+    const xml = '<urlset><url><loc> https://example.com/a </loc><lastmod>2024-01-02</lastmod><priority>0.8</priority></url><url><loc></loc></url></urlset>';
+    
+    expect(parseSitemap(xml, 'https://example.com/sitemap.xml').entries).toEqual([
+      { loc: 'https://example.com/a', lastmod: '2024-01-02', changefreq: undefined, priority: 0.8, sitemap: 'https://example.com/sitemap.xml' },
+    ]);
+    expect(parseSitemap('<sitemapindex><sitemap><loc>https://example.com/1.xml</loc></sitemap></sitemapindex>', 'x').sitemaps)
+      .toEqual(['https://example.com/1.xml']);
+  });
+});
+
+describe('getSitemapEntries', () => {
+  afterEach(() => {
+    vi.mocked(safeFetch).mockReset();
+    vi.restoreAllMocks();
+  });
+  
+  it('discovers sitemaps through robots.txt and expands indexes', async () => {
+    serve({
+      'https://site.example/robots.txt': () => new Response('Sitemap: https://site.example/index.xml'),
+      'https://site.example/index.xml': () => new Response('<sitemapindex><sitemap><loc>https://site.example/posts.xml.gz</loc></sitemap></sitemapindex>'),
+      'https://site.example/posts.xml.gz': () => new Response(gzipSync(urlset([['https://site.example/post-1'], ['https://site.example/post-2']]))),
+    });
+    
+    const result = await getSitemapEntries('https://site.example/');
+    
+    expect(result.sitemaps).toEqual(['https://site.example/index.xml', 'https://site.example/posts.xml.gz']);
+    expect(result.entries.map(entry => entry.loc)).toEqual(['https://site.example/post-1', 'https://site.example/post-2']);
+  });
+  
+  it('filters by pattern and lastmod and stops at the limit', async () => {
+    serve({
+      'https://site.example/sitemap.xml': () => new Response(urlset([
+        ['https://site.example/blog/old', '2023-01-01'],
+        ['https://site.example/blog/new', '2024-06-01'],
+        ['https://site.example/blog/newer', '2024-07-01'],
+        ['https://site.example/shop/item', '2024-06-01'],
+        ['https://site.example/blog/undated'],
+      ])),
+    });
+    
+    const result = await getSitemapEntries('https://site.example/', {
+      sitemapUrl: 'https://site.example/sitemap.xml',
+      include: ['/blog/'],
+      lastmodFrom: '2024-01-01',
+      limit: 1,
+    });
+    
+    expect(result.entries.map(entry => entry.loc)).toEqual(['https://site.example/blog/new']);
+  });
+  
+  it('skips gzipped sitemaps that expand past the size limit', async () => {
+    const bomb = gzipSync(Buffer.alloc(MAX_SITEMAP_BYTES + 1));
+    serve({ 'https://site.example/bomb.xml.gz': () => new Response(bomb) });
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    
+    const result = await getSitemapEntries('https://site.example/', { sitemapUrl: 'https://site.example/bomb.xml.gz' });
+    
+    expect(result.entries).toEqual([]);
+    expect(console.error).toHaveBeenCalledWith('Error fetching sitemap https://site.example/bomb.xml.gz:', expect.any(RangeError));
+  });
+  
+  it('stops downloading sitemaps past the size limit', async () => {
+    const chunk = new Uint8Array(1024 * 1024);
+    let sent = 0;
+    const endless = new ReadableStream<Uint8Array>({
+      pull(controller) {
+        sent += chunk.byteLength;
+        controller.enqueue(chunk);
+      },
+    });
+    serve({ 'https://site.example/huge.xml': () => new Response(endless) });
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    
+    const result = await getSitemapEntries('https://site.example/', { sitemapUrl: 'https://site.example/huge.xml' });
+    
+    expect(result.entries).toEqual([]);
+    expect(sent).toBeLessThanOrEqual(MAX_SITEMAP_BYTES + 2 * chunk.byteLength);
+  });
+});
@@ -0,0 +1,286 @@
+// src/lib/scraping/sitemap.ts
+import * as cheerio from 'cheerio';
+import { gunzipSync } from 'zlib';
+import { z } from 'zod';
+import { getRobotsTxt, getRobotsUserAgent } from './robots';
+import { safeFetch } from '@/lib/security/networkGuard';
+import { safePatternSchema } from '@/lib/security/patterns';
+
+const STANDARD_SITEMAP_PATHS = ['/sitemap.xml', '/sitemap_index.xml', '/sitemap-index.xml'];
+
+/**
+ * Interface for a single sitemap URL entry
+ */
+export interface SitemapEntry {
+  loc: string;
+  lastmod?: string;
+  changefreq?: string;
+  priority?: number;
+  sitemap: string;
+}
+
+/**
+ * Interface for sitemap filter options
+ */
+export interface SitemapOptions {
+  sitemapUrl?: string;
+  include?: string[];
+  exclude?: string[];
+  lastmodFrom?: string;
+  lastmodTo?: string;
+  limit?: number;
+  maxSitemaps?: number;
+}
+
+// Limits on sitemap reads requested through the API
+export const MAX_SITEMAP_ENTRIES = 10000;
+export const MAX_SITEMAP_FILES = 50;
+
+// Largest sitemap read, compressed or not; the sitemap protocol allows 50 MB uncompressed
+export const MAX_SITEMAP_BYTES = 50 * 1024 * 1024;
+
+// Sitemaps must download within this time
+const SITEMAP_TIMEOUT_MS = 30000;
+
+/**
+ * Schema for sitemap options sent by an API client
+ */
+export const sitemapOptionsSchema = z.object({
+  sitemapUrl: z.string().url().optional(),
+  include: z.array(safePatternSchema).max(20).optional(),
+  exclude: z.array(safePatternSchema).max(20).optional(),
+  lastmodFrom: z.string().optional(),
+  lastmodTo: z.string().optional(),
+  limit: z.number().int().positive().max(MAX_SITEMAP_ENTRIES).optional(),
+  maxSitemaps: z.number().int().positive().max(MAX_SITEMAP_FILES).optional(),
+});
+
+/**
+ * Interface for a parsed sitemap document
+ */
+interface ParsedSitemap {
+  sitemaps: string[];
+  entries: SitemapEntry[];
+}
+
+/**
+ * Read a response body, giving up once it grows past a size
+ * @param response Response to read
+ * @param maxBytes Largest body accepted
+ * @returns Body bytes
+ * @throws Error if the body is larger than maxBytes
+ */
+async function readLimitedBody(response: Response, maxBytes: number): Promise<Buffer> {
+  const tooLarge = () => new Error(`Sitemap is larger than ${maxBytes} bytes`);
+  
+  if (Number(response.headers.get('content-length')) > maxBytes) {
+    await response.body?.cancel();
+    throw tooLarge();
+  }
+  if (!response.body) {
+    return Buffer.alloc(0);
+  }
+  
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) {
+      break;
+    }
+    size += value.byteLength;
+    if (size > maxBytes) {
+      await reader.cancel();
+      throw tooLarge();
+    }
+    chunks.push(value);
+  }
+  
+  return Buffer.concat(chunks);
+}
+
+/**
+ * Fetch a sitemap, transparently gunzipping compressed sitemaps
+ * Downloads and decompressed output are capped at MAX_SITEMAP_BYTES, so a gzip bomb fails
+ * instead of filling memory
+ * @param url Sitemap URL
+ * @returns Sitemap XML or null if it does not exist
+ * @throws Error if the sitemap is too large or does not download in time
+ */
+async function fetchSitemapXml(url: string): Promise<string | null> {
+  const response = await safeFetch(url, {
+    headers: { 'User-Agent': getRobotsUserAgent() },
+    signal: AbortSignal.timeout(SITEMAP_TIMEOUT_MS),
+  });
+  
+  if (!response.ok) {
+    await response.body?.cancel();
+    return null;
+  }
+  
+  const buffer = await readLimitedBody(response, MAX_SITEMAP_BYTES);
+  
+  // Gzip magic bytes, whatever the extension or content type says
+  if (buffer[0] === 0x1f && buffer[1] === 0x8b) {
+    return gunzipSync(buffer, { maxOutputLength: MAX_SITEMAP_BYTES }).toString('utf-8');
+  }
+  
+  return buffer.toString('utf-8');
+}
+
+/**
+ * Parse a sitemap or sitemap index document
+ * @param xml Sitemap XML
+ * @param sitemapUrl URL the sitemap was fetched from
+ * @returns Child sitemaps and URL entries
+ */
+export function parseSitemap(xml: string, sitemapUrl: string): ParsedSitemap {
+  const $ = cheerio.load(xml, { xmlMode: true });
+  
+  const sitemaps = $('sitemapindex > sitemap > loc')
+    .map((i, el) => $(el).text().trim())
+    .get()
+    .filter(Boolean);
+  
+  const entries = $('urlset > url')
+    .map((i, el) => {
+      const priority = parseFloat($(el).children('priority').text());
+      return {
+        loc: $(el).children('loc').text().trim(),
+        lastmod: $(el).children('lastmod').text().trim() || undefined,
+        changefreq: $(el).children('changefreq').text().trim() || undefined,
+        priority: isNaN(priority) ? undefined : priority,
+        sitemap: sitemapUrl,
+      };
+    })
+    .get()
+    .filter((entry: SitemapEntry) => entry.loc);
+  
+  return { sitemaps, entries };
+}
+
+/**
+ * Find sitemaps for a site through robots.txt and the standard locations
+ * @param siteUrl Any URL on the site
+ * @returns Sitemap URLs
+ */
+export async function discoverSitemaps(siteUrl: string): Promise<string[]> {
+  const { origin } = new URL(siteUrl);
+  const robots = await getRobotsTxt(origin);
+  
+  if (robots.sitemaps.length > 0) {
+    return Array.from(new Set(robots.sitemaps));
+  }
+  
+  // Fall back to probing the conventional paths
+  const found: string[] = [];
+  for (const path of STANDARD_SITEMAP_PATHS) {
+    try {
+      const response = await safeFetch(`${origin}${path}`, {
+        method: 'HEAD',
+        headers: { 'User-Agent': getRobotsUserAgent() },
+      });
+      if (response.ok) {
+        found.push(`${origin}${path}`);
+      }
+    } catch (error) {
+      console.error(`Error probing sitemap ${origin}${path}:`, error);
+    }
+  }
+  
+  return found;
+}
+
+/**
+ * Check whether an entry passes the URL pattern and lastmod filters
+ * @param entry Sitemap entry
+ * @param options Filter options
+ * @returns Whether the entry should be kept
+ */
+function matchesFilters(entry: SitemapEntry, options: SitemapOptions): boolean {
+  if (options.include && options.include.length > 0) {
+    if (!options.include.some(pattern => new RegExp(pattern).test(entry.loc))) {
+      return false;
+    }
+  }
+  
+  if (options.exclude && options.exclude.some(pattern => new RegExp(pattern).test(entry.loc))) {
+    return false;
+  }
+  
+  if (options.lastmodFrom || options.lastmodTo) {
+    // Entries without lastmod cannot be placed in a date range
+    const lastmod = entry.lastmod ? Date.parse(entry.lastmod) : NaN;
+    if (isNaN(lastmod)) {
+      return false;
+    }
+    if (options.lastmodFrom && lastmod < Date.parse(options.lastmodFrom)) {
+      return false;
+    }
+    if (options.lastmodTo && lastmod > Date.parse(options.lastmodTo)) {
+      return false;
+    }
+  }
+  
+  return true;
+}
+
+/**
+ * Collect URL entries from a site's sitemaps, expanding sitemap indexes
+ * @param siteUrl Any URL on the site
+ * @param options Sitemap filter options
+ * @returns Sitemaps read and the matching URL entries
+ */
+export async function getSitemapEntries(siteUrl: string, options: SitemapOptions = {}) {
+  const { limit = 1000, maxSitemaps = 50 } = options;
+  
+  try {
+    const queue = options.sitemapUrl ? [options.sitemapUrl] : await discoverSitemaps(siteUrl);
+    const visited = new Set<string>();
+    const entries: SitemapEntry[] = [];
+    const seenLocs = new Set<string>();
+    
+    while (queue.length > 0 && visited.size < maxSitemaps && entries.length < limit) {
+      const sitemapUrl = queue.shift()!;
+      if (visited.has(sitemapUrl)) {
+        continue;
+      }
+      visited.add(sitemapUrl);
+      
+      let xml: string | null;
+      try {
+        xml = await fetchSitemapXml(sitemapUrl);
+      } catch (error) {
+        console.error(`Error fetching sitemap ${sitemapUrl}:`, error);
+        continue;
+      }
+      if (!xml) {
+        continue;
+      }
+      
+      const parsed = parseSitemap(xml, sitemapUrl);
+      queue.push(...parsed.sitemaps);
+      
+      for (const entry of parsed.entries) {
+        if (seenLocs.has(entry.loc) || !matchesFilters(entry, options)) {
+          continue;
+        }
+        seenLocs.add(entry.loc);
+        entries.push(entry);
+        if (entries.length >= limit) {
+          break;
+        }
+      }
+    }
+    
+    return {
+      sitemaps: Array.from(visited),
+      entries,
+    };
+  } catch (error) {
+    console.error('Error reading sitemaps:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,125 @@
+// src/lib/security/domainRules.test.ts
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+  addDomainRule,
+  domainRuleInputSchema,
+  evaluateUrl,
+  matchesDomainRule,
+  removeDomainRule,
+  type DomainRule,
+  type DomainRuleInput,
+} from './domainRules';
+
+/**
+ * Build a stored rule for matching
+ * @param type Rule type
+ * @param pattern Rule pattern
+ * @returns Rule
+ */
+function rule(type: DomainRule['type'], pattern: string): DomainRule {
+  return { id: pattern, workspaceId: 'test', type, pattern, action: 'allow', source: 'admin', createdAt: '' };
+}
+
+describe('domainRuleInputSchema', () => {
+  it.each<[DomainRuleInput['type'], string]>([
+    ['exact', 'example.com'],
+    ['suffix', '*.example.com'],
+    ['pathPrefix', 'example.com/docs'],
+    ['regex', '^https://example\\.com/(blog|news)/'],
+  ])('accepts a %s rule', (type, pattern) => {
+    expect(domainRuleInputSchema.safeParse({ type, pattern, action: 'allow' }).success).toBe(true);
+  });
+  
+  it.each<[DomainRuleInput['type'], string]>([
+    ['exact', 'https://example.com'],
+    ['suffix', 'example.com'],
+    ['pathPrefix', '/docs'],
+    ['regex', '(unclosed'],
+  ])('rejects a %s rule with pattern %s', (type, pattern) => {
+    expect(domainRuleInputSchema.safeParse({ type, pattern, action: 'block' }).success).toBe(false);
+  });
+  
+  it('rejects regexes that can backtrack for a long time', () => {
+    const parsed = domainRuleInputSchema.safeParse({ type: 'regex', pattern: '^(a+)+$', action: 'block' });
+    
+    expect(parsed.success).toBe(false);
+    expect(parsed.error?.issues[0]).toMatchObject({ path: ['pattern'], message: expect.stringContaining('Repeated groups') });
+  });
+});
+
+describe('matchesDomainRule', () => {
+  it('matches exact hosts only, ignoring a trailing dot', () => {
+    expect(matchesDomainRule(rule('exact', 'example.com'), new URL('https://EXAMPLE.com./a'))).toBe(true);
+    expect(matchesDomainRule(rule('exact', 'example.com'), new URL('https://www.example.com/'))).toBe(false);
+  });
+  
+  it('matches suffixes on label boundaries', () => {
+    const suffix = rule('suffix', '*.example.com');
+    
+    expect(matchesDomainRule(suffix, new URL('https://example.com/'))).toBe(true);
+    expect(matchesDomainRule(suffix, new URL('https://a.b.example.com/'))).toBe(true);
+    expect(matchesDomainRule(suffix, new URL('https://notexample.com/'))).toBe(false);
+    expect(matchesDomainRule(suffix, new URL('https://example.com.evil.net/'))).toBe(false);
+  });
+  
+  it('matches path prefixes on segment boundaries', () => {
+    const prefix = rule('pathPrefix', 'example.com/docs');
+    
+    expect(matchesDomainRule(prefix, new URL('https://example.com/docs'))).toBe(true);
+    expect(matchesDomainRule(prefix, new URL('https://example.com/docs/api?x=1'))).toBe(true);
+    expect(matchesDomainRule(prefix, new URL('https://example.com/docsearch'))).toBe(false);
+    expect(matchesDomainRule(prefix, new URL('https://other.com/docs'))).toBe(false);
+  });
+  
+  it('tests regexes against the full URL', () => {
+    expect(matchesDomainRule(rule('regex', '\\?page=\\d+$'), new URL('https://example.com/list?page=2'))).toBe(true);
+  });
+});
+
+describe('evaluateUrl', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+  
+  it('allows everything without rules', () => {
+    expect(evaluateUrl('https://example.com/', 'empty')).toMatchObject({ allowed: true, scope: undefined });
+  });
+  
+  it('refuses invalid URLs', () => {
+    expect(evaluateUrl('not a url', 'empty')).toMatchObject({ allowed: false, reason: 'Invalid URL' });
+  });
+  
+  it('applies global rules from the environment to every workspace', () => {
+    vi.stubEnv('BLOCKED_DOMAINS', 'evil.com, example.com/private');
+    
+    expect(evaluateUrl('https://cdn.evil.com/', 'any')).toMatchObject({ allowed: false, scope: 'global' });
+    expect(evaluateUrl('https://example.com/private/page', 'any')).toMatchObject({ allowed: false, scope: 'global' });
+    expect(evaluateUrl('https://example.com/public', 'any').allowed).toBe(true);
+  });
+  
+  it('requires a matching allow rule once a workspace has one', () => {
+    const allow = addDomainRule('allowlisted', { type: 'suffix', pattern: '*.Example.com', action: 'allow' });
+    
+    expect(allow.pattern).toBe('*.example.com');
+    expect(evaluateUrl('https://docs.example.com/', 'allowlisted')).toMatchObject({ allowed: true, rule: allow, scope: 'workspace' });
+    expect(evaluateUrl('https://other.com/', 'allowlisted')).toMatchObject({ allowed: false, reason: 'No allow rule matches this URL' });
+    expect(evaluateUrl('https://other.com/', 'elsewhere').allowed).toBe(true);
+    
+    expect(removeDomainRule('allowlisted', allow.id)).toBe(true);
+    expect(evaluateUrl('https://other.com/', 'allowlisted').allowed).toBe(true);
+  });
+  
+  it('lets block rules win over allow rules', () => {
+    addDomainRule('mixed', { type: 'suffix', pattern: '*.example.com', action: 'allow' });
+    const block = addDomainRule('mixed', { type: 'exact', pattern: 'admin.example.com', action: 'block' });
+    
+    expect(evaluateUrl('https://admin.example.com/', 'mixed')).toMatchObject({ allowed: false, rule: block });
+  });
+  
+  it('does not let workspace rules allow what global rules block', () => {
+    vi.stubEnv('BLOCKED_DOMAINS', 'evil.com');
+    addDomainRule('override', { type: 'exact', pattern: 'evil.com', action: 'allow' });
+    
+    expect(evaluateUrl('https://evil.com/', 'override')).toMatchObject({ allowed: false, scope: 'global' });
+  });
+});
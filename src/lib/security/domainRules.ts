@@ -0,0 +1,265 @@
+// src/lib/security/domainRules.ts
+import crypto from 'crypto';
+import { z } from 'zod';
+import { DEFAULT_WORKSPACE_ID } from '@/lib/auth/workspace';
+import { findUnsafePattern } from './patterns';
+
+export const DOMAIN_RULE_TYPES = ['exact', 'suffix', 'pathPrefix', 'regex'] as const;
+export const DOMAIN_RULE_ACTIONS = ['allow', 'block'] as const;
+
+export type DomainRuleType = typeof DOMAIN_RULE_TYPES[number];
+export type DomainRuleAction = typeof DOMAIN_RULE_ACTIONS[number];
+
+const HOSTNAME_PATTERN = /^[a-z0-9]([a-z0-9-]*[a-z0-9])?(\.[a-z0-9]([a-z0-9-]*[a-z0-9])?)*$/;
+
+/**
+ * Schema for a rule submitted through the admin API
+ *
+ * Patterns by type:
+ * - exact: `example.com` matches that host only
+ * - suffix: `*.example.com` matches example.com and any subdomain of it
+ * - pathPrefix: `example.com/docs` matches /docs and everything below it on that host
+ * - regex: tested against the full URL; patterns that can backtrack for a long time are refused
+ */
+export const domainRuleInputSchema = z.object({
+  type: z.enum(DOMAIN_RULE_TYPES),
+  pattern: z.string().trim().min(1).max(500),
+  action: z.enum(DOMAIN_RULE_ACTIONS),
+  description: z.string().max(200).optional(),
+}).superRefine((rule, ctx) => {
+  const pattern = rule.pattern.toLowerCase();
+  let valid = true;
+  let problem: string | null = null;
+  
+  switch (rule.type) {
+    case 'exact':
+      valid = HOSTNAME_PATTERN.test(pattern);
+      break;
+    case 'suffix':
+      valid = pattern.startsWith('*.') && HOSTNAME_PATTERN.test(pattern.slice(2));
+      break;
+    case 'pathPrefix': {
+      const slash = pattern.indexOf('/');
+      valid = slash > 0 && HOSTNAME_PATTERN.test(pattern.slice(0, slash));
+      break;
+    }
+    case 'regex':
+      // Every scrape in the workspace runs the pattern, so it must be safe as well as valid
+      problem = findUnsafePattern(rule.pattern);
+      valid = !problem;
+      break;
+  }
+  
+  if (!valid) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['pattern'],
+      message: `Invalid pattern for a ${rule.type} rule${problem ? `: ${problem}` : ''}`,
+    });
+  }
+});
+
+export type DomainRuleInput = z.infer<typeof domainRuleInputSchema>;
+
+/**
+ * Interface for a stored domain rule
+ */
+export interface DomainRule extends DomainRuleInput {
+  id: string;
+  workspaceId: string;
+  // Rules from environment variables apply to every workspace and cannot be removed through the API
+  source: 'env' | 'admin';
+  createdBy?: string;
+  createdAt: string;
+}
+
+/**
+ * Interface for the outcome of checking a URL against the rules
+ */
+export interface DomainRuleEvaluation {
+  url: string;
+  workspaceId: string;
+  allowed: boolean;
+  rule?: DomainRule;
+  scope?: 'global' | 'workspace';
+  reason: string;
+}
+
+// In-memory store for rules per workspace (would be a database in production)
+const workspaceRules = new Map<string, DomainRule[]>();
+
+/**
+ * Build rules from a comma-separated environment variable
+ * @param value Environment variable value
+ * @param action Action for every rule
+ * @returns Rules
+ */
+function parseEnvRules(value: string | undefined, action: DomainRuleAction): DomainRule[] {
+  return (value || '')
+    .split(',')
+    .map(entry => entry.trim().toLowerCase())
+    .filter(Boolean)
+    .map((entry): DomainRule => {
+      // Plain domains cover their subdomains, as the env lists always have
+      const type: DomainRuleType = entry.includes('/') ? 'pathPrefix' : 'suffix';
+      const pattern = type === 'suffix' && !entry.startsWith('*.') ? `*.${entry}` : entry;
+      return {
+        id: `env:${action}:${pattern}`,
+        workspaceId: DEFAULT_WORKSPACE_ID,
+        type,
+        pattern,
+        action,
+        source: 'env',
+        createdAt: new Date(0).toISOString(),
+      };
+    });
+}
+
+/**
+ * Get the global rules seeded from ALLOWED_DOMAINS and BLOCKED_DOMAINS
+ * @returns Global rules
+ */
+export function getGlobalDomainRules(): DomainRule[] {
+  return [
+    ...parseEnvRules(process.env.ALLOWED_DOMAINS, 'allow'),
+    ...parseEnvRules(process.env.BLOCKED_DOMAINS, 'block'),
+  ];
+}
+
+/**
+ * Get the rules managed for a workspace
+ * @param workspaceId Workspace ID
+ * @returns Workspace rules
+ */
+export function getDomainRules(workspaceId: string): DomainRule[] {
+  return workspaceRules.get(workspaceId) || [];
+}
+
+/**
+ * Add a rule to a workspace
+ * @param workspaceId Workspace ID
+ * @param input Validated rule input
+ * @param createdBy Email of the admin adding the rule
+ * @returns Saved rule
+ */
+export function addDomainRule(workspaceId: string, input: DomainRuleInput, createdBy?: string): DomainRule {
+  const rule: DomainRule = {
+    ...input,
+    // Regexes keep their case, host patterns are case-insensitive
+    pattern: input.type === 'regex' ? input.pattern : input.pattern.toLowerCase(),
+    id: crypto.randomUUID(),
+    workspaceId,
+    source: 'admin',
+    createdBy,
+    createdAt: new Date().toISOString(),
+  };
+  
+  workspaceRules.set(workspaceId, [...getDomainRules(workspaceId), rule]);
+  return rule;
+}
+
+/**
+ * Remove a rule from a workspace
+ * @param workspaceId Workspace ID
+ * @param id Rule ID
+ * @returns Whether a rule was removed
+ */
+export function removeDomainRule(workspaceId: string, id: string): boolean {
+  const rules = getDomainRules(workspaceId);
+  const remaining = rules.filter(rule => rule.id !== id);
+  workspaceRules.set(workspaceId, remaining);
+  return remaining.length !== rules.length;
+}
+
+/**
+ * Check whether a rule matches a URL
+ * @param rule Domain rule
+ * @param url Parsed URL
+ * @returns Whether the rule matches
+ */
+export function matchesDomainRule(rule: DomainRule, url: URL): boolean {
+  const hostname = url.hostname.toLowerCase().replace(/\.$/, '');
+  
+  switch (rule.type) {
+    case 'exact':
+      return hostname === rule.pattern;
+    case 'suffix': {
+      // Match on label boundaries so *.evil.com never matches notevil.com
+      const domain = rule.pattern.slice(2);
+      return hostname === domain || hostname.endsWith(`.${domain}`);
+    }
+    case 'pathPrefix': {
+      const slash = rule.pattern.indexOf('/');
+      const prefix = rule.pattern.slice(slash).replace(/\/$/, '');
+      const pathname = url.pathname.toLowerCase();
+      return (
+        hostname === rule.pattern.slice(0, slash) &&
+        (prefix === '' || pathname === prefix || pathname.startsWith(`${prefix}/`))
+      );
+    }
+    case 'regex':
+      return new RegExp(rule.pattern).test(url.toString());
+    default:
+      return false;
+  }
+}
+
+/**
+ * Evaluate one set of rules: a matching block rule wins, and if any allow rules exist one of them must match
+ * @param rules Rules to evaluate
+ * @param url Parsed URL
+ * @returns Whether the URL is allowed, the deciding rule and an explanation
+ */
+function evaluateRuleSet(rules: DomainRule[], url: URL): Pick<DomainRuleEvaluation, 'allowed' | 'rule' | 'reason'> {
+  const blockRule = rules.find(rule => rule.action === 'block' && matchesDomainRule(rule, url));
+  if (blockRule) {
+    return {
+      allowed: false,
+      rule: blockRule,
+      reason: `Blocked by ${blockRule.type} rule "${blockRule.pattern}"`,
+    };
+  }
+  
+  const allowRules = rules.filter(rule => rule.action === 'allow');
+  if (allowRules.length === 0) {
+    return { allowed: true, reason: 'No rule blocks this URL' };
+  }
+  
+  const allowRule = allowRules.find(rule => matchesDomainRule(rule, url));
+  if (allowRule) {
+    return {
+      allowed: true,
+      rule: allowRule,
+      reason: `Allowed by ${allowRule.type} rule "${allowRule.pattern}"`,
+    };
+  }
+  
+  return { allowed: false, reason: 'No allow rule matches this URL' };
+}
+
+/**
+ * Check a URL against the global rules and then the workspace rules; both must allow it
+ * @param url URL to check
+ * @param workspaceId Workspace ID
+ * @returns Evaluation explaining which rule decided
+ */
+export function evaluateUrl(url: string, workspaceId = DEFAULT_WORKSPACE_ID): DomainRuleEvaluation {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return { url, workspaceId, allowed: false, reason: 'Invalid URL' };
+  }
+  
+  const global = evaluateRuleSet(getGlobalDomainRules(), parsed);
+  if (!global.allowed) {
+    return { url, workspaceId, ...global, scope: 'global' };
+  }
+  
+  const workspace = evaluateRuleSet(getDomainRules(workspaceId), parsed);
+  if (!workspace.allowed || workspace.rule) {
+    return { url, workspaceId, ...workspace, scope: 'workspace' };
+  }
+  
+  return { url, workspaceId, ...global, scope: global.rule ? 'global' : undefined };
+}
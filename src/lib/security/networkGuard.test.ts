@@ -0,0 +1,119 @@
+// src/lib/security/networkGuard.test.ts
+import { promises as dns } from 'dns';
+import { createServer, type Server } from 'http';
+import type { AddressInfo } from 'net';
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import { SsrfBlockedError, assertPublicUrl, isInternalAddress, safeFetch } from './networkGuard';
+
+/**
+ * Make DNS lookups return fixed addresses, one list per call, repeating the last one
+ * @param answers Address lists in call order
+ */
+function resolveTo(...answers: string[][]) {
+  let call = 0;
+  vi.spyOn(dns, 'lookup').mockImplementation((async () => {
+    const addresses = answers[Math.min(call++, answers.length - 1)];
+    return addresses.map(address => ({ address, family: address.includes(':') ? 6 : 4 }));
+  }) as any);
+}
+
+describe('isInternalAddress', () => {
+  it.each([
+    '127.0.0.1',
+    '10.1.2.3',
+    '172.31.255.255',
+    '192.168.0.1',
+    '169.254.169.254',
+    '100.64.0.1',
+    '0.0.0.0',
+    '::',
+    '::1',
+    '::ffff:127.0.0.1',
+    '::ffff:7f00:1',
+    '64:ff9b::10.0.0.1',
+    'fd00::1',
+    'fe80::1%eth0',
+    'not an address',
+  ])('blocks %s', ip => {
+    expect(isInternalAddress(ip)).toBe(true);
+  });
+  
+  it.each(['93.184.216.34', '172.32.0.1', '100.128.0.1', '2606:4700::1', '::ffff:93.184.216.34'])('allows %s', ip => {
+    expect(isInternalAddress(ip)).toBe(false);
+  });
+});
+
+describe('assertPublicUrl', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+  
+  it('rejects schemes other than http and https', async () => {
+    await expect(assertPublicUrl('file:///etc/passwd')).rejects.toThrow(SsrfBlockedError);
+    await expect(assertPublicUrl('gopher://example.com/')).rejects.toThrow(SsrfBlockedError);
+  });
+  
+  it('rejects internal IP literals', async () => {
+    await expect(assertPublicUrl('http://[::1]:8080/')).rejects.toThrow('is internal');
+    await expect(assertPublicUrl('http://169.254.169.254/latest/meta-data')).rejects.toThrow('is internal');
+  });
+  
+  it('rejects hostnames with any internal address', async () => {
+    resolveTo(['93.184.216.34', '10.0.0.5']);
+    
+    await expect(assertPublicUrl('https://mixed.example/')).rejects.toThrow('resolves to internal address 10.0.0.5');
+  });
+  
+  it('accepts hostnames with only public addresses', async () => {
+    resolveTo(['93.184.216.34']);
+    
+    await expect(assertPublicUrl('https://public.example/')).resolves.toBeUndefined();
+  });
+});
+
+describe('safeFetch', () => {
+  let server: Server;
+  let port: number;
+  
+  beforeAll(async () => {
+    server = createServer((request, response) => {
+      response.end('ok');
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    port = (server.address() as AddressInfo).port;
+  });
+  
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+  
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.unstubAllEnvs();
+    vi.unstubAllGlobals();
+  });
+  
+  it('refuses hostnames that rebind to an internal address before connecting', async () => {
+    // The first lookup passes the check, the connection's own lookup gets a loopback address
+    resolveTo(['93.184.216.34'], ['127.0.0.1']);
+    
+    await expect(safeFetch(`http://rebind.example:${port}/`)).rejects.toThrow(SsrfBlockedError);
+  });
+  
+  it('connects to private addresses when the guard is disabled', async () => {
+    vi.stubEnv('ALLOW_PRIVATE_NETWORK_SCRAPING', 'true');
+    resolveTo(['127.0.0.1']);
+    
+    const response = await safeFetch(`http://local.example:${port}/`);
+    expect(await response.text()).toBe('ok');
+  });
+  
+  it('checks every redirect hop', async () => {
+    resolveTo(['93.184.216.34']);
+    const fetchMock = vi.fn(async () => new Response(null, { status: 302, headers: { Location: 'http://169.254.169.254/latest/meta-data' } }));
+    vi.stubGlobal('fetch', fetchMock);
+    
+    await expect(safeFetch('https://public.example/')).rejects.toThrow('address 169.254.169.254 is internal');
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,290 @@
+// src/lib/security/networkGuard.ts
+import { promises as dns, type LookupAddress } from 'dns';
+import { isIP } from 'net';
+import type { Page, ContinueRequestOverrides, HTTPRequest } from 'puppeteer';
+import { Agent } from 'undici';
+
+/**
+ * Error raised when an outgoing request targets a forbidden address or scheme
+ */
+export class SsrfBlockedError extends Error {
+  constructor(public url: string, public reason: string) {
+    super(`Request to ${url} blocked: ${reason}`);
+    this.name = 'SsrfBlockedError';
+  }
+}
+
+/**
+ * Check whether private network targets are explicitly allowed (local development only)
+ * @returns Whether the guard is disabled
+ */
+function isGuardDisabled(): boolean {
+  return process.env.ALLOW_PRIVATE_NETWORK_SCRAPING === 'true';
+}
+
+/**
+ * Parse an IPv4 address into a 32-bit number
+ * @param ip IPv4 address
+ * @returns Address as an unsigned number
+ */
+function ipv4ToNumber(ip: string): number {
+  return ip.split('.').reduce((acc, octet) => (acc * 256) + parseInt(octet, 10), 0);
+}
+
+const BLOCKED_IPV4_RANGES: [string, number][] = [
+  ['0.0.0.0', 8],        // "This" network
+  ['10.0.0.0', 8],       // Private
+  ['100.64.0.0', 10],    // Carrier-grade NAT
+  ['127.0.0.0', 8],      // Loopback
+  ['169.254.0.0', 16],   // Link-local, including cloud metadata endpoints
+  ['172.16.0.0', 12],    // Private
+  ['192.0.0.0', 24],     // IETF protocol assignments
+  ['192.168.0.0', 16],   // Private
+  ['198.18.0.0', 15],    // Benchmarking
+  ['224.0.0.0', 4],      // Multicast
+  ['240.0.0.0', 4],      // Reserved and broadcast
+];
+
+/**
+ * Check whether an IPv4 address is loopback, link-local, private or otherwise internal
+ * @param ip IPv4 address
+ * @returns Whether the address is internal
+ */
+function isInternalIPv4(ip: string): boolean {
+  const value = ipv4ToNumber(ip);
+  return BLOCKED_IPV4_RANGES.some(([base, bits]) => {
+    const mask = bits === 0 ? 0 : (~0 << (32 - bits)) >>> 0;
+    return ((value & mask) >>> 0) === ((ipv4ToNumber(base) & mask) >>> 0);
+  });
+}
+
+/**
+ * Expand an IPv6 address into its eight 16-bit groups
+ * @param ip IPv6 address
+ * @returns Array of eight numbers
+ */
+function expandIPv6(ip: string): number[] {
+  let address = ip.toLowerCase().split('%')[0];
+  
+  // Convert an embedded dotted IPv4 tail into two hex groups
+  const dotted = address.match(/(\d+\.\d+\.\d+\.\d+)$/);
+  if (dotted) {
+    const value = ipv4ToNumber(dotted[1]);
+    address = address.replace(dotted[1], `${(value >>> 16).toString(16)}:${(value & 0xffff).toString(16)}`);
+  }
+  
+  const [head, tail] = address.split('::');
+  const headGroups = head ? head.split(':') : [];
+  const tailGroups = tail !== undefined && tail ? tail.split(':') : [];
+  const missing = 8 - headGroups.length - tailGroups.length;
+  const groups = tail !== undefined
+    ? [...headGroups, ...Array(missing).fill('0'), ...tailGroups]
+    : headGroups;
+  
+  return groups.map(group => parseInt(group, 16) || 0);
+}
+
+/**
+ * Check whether an IPv6 address is loopback, link-local, ULA or otherwise internal
+ * @param ip IPv6 address
+ * @returns Whether the address is internal
+ */
+function isInternalIPv6(ip: string): boolean {
+  const groups = expandIPv6(ip);
+  const [first] = groups;
+  
+  // Unspecified (::) and loopback (::1)
+  if (groups.slice(0, 7).every(group => group === 0) && groups[7] <= 1) {
+    return true;
+  }
+  
+  // IPv4-mapped (::ffff:a.b.c.d) and NAT64 (64:ff9b::a.b.c.d) addresses inherit the IPv4 verdict
+  const isMapped = groups.slice(0, 5).every(group => group === 0) && groups[5] === 0xffff;
+  const isNat64 = first === 0x64 && groups[1] === 0xff9b && groups.slice(2, 6).every(group => group === 0);
+  if (isMapped || isNat64) {
+    const ipv4 = [groups[6] >> 8, groups[6] & 0xff, groups[7] >> 8, groups[7] & 0xff].join('.');
+    return isInternalIPv4(ipv4);
+  }
+  
+  return (
+    (first & 0xfe00) === 0xfc00 || // Unique local (fc00::/7)
+    (first & 0xffc0) === 0xfe80 || // Link-local (fe80::/10)
+    (first & 0xffc0) === 0xfec0 || // Deprecated site-local (fec0::/10)
+    (first & 0xff00) === 0xff00    // Multicast (ff00::/8)
+  );
+}
+
+/**
+ * Check whether an IP address is internal
+ * @param ip IPv4 or IPv6 address
+ * @returns Whether the address must not be contacted
+ */
+export function isInternalAddress(ip: string): boolean {
+  const version = isIP(ip);
+  if (version === 4) {
+    return isInternalIPv4(ip);
+  }
+  if (version === 6) {
+    return isInternalIPv6(ip);
+  }
+  return true;
+}
+
+/**
+ * Resolve a URL's host and reject non-http(s) schemes and internal addresses
+ * @param url URL about to be requested
+ * @throws SsrfBlockedError if the URL must not be requested
+ */
+export async function assertPublicUrl(url: string) {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    throw new SsrfBlockedError(url, 'invalid URL');
+  }
+  
+  if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+    throw new SsrfBlockedError(url, `scheme ${parsed.protocol} is not allowed`);
+  }
+  
+  if (isGuardDisabled()) {
+    return;
+  }
+  
+  const hostname = parsed.hostname.replace(/^\[|\]$/g, '');
+  
+  if (isIP(hostname)) {
+    if (isInternalAddress(hostname)) {
+      throw new SsrfBlockedError(url, `address ${hostname} is internal`);
+    }
+    return;
+  }
+  
+  let addresses: { address: string }[];
+  try {
+    addresses = await dns.lookup(hostname, { all: true, verbatim: true });
+  } catch (error) {
+    throw new SsrfBlockedError(url, `could not resolve ${hostname}: ${(error as Error).message}`);
+  }
+  
+  // Every resolved address must be public, otherwise a second lookup could pick the internal one
+  const internal = addresses.find(({ address }) => isInternalAddress(address));
+  if (internal) {
+    throw new SsrfBlockedError(url, `${hostname} resolves to internal address ${internal.address}`);
+  }
+}
+
+/**
+ * Resolve a hostname for an outgoing connection and refuse internal addresses
+ * Used as the socket lookup, so the address that was checked is the one connected to; a
+ * hostname whose record changes between the check and the connection cannot reach the inside
+ * @param hostname Hostname to resolve
+ * @param options Lookup options from the socket
+ * @param callback Receives the addresses, or an SsrfBlockedError
+ */
+function guardedLookup(
+  hostname: string,
+  options: { all?: boolean },
+  callback: (error: Error | null, address: string | LookupAddress[], family?: number) => void
+) {
+  dns.lookup(hostname, { all: true, verbatim: true }).then(addresses => {
+    const internal = isGuardDisabled() ? undefined : addresses.find(({ address }) => isInternalAddress(address));
+    if (internal) {
+      callback(new SsrfBlockedError(hostname, `${hostname} resolves to internal address ${internal.address}`), []);
+    } else if (options.all) {
+      callback(null, addresses);
+    } else {
+      callback(null, addresses[0].address, addresses[0].family);
+    }
+  }, error => callback(error, []));
+}
+
+// Connections made by safeFetch resolve their host through guardedLookup
+const guardedAgent = new Agent({ connect: { lookup: guardedLookup } });
+
+/**
+ * Fetch a URL, validating the target before the request and on every redirect hop
+ * @param url URL to fetch
+ * @param init Fetch options
+ * @param maxRedirects Maximum number of redirects to follow
+ * @returns Response of the final hop
+ * @throws SsrfBlockedError if a hop targets a forbidden address
+ */
+export async function safeFetch(url: string, init: RequestInit = {}, maxRedirects = 5): Promise<Response> {
+  let currentUrl = url;
+  
+  for (let hop = 0; hop <= maxRedirects; hop++) {
+    await assertPublicUrl(currentUrl);
+    
+    let response: Response;
+    try {
+      // Node's fetch takes an undici dispatcher, which RequestInit does not declare
+      response = await fetch(currentUrl, { ...init, redirect: 'manual', dispatcher: guardedAgent } as RequestInit);
+    } catch (error) {
+      const cause = (error as Error).cause;
+      if (cause instanceof SsrfBlockedError) {
+        throw new SsrfBlockedError(currentUrl, cause.reason);
+      }
+      throw error;
+    }
+    
+    const location = response.headers.get('location');
+    
+    if (response.status < 300 || response.status >= 400 || !location) {
+      return response;
+    }
+    
+    // Discard the redirect body before moving on
+    await response.body?.cancel();
+    
+    // Follow the redirect ourselves so the next hop is checked too
+    currentUrl = new URL(location, currentUrl).toString();
+  }
+  
+  throw new SsrfBlockedError(url, `more than ${maxRedirects} redirects`);
+}
+
+/**
+ * Block page requests (including redirects and subresources) to internal addresses
+ * @param page Puppeteer page
+ * @param overrides Optional function returning per-request continue overrides
+ */
+export async function installNetworkGuard(
+  page: Page,
+  overrides?: (request: HTTPRequest) => ContinueRequestOverrides | undefined
+) {
+  // Hosts are checked once per page
+  const verdicts = new Map<string, Promise<boolean>>();
+  
+  const isAllowed = (requestUrl: string) => {
+    const { protocol, host } = new URL(requestUrl);
+    
+    // Inline resources never leave the browser
+    if (protocol === 'data:' || protocol === 'blob:' || protocol === 'about:') {
+      return Promise.resolve(true);
+    }
+    
+    const key = `${protocol}//${host}`;
+    if (!verdicts.has(key)) {
+      verdicts.set(key, assertPublicUrl(requestUrl).then(() => true, () => false));
+    }
+    return verdicts.get(key)!;
+  };
+  
+  await page.setRequestInterception(true);
+  page.on('request', async (request) => {
+    try {
+      if (!(await isAllowed(request.url()))) {
+        console.warn('Blocked browser request to internal address:', request.url());
+        await request.abort('blockedbyclient');
+        return;
+      }
+      
+      await request.continue(overrides?.(request));
+    } catch (error) {
+      console.error('Error in network guard:', error);
+      // Requests that could not be checked are never let through; this fails if one was already handled
+      await request.abort('blockedbyclient').catch(() => undefined);
+    }
+  });
+}
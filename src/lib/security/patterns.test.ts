@@ -0,0 +1,41 @@
+// src/lib/security/patterns.test.ts
+import { describe, expect, it } from 'vitest';
+import { MAX_PATTERN_LENGTH, findUnsafePattern, safePatternSchema } from './patterns';
+
+describe('findUnsafePattern', () => {
+  it.each([
+    ['/blog/'],
+    ['^https://example\\.com/products/\\d+$'],
+    ['/(news|blog)/'],
+    ['(?:page|p)=\\d{1,4}'],
+    ['[(+*)]+'],
+    ['(?<slug>[a-z-]+)/\\d+'],
+  ])('accepts %s', pattern => {
+    expect(findUnsafePattern(pattern)).toBeNull();
+  });
+  
+  it.each([
+    ['(a+)+$', 'Repeated groups'],
+    ['(a|ab)*c', 'Repeated groups'],
+    ['((x\\d*)y){2,}', 'Repeated groups'],
+    ['(\\w)\\1', 'Backreferences'],
+    ['(?<w>a)\\k<w>', 'Backreferences'],
+    ['a.*b.*c.*d', 'unbounded repeats'],
+  ])('refuses %s', (pattern, reason) => {
+    expect(findUnsafePattern(pattern)).toContain(reason);
+  });
+  
+  it('refuses invalid and overly long patterns', () => {
+    expect(findUnsafePattern('(unclosed')).not.toBeNull();
+    expect(findUnsafePattern('a'.repeat(MAX_PATTERN_LENGTH + 1))).toContain('longer than');
+  });
+});
+
+describe('safePatternSchema', () => {
+  it('reports why a pattern is refused', () => {
+    const parsed = safePatternSchema.safeParse('(a+)+');
+    
+    expect(parsed.success).toBe(false);
+    expect(parsed.error?.issues[0].message).toMatch(/^Invalid pattern: /);
+  });
+});
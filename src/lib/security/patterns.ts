@@ -0,0 +1,96 @@
+// src/lib/security/patterns.ts
+import { z } from 'zod';
+
+// Longest regular expression a client may send
+export const MAX_PATTERN_LENGTH = 200;
+
+// Unbounded repeats per pattern; each one multiplies the backtracking on a failed match by the input length
+const MAX_REPEATS = 2;
+
+/**
+ * Check whether the text at a position starts a repeating quantifier: *, + or {n,m}
+ * @param pattern Regular expression source
+ * @param index Position to check
+ * @returns Whether a quantifier starts there
+ */
+function isRepeat(pattern: string, index: number): boolean {
+  return pattern[index] === '*' || pattern[index] === '+' || (pattern[index] === '{' && /\d/.test(pattern[index + 1] || ''));
+}
+
+/**
+ * Find constructs that make a regular expression backtrack for a long time
+ * Patterns from API clients run on the server against URLs that pages can choose, so repeated groups
+ * that contain repeats or alternatives, such as (a+)+ or (a|ab)*, backreferences and more than
+ * MAX_REPEATS unbounded repeats are refused
+ * @param pattern Regular expression source
+ * @returns Why the pattern is refused, or null if it is safe to run
+ */
+export function findUnsafePattern(pattern: string): string | null {
+  if (pattern.length > MAX_PATTERN_LENGTH) {
+    return `Pattern is longer than ${MAX_PATTERN_LENGTH} characters`;
+  }
+  
+  try {
+    new RegExp(pattern);
+  } catch (error) {
+    return (error as Error).message;
+  }
+  
+  // Whether each open group contains a repeat or an alternative
+  const groups: boolean[] = [];
+  let repeats = 0;
+  
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    
+    if (char === '\\') {
+      if (/[1-9k]/.test(pattern[i + 1] || '')) {
+        return 'Backreferences are not allowed';
+      }
+      i++;
+    } else if (char === '[') {
+      // Character classes hold no groups or quantifiers
+      for (i++; i < pattern.length && pattern[i] !== ']'; i++) {
+        if (pattern[i] === '\\') {
+          i++;
+        }
+      }
+    } else if (char === '(') {
+      groups.push(false);
+      // Skip the group modifier: a name, or ?: ?= ?! ?<= ?<!
+      if (pattern.startsWith('?<', i + 1) && !'=!'.includes(pattern[i + 3])) {
+        i = pattern.indexOf('>', i);
+      } else if (pattern[i + 1] === '?') {
+        i += pattern[i + 2] === '<' ? 3 : 2;
+      }
+    } else if (char === ')') {
+      const nested = groups.pop();
+      if (nested && isRepeat(pattern, i + 1)) {
+        return 'Repeated groups may not contain repeats or alternatives';
+      }
+      if (groups.length > 0) {
+        groups[groups.length - 1] = groups[groups.length - 1] || Boolean(nested);
+      }
+    } else if (char === '|' || isRepeat(pattern, i)) {
+      // Counted repeats like {4} cannot grow with the input
+      if ((char === '*' || char === '+' || /^\{\d+,\}/.test(pattern.slice(i))) && ++repeats > MAX_REPEATS) {
+        return `Patterns may contain at most ${MAX_REPEATS} unbounded repeats`;
+      }
+      if (groups.length > 0) {
+        groups[groups.length - 1] = true;
+      }
+    }
+  }
+  
+  return null;
+}
+
+/**
+ * Schema for a regular expression sent by an API client
+ */
+export const safePatternSchema = z.string().min(1).superRefine((pattern, ctx) => {
+  const problem = findUnsafePattern(pattern);
+  if (problem) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Invalid pattern: ${problem}` });
+  }
+});
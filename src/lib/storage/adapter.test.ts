@@ -0,0 +1,206 @@
+// src/lib/storage/adapter.test.ts
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { getStorageAdapter, setStorageAdapter, type StorageAdapter } from './adapter';
+import { D1StorageAdapter } from './d1Adapter';
+import { MemoryStorageAdapter } from './memoryAdapter';
+import type { ScrapingTask } from './historyStorage';
+import type { Recipe } from './recipeStorage';
+import type { RepairProposal } from './repairStorage';
+import { createSqliteD1 } from './testing/sqliteD1';
+
+/**
+ * Build a scraping task
+ * @param id Task ID
+ * @param fields Fields to override
+ * @returns Scraping task
+ */
+function task(id: string, fields: Partial<ScrapingTask> = {}): ScrapingTask {
+  return {
+    id,
+    url: `https://example.com/${id}`,
+    timestamp: '2024-01-01T00:00:00.000Z',
+    results: { title: `Page ${id}`, bodyText: 'Body' },
+    ...fields,
+  };
+}
+
+// Both adapters must behave the same; D1 runs against SQLite with the migrations applied
+describe.each([
+  ['memory', async () => new MemoryStorageAdapter()],
+  ['d1', async () => new D1StorageAdapter(await createSqliteD1())],
+])('%s storage adapter', (name, create: () => Promise<StorageAdapter>) => {
+  let adapter: StorageAdapter;
+  
+  beforeEach(async () => {
+    adapter = await create();
+  });
+  
+  it('saves, reads and replaces tasks', async () => {
+    await adapter.saveTask(task('a', { userId: 'u1', tags: ['x', 'x', 'y'] }));
+    
+    expect(await adapter.getTask('a')).toMatchObject({ id: 'a', userId: 'u1', results: { title: 'Page a' } });
+    
+    await adapter.saveTask(task('a', { results: { title: 'Changed' } }));
+    expect((await adapter.getTask('a'))!.results).toEqual({ title: 'Changed' });
+    expect(await adapter.getTask('missing')).toBeNull();
+  });
+  
+  it('lists tasks newest first, per user and up to the limit', async () => {
+    await adapter.saveTask(task('old', { userId: 'u1', timestamp: '2024-01-01T00:00:00.000Z' }));
+    await adapter.saveTask(task('new', { userId: 'u1', timestamp: '2024-01-03T00:00:00.000Z' }));
+    await adapter.saveTask(task('other', { userId: 'u2', timestamp: '2024-01-02T00:00:00.000Z' }));
+    
+    expect((await adapter.listTasks()).map(saved => saved.id)).toEqual(['new', 'other', 'old']);
+    expect((await adapter.listTasks({ userId: 'u1' })).map(saved => saved.id)).toEqual(['new', 'old']);
+    expect((await adapter.listTasks({ limit: 1 })).map(saved => saved.id)).toEqual(['new']);
+  });
+  
+  it('deletes tasks', async () => {
+    await adapter.saveTask(task('a', { tags: ['x'] }));
+    
+    expect(await adapter.deleteTask('a')).toBe(true);
+    expect(await adapter.getTask('a')).toBeNull();
+    expect(await adapter.deleteTask('a')).toBe(false);
+  });
+  
+  it('searches text, ranking title matches above body matches', async () => {
+    await adapter.saveTask(task('body', { results: { title: 'Shop', bodyText: 'Prices for every widget' } }));
+    await adapter.saveTask(task('title', { results: { title: 'Widget prices', bodyText: 'Shop' } }));
+    await adapter.saveTask(task('none', { results: { title: 'About', bodyText: 'Nothing here' } }));
+    
+    const { hits, nextCursor } = await adapter.searchTasks({ q: 'widget' });
+    
+    expect(hits.map(hit => hit.task.id)).toEqual(['title', 'body']);
+    expect(hits[0].snippets.find(snippet => snippet.field === 'title')!.text).toContain('**Widget**');
+    expect(nextCursor).toBeNull();
+  });
+  
+  it('filters searches by domain, tags and status', async () => {
+    await adapter.saveTask(task('sub', { url: 'https://shop.example.com/a', tags: ['deals'] }));
+    await adapter.saveTask(task('other', { url: 'https://example.org/a', tags: ['deals'] }));
+    await adapter.saveTask(task('failed', { url: 'https://example.com/b', status: 'failed' }));
+    
+    const ids = async (query: Parameters<StorageAdapter['searchTasks']>[0]) =>
+      (await adapter.searchTasks(query)).hits.map(hit => hit.task.id).sort();
+    
+    expect(await ids({ domain: 'example.com' })).toEqual(['failed', 'sub']);
+    expect(await ids({ tags: ['deals'] })).toEqual(['other', 'sub']);
+    expect(await ids({ status: 'failed' })).toEqual(['failed']);
+  });
+  
+  it('pages through search results with cursors', async () => {
+    for (const day of [1, 2, 3]) {
+      await adapter.saveTask(task(`t${day}`, { timestamp: `2024-01-0${day}T00:00:00.000Z` }));
+    }
+    
+    const first = await adapter.searchTasks({ limit: 2 });
+    const second = await adapter.searchTasks({ limit: 2, cursor: first.nextCursor! });
+    
+    expect(first.hits.map(hit => hit.task.id)).toEqual(['t3', 't2']);
+    expect(second.hits.map(hit => hit.task.id)).toEqual(['t1']);
+    expect(second.nextCursor).toBeNull();
+  });
+  
+  it('saves, lists and deletes recipes with their runs', async () => {
+    const recipe: Recipe = {
+      id: 'r1',
+      workspaceId: 'ws',
+      name: 'Listing',
+      url: 'https://example.com/list',
+      instructions: 'Items',
+      selectors: { item: '.item' },
+      engine: 'static',
+      version: 1,
+      createdAt: '2024-01-01T00:00:00.000Z',
+      updatedAt: '2024-01-01T00:00:00.000Z',
+    };
+    await adapter.saveRecipe(recipe);
+    await adapter.saveRecipe({ ...recipe, id: 'r2', updatedAt: '2024-01-02T00:00:00.000Z' });
+    await adapter.saveRecipe({ ...recipe, version: 2, selectors: { item: 'li' } });
+    
+    expect(await adapter.getRecipe('r1')).toEqual({ ...recipe, version: 2, selectors: { item: 'li' } });
+    expect((await adapter.listRecipes('ws')).map(saved => saved.id)).toEqual(['r2', 'r1']);
+    expect(await adapter.listRecipes('other')).toEqual([]);
+    
+    for (const at of ['2024-01-01', '2024-01-02', '2024-01-03']) {
+      await adapter.saveRecipeRun({
+        recipeId: 'r1',
+        recipeVersion: 2,
+        url: recipe.url,
+        at,
+        stats: { item: { matches: 3, fillRate: 1 } },
+        examples: { item: ['a'] },
+        drifted: at === '2024-01-02',
+      }, 2);
+    }
+    
+    const runs = await adapter.listRecipeRuns('r1');
+    expect(runs.map(run => [run.at, run.drifted])).toEqual([['2024-01-03', false], ['2024-01-02', true]]);
+    expect(runs[0].stats).toEqual({ item: { matches: 3, fillRate: 1 } });
+    
+    expect(await adapter.deleteRecipe('r1')).toBe(true);
+    expect(await adapter.getRecipe('r1')).toBeNull();
+    expect(await adapter.listRecipeRuns('r1')).toEqual([]);
+    expect(await adapter.deleteRecipe('r1')).toBe(false);
+  });
+  
+  it('saves, reviews and filters repair proposals', async () => {
+    const preview = { selectors: { item: '.item' }, values: { item: ['a'] }, matches: { item: 1 } };
+    const proposal: RepairProposal = {
+      id: 'p1',
+      recipeId: 'r1',
+      workspaceId: 'ws',
+      recipeVersion: 1,
+      url: 'https://example.com/list',
+      drift: { drifted: true, fields: [] },
+      sources: { item: 'examples' },
+      before: preview,
+      after: { ...preview, selectors: { item: 'li' } },
+      status: 'pending',
+      createdAt: '2024-01-01T00:00:00.000Z',
+    };
+    await adapter.saveRepairProposal(proposal);
+    await adapter.saveRepairProposal({ ...proposal, id: 'p2', recipeId: 'r2', createdAt: '2024-01-02T00:00:00.000Z' });
+    await adapter.saveRepairProposal({ ...proposal, status: 'approved', reviewedAt: '2024-01-03T00:00:00.000Z', reviewedBy: 'u1' });
+    
+    expect(await adapter.getRepairProposal('p1')).toEqual({
+      ...proposal,
+      status: 'approved',
+      reviewedAt: '2024-01-03T00:00:00.000Z',
+      reviewedBy: 'u1',
+    });
+    expect((await adapter.listRepairProposals('ws', {})).map(saved => saved.id)).toEqual(['p2', 'p1']);
+    expect((await adapter.listRepairProposals('ws', { status: 'pending' })).map(saved => saved.id)).toEqual(['p2']);
+    expect((await adapter.listRepairProposals('ws', { recipeId: 'r1' })).map(saved => saved.id)).toEqual(['p1']);
+  });
+  
+  it(`is named ${name}`, () => {
+    expect(adapter.name).toBe(name);
+  });
+});
+
+describe('getStorageAdapter', () => {
+  afterEach(() => {
+    setStorageAdapter(null);
+    vi.unstubAllEnvs();
+  });
+  
+  it('uses the adapter set explicitly', async () => {
+    const adapter = new MemoryStorageAdapter();
+    setStorageAdapter(adapter);
+    
+    expect(await getStorageAdapter()).toBe(adapter);
+  });
+  
+  it('falls back to memory outside the Cloudflare runtime', async () => {
+    vi.stubEnv('STORAGE_ADAPTER', '');
+    
+    expect((await getStorageAdapter()).name).toBe('memory');
+  });
+  
+  it('refuses to fall back when D1 is required', async () => {
+    vi.stubEnv('STORAGE_ADAPTER', 'd1');
+    
+    await expect(getStorageAdapter()).rejects.toThrow('STORAGE_ADAPTER is d1');
+  });
+});
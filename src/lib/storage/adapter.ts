@@ -0,0 +1,121 @@
+// src/lib/storage/adapter.ts
+import { D1StorageAdapter } from './d1Adapter';
+import { MemoryStorageAdapter } from './memoryAdapter';
+import type { ScrapingTask } from './historyStorage';
+import type { HistorySearchQuery, HistorySearchPage } from './historySearch';
+import type { Snapshot, SnapshotSummary } from './snapshotStorage';
+import type { ScheduledJob } from './jobStorage';
+import type { AlertRule, Alert, AlertQuery, AlertPage } from './alertStorage';
+import type { Recipe, RecipeRun } from './recipeStorage';
+import type { RepairProposal, RepairProposalFilter } from './repairStorage';
+
+/**
+ * Interface for scraping history queries
+ */
+export interface TaskQuery {
+  userId?: string;
+  limit?: number;
+}
+
+/**
+ * Interface for a storage backend
+ */
+export interface StorageAdapter {
+  readonly name: string;
+  saveTask(task: ScrapingTask): Promise<void>;
+  getTask(id: string): Promise<ScrapingTask | null>;
+  listTasks(query?: TaskQuery): Promise<ScrapingTask[]>;
+  deleteTask(id: string): Promise<boolean>;
+  searchTasks(query: HistorySearchQuery): Promise<HistorySearchPage>;
+  saveSnapshot(snapshot: Snapshot): Promise<void>;
+  getSnapshot(id: string): Promise<Snapshot | null>;
+  // Newest first
+  listSnapshots(seriesKey: string, limit: number): Promise<SnapshotSummary[]>;
+  // Saving a job leaves its run lock alone
+  saveJob(job: ScheduledJob): Promise<void>;
+  getJob(id: string): Promise<ScheduledJob | null>;
+  listJobs(workspaceId: string): Promise<ScheduledJob[]>;
+  // Active, unlocked jobs due at or before now, most overdue first
+  listDueJobs(now: string, limit: number): Promise<ScheduledJob[]>;
+  // Lock a job unless it holds an unexpired lock; with scheduledFor, only while the job is active and
+  // still scheduled for that time. Returns whether it was locked
+  lockJob(id: string, now: string, lockedUntil: string, scheduledFor?: string): Promise<boolean>;
+  unlockJob(id: string): Promise<void>;
+  deleteJob(id: string): Promise<boolean>;
+  saveAlertRule(rule: AlertRule): Promise<void>;
+  getAlertRule(id: string): Promise<AlertRule | null>;
+  listAlertRules(workspaceId: string): Promise<AlertRule[]>;
+  deleteAlertRule(id: string): Promise<boolean>;
+  saveAlert(alert: Alert): Promise<void>;
+  getAlert(id: string): Promise<Alert | null>;
+  // Newest first, paged with cursors like history searches
+  listAlerts(query: AlertQuery): Promise<AlertPage>;
+  // Alerts with a pending webhook delivery due at or before now, longest waiting first
+  listDueDeliveries(now: string, limit: number): Promise<Alert[]>;
+  // Marks the given alerts, or every unread alert of the workspace; returns how many changed
+  markAlertsRead(workspaceId: string, ids: string[] | undefined, readAt: string): Promise<number>;
+  saveRecipe(recipe: Recipe): Promise<void>;
+  getRecipe(id: string): Promise<Recipe | null>;
+  // Most recently updated first
+  listRecipes(workspaceId: string): Promise<Recipe[]>;
+  // Deletes the recipe's runs too
+  deleteRecipe(id: string): Promise<boolean>;
+  // Keeps only the given number of most recent runs of the recipe
+  saveRecipeRun(run: RecipeRun, keep: number): Promise<void>;
+  // Most recent first
+  listRecipeRuns(recipeId: string): Promise<RecipeRun[]>;
+  saveRepairProposal(proposal: RepairProposal): Promise<void>;
+  getRepairProposal(id: string): Promise<RepairProposal | null>;
+  // Newest first
+  listRepairProposals(workspaceId: string, filter: RepairProposalFilter): Promise<RepairProposal[]>;
+}
+
+// Shared in-memory adapter, used when no D1 binding is available
+const memoryAdapter = new MemoryStorageAdapter();
+
+// Adapter set explicitly, e.g. by tests
+let overrideAdapter: StorageAdapter | null = null;
+
+/**
+ * Use a specific storage adapter instead of the configured one
+ * @param adapter Adapter, or null to go back to the configured one
+ */
+export function setStorageAdapter(adapter: StorageAdapter | null) {
+  overrideAdapter = adapter;
+}
+
+/**
+ * Get the storage adapter for the current request
+ * D1 is used when the DB binding is available, unless STORAGE_ADAPTER=memory; without the
+ * binding or the @opennextjs/cloudflare package, storage falls back to memory
+ * @returns Storage adapter
+ */
+export async function getStorageAdapter(): Promise<StorageAdapter> {
+  if (overrideAdapter) {
+    return overrideAdapter;
+  }
+  
+  if (process.env.STORAGE_ADAPTER === 'memory') {
+    return memoryAdapter;
+  }
+  
+  try {
+    // Loaded lazily so that Node and test runs without the Cloudflare runtime fall back to memory;
+    // the binding lives on the request context, so it is looked up per call
+    const { getCloudflareContext } = await import('@opennextjs/cloudflare');
+    const cf = await getCloudflareContext();
+    if (cf.env.DB) {
+      return new D1StorageAdapter(cf.env.DB);
+    }
+  } catch (error) {
+    if (process.env.STORAGE_ADAPTER === 'd1') {
+      throw new Error(`STORAGE_ADAPTER is d1, but the D1 binding is unavailable: ${(error as Error).message}`);
+    }
+  }
+  
+  if (process.env.STORAGE_ADAPTER === 'd1') {
+    throw new Error('STORAGE_ADAPTER is d1, but no DB binding is configured');
+  }
+  
+  return memoryAdapter;
+}
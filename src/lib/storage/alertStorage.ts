@@ -0,0 +1,349 @@
+// src/lib/storage/alertStorage.ts
+import crypto from 'crypto';
+import { z } from 'zod';
+import { getStorageAdapter } from './adapter';
+import type { TextDiff, JsonDiff } from '@/lib/data/diff';
+import type { DriftReport } from '@/lib/scraping/selectorDrift';
+import { normalizeUrl } from '@/lib/scraping/crawler';
+
+/**
+ * Schema for the condition of an alert rule
+ * - field_change: a numeric field went up or down by more than a percentage, e.g. price down by >10%
+ * - item_added / item_removed: a record appeared in or disappeared from the results, optionally under one field
+ * - zero_matches: a recipe selector matched nothing
+ * - text_mentions: the Groq output (or page text) mentions a phrase
+ */
+export const alertConditionSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('field_change'),
+    field: z.string().trim().min(1).max(200),
+    direction: z.enum(['increase', 'decrease', 'any']).default('any'),
+    // Changes must be larger than this; 0 means any change
+    thresholdPercent: z.number().min(0).default(0),
+  }),
+  z.object({
+    type: z.literal('item_added'),
+    field: z.string().trim().min(1).max(200).optional(),
+  }),
+  z.object({
+    type: z.literal('item_removed'),
+    field: z.string().trim().min(1).max(200).optional(),
+  }),
+  z.object({
+    type: z.literal('zero_matches'),
+    field: z.string().trim().min(1).max(200).optional(),
+  }),
+  z.object({
+    type: z.literal('text_mentions'),
+    text: z.string().trim().min(1).max(500),
+    source: z.enum(['processed', 'body']).default('processed'),
+  }),
+]);
+
+export type AlertCondition = z.infer<typeof alertConditionSchema>;
+
+/**
+ * Schema for a new alert rule
+ */
+export const alertRuleInputSchema = z.object({
+  name: z.string().trim().min(1).max(200),
+  // Scope of the rule; a rule without one applies to every job of the workspace
+  jobId: z.string().min(1).optional(),
+  recipeId: z.string().min(1).optional(),
+  url: z.string().url().optional(),
+  condition: alertConditionSchema,
+  webhookUrl: z.string().url().optional(),
+  // A rule fires at most once in this many minutes
+  cooldownMinutes: z.number().int().min(0).max(7 * 24 * 60).default(60),
+  enabled: z.boolean().default(true),
+});
+
+/**
+ * Schema for changes to an alert rule; fields left out keep their values
+ */
+export const alertRuleUpdateSchema = alertRuleInputSchema.partial();
+
+export type AlertRuleInput = z.infer<typeof alertRuleInputSchema>;
+
+/**
+ * Interface for a stored alert rule
+ */
+export interface AlertRule extends AlertRuleInput {
+  id: string;
+  workspaceId: string;
+  // Key for the HMAC-SHA256 signature of webhook deliveries
+  webhookSecret: string;
+  lastTriggeredAt?: string;
+  createdBy?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Interface for one thing that made a rule fire
+ */
+export interface AlertMatch {
+  // Location in the extracted records, as in a JSON diff
+  path?: string;
+  field?: string;
+  before?: any;
+  after?: any;
+  changePercent?: number;
+  // Excerpt around a mentioned phrase
+  excerpt?: string;
+}
+
+/**
+ * Interface for the changes that triggered an alert
+ */
+export interface AlertDiff {
+  // Snapshots compared; from is missing for the first snapshot of a page
+  from?: { id: string; version: number };
+  to?: { id: string; version: number };
+  body?: TextDiff;
+  records?: JsonDiff;
+  drift?: DriftReport;
+  // Set when hunks or changes were cut to keep the alert small
+  truncated?: boolean;
+}
+
+export type DeliveryStatus = 'pending' | 'delivered' | 'dead';
+
+/**
+ * Interface for the webhook delivery state of an alert
+ */
+export interface WebhookDelivery {
+  status: DeliveryStatus;
+  attempts: number;
+  // When the next attempt is due; null once delivered or dead
+  nextAttemptAt: string | null;
+  lastAttemptAt?: string;
+  lastStatusCode?: number;
+  lastError?: string;
+  deliveredAt?: string;
+}
+
+/**
+ * Interface for a fired alert, which is also an entry of the notifications feed
+ */
+export interface Alert {
+  id: string;
+  workspaceId: string;
+  ruleId: string;
+  ruleName: string;
+  condition: AlertCondition;
+  jobId?: string;
+  recipeId?: string;
+  url: string;
+  // History task of the run that fired the alert
+  taskId?: string;
+  message: string;
+  matches: AlertMatch[];
+  diff: AlertDiff;
+  createdAt: string;
+  readAt?: string;
+  // Null when the rule has no webhook
+  delivery: WebhookDelivery | null;
+}
+
+/**
+ * Interface for notification feed queries
+ */
+export interface AlertQuery {
+  workspaceId: string;
+  unread?: boolean;
+  ruleId?: string;
+  deliveryStatus?: DeliveryStatus;
+  limit?: number;
+  cursor?: string;
+}
+
+/**
+ * Interface for a page of the notifications feed
+ * Alerts in feeds leave out their diff; fetch one alert to get it
+ */
+export interface AlertPage {
+  alerts: Omit<Alert, 'diff'>[];
+  nextCursor: string | null;
+  unread: number;
+}
+
+/**
+ * Generate a webhook signing secret
+ * @returns Random secret
+ */
+export function generateWebhookSecret(): string {
+  return `whsec_${crypto.randomBytes(24).toString('hex')}`;
+}
+
+/**
+ * Save a new alert rule with a fresh webhook secret
+ * @param rule Rule fields
+ * @returns Saved rule with ID
+ */
+export async function saveAlertRule(
+  rule: Omit<AlertRule, 'id' | 'webhookSecret' | 'createdAt' | 'updatedAt'>
+): Promise<AlertRule> {
+  // Generate a unique ID
+  const id = Date.now().toString(36) + Math.random().toString(36).substring(2);
+  const now = new Date().toISOString();
+  
+  const saved: AlertRule = {
+    ...rule,
+    // Rules match pages by normalized URL, like snapshot timelines
+    url: rule.url ? normalizeUrl(rule.url) || rule.url : undefined,
+    id,
+    webhookSecret: generateWebhookSecret(),
+    createdAt: now,
+    updatedAt: now,
+  };
+  
+  const storage = await getStorageAdapter();
+  await storage.saveAlertRule(saved);
+  return saved;
+}
+
+/**
+ * Get an alert rule by ID
+ * @param id Rule ID
+ * @param workspaceId Workspace the rule must belong to; omit for internal lookups
+ * @returns Rule or null
+ */
+export async function getAlertRule(id: string, workspaceId?: string): Promise<AlertRule | null> {
+  const storage = await getStorageAdapter();
+  const rule = await storage.getAlertRule(id);
+  return rule && (!workspaceId || rule.workspaceId === workspaceId) ? rule : null;
+}
+
+/**
+ * Get all alert rules of a workspace
+ * @param workspaceId Workspace ID
+ * @returns Rules, oldest first
+ */
+export async function listAlertRules(workspaceId: string): Promise<AlertRule[]> {
+  const storage = await getStorageAdapter();
+  return storage.listAlertRules(workspaceId);
+}
+
+/**
+ * Update an alert rule
+ * @param id Rule ID
+ * @param changes Fields to change
+ * @returns Updated rule, or null if it does not exist
+ */
+export async function updateAlertRule(
+  id: string,
+  changes: Partial<Omit<AlertRule, 'id' | 'workspaceId' | 'createdAt'>>
+): Promise<AlertRule | null> {
+  const storage = await getStorageAdapter();
+  const rule = await storage.getAlertRule(id);
+  
+  if (!rule) {
+    return null;
+  }
+  
+  const updated: AlertRule = {
+    ...rule,
+    ...changes,
+    ...(changes.url && { url: normalizeUrl(changes.url) || changes.url }),
+    updatedAt: new Date().toISOString(),
+  };
+  
+  await storage.saveAlertRule(updated);
+  return updated;
+}
+
+/**
+ * Delete an alert rule; alerts it already fired stay in the feed
+ * @param id Rule ID
+ * @param workspaceId Workspace the rule must belong to
+ * @returns Success status
+ */
+export async function deleteAlertRule(id: string, workspaceId: string): Promise<boolean> {
+  const rule = await getAlertRule(id, workspaceId);
+  
+  if (!rule) {
+    return false;
+  }
+  
+  const storage = await getStorageAdapter();
+  return storage.deleteAlertRule(id);
+}
+
+/**
+ * Save a fired alert to the notifications feed
+ * @param alert Alert fields
+ * @returns Saved alert with ID
+ */
+export async function saveAlert(alert: Omit<Alert, 'id' | 'createdAt'>): Promise<Alert> {
+  // Generate a unique ID
+  const id = Date.now().toString(36) + Math.random().toString(36).substring(2);
+  
+  const saved: Alert = {
+    ...alert,
+    id,
+    createdAt: new Date().toISOString(),
+  };
+  
+  const storage = await getStorageAdapter();
+  await storage.saveAlert(saved);
+  return saved;
+}
+
+/**
+ * Update the webhook delivery state of an alert
+ * @param alert Alert
+ * @param delivery New delivery state
+ * @returns Updated alert
+ */
+export async function updateAlertDelivery(alert: Alert, delivery: WebhookDelivery): Promise<Alert> {
+  const updated: Alert = { ...alert, delivery };
+  const storage = await getStorageAdapter();
+  await storage.saveAlert(updated);
+  return updated;
+}
+
+/**
+ * Get an alert by ID, with its diff
+ * @param id Alert ID
+ * @param workspaceId Workspace the alert must belong to; omit for internal lookups
+ * @returns Alert or null
+ */
+export async function getAlert(id: string, workspaceId?: string): Promise<Alert | null> {
+  const storage = await getStorageAdapter();
+  const alert = await storage.getAlert(id);
+  return alert && (!workspaceId || alert.workspaceId === workspaceId) ? alert : null;
+}
+
+/**
+ * Get a page of the notifications feed, newest first
+ * @param query Feed query
+ * @returns Alerts without diffs, the cursor of the next page and the unread count
+ * @throws InvalidCursorError if the cursor is malformed
+ */
+export async function listAlerts(query: AlertQuery): Promise<AlertPage> {
+  const storage = await getStorageAdapter();
+  return storage.listAlerts(query);
+}
+
+/**
+ * Get alerts whose webhook delivery is due for another attempt
+ * @param now Current time
+ * @param limit Maximum number of alerts to return
+ * @returns Alerts, longest waiting first
+ */
+export async function getDueDeliveries(now: Date, limit = 20): Promise<Alert[]> {
+  const storage = await getStorageAdapter();
+  return storage.listDueDeliveries(now.toISOString(), limit);
+}
+
+/**
+ * Mark alerts as read
+ * @param workspaceId Workspace ID
+ * @param ids Alerts to mark, or undefined for every unread alert of the workspace
+ * @returns Number of alerts marked
+ */
+export async function markAlertsRead(workspaceId: string, ids?: string[]): Promise<number> {
+  const storage = await getStorageAdapter();
+  return storage.markAlertsRead(workspaceId, ids, new Date().toISOString());
+}
@@ -0,0 +1,1029 @@
+// src/lib/storage/d1Adapter.ts
+import type { StorageAdapter, TaskQuery } from './adapter';
+import type { ScrapingTask, TaskStatus } from './historyStorage';
+import type { Snapshot, SnapshotSummary } from './snapshotStorage';
+import type { ScheduledJob, JobStatus, CatchUpPolicy, JobRunStatus } from './jobStorage';
+import type { AlertRule, Alert, AlertQuery, AlertPage, DeliveryStatus } from './alertStorage';
+import type { Recipe, RecipeRun, RecipeEngine } from './recipeStorage';
+import type { RepairProposal, RepairProposalFilter, RepairStatus } from './repairStorage';
+import type { ScrapeEngine } from '@/lib/scraping/engine';
+import {
+  toSearchFields,
+  toFtsQuery,
+  encodeCursor,
+  decodeCursor,
+  SNIPPET_OPEN,
+  SNIPPET_CLOSE,
+  type HistorySearchQuery,
+  type HistorySearchPage,
+  type HistorySearchHit,
+  type SearchField,
+} from './historySearch';
+
+/**
+ * Interface for a row of the scraping_tasks table
+ */
+interface ScrapingTaskRow {
+  id: string;
+  user_id: string | null;
+  url: string;
+  instructions: string | null;
+  wait_for: string | null;
+  timestamp: string;
+  status: TaskStatus;
+  tags: string;
+  title: string | null;
+  results: string;
+}
+
+/**
+ * Interface for a row of a full-text search
+ */
+interface SearchRow extends Omit<ScrapingTaskRow, 'results'> {
+  rank?: number;
+  url_snippet?: string;
+  title_snippet?: string;
+  instructions_snippet?: string;
+  body_snippet?: string;
+  processed_snippet?: string;
+}
+
+/**
+ * Interface for a row of the snapshots table
+ */
+interface SnapshotRow {
+  id: string;
+  series_key: string;
+  url: string;
+  recipe_id: string | null;
+  owner: string | null;
+  version: number;
+  content_hash: string;
+  task_id: string | null;
+  body?: string;
+  records?: string;
+  created_at: string;
+}
+
+/**
+ * Interface for a row of the scheduled_jobs table
+ */
+interface ScheduledJobRow {
+  id: string;
+  workspace_id: string;
+  name: string;
+  url: string | null;
+  recipe_id: string | null;
+  instructions: string | null;
+  engine: ScrapeEngine;
+  wait_for: string | null;
+  provider: string | null;
+  model: string | null;
+  schedule: string;
+  jitter_seconds: number;
+  catch_up: CatchUpPolicy;
+  status: JobStatus;
+  scheduled_for: string | null;
+  next_run_at: string | null;
+  last_run_at: string | null;
+  last_run_status: JobRunStatus | null;
+  last_error: string | null;
+  last_task_id: string | null;
+  locked_until: string | null;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * Interface for a row of the alert_rules table
+ */
+interface AlertRuleRow {
+  id: string;
+  workspace_id: string;
+  name: string;
+  job_id: string | null;
+  recipe_id: string | null;
+  url: string | null;
+  condition: string;
+  webhook_url: string | null;
+  webhook_secret: string;
+  cooldown_minutes: number;
+  enabled: number;
+  last_triggered_at: string | null;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * Interface for a row of the alerts table
+ */
+interface AlertRow {
+  id: string;
+  workspace_id: string;
+  rule_id: string;
+  rule_name: string;
+  condition: string;
+  job_id: string | null;
+  recipe_id: string | null;
+  url: string;
+  task_id: string | null;
+  message: string;
+  matches: string;
+  diff?: string;
+  created_at: string;
+  read_at: string | null;
+  delivery_status: DeliveryStatus | null;
+  delivery_attempts: number;
+  next_attempt_at: string | null;
+  last_attempt_at: string | null;
+  last_status_code: number | null;
+  last_error: string | null;
+  delivered_at: string | null;
+}
+
+/**
+ * Interface for a row of the recipes table
+ */
+interface RecipeRow {
+  id: string;
+  workspace_id: string;
+  name: string;
+  url: string;
+  instructions: string;
+  selectors: string;
+  engine: RecipeEngine;
+  wait_for: string | null;
+  version: number;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+  last_run_at: string | null;
+}
+
+/**
+ * Interface for a row of the recipe_runs table
+ */
+interface RecipeRunRow {
+  id: number;
+  recipe_id: string;
+  recipe_version: number;
+  url: string;
+  run_at: string;
+  stats: string;
+  examples: string;
+  drifted: number;
+}
+
+/**
+ * Interface for a row of the repair_proposals table
+ */
+interface RepairProposalRow {
+  id: string;
+  recipe_id: string;
+  workspace_id: string;
+  recipe_version: number;
+  url: string;
+  drift: string;
+  sources: string;
+  before_preview: string;
+  after_preview: string;
+  status: RepairStatus;
+  created_at: string;
+  reviewed_at: string | null;
+  reviewed_by: string | null;
+}
+
+// Columns of scraping_tasks_fts in order, for snippet() and bm25()
+const FTS_COLUMNS: SearchField[] = ['url', 'title', 'instructions', 'body', 'processed'];
+
+// Title and instructions matches count for more than matches in the page body
+const FTS_WEIGHTS = [1.0, 3.0, 2.0, 1.0, 1.0];
+
+// Columns returned by searches; results are left out to keep pages small
+const SUMMARY_COLUMNS = 't.id, t.user_id, t.url, t.instructions, t.wait_for, t.timestamp, t.status, t.tags, t.title';
+
+/**
+ * Convert a table row to a scraping task
+ * @param row Table row
+ * @returns Scraping task
+ */
+function toTask(row: ScrapingTaskRow): ScrapingTask {
+  return {
+    id: row.id,
+    userId: row.user_id ?? undefined,
+    url: row.url,
+    instructions: row.instructions ?? undefined,
+    waitFor: row.wait_for ?? undefined,
+    timestamp: row.timestamp,
+    status: row.status,
+    tags: JSON.parse(row.tags || '[]'),
+    results: JSON.parse(row.results),
+  };
+}
+
+/**
+ * Convert a search row to a search result
+ * @param row Search row
+ * @returns Search result
+ */
+function toHit(row: SearchRow): HistorySearchHit {
+  const { results, ...task } = toTask({ ...row, results: 'null' });
+  
+  return {
+    task: { ...task, title: row.title ?? undefined },
+    rank: row.rank,
+    // snippet() returns the start of a column even without a match, so keep only highlighted ones
+    snippets: FTS_COLUMNS
+      .map(field => ({ field, text: row[`${field}_snippet` as keyof SearchRow] as string | undefined }))
+      .filter((snippet): snippet is { field: SearchField; text: string } => Boolean(snippet.text?.includes(SNIPPET_OPEN))),
+  };
+}
+
+/**
+ * Convert a snapshot row to a snapshot summary
+ * @param row Table row
+ * @returns Snapshot summary
+ */
+function toSnapshotSummary(row: SnapshotRow): SnapshotSummary {
+  return {
+    id: row.id,
+    seriesKey: row.series_key,
+    url: row.url,
+    recipeId: row.recipe_id ?? undefined,
+    owner: row.owner ?? undefined,
+    version: row.version,
+    contentHash: row.content_hash,
+    taskId: row.task_id ?? undefined,
+    createdAt: row.created_at,
+  };
+}
+
+/**
+ * Convert a table row to a scheduled job
+ * @param row Table row
+ * @returns Scheduled job
+ */
+function toJob(row: ScheduledJobRow): ScheduledJob {
+  return {
+    id: row.id,
+    workspaceId: row.workspace_id,
+    name: row.name,
+    url: row.url ?? undefined,
+    recipeId: row.recipe_id ?? undefined,
+    instructions: row.instructions ?? undefined,
+    engine: row.engine,
+    waitFor: row.wait_for ?? undefined,
+    provider: row.provider ?? undefined,
+    model: row.model ?? undefined,
+    schedule: row.schedule,
+    jitterSeconds: row.jitter_seconds,
+    catchUp: row.catch_up,
+    status: row.status,
+    scheduledFor: row.scheduled_for,
+    nextRunAt: row.next_run_at,
+    lastRunAt: row.last_run_at ?? undefined,
+    lastRunStatus: row.last_run_status ?? undefined,
+    lastError: row.last_error ?? undefined,
+    lastTaskId: row.last_task_id ?? undefined,
+    lockedUntil: row.locked_until ?? undefined,
+    createdBy: row.created_by ?? undefined,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+/**
+ * Convert a table row to an alert rule
+ * @param row Table row
+ * @returns Alert rule
+ */
+function toAlertRule(row: AlertRuleRow): AlertRule {
+  return {
+    id: row.id,
+    workspaceId: row.workspace_id,
+    name: row.name,
+    jobId: row.job_id ?? undefined,
+    recipeId: row.recipe_id ?? undefined,
+    url: row.url ?? undefined,
+    condition: JSON.parse(row.condition),
+    webhookUrl: row.webhook_url ?? undefined,
+    webhookSecret: row.webhook_secret,
+    cooldownMinutes: row.cooldown_minutes,
+    enabled: row.enabled === 1,
+    lastTriggeredAt: row.last_triggered_at ?? undefined,
+    createdBy: row.created_by ?? undefined,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+/**
+ * Convert a table row to an alert; feed rows leave out the diff
+ * @param row Table row
+ * @returns Alert
+ */
+function toAlert(row: AlertRow): Alert {
+  return {
+    id: row.id,
+    workspaceId: row.workspace_id,
+    ruleId: row.rule_id,
+    ruleName: row.rule_name,
+    condition: JSON.parse(row.condition),
+    jobId: row.job_id ?? undefined,
+    recipeId: row.recipe_id ?? undefined,
+    url: row.url,
+    taskId: row.task_id ?? undefined,
+    message: row.message,
+    matches: JSON.parse(row.matches),
+    diff: JSON.parse(row.diff || '{}'),
+    createdAt: row.created_at,
+    readAt: row.read_at ?? undefined,
+    delivery: row.delivery_status ? {
+      status: row.delivery_status,
+      attempts: row.delivery_attempts,
+      nextAttemptAt: row.next_attempt_at,
+      lastAttemptAt: row.last_attempt_at ?? undefined,
+      lastStatusCode: row.last_status_code ?? undefined,
+      lastError: row.last_error ?? undefined,
+      deliveredAt: row.delivered_at ?? undefined,
+    } : null,
+  };
+}
+
+/**
+ * Convert a table row to a recipe
+ * @param row Table row
+ * @returns Recipe
+ */
+function toRecipe(row: RecipeRow): Recipe {
+  return {
+    id: row.id,
+    workspaceId: row.workspace_id,
+    name: row.name,
+    url: row.url,
+    instructions: row.instructions,
+    selectors: JSON.parse(row.selectors),
+    engine: row.engine,
+    waitFor: row.wait_for ?? undefined,
+    version: row.version,
+    createdBy: row.created_by ?? undefined,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+    lastRunAt: row.last_run_at ?? undefined,
+  };
+}
+
+/**
+ * Convert a table row to a recipe run
+ * @param row Table row
+ * @returns Recipe run
+ */
+function toRecipeRun(row: RecipeRunRow): RecipeRun {
+  return {
+    recipeId: row.recipe_id,
+    recipeVersion: row.recipe_version,
+    url: row.url,
+    at: row.run_at,
+    stats: JSON.parse(row.stats),
+    examples: JSON.parse(row.examples),
+    drifted: row.drifted === 1,
+  };
+}
+
+/**
+ * Convert a table row to a repair proposal
+ * @param row Table row
+ * @returns Repair proposal
+ */
+function toRepairProposal(row: RepairProposalRow): RepairProposal {
+  return {
+    id: row.id,
+    recipeId: row.recipe_id,
+    workspaceId: row.workspace_id,
+    recipeVersion: row.recipe_version,
+    url: row.url,
+    drift: JSON.parse(row.drift),
+    sources: JSON.parse(row.sources),
+    before: JSON.parse(row.before_preview),
+    after: JSON.parse(row.after_preview),
+    status: row.status,
+    createdAt: row.created_at,
+    reviewedAt: row.reviewed_at ?? undefined,
+    reviewedBy: row.reviewed_by ?? undefined,
+  };
+}
+
+/**
+ * Storage adapter backed by Cloudflare D1 (SQLite)
+ * Tables are created by the numbered migrations in migrations/
+ */
+export class D1StorageAdapter implements StorageAdapter {
+  readonly name = 'd1';
+  
+  constructor(private db: CloudflareEnv['DB']) {}
+  
+  async saveTask(task: ScrapingTask): Promise<void> {
+    const fields = toSearchFields(task);
+    const tags = Array.from(new Set(task.tags || []));
+    
+    // The full-text index follows the table through triggers
+    await this.db.batch([
+      this.db.prepare(
+        `INSERT INTO scraping_tasks (id, user_id, url, instructions, wait_for, timestamp, results, domain, title, body_text, processed, status, tags)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+         ON CONFLICT (id) DO UPDATE SET
+           user_id = excluded.user_id,
+           url = excluded.url,
+           instructions = excluded.instructions,
+           wait_for = excluded.wait_for,
+           timestamp = excluded.timestamp,
+           results = excluded.results,
+           domain = excluded.domain,
+           title = excluded.title,
+           body_text = excluded.body_text,
+           processed = excluded.processed,
+           status = excluded.status,
+           tags = excluded.tags`
+      ).bind(
+        task.id,
+        task.userId ?? null,
+        task.url,
+        task.instructions ?? null,
+        task.waitFor ?? null,
+        task.timestamp,
+        JSON.stringify(task.results ?? null),
+        fields.domain,
+        fields.title,
+        fields.body,
+        fields.processed,
+        task.status || 'completed',
+        JSON.stringify(tags)
+      ),
+      this.db.prepare('DELETE FROM scraping_task_tags WHERE task_id = ?').bind(task.id),
+      ...tags.map(tag => this.db.prepare('INSERT INTO scraping_task_tags (task_id, tag) VALUES (?, ?)').bind(task.id, tag)),
+    ]);
+  }
+  
+  async getTask(id: string): Promise<ScrapingTask | null> {
+    const row = await this.db.prepare('SELECT * FROM scraping_tasks WHERE id = ?')
+      .bind(id)
+      .first<ScrapingTaskRow>();
+    
+    return row ? toTask(row) : null;
+  }
+  
+  async listTasks(query: TaskQuery = {}): Promise<ScrapingTask[]> {
+    const { userId, limit = 100 } = query;
+    
+    // Both queries are served by an index on (user_id, timestamp) or (timestamp)
+    const statement = userId
+      ? this.db.prepare('SELECT * FROM scraping_tasks WHERE user_id = ? ORDER BY timestamp DESC LIMIT ?').bind(userId, limit)
+      : this.db.prepare('SELECT * FROM scraping_tasks ORDER BY timestamp DESC LIMIT ?').bind(limit);
+    
+    const { results } = await statement.all<ScrapingTaskRow>();
+    return results.map(toTask);
+  }
+  
+  async deleteTask(id: string): Promise<boolean> {
+    const [, result] = await this.db.batch([
+      this.db.prepare('DELETE FROM scraping_task_tags WHERE task_id = ?').bind(id),
+      this.db.prepare('DELETE FROM scraping_tasks WHERE id = ?').bind(id),
+    ]);
+    
+    return result.meta.changes > 0;
+  }
+  
+  async searchTasks(query: HistorySearchQuery): Promise<HistorySearchPage> {
+    const { limit = 20 } = query;
+    const after = query.cursor ? decodeCursor(query.cursor) : null;
+    const match = query.q ? toFtsQuery(query.q) : null;
+    
+    const conditions: string[] = [];
+    const params: unknown[] = [];
+    
+    if (match) {
+      conditions.push('scraping_tasks_fts MATCH ?');
+      params.push(match);
+    }
+    if (query.userId) {
+      conditions.push('t.user_id = ?');
+      params.push(query.userId);
+    }
+    if (query.domain) {
+      // The domain itself or any of its subdomains
+      const domain = query.domain.toLowerCase();
+      conditions.push(`(t.domain = ? OR t.domain LIKE ? ESCAPE '\\')`);
+      params.push(domain, `%.${domain.replace(/[\\%_]/g, '\\$&')}`);
+    }
+    if (query.from) {
+      conditions.push('t.timestamp >= ?');
+      params.push(query.from);
+    }
+    if (query.to) {
+      conditions.push('t.timestamp <= ?');
+      params.push(query.to);
+    }
+    if (query.status) {
+      conditions.push('t.status = ?');
+      params.push(query.status);
+    }
+    for (const tag of query.tags || []) {
+      conditions.push('EXISTS (SELECT 1 FROM scraping_task_tags g WHERE g.task_id = t.id AND g.tag = ?)');
+      params.push(tag);
+    }
+    
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    let sql: string;
+    
+    if (match) {
+      const snippets = FTS_COLUMNS
+        .map((field, index) => `snippet(scraping_tasks_fts, ${index}, '${SNIPPET_OPEN}', '${SNIPPET_CLOSE}', '…', 16) AS ${field}_snippet`)
+        .join(', ');
+      
+      // bm25() is lower for better matches; the outer query pages through the ranking
+      sql = `SELECT * FROM (
+          SELECT ${SUMMARY_COLUMNS}, bm25(scraping_tasks_fts, ${FTS_WEIGHTS.join(', ')}) AS rank, ${snippets}
+          FROM scraping_tasks_fts JOIN scraping_tasks t ON t.rowid = scraping_tasks_fts.rowid
+          ${where}
+        )
+        ${after ? 'WHERE rank > ? OR (rank = ? AND id > ?)' : ''}
+        ORDER BY rank, id
+        LIMIT ?`;
+    } else {
+      sql = `SELECT ${SUMMARY_COLUMNS} FROM scraping_tasks t
+        ${where}
+        ${after ? `${where ? 'AND' : 'WHERE'} (t.timestamp < ? OR (t.timestamp = ? AND t.id < ?))` : ''}
+        ORDER BY t.timestamp DESC, t.id DESC
+        LIMIT ?`;
+    }
+    
+    if (after) {
+      params.push(after.key, after.key, after.id);
+    }
+    // One extra row tells whether there is a next page
+    params.push(limit + 1);
+    
+    const { results } = await this.db.prepare(sql).bind(...params).all<SearchRow>();
+    const hits = results.slice(0, limit).map(toHit);
+    const last = results[limit - 1];
+    
+    return {
+      hits,
+      nextCursor: results.length > limit ? encodeCursor({ key: match ? last.rank! : last.timestamp, id: last.id }) : null,
+    };
+  }
+  
+  async saveSnapshot(snapshot: Snapshot): Promise<void> {
+    await this.db.prepare(
+      `INSERT INTO snapshots (id, series_key, url, recipe_id, owner, version, content_hash, task_id, body, records, created_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+    )
+      .bind(
+        snapshot.id,
+        snapshot.seriesKey,
+        snapshot.url,
+        snapshot.recipeId ?? null,
+        snapshot.owner ?? null,
+        snapshot.version,
+        snapshot.contentHash,
+        snapshot.taskId ?? null,
+        snapshot.body,
+        JSON.stringify(snapshot.records ?? null),
+        snapshot.createdAt
+      )
+      .run();
+  }
+  
+  async getSnapshot(id: string): Promise<Snapshot | null> {
+    const row = await this.db.prepare('SELECT * FROM snapshots WHERE id = ?')
+      .bind(id)
+      .first<SnapshotRow>();
+    
+    return row ? { ...toSnapshotSummary(row), body: row.body || '', records: JSON.parse(row.records || 'null') } : null;
+  }
+  
+  async listSnapshots(seriesKey: string, limit: number): Promise<SnapshotSummary[]> {
+    // Served by the unique index on (series_key, version); contents stay out of timelines
+    const { results } = await this.db.prepare(
+      `SELECT id, series_key, url, recipe_id, owner, version, content_hash, task_id, created_at
+       FROM snapshots WHERE series_key = ? ORDER BY version DESC LIMIT ?`
+    )
+      .bind(seriesKey, limit)
+      .all<SnapshotRow>();
+    
+    return results.map(toSnapshotSummary);
+  }
+  
+  async saveJob(job: ScheduledJob): Promise<void> {
+    // locked_until is left out so saving a job mid-run keeps its lock
+    await this.db.prepare(
+      `INSERT INTO scheduled_jobs (id, workspace_id, name, url, recipe_id, instructions, engine, wait_for, provider, model, schedule,
+         jitter_seconds, catch_up, status, scheduled_for, next_run_at, last_run_at, last_run_status, last_error, last_task_id,
+         created_by, created_at, updated_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+       ON CONFLICT (id) DO UPDATE SET
+         name = excluded.name,
+         url = excluded.url,
+         recipe_id = excluded.recipe_id,
+         instructions = excluded.instructions,
+         engine = excluded.engine,
+         wait_for = excluded.wait_for,
+         provider = excluded.provider,
+         model = excluded.model,
+         schedule = excluded.schedule,
+         jitter_seconds = excluded.jitter_seconds,
+         catch_up = excluded.catch_up,
+         status = excluded.status,
+         scheduled_for = excluded.scheduled_for,
+         next_run_at = excluded.next_run_at,
+         last_run_at = excluded.last_run_at,
+         last_run_status = excluded.last_run_status,
+         last_error = excluded.last_error,
+         last_task_id = excluded.last_task_id,
+         updated_at = excluded.updated_at`
+    )
+      .bind(
+        job.id,
+        job.workspaceId,
+        job.name,
+        job.url ?? null,
+        job.recipeId ?? null,
+        job.instructions ?? null,
+        job.engine,
+        job.waitFor ?? null,
+        job.provider ?? null,
+        job.model ?? null,
+        job.schedule,
+        job.jitterSeconds,
+        job.catchUp,
+        job.status,
+        job.scheduledFor,
+        job.nextRunAt,
+        job.lastRunAt ?? null,
+        job.lastRunStatus ?? null,
+        job.lastError ?? null,
+        job.lastTaskId ?? null,
+        job.createdBy ?? null,
+        job.createdAt,
+        job.updatedAt
+      )
+      .run();
+  }
+  
+  async getJob(id: string): Promise<ScheduledJob | null> {
+    const row = await this.db.prepare('SELECT * FROM scheduled_jobs WHERE id = ?')
+      .bind(id)
+      .first<ScheduledJobRow>();
+    
+    return row ? toJob(row) : null;
+  }
+  
+  async listJobs(workspaceId: string): Promise<ScheduledJob[]> {
+    const { results } = await this.db.prepare('SELECT * FROM scheduled_jobs WHERE workspace_id = ? ORDER BY created_at')
+      .bind(workspaceId)
+      .all<ScheduledJobRow>();
+    
+    return results.map(toJob);
+  }
+  
+  async listDueJobs(now: string, limit: number): Promise<ScheduledJob[]> {
+    // Served by the index on (status, next_run_at)
+    const { results } = await this.db.prepare(
+      `SELECT * FROM scheduled_jobs
+       WHERE status = 'active' AND next_run_at <= ? AND (locked_until IS NULL OR locked_until <= ?)
+       ORDER BY next_run_at
+       LIMIT ?`
+    )
+      .bind(now, now, limit)
+      .all<ScheduledJobRow>();
+    
+    return results.map(toJob);
+  }
+  
+  async lockJob(id: string, now: string, lockedUntil: string, scheduledFor?: string): Promise<boolean> {
+    // A single conditional update, so two schedulers cannot both take the lock, nor take it
+    // for a run that another scheduler has finished in the meantime
+    const due = scheduledFor !== undefined;
+    const result = await this.db.prepare(
+      `UPDATE scheduled_jobs SET locked_until = ?
+       WHERE id = ? AND (locked_until IS NULL OR locked_until <= ?)${due ? ` AND status = 'active' AND scheduled_for = ?` : ''}`
+    )
+      .bind(lockedUntil, id, now, ...(due ? [scheduledFor] : []))
+      .run();
+    
+    return result.meta.changes > 0;
+  }
+  
+  async unlockJob(id: string): Promise<void> {
+    await this.db.prepare('UPDATE scheduled_jobs SET locked_until = NULL WHERE id = ?').bind(id).run();
+  }
+  
+  async deleteJob(id: string): Promise<boolean> {
+    const result = await this.db.prepare('DELETE FROM scheduled_jobs WHERE id = ?').bind(id).run();
+    return result.meta.changes > 0;
+  }
+  
+  async saveAlertRule(rule: AlertRule): Promise<void> {
+    await this.db.prepare(
+      `INSERT OR REPLACE INTO alert_rules (id, workspace_id, name, job_id, recipe_id, url, condition, webhook_url, webhook_secret,
+         cooldown_minutes, enabled, last_triggered_at, created_by, created_at, updated_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+    )
+      .bind(
+        rule.id,
+        rule.workspaceId,
+        rule.name,
+        rule.jobId ?? null,
+        rule.recipeId ?? null,
+        rule.url ?? null,
+        JSON.stringify(rule.condition),
+        rule.webhookUrl ?? null,
+        rule.webhookSecret,
+        rule.cooldownMinutes,
+        rule.enabled ? 1 : 0,
+        rule.lastTriggeredAt ?? null,
+        rule.createdBy ?? null,
+        rule.createdAt,
+        rule.updatedAt
+      )
+      .run();
+  }
+  
+  async getAlertRule(id: string): Promise<AlertRule | null> {
+    const row = await this.db.prepare('SELECT * FROM alert_rules WHERE id = ?')
+      .bind(id)
+      .first<AlertRuleRow>();
+    
+    return row ? toAlertRule(row) : null;
+  }
+  
+  async listAlertRules(workspaceId: string): Promise<AlertRule[]> {
+    const { results } = await this.db.prepare('SELECT * FROM alert_rules WHERE workspace_id = ? ORDER BY created_at')
+      .bind(workspaceId)
+      .all<AlertRuleRow>();
+    
+    return results.map(toAlertRule);
+  }
+  
+  async deleteAlertRule(id: string): Promise<boolean> {
+    const result = await this.db.prepare('DELETE FROM alert_rules WHERE id = ?').bind(id).run();
+    return result.meta.changes > 0;
+  }
+  
+  async saveAlert(alert: Alert): Promise<void> {
+    await this.db.prepare(
+      `INSERT OR REPLACE INTO alerts (id, workspace_id, rule_id, rule_name, condition, job_id, recipe_id, url, task_id, message,
+         matches, diff, created_at, read_at, delivery_status, delivery_attempts, next_attempt_at, last_attempt_at,
+         last_status_code, last_error, delivered_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+    )
+      .bind(
+        alert.id,
+        alert.workspaceId,
+        alert.ruleId,
+        alert.ruleName,
+        JSON.stringify(alert.condition),
+        alert.jobId ?? null,
+        alert.recipeId ?? null,
+        alert.url,
+        alert.taskId ?? null,
+        alert.message,
+        JSON.stringify(alert.matches),
+        JSON.stringify(alert.diff),
+        alert.createdAt,
+        alert.readAt ?? null,
+        alert.delivery?.status ?? null,
+        alert.delivery?.attempts ?? 0,
+        alert.delivery?.nextAttemptAt ?? null,
+        alert.delivery?.lastAttemptAt ?? null,
+        alert.delivery?.lastStatusCode ?? null,
+        alert.delivery?.lastError ?? null,
+        alert.delivery?.deliveredAt ?? null
+      )
+      .run();
+  }
+  
+  async getAlert(id: string): Promise<Alert | null> {
+    const row = await this.db.prepare('SELECT * FROM alerts WHERE id = ?')
+      .bind(id)
+      .first<AlertRow>();
+    
+    return row ? toAlert(row) : null;
+  }
+  
+  async listAlerts(query: AlertQuery): Promise<AlertPage> {
+    const { limit = 20 } = query;
+    const after = query.cursor ? decodeCursor(query.cursor) : null;
+    
+    const conditions = ['workspace_id = ?'];
+    const params: unknown[] = [query.workspaceId];
+    
+    if (query.unread) {
+      conditions.push('read_at IS NULL');
+    }
+    if (query.ruleId) {
+      conditions.push('rule_id = ?');
+      params.push(query.ruleId);
+    }
+    if (query.deliveryStatus) {
+      conditions.push('delivery_status = ?');
+      params.push(query.deliveryStatus);
+    }
+    if (after) {
+      conditions.push('(created_at < ? OR (created_at = ? AND id < ?))');
+      params.push(after.key, after.key, after.id);
+    }
+    
+    // Served by the index on (workspace_id, created_at DESC, id DESC); diffs stay out of the feed
+    const [{ results }, unread] = await Promise.all([
+      this.db.prepare(
+        `SELECT id, workspace_id, rule_id, rule_name, condition, job_id, recipe_id, url, task_id, message, matches, created_at, read_at,
+           delivery_status, delivery_attempts, next_attempt_at, last_attempt_at, last_status_code, last_error, delivered_at
+         FROM alerts WHERE ${conditions.join(' AND ')}
+         ORDER BY created_at DESC, id DESC
+         LIMIT ?`
+      )
+        .bind(...params, limit + 1)
+        .all<AlertRow>(),
+      this.db.prepare('SELECT COUNT(*) AS count FROM alerts WHERE workspace_id = ? AND read_at IS NULL')
+        .bind(query.workspaceId)
+        .first<{ count: number }>(),
+    ]);
+    
+    const last = results[limit - 1];
+    return {
+      alerts: results.slice(0, limit).map((row: AlertRow) => {
+        const { diff, ...alert } = toAlert(row);
+        return alert;
+      }),
+      nextCursor: results.length > limit ? encodeCursor({ key: last.created_at, id: last.id }) : null,
+      unread: unread?.count ?? 0,
+    };
+  }
+  
+  async listDueDeliveries(now: string, limit: number): Promise<Alert[]> {
+    // Served by the index on (delivery_status, next_attempt_at)
+    const { results } = await this.db.prepare(
+      `SELECT * FROM alerts
+       WHERE delivery_status = 'pending' AND next_attempt_at <= ?
+       ORDER BY next_attempt_at
+       LIMIT ?`
+    )
+      .bind(now, limit)
+      .all<AlertRow>();
+    
+    return results.map(toAlert);
+  }
+  
+  async markAlertsRead(workspaceId: string, ids: string[] | undefined, readAt: string): Promise<number> {
+    if (ids && ids.length === 0) {
+      return 0;
+    }
+    
+    const result = await this.db.prepare(
+      `UPDATE alerts SET read_at = ? WHERE workspace_id = ? AND read_at IS NULL${ids ? ` AND id IN (${ids.map(() => '?').join(', ')})` : ''}`
+    )
+      .bind(readAt, workspaceId, ...(ids || []))
+      .run();
+    
+    return result.meta.changes;
+  }
+  
+  async saveRecipe(recipe: Recipe): Promise<void> {
+    await this.db.prepare(
+      `INSERT OR REPLACE INTO recipes (id, workspace_id, name, url, instructions, selectors, engine, wait_for, version, created_by,
+         created_at, updated_at, last_run_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+    )
+      .bind(
+        recipe.id,
+        recipe.workspaceId,
+        recipe.name,
+        recipe.url,
+        recipe.instructions,
+        JSON.stringify(recipe.selectors),
+        recipe.engine,
+        recipe.waitFor ?? null,
+        recipe.version,
+        recipe.createdBy ?? null,
+        recipe.createdAt,
+        recipe.updatedAt,
+        recipe.lastRunAt ?? null
+      )
+      .run();
+  }
+  
+  async getRecipe(id: string): Promise<Recipe | null> {
+    const row = await this.db.prepare('SELECT * FROM recipes WHERE id = ?')
+      .bind(id)
+      .first<RecipeRow>();
+    
+    return row ? toRecipe(row) : null;
+  }
+  
+  async listRecipes(workspaceId: string): Promise<Recipe[]> {
+    const { results } = await this.db.prepare('SELECT * FROM recipes WHERE workspace_id = ? ORDER BY updated_at DESC')
+      .bind(workspaceId)
+      .all<RecipeRow>();
+    
+    return results.map(toRecipe);
+  }
+  
+  async deleteRecipe(id: string): Promise<boolean> {
+    const [, result] = await this.db.batch([
+      this.db.prepare('DELETE FROM recipe_runs WHERE recipe_id = ?').bind(id),
+      this.db.prepare('DELETE FROM recipes WHERE id = ?').bind(id),
+    ]);
+    
+    return result.meta.changes > 0;
+  }
+  
+  async saveRecipeRun(run: RecipeRun, keep: number): Promise<void> {
+    // Trimmed in the same batch, so the table holds a bounded number of runs per recipe
+    await this.db.batch([
+      this.db.prepare(
+        `INSERT INTO recipe_runs (recipe_id, recipe_version, url, run_at, stats, examples, drifted)
+         VALUES (?, ?, ?, ?, ?, ?, ?)`
+      ).bind(
+        run.recipeId,
+        run.recipeVersion,
+        run.url,
+        run.at,
+        JSON.stringify(run.stats),
+        JSON.stringify(run.examples),
+        run.drifted ? 1 : 0
+      ),
+      this.db.prepare(
+        `DELETE FROM recipe_runs WHERE recipe_id = ? AND id NOT IN (
+           SELECT id FROM recipe_runs WHERE recipe_id = ? ORDER BY id DESC LIMIT ?
+         )`
+      ).bind(run.recipeId, run.recipeId, keep),
+    ]);
+  }
+  
+  async listRecipeRuns(recipeId: string): Promise<RecipeRun[]> {
+    // Served by the index on (recipe_id, id DESC)
+    const { results } = await this.db.prepare('SELECT * FROM recipe_runs WHERE recipe_id = ? ORDER BY id DESC')
+      .bind(recipeId)
+      .all<RecipeRunRow>();
+    
+    return results.map(toRecipeRun);
+  }
+  
+  async saveRepairProposal(proposal: RepairProposal): Promise<void> {
+    await this.db.prepare(
+      `INSERT OR REPLACE INTO repair_proposals (id, recipe_id, workspace_id, recipe_version, url, drift, sources, before_preview,
+         after_preview, status, created_at, reviewed_at, reviewed_by)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+    )
+      .bind(
+        proposal.id,
+        proposal.recipeId,
+        proposal.workspaceId,
+        proposal.recipeVersion,
+        proposal.url,
+        JSON.stringify(proposal.drift),
+        JSON.stringify(proposal.sources),
+        JSON.stringify(proposal.before),
+        JSON.stringify(proposal.after),
+        proposal.status,
+        proposal.createdAt,
+        proposal.reviewedAt ?? null,
+        proposal.reviewedBy ?? null
+      )
+      .run();
+  }
+  
+  async getRepairProposal(id: string): Promise<RepairProposal | null> {
+    const row = await this.db.prepare('SELECT * FROM repair_proposals WHERE id = ?')
+      .bind(id)
+      .first<RepairProposalRow>();
+    
+    return row ? toRepairProposal(row) : null;
+  }
+  
+  async listRepairProposals(workspaceId: string, filter: RepairProposalFilter): Promise<RepairProposal[]> {
+    const conditions = ['workspace_id = ?'];
+    const params: unknown[] = [workspaceId];
+    
+    if (filter.recipeId) {
+      conditions.push('recipe_id = ?');
+      params.push(filter.recipeId);
+    }
+    if (filter.status) {
+      conditions.push('status = ?');
+      params.push(filter.status);
+    }
+    
+    // Served by the index on (workspace_id, created_at DESC)
+    const { results } = await this.db.prepare(
+      `SELECT * FROM repair_proposals WHERE ${conditions.join(' AND ')} ORDER BY created_at DESC`
+    )
+      .bind(...params)
+      .all<RepairProposalRow>();
+    
+    return results.map(toRepairProposal);
+  }
+}
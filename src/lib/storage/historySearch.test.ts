@@ -0,0 +1,58 @@
+// src/lib/storage/historySearch.test.ts
+import { describe, expect, it } from 'vitest';
+import { InvalidCursorError, decodeCursor, encodeCursor, parseLimit, toFtsQuery } from './historySearch';
+
+describe('toFtsQuery', () => {
+  it('quotes every term', () => {
+    expect(toFtsQuery('price  drop')).toBe('"price" "drop"');
+  });
+  
+  it('searches operators and punctuation as text', () => {
+    expect(toFtsQuery('a OR b NEAR(c) -d')).toBe('"a" "OR" "b" "NEAR(c)" "-d"');
+    expect(toFtsQuery('say "hi"')).toBe('"say" """hi"""');
+  });
+  
+  it('keeps a trailing * as a prefix search', () => {
+    expect(toFtsQuery('scrap* *')).toBe('"scrap"* "*"');
+  });
+  
+  it('returns null without terms', () => {
+    expect(toFtsQuery('')).toBeNull();
+    expect(toFtsQuery('   \n ')).toBeNull();
+  });
+});
+
+describe('search cursors', () => {
+  it('round-trip rank and timestamp keys', () => {
+    expect(decodeCursor(encodeCursor({ key: -1.25, id: 'task_1' }))).toEqual({ key: -1.25, id: 'task_1' });
+    expect(decodeCursor(encodeCursor({ key: '2024-01-01T00:00:00.000Z', id: 'task_2' }))).toEqual({ key: '2024-01-01T00:00:00.000Z', id: 'task_2' });
+  });
+  
+  it('are safe to put in a URL', () => {
+    expect(encodeCursor({ key: '???>>>', id: '~~~' })).toMatch(/^[A-Za-z0-9_-]+$/);
+  });
+  
+  it.each([
+    ['not a cursor'],
+    [''],
+    [Buffer.from('{"key":null,"id":"x"}').toString('base64url')],
+    [Buffer.from('{"key":1}').toString('base64url')],
+    [Buffer.from('null').toString('base64url')],
+  ])('reject %j', value => {
+    expect(() => decodeCursor(value)).toThrow(InvalidCursorError);
+  });
+});
+
+describe('parseLimit', () => {
+  it('uses the fallback when the value is missing or not a number', () => {
+    expect(parseLimit(null, 20, 100)).toBe(20);
+    expect(parseLimit('abc', 20, 100)).toBe(20);
+  });
+  
+  it('clamps the value between 1 and the maximum', () => {
+    expect(parseLimit('50', 20, 100)).toBe(50);
+    expect(parseLimit('0', 20, 100)).toBe(1);
+    expect(parseLimit('-5', 20, 100)).toBe(1);
+    expect(parseLimit('100000', 20, 100)).toBe(100);
+  });
+});
@@ -0,0 +1,162 @@
+// src/lib/storage/historySearch.ts
+import type { ScrapingTask, TaskStatus } from './historyStorage';
+
+/**
+ * Interface for a history search
+ */
+export interface HistorySearchQuery {
+  // Full-text query; terms are ANDed, a trailing * matches prefixes
+  q?: string;
+  userId?: string;
+  // Matches the domain and its subdomains
+  domain?: string;
+  from?: string;
+  to?: string;
+  status?: TaskStatus;
+  // Tasks must have every tag
+  tags?: string[];
+  limit?: number;
+  cursor?: string;
+}
+
+export type SearchField = 'url' | 'title' | 'instructions' | 'body' | 'processed';
+
+/**
+ * Interface for a highlighted excerpt of a matching field
+ */
+export interface SearchSnippet {
+  field: SearchField;
+  text: string;
+}
+
+/**
+ * Interface for a search result
+ */
+export interface HistorySearchHit {
+  task: Omit<ScrapingTask, 'results'> & { title?: string };
+  // Lower ranks first; only set for full-text queries
+  rank?: number;
+  snippets: SearchSnippet[];
+}
+
+/**
+ * Interface for a page of search results
+ */
+export interface HistorySearchPage {
+  hits: HistorySearchHit[];
+  nextCursor: string | null;
+}
+
+/**
+ * Interface for the position after the last result of a page
+ * Full-text results are ordered by rank, others by timestamp, both with the ID as tie-breaker
+ */
+export interface SearchCursor {
+  key: number | string;
+  id: string;
+}
+
+/**
+ * Error raised for a cursor that was not returned by a search
+ */
+export class InvalidCursorError extends Error {
+  constructor() {
+    super('Invalid search cursor');
+    this.name = 'InvalidCursorError';
+  }
+}
+
+// Markers around matched terms in snippets
+export const SNIPPET_OPEN = '**';
+export const SNIPPET_CLOSE = '**';
+
+// Long pages are indexed up to this many characters
+const MAX_INDEXED_BODY = 200000;
+
+/**
+ * Get the searchable text of a task from its stored results
+ * Handles single pages, crawls and results with processed Groq output
+ * @param task Scraping task
+ * @returns Searchable fields
+ */
+export function toSearchFields(task: ScrapingTask): Record<SearchField, string> & { domain: string } {
+  const results = task.results || {};
+  // The scraper page saves the whole scrape response, whose page data sits under results
+  const scraped = results.results || results;
+  const pages: any[] = Array.isArray(scraped.pages) ? scraped.pages : [scraped];
+  const processed = results.processed ?? scraped.processed;
+  
+  let domain = '';
+  try {
+    domain = new URL(task.url).hostname.toLowerCase();
+  } catch {
+    // Keep tasks with malformed URLs searchable by text
+  }
+  
+  return {
+    url: task.url,
+    domain,
+    title: pages.map(page => page.title || page.article?.title).filter(Boolean).join(' | '),
+    instructions: task.instructions || '',
+    body: pages
+      .map(page => page.article?.text || page.bodyText || '')
+      .join('\n\n')
+      .slice(0, MAX_INDEXED_BODY),
+    processed: processed === undefined ? '' : typeof processed === 'string' ? processed : JSON.stringify(processed),
+  };
+}
+
+/**
+ * Turn user input into an FTS5 query that cannot fail to parse
+ * Every term is quoted, so operators and punctuation are searched as text
+ * @param q User query
+ * @returns FTS5 query, or null if there are no terms
+ */
+export function toFtsQuery(q: string): string | null {
+  const terms = q.split(/\s+/).filter(Boolean).map(term => {
+    const prefix = term.length > 1 && term.endsWith('*');
+    const text = (prefix ? term.slice(0, -1) : term).replace(/"/g, '""');
+    return `"${text}"${prefix ? '*' : ''}`;
+  });
+  
+  return terms.length > 0 ? terms.join(' ') : null;
+}
+
+/**
+ * Encode the position after a result
+ * @param cursor Cursor
+ * @returns Opaque cursor string
+ */
+export function encodeCursor(cursor: SearchCursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+}
+
+/**
+ * Decode a cursor string
+ * @param value Cursor string
+ * @returns Cursor
+ * @throws InvalidCursorError if the cursor is malformed
+ */
+export function decodeCursor(value: string): SearchCursor {
+  try {
+    const cursor = JSON.parse(Buffer.from(value, 'base64url').toString('utf8'));
+    if (['number', 'string'].includes(typeof cursor.key) && typeof cursor.id === 'string') {
+      return cursor;
+    }
+  } catch {
+    // Fall through to the error below
+  }
+  throw new InvalidCursorError();
+}
+
+/**
+ * Read a page size from a query parameter
+ * @param value Query parameter value
+ * @param fallback Page size when the parameter is missing or not a number
+ * @param max Largest page size
+ * @returns Page size between 1 and max
+ */
+export function parseLimit(value: string | null, fallback: number, max: number): number {
+  const limit = value ? parseInt(value, 10) : NaN;
+  return Math.min(Math.max(Number.isNaN(limit) ? fallback : limit, 1), max);
+}
@@ -1,10 +1,9 @@
 // src/lib/storage/historyStorage.ts
-import { getCacheItem, setCacheItem } from '@/lib/cache/memoryCache';
+import { getStorageAdapter } from './adapter';
+import type { HistorySearchQuery, HistorySearchPage } from './historySearch';
+import { recordSnapshot, snapshotContent } from './snapshotStorage';
 
-// In a real implementation, this would use a database
-// For now, we'll use the memory cache for simplicity
-const HISTORY_CACHE_PREFIX = 'history:';
-const HISTORY_LIST_KEY = 'history:list';
+export type TaskStatus = 'completed' | 'failed';
 
 export interface ScrapingTask {
   id: string;
@@ -13,31 +12,56 @@ export interface ScrapingTask {
   instructions?: string;
   waitFor?: string;
   timestamp: string;
+  status?: TaskStatus;
+  tags?: string[];
   results: any;
 }
 
+/**
+ * Interface for a saved scraping task and the snapshot it recorded
+ */
+export interface SavedScrapingTask extends ScrapingTask {
+  // Missing for failed tasks and when recording the snapshot failed
+  snapshot?: { id: string; version: number; changed: boolean };
+}
+
 /**
  * Save a scraping task to history
  * @param task Scraping task to save
- * @returns Saved task with ID
+ * @param options Owner of the snapshot timeline; defaults to the task's user
+ * @returns Saved task with ID and the snapshot it recorded
  */
-export async function saveScrapingTask(task: Omit<ScrapingTask, 'id'>): Promise<ScrapingTask> {
+export async function saveScrapingTask(
+  task: Omit<ScrapingTask, 'id'>,
+  options: { snapshotOwner?: string } = {}
+): Promise<SavedScrapingTask> {
   // Generate a unique ID
   const id = Date.now().toString(36) + Math.random().toString(36).substring(2);
   
   // Create the task with ID
-  const taskWithId: ScrapingTask = {
+  const taskWithId: SavedScrapingTask = {
     ...task,
     id,
   };
   
   // Save the task
-  setCacheItem(`${HISTORY_CACHE_PREFIX}${id}`, taskWithId, 30 * 24 * 60 * 60 * 1000); // 30 days
+  const storage = await getStorageAdapter();
+  await storage.saveTask(taskWithId);
   
-  // Update the list of tasks
-  const taskList = getCacheItem(HISTORY_LIST_KEY) || [];
-  taskList.unshift(id);
-  setCacheItem(HISTORY_LIST_KEY, taskList, 30 * 24 * 60 * 60 * 1000); // 30 days
+  // Add successful results to the page's snapshot timeline; the task is kept even if this fails
+  if (taskWithId.status !== 'failed') {
+    try {
+      const { snapshot, created } = await recordSnapshot({
+        url: taskWithId.url,
+        owner: options.snapshotOwner || (taskWithId.userId ? `user:${taskWithId.userId}` : undefined),
+        taskId: id,
+        ...snapshotContent(taskWithId),
+      });
+      taskWithId.snapshot = { id: snapshot.id, version: snapshot.version, changed: created };
+    } catch (error) {
+      console.error('Error recording snapshot:', error);
+    }
+  }
   
   return taskWithId;
 }
@@ -48,7 +72,8 @@ export async function saveScrapingTask(task: Omit<ScrapingTask, 'id'>): Promise<
  * @returns Scraping task or null
  */
 export async function getScrapingTask(id: string): Promise<ScrapingTask | null> {
-  return getCacheItem(`${HISTORY_CACHE_PREFIX}${id}`) || null;
+  const storage = await getStorageAdapter();
+  return storage.getTask(id);
 }
 
 /**
@@ -58,17 +83,8 @@ export async function getScrapingTask(id: string): Promise<ScrapingTask | null>
  * @returns Array of scraping tasks
  */
 export async function getAllScrapingTasks(userId?: string, limit = 100): Promise<ScrapingTask[]> {
-  const taskList = getCacheItem(HISTORY_LIST_KEY) || [];
-  const tasks: ScrapingTask[] = [];
-  
-  for (const id of taskList.slice(0, limit)) {
-    const task = getCacheItem(`${HISTORY_CACHE_PREFIX}${id}`);
-    if (task && (!userId || task.userId === userId)) {
-      tasks.push(task);
-    }
-  }
-  
-  return tasks;
+  const storage = await getStorageAdapter();
+  return storage.listTasks({ userId, limit });
 }
 
 /**
@@ -77,13 +93,16 @@ export async function getAllScrapingTasks(userId?: string, limit = 100): Promise
  * @returns Success status
  */
 export async function deleteScrapingTask(id: string): Promise<boolean> {
-  // Remove the task
-  setCacheItem(`${HISTORY_CACHE_PREFIX}${id}`, null, 0);
-  
-  // Update the list of tasks
-  const taskList = getCacheItem(HISTORY_LIST_KEY) || [];
-  const newTaskList = taskList.filter((taskId: string) => taskId !== id);
-  setCacheItem(HISTORY_LIST_KEY, newTaskList, 30 * 24 * 60 * 60 * 1000); // 30 days
-  
-  return true;
+  const storage = await getStorageAdapter();
+  return storage.deleteTask(id);
+}
+
+/**
+ * Search scraping tasks by text and filters
+ * @param query Search query
+ * @returns Ranked results with snippets and the cursor of the next page
+ */
+export async function searchScrapingTasks(query: HistorySearchQuery): Promise<HistorySearchPage> {
+  const storage = await getStorageAdapter();
+  return storage.searchTasks(query);
 }
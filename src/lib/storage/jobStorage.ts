@@ -0,0 +1,210 @@
+// src/lib/storage/jobStorage.ts
+import { z } from 'zod';
+import { getStorageAdapter } from './adapter';
+import { SCRAPE_ENGINES, type ScrapeEngine } from '@/lib/scraping/engine';
+import { parseCron } from '@/lib/scheduler/cron';
+
+export const JOB_STATUSES = ['active', 'paused'] as const;
+export type JobStatus = typeof JOB_STATUSES[number];
+
+// What to do with runs missed while the scheduler was down: run none, one, or each of them
+export const CATCH_UP_POLICIES = ['skip', 'once', 'all'] as const;
+export type CatchUpPolicy = typeof CATCH_UP_POLICIES[number];
+
+export type JobRunStatus = 'completed' | 'failed';
+
+/**
+ * Interface for a scheduled monitoring job
+ */
+export interface ScheduledJob {
+  id: string;
+  workspaceId: string;
+  name: string;
+  // Page to scrape; recipe jobs default to the recipe's page
+  url?: string;
+  recipeId?: string;
+  // Groq instructions applied to each run's results
+  instructions?: string;
+  engine: ScrapeEngine;
+  waitFor?: string;
+  provider?: string;
+  model?: string;
+  // Five-field cron expression, evaluated in UTC
+  schedule: string;
+  // Runs start up to this many seconds after their scheduled time, spreading jobs with the same schedule
+  jitterSeconds: number;
+  catchUp: CatchUpPolicy;
+  status: JobStatus;
+  // Scheduled time of the next run and when it is due, including jitter; null while paused
+  scheduledFor: string | null;
+  nextRunAt: string | null;
+  lastRunAt?: string;
+  lastRunStatus?: JobRunStatus;
+  lastError?: string;
+  // History task of the last run
+  lastTaskId?: string;
+  // Set while a run is in progress so overlapping ticks do not start it twice; only lockJob and unlockJob change it
+  lockedUntil?: string;
+  createdBy?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export const MAX_JITTER_SECONDS = 3600;
+
+// Fields a client may set on a job
+const jobFieldsSchema = z.object({
+  name: z.string().trim().min(1).max(200).optional(),
+  url: z.string().url().optional(),
+  recipeId: z.string().min(1).optional(),
+  instructions: z.string().max(10000).optional(),
+  engine: z.enum(SCRAPE_ENGINES as [ScrapeEngine, ...ScrapeEngine[]]).default('auto'),
+  waitFor: z.string().max(500).optional(),
+  provider: z.string().optional(),
+  model: z.string().optional(),
+  schedule: z.string().trim().min(1).superRefine((schedule, ctx) => {
+    try {
+      parseCron(schedule);
+    } catch (error) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: (error as Error).message });
+    }
+  }),
+  jitterSeconds: z.number().int().min(0).max(MAX_JITTER_SECONDS).default(0),
+  catchUp: z.enum(CATCH_UP_POLICIES).default('once'),
+  status: z.enum(JOB_STATUSES).default('active'),
+});
+
+/**
+ * Schema for a new job; it scrapes a URL, runs a recipe, or runs a recipe against another URL
+ */
+export const jobInputSchema = jobFieldsSchema.refine(job => job.url || job.recipeId, {
+  message: 'A URL or a recipe ID is required',
+  path: ['url'],
+});
+
+/**
+ * Schema for changes to a job; fields left out keep their values
+ */
+export const jobUpdateSchema = jobFieldsSchema.partial();
+
+export type JobInput = z.infer<typeof jobInputSchema>;
+
+/**
+ * Save a new job
+ * @param job Job fields
+ * @returns Saved job with ID
+ */
+export async function saveJob(job: Omit<ScheduledJob, 'id' | 'createdAt' | 'updatedAt'>): Promise<ScheduledJob> {
+  // Generate a unique ID
+  const id = Date.now().toString(36) + Math.random().toString(36).substring(2);
+  const now = new Date().toISOString();
+  
+  const saved: ScheduledJob = {
+    ...job,
+    id,
+    createdAt: now,
+    updatedAt: now,
+  };
+  
+  const storage = await getStorageAdapter();
+  await storage.saveJob(saved);
+  return saved;
+}
+
+/**
+ * Get a job by ID
+ * @param id Job ID
+ * @param workspaceId Workspace the job must belong to
+ * @returns Job or null
+ */
+export async function getJob(id: string, workspaceId: string): Promise<ScheduledJob | null> {
+  const storage = await getStorageAdapter();
+  const job = await storage.getJob(id);
+  return job && job.workspaceId === workspaceId ? job : null;
+}
+
+/**
+ * Get all jobs of a workspace
+ * @param workspaceId Workspace ID
+ * @returns Jobs, oldest first
+ */
+export async function listJobs(workspaceId: string): Promise<ScheduledJob[]> {
+  const storage = await getStorageAdapter();
+  return storage.listJobs(workspaceId);
+}
+
+/**
+ * Get active jobs whose next run is due
+ * @param now Current time
+ * @param limit Maximum number of jobs to return
+ * @returns Due jobs, most overdue first
+ */
+export async function getDueJobs(now: Date, limit = 50): Promise<ScheduledJob[]> {
+  const storage = await getStorageAdapter();
+  return storage.listDueJobs(now.toISOString(), limit);
+}
+
+/**
+ * Update a job
+ * @param id Job ID
+ * @param changes Fields to change
+ * @returns Updated job, or null if it does not exist
+ */
+export async function updateJob(id: string, changes: Partial<Omit<ScheduledJob, 'id' | 'workspaceId' | 'createdAt'>>): Promise<ScheduledJob | null> {
+  const storage = await getStorageAdapter();
+  const job = await storage.getJob(id);
+  
+  if (!job) {
+    return null;
+  }
+  
+  const updated: ScheduledJob = {
+    ...job,
+    ...changes,
+    updatedAt: new Date().toISOString(),
+  };
+  
+  await storage.saveJob(updated);
+  return updated;
+}
+
+/**
+ * Take the run lock of a job
+ * Only one caller gets the lock until it is released or expires
+ * @param id Job ID
+ * @param now Current time
+ * @param lockMs How long the lock lasts if it is never released
+ * @param scheduledFor Scheduled time the caller read; the lock is refused once the job is paused or
+ * has moved on to a later run, so a stale read cannot run the same time twice
+ * @returns Whether the lock was taken
+ */
+export async function lockJob(id: string, now: Date, lockMs: number, scheduledFor?: string): Promise<boolean> {
+  const storage = await getStorageAdapter();
+  return storage.lockJob(id, now.toISOString(), new Date(now.getTime() + lockMs).toISOString(), scheduledFor);
+}
+
+/**
+ * Release the run lock of a job
+ * @param id Job ID
+ */
+export async function unlockJob(id: string): Promise<void> {
+  const storage = await getStorageAdapter();
+  await storage.unlockJob(id);
+}
+
+/**
+ * Delete a job
+ * @param id Job ID
+ * @param workspaceId Workspace the job must belong to
+ * @returns Success status
+ */
+export async function deleteJob(id: string, workspaceId: string): Promise<boolean> {
+  const job = await getJob(id, workspaceId);
+  
+  if (!job) {
+    return false;
+  }
+  
+  const storage = await getStorageAdapter();
+  return storage.deleteJob(id);
+}
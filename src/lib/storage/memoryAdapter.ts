@@ -0,0 +1,370 @@
+// src/lib/storage/memoryAdapter.ts
+import type { StorageAdapter, TaskQuery } from './adapter';
+import type { ScrapingTask } from './historyStorage';
+import type { Snapshot, SnapshotSummary } from './snapshotStorage';
+import type { ScheduledJob } from './jobStorage';
+import type { AlertRule, Alert, AlertQuery, AlertPage } from './alertStorage';
+import type { Recipe, RecipeRun } from './recipeStorage';
+import type { RepairProposal, RepairProposalFilter } from './repairStorage';
+import {
+  toSearchFields,
+  encodeCursor,
+  decodeCursor,
+  SNIPPET_OPEN,
+  SNIPPET_CLOSE,
+  type HistorySearchQuery,
+  type HistorySearchPage,
+  type HistorySearchHit,
+  type SearchField,
+  type SearchSnippet,
+} from './historySearch';
+
+// Same field weights as the D1 full-text ranking
+const FIELD_WEIGHTS: Record<SearchField, number> = {
+  url: 1,
+  title: 3,
+  instructions: 2,
+  body: 1,
+  processed: 1,
+};
+
+// Entries kept per collection; the adapter is also the fallback when D1 is not bound, so it
+// must not grow without limit. Jobs, alert rules and recipes are created by hand and are not capped
+const MAX_TASKS = 5000;
+const MAX_SNAPSHOTS = 2000;
+const MAX_ALERTS = 5000;
+const MAX_REPAIR_PROPOSALS = 2000;
+
+/**
+ * Add an entry to a map, dropping the oldest entries once it holds more than the limit
+ * Maps keep insertion order, so the first keys are the oldest
+ * @param map Map to add to
+ * @param key Key of the entry
+ * @param value Value of the entry
+ * @param max Maximum number of entries
+ */
+function setCapped<T>(map: Map<string, T>, key: string, value: T, max: number): void {
+  map.set(key, value);
+  
+  while (map.size > max) {
+    map.delete(map.keys().next().value as string);
+  }
+}
+
+/**
+ * Check a task against the filters of a search
+ * @param task Scraping task
+ * @param domain Domain of the task
+ * @param query Search query
+ * @returns Whether the task passes every filter
+ */
+function matchesFilters(task: ScrapingTask, domain: string, query: HistorySearchQuery): boolean {
+  const wanted = query.domain?.toLowerCase();
+  
+  return (!query.userId || task.userId === query.userId)
+    && (!wanted || domain === wanted || domain.endsWith(`.${wanted}`))
+    && (!query.from || task.timestamp >= query.from)
+    && (!query.to || task.timestamp <= query.to)
+    && (!query.status || (task.status || 'completed') === query.status)
+    && (!query.tags || query.tags.every(tag => task.tags?.includes(tag)));
+}
+
+/**
+ * Cut an excerpt around the first match and mark every matched term in it
+ * @param text Field text
+ * @param terms Lowercase search terms
+ * @returns Excerpt, or null if no term occurs
+ */
+function highlight(text: string, terms: string[]): string | null {
+  const lower = text.toLowerCase();
+  const first = Math.min(...terms.map(term => lower.indexOf(term)).filter(index => index >= 0));
+  
+  if (!isFinite(first)) {
+    return null;
+  }
+  
+  const start = Math.max(0, first - 40);
+  const end = Math.min(text.length, first + 80);
+  const pattern = new RegExp(terms.map(term => term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')).join('|'), 'gi');
+  const excerpt = text.slice(start, end).replace(pattern, match => `${SNIPPET_OPEN}${match}${SNIPPET_CLOSE}`);
+  
+  return `${start > 0 ? '…' : ''}${excerpt}${end < text.length ? '…' : ''}`;
+}
+
+/**
+ * Storage adapter that keeps everything in process memory
+ * Used in tests and local development; data is lost on restart and the oldest tasks,
+ * snapshots and alerts are dropped once a collection is full
+ */
+export class MemoryStorageAdapter implements StorageAdapter {
+  readonly name = 'memory';
+  private tasks = new Map<string, ScrapingTask>();
+  private snapshots = new Map<string, Snapshot>();
+  private jobs = new Map<string, ScheduledJob>();
+  private alertRules = new Map<string, AlertRule>();
+  private alerts = new Map<string, Alert>();
+  private recipes = new Map<string, Recipe>();
+  // Runs by recipe ID, most recent first
+  private recipeRuns = new Map<string, RecipeRun[]>();
+  private repairProposals = new Map<string, RepairProposal>();
+  
+  async saveTask(task: ScrapingTask): Promise<void> {
+    setCapped(this.tasks, task.id, task, MAX_TASKS);
+  }
+  
+  async getTask(id: string): Promise<ScrapingTask | null> {
+    return this.tasks.get(id) || null;
+  }
+  
+  async listTasks(query: TaskQuery = {}): Promise<ScrapingTask[]> {
+    const { userId, limit = 100 } = query;
+    
+    return Array.from(this.tasks.values())
+      .filter(task => !userId || task.userId === userId)
+      .sort((a, b) => b.timestamp.localeCompare(a.timestamp))
+      .slice(0, limit);
+  }
+  
+  async deleteTask(id: string): Promise<boolean> {
+    return this.tasks.delete(id);
+  }
+  
+  async searchTasks(query: HistorySearchQuery): Promise<HistorySearchPage> {
+    const { limit = 20 } = query;
+    const after = query.cursor ? decodeCursor(query.cursor) : null;
+    // Prefix markers make no difference to substring matching
+    const terms = (query.q || '').toLowerCase().split(/\s+/).map(term => term.replace(/\*$/, '')).filter(Boolean);
+    
+    const hits: HistorySearchHit[] = [];
+    for (const task of Array.from(this.tasks.values())) {
+      const { domain, ...fields } = toSearchFields(task);
+      if (!matchesFilters(task, domain, query)) {
+        continue;
+      }
+      
+      const { results, ...summary } = task;
+      const hit: HistorySearchHit = { task: { ...summary, title: fields.title }, snippets: [] };
+      
+      if (terms.length > 0) {
+        // Every term must occur somewhere; the score counts weighted occurrences
+        let score = 0;
+        for (const term of terms) {
+          const occurrences = (Object.keys(fields) as SearchField[])
+            .reduce((sum, field) => sum + FIELD_WEIGHTS[field] * (fields[field].toLowerCase().split(term).length - 1), 0);
+          if (occurrences === 0) {
+            score = 0;
+            break;
+          }
+          score += occurrences;
+        }
+        if (score === 0) {
+          continue;
+        }
+        
+        hit.rank = -score;
+        hit.snippets = (Object.keys(fields) as SearchField[])
+          .map((field): SearchSnippet | null => {
+            const text = highlight(fields[field], terms);
+            return text ? { field, text } : null;
+          })
+          .filter((snippet): snippet is SearchSnippet => snippet !== null);
+      }
+      
+      hits.push(hit);
+    }
+    
+    // Ranked results go lowest rank first, others newest first; the ID breaks ties like in SQL
+    const ranked = terms.length > 0;
+    const keyOf = (hit: HistorySearchHit) => ranked ? hit.rank! : hit.task.timestamp;
+    const compare = (keyA: number | string, idA: string, keyB: number | string, idB: string) => {
+      const order = keyA < keyB ? -1 : keyA > keyB ? 1 : idA < idB ? -1 : idA > idB ? 1 : 0;
+      return ranked ? order : -order;
+    };
+    
+    const page = hits
+      .sort((a, b) => compare(keyOf(a), a.task.id, keyOf(b), b.task.id))
+      .filter(hit => !after || compare(keyOf(hit), hit.task.id, after.key, after.id) > 0)
+      .slice(0, limit + 1);
+    
+    const last = page[limit - 1];
+    return {
+      hits: page.slice(0, limit),
+      nextCursor: page.length > limit ? encodeCursor({ key: keyOf(last), id: last.task.id }) : null,
+    };
+  }
+  
+  async saveSnapshot(snapshot: Snapshot): Promise<void> {
+    setCapped(this.snapshots, snapshot.id, snapshot, MAX_SNAPSHOTS);
+  }
+  
+  async getSnapshot(id: string): Promise<Snapshot | null> {
+    return this.snapshots.get(id) || null;
+  }
+  
+  async listSnapshots(seriesKey: string, limit: number): Promise<SnapshotSummary[]> {
+    return Array.from(this.snapshots.values())
+      .filter(snapshot => snapshot.seriesKey === seriesKey)
+      .sort((a, b) => b.version - a.version)
+      .slice(0, limit)
+      .map(({ body, records, ...summary }) => summary);
+  }
+  
+  async saveJob(job: ScheduledJob): Promise<void> {
+    this.jobs.set(job.id, { ...job, lockedUntil: this.jobs.get(job.id)?.lockedUntil });
+  }
+  
+  async getJob(id: string): Promise<ScheduledJob | null> {
+    return this.jobs.get(id) || null;
+  }
+  
+  async listJobs(workspaceId: string): Promise<ScheduledJob[]> {
+    return Array.from(this.jobs.values())
+      .filter(job => job.workspaceId === workspaceId)
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  }
+  
+  async listDueJobs(now: string, limit: number): Promise<ScheduledJob[]> {
+    return Array.from(this.jobs.values())
+      .filter(job => job.status === 'active' && job.nextRunAt !== null && job.nextRunAt <= now)
+      .filter(job => !job.lockedUntil || job.lockedUntil <= now)
+      .sort((a, b) => a.nextRunAt!.localeCompare(b.nextRunAt!))
+      .slice(0, limit);
+  }
+  
+  async lockJob(id: string, now: string, lockedUntil: string, scheduledFor?: string): Promise<boolean> {
+    const job = this.jobs.get(id);
+    
+    if (!job || (job.lockedUntil && job.lockedUntil > now)) {
+      return false;
+    }
+    if (scheduledFor !== undefined && (job.status !== 'active' || job.scheduledFor !== scheduledFor)) {
+      return false;
+    }
+    
+    this.jobs.set(id, { ...job, lockedUntil });
+    return true;
+  }
+  
+  async unlockJob(id: string): Promise<void> {
+    const job = this.jobs.get(id);
+    if (job) {
+      this.jobs.set(id, { ...job, lockedUntil: undefined });
+    }
+  }
+  
+  async deleteJob(id: string): Promise<boolean> {
+    return this.jobs.delete(id);
+  }
+  
+  async saveAlertRule(rule: AlertRule): Promise<void> {
+    this.alertRules.set(rule.id, rule);
+  }
+  
+  async getAlertRule(id: string): Promise<AlertRule | null> {
+    return this.alertRules.get(id) || null;
+  }
+  
+  async listAlertRules(workspaceId: string): Promise<AlertRule[]> {
+    return Array.from(this.alertRules.values())
+      .filter(rule => rule.workspaceId === workspaceId)
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  }
+  
+  async deleteAlertRule(id: string): Promise<boolean> {
+    return this.alertRules.delete(id);
+  }
+  
+  async saveAlert(alert: Alert): Promise<void> {
+    setCapped(this.alerts, alert.id, alert, MAX_ALERTS);
+  }
+  
+  async getAlert(id: string): Promise<Alert | null> {
+    return this.alerts.get(id) || null;
+  }
+  
+  async listAlerts(query: AlertQuery): Promise<AlertPage> {
+    const { limit = 20 } = query;
+    const after = query.cursor ? decodeCursor(query.cursor) : null;
+    const inWorkspace = Array.from(this.alerts.values()).filter(alert => alert.workspaceId === query.workspaceId);
+    
+    // Newest first, with the ID breaking ties like in SQL
+    const page = inWorkspace
+      .filter(alert => (!query.unread || !alert.readAt)
+        && (!query.ruleId || alert.ruleId === query.ruleId)
+        && (!query.deliveryStatus || alert.delivery?.status === query.deliveryStatus))
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt) || b.id.localeCompare(a.id))
+      .filter(alert => !after || alert.createdAt < after.key || (alert.createdAt === after.key && alert.id < after.id))
+      .slice(0, limit + 1);
+    
+    const last = page[limit - 1];
+    return {
+      alerts: page.slice(0, limit).map(({ diff, ...alert }) => alert),
+      nextCursor: page.length > limit ? encodeCursor({ key: last.createdAt, id: last.id }) : null,
+      unread: inWorkspace.filter(alert => !alert.readAt).length,
+    };
+  }
+  
+  async listDueDeliveries(now: string, limit: number): Promise<Alert[]> {
+    return Array.from(this.alerts.values())
+      .filter(alert => alert.delivery?.status === 'pending' && alert.delivery.nextAttemptAt !== null && alert.delivery.nextAttemptAt <= now)
+      .sort((a, b) => a.delivery!.nextAttemptAt!.localeCompare(b.delivery!.nextAttemptAt!))
+      .slice(0, limit);
+  }
+  
+  async markAlertsRead(workspaceId: string, ids: string[] | undefined, readAt: string): Promise<number> {
+    let marked = 0;
+    
+    for (const alert of Array.from(this.alerts.values())) {
+      if (alert.workspaceId === workspaceId && !alert.readAt && (!ids || ids.includes(alert.id))) {
+        this.alerts.set(alert.id, { ...alert, readAt });
+        marked++;
+      }
+    }
+    
+    return marked;
+  }
+  
+  async saveRecipe(recipe: Recipe): Promise<void> {
+    this.recipes.set(recipe.id, recipe);
+  }
+  
+  async getRecipe(id: string): Promise<Recipe | null> {
+    return this.recipes.get(id) || null;
+  }
+  
+  async listRecipes(workspaceId: string): Promise<Recipe[]> {
+    return Array.from(this.recipes.values())
+      .filter(recipe => recipe.workspaceId === workspaceId)
+      .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+  }
+  
+  async deleteRecipe(id: string): Promise<boolean> {
+    this.recipeRuns.delete(id);
+    return this.recipes.delete(id);
+  }
+  
+  async saveRecipeRun(run: RecipeRun, keep: number): Promise<void> {
+    const runs = [run, ...(this.recipeRuns.get(run.recipeId) || [])];
+    this.recipeRuns.set(run.recipeId, runs.slice(0, keep));
+  }
+  
+  async listRecipeRuns(recipeId: string): Promise<RecipeRun[]> {
+    return this.recipeRuns.get(recipeId) || [];
+  }
+  
+  async saveRepairProposal(proposal: RepairProposal): Promise<void> {
+    setCapped(this.repairProposals, proposal.id, proposal, MAX_REPAIR_PROPOSALS);
+  }
+  
+  async getRepairProposal(id: string): Promise<RepairProposal | null> {
+    return this.repairProposals.get(id) || null;
+  }
+  
+  async listRepairProposals(workspaceId: string, filter: RepairProposalFilter): Promise<RepairProposal[]> {
+    return Array.from(this.repairProposals.values())
+      .filter(proposal => proposal.workspaceId === workspaceId)
+      .filter(proposal => !filter.recipeId || proposal.recipeId === filter.recipeId)
+      .filter(proposal => !filter.status || proposal.status === filter.status)
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+}
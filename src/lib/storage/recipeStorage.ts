@@ -0,0 +1,150 @@
+// src/lib/storage/recipeStorage.ts
+import { getStorageAdapter } from './adapter';
+import type { FieldStats } from '@/lib/scraping/selectorDrift';
+
+export type RecipeEngine = 'static' | 'browser';
+
+/**
+ * Interface for a saved extraction recipe
+ */
+export interface Recipe {
+  id: string;
+  workspaceId: string;
+  name: string;
+  // Page the selectors were compiled against; runs may target other pages with the same layout
+  url: string;
+  instructions: string;
+  // Field name to CSS selector, the shape extractContentWithPuppeteer accepts
+  selectors: Record<string, string>;
+  engine: RecipeEngine;
+  waitFor?: string;
+  version: number;
+  createdBy?: string;
+  createdAt: string;
+  updatedAt: string;
+  lastRunAt?: string;
+}
+
+/**
+ * Interface for the record of one recipe run
+ */
+export interface RecipeRun {
+  recipeId: string;
+  recipeVersion: number;
+  url: string;
+  at: string;
+  stats: Record<string, FieldStats>;
+  // A few extracted values per field, kept from healthy runs to repair selectors later
+  examples: Record<string, string[]>;
+  drifted: boolean;
+}
+
+// Runs kept per recipe for baselines and repair examples
+const MAX_RUNS_PER_RECIPE = 20;
+
+/**
+ * Save a new recipe
+ * @param recipe Recipe fields
+ * @returns Saved recipe with ID
+ */
+export async function saveRecipe(recipe: Omit<Recipe, 'id' | 'version' | 'createdAt' | 'updatedAt'>): Promise<Recipe> {
+  // Generate a unique ID
+  const id = Date.now().toString(36) + Math.random().toString(36).substring(2);
+  const now = new Date().toISOString();
+  
+  const saved: Recipe = {
+    ...recipe,
+    id,
+    version: 1,
+    createdAt: now,
+    updatedAt: now,
+  };
+  
+  const storage = await getStorageAdapter();
+  await storage.saveRecipe(saved);
+  return saved;
+}
+
+/**
+ * Get a recipe by ID
+ * @param id Recipe ID
+ * @param workspaceId Workspace the recipe must belong to
+ * @returns Recipe or null
+ */
+export async function getRecipe(id: string, workspaceId: string): Promise<Recipe | null> {
+  const storage = await getStorageAdapter();
+  const recipe = await storage.getRecipe(id);
+  return recipe && recipe.workspaceId === workspaceId ? recipe : null;
+}
+
+/**
+ * Get all recipes of a workspace
+ * @param workspaceId Workspace ID
+ * @returns Recipes, most recently updated first
+ */
+export async function listRecipes(workspaceId: string): Promise<Recipe[]> {
+  const storage = await getStorageAdapter();
+  return storage.listRecipes(workspaceId);
+}
+
+/**
+ * Update a recipe; changing its selectors starts a new version
+ * @param id Recipe ID
+ * @param changes Fields to change
+ * @returns Updated recipe, or null if it does not exist
+ */
+export async function updateRecipe(id: string, changes: Partial<Omit<Recipe, 'id' | 'workspaceId' | 'createdAt'>>): Promise<Recipe | null> {
+  const storage = await getStorageAdapter();
+  const recipe = await storage.getRecipe(id);
+  
+  if (!recipe) {
+    return null;
+  }
+  
+  const selectorsChanged = changes.selectors && JSON.stringify(changes.selectors) !== JSON.stringify(recipe.selectors);
+  const updated: Recipe = {
+    ...recipe,
+    ...changes,
+    version: selectorsChanged ? recipe.version + 1 : recipe.version,
+    updatedAt: new Date().toISOString(),
+  };
+  
+  await storage.saveRecipe(updated);
+  return updated;
+}
+
+/**
+ * Delete a recipe
+ * @param id Recipe ID
+ * @param workspaceId Workspace the recipe must belong to
+ * @returns Success status
+ */
+export async function deleteRecipe(id: string, workspaceId: string): Promise<boolean> {
+  const recipe = await getRecipe(id, workspaceId);
+  
+  if (!recipe) {
+    return false;
+  }
+  
+  const storage = await getStorageAdapter();
+  return storage.deleteRecipe(id);
+}
+
+/**
+ * Record a recipe run, keeping the most recent runs only
+ * @param run Run record
+ */
+export async function recordRecipeRun(run: RecipeRun): Promise<void> {
+  const storage = await getStorageAdapter();
+  await storage.saveRecipeRun(run, MAX_RUNS_PER_RECIPE);
+}
+
+/**
+ * Get the recent runs of a recipe
+ * @param recipeId Recipe ID
+ * @returns Runs, most recent first
+ */
+export async function getRecipeRuns(recipeId: string): Promise<RecipeRun[]> {
+  const storage = await getStorageAdapter();
+  return storage.listRecipeRuns(recipeId);
+}
@@ -0,0 +1,113 @@
+// src/lib/storage/repairStorage.ts
+import { getStorageAdapter } from './adapter';
+import type { DriftReport } from '@/lib/scraping/selectorDrift';
+
+export type RepairStatus = 'pending' | 'approved' | 'rejected';
+
+/**
+ * Interface for what a selector map extracts from the page, shown to reviewers
+ */
+export interface SelectorPreview {
+  selectors: Record<string, string>;
+  values: Record<string, string[]>;
+  matches: Record<string, number>;
+}
+
+/**
+ * Interface for a proposed selector repair awaiting review
+ */
+export interface RepairProposal {
+  id: string;
+  recipeId: string;
+  workspaceId: string;
+  // Recipe version the repair was made against; a newer version makes it stale
+  recipeVersion: number;
+  url: string;
+  drift: DriftReport;
+  // How each repaired field was fixed
+  sources: Record<string, 'examples' | 'llm'>;
+  before: SelectorPreview;
+  after: SelectorPreview;
+  status: RepairStatus;
+  createdAt: string;
+  reviewedAt?: string;
+  reviewedBy?: string;
+}
+
+/**
+ * Interface for repair proposal filters
+ */
+export interface RepairProposalFilter {
+  recipeId?: string;
+  status?: RepairStatus;
+}
+
+/**
+ * Queue a repair proposal for review
+ * @param proposal Proposal fields
+ * @returns Saved proposal with ID
+ */
+export async function saveRepairProposal(proposal: Omit<RepairProposal, 'id' | 'status' | 'createdAt'>): Promise<RepairProposal> {
+  // Generate a unique ID
+  const id = Date.now().toString(36) + Math.random().toString(36).substring(2);
+  
+  const saved: RepairProposal = {
+    ...proposal,
+    id,
+    status: 'pending',
+    createdAt: new Date().toISOString(),
+  };
+  
+  const storage = await getStorageAdapter();
+  await storage.saveRepairProposal(saved);
+  return saved;
+}
+
+/**
+ * Get a repair proposal by ID
+ * @param id Proposal ID
+ * @param workspaceId Workspace the proposal must belong to
+ * @returns Proposal or null
+ */
+export async function getRepairProposal(id: string, workspaceId: string): Promise<RepairProposal | null> {
+  const storage = await getStorageAdapter();
+  const proposal = await storage.getRepairProposal(id);
+  return proposal && proposal.workspaceId === workspaceId ? proposal : null;
+}
+
+/**
+ * Get the repair proposals of a workspace
+ * @param workspaceId Workspace ID
+ * @param filter Optional recipe ID and status to filter by
+ * @returns Proposals, newest first
+ */
+export async function listRepairProposals(workspaceId: string, filter: RepairProposalFilter = {}): Promise<RepairProposal[]> {
+  const storage = await getStorageAdapter();
+  return storage.listRepairProposals(workspaceId, filter);
+}
+
+/**
+ * Record the review of a repair proposal
+ * @param id Proposal ID
+ * @param status New status
+ * @param reviewedBy ID of the reviewing user
+ * @returns Updated proposal, or null if it does not exist
+ */
+export async function reviewRepairProposal(id: string, status: RepairStatus, reviewedBy?: string): Promise<RepairProposal | null> {
+  const storage = await getStorageAdapter();
+  const proposal = await storage.getRepairProposal(id);
+  
+  if (!proposal) {
+    return null;
+  }
+  
+  const updated: RepairProposal = {
+    ...proposal,
+    status,
+    reviewedAt: new Date().toISOString(),
+    reviewedBy,
+  };
+  
+  await storage.saveRepairProposal(updated);
+  return updated;
+}
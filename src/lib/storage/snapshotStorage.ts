@@ -0,0 +1,164 @@
+// src/lib/storage/snapshotStorage.ts
+import crypto from 'crypto';
+import { getStorageAdapter } from './adapter';
+import { toSearchFields } from './historySearch';
+import type { ScrapingTask } from './historyStorage';
+import { normalizeUrl } from '@/lib/scraping/crawler';
+import { ContentDiff } from '@/lib/data/diff';
+
+/**
+ * Interface for a stored version of a page's scrape results
+ */
+export interface Snapshot {
+  id: string;
+  // Snapshots with the same owner, normalized URL and recipe form one timeline
+  seriesKey: string;
+  url: string;
+  recipeId?: string;
+  // User or workspace the timeline belongs to, e.g. user:42 or workspace:default
+  owner?: string;
+  // Position in the timeline, starting at 1
+  version: number;
+  contentHash: string;
+  taskId?: string;
+  body: string;
+  // Extracted records, if the scrape produced any
+  records: any;
+  createdAt: string;
+}
+
+export type SnapshotSummary = Omit<Snapshot, 'body' | 'records'>;
+
+/**
+ * Interface for the content to snapshot
+ */
+export interface SnapshotInput {
+  url: string;
+  recipeId?: string;
+  owner?: string;
+  taskId?: string;
+  body: string;
+  records?: any;
+}
+
+/**
+ * Get the timeline key of a page
+ * @param url Page URL
+ * @param recipeId Recipe that extracted it, if any
+ * @param owner Owner of the timeline
+ * @returns Normalized URL and series key
+ */
+export function getSeriesKey(url: string, recipeId?: string, owner?: string): { url: string; seriesKey: string } {
+  const normalized = normalizeUrl(url) || url;
+  return { url: normalized, seriesKey: JSON.stringify([owner || '', recipeId || '', normalized]) };
+}
+
+/**
+ * Get the content of a scraping task worth comparing between runs
+ * @param task Scraping task
+ * @returns Page text and extracted records
+ */
+export function snapshotContent(task: ScrapingTask): { body: string; records: any } {
+  const results = task.results || {};
+  const scraped = results.results || results;
+  // Structured Groq output is preferred over selector or pagination records
+  const processed = results.processed ?? scraped.processed;
+  const records = processed && typeof processed === 'object'
+    ? processed
+    : scraped.extracted ?? scraped.records ?? null;
+  
+  return { body: toSearchFields(task).body, records };
+}
+
+/**
+ * Add a snapshot to its timeline, unless the content is identical to the latest one
+ * @param input Content to snapshot
+ * @returns Latest snapshot of the timeline and whether it was just created
+ */
+export async function recordSnapshot(input: SnapshotInput): Promise<{ snapshot: Snapshot; created: boolean }> {
+  const storage = await getStorageAdapter();
+  const { url, seriesKey } = getSeriesKey(input.url, input.recipeId, input.owner);
+  const records = input.records ?? null;
+  
+  const contentHash = crypto
+    .createHash('sha256')
+    .update(ContentDiff.canonicalize({ body: input.body, records }))
+    .digest('hex');
+  
+  const [latest] = await storage.listSnapshots(seriesKey, 1);
+  if (latest && latest.contentHash === contentHash) {
+    const unchanged = await storage.getSnapshot(latest.id);
+    if (unchanged) {
+      return { snapshot: unchanged, created: false };
+    }
+  }
+  
+  const snapshot: Snapshot = {
+    id: Date.now().toString(36) + Math.random().toString(36).substring(2),
+    seriesKey,
+    url,
+    recipeId: input.recipeId,
+    owner: input.owner,
+    version: (latest?.version || 0) + 1,
+    contentHash,
+    taskId: input.taskId,
+    body: input.body,
+    records,
+    createdAt: new Date().toISOString(),
+  };
+  
+  await storage.saveSnapshot(snapshot);
+  return { snapshot, created: true };
+}
+
+/**
+ * Get a snapshot by ID
+ * @param id Snapshot ID
+ * @returns Snapshot or null
+ */
+export async function getSnapshot(id: string): Promise<Snapshot | null> {
+  const storage = await getStorageAdapter();
+  return storage.getSnapshot(id);
+}
+
+/**
+ * Get the timeline of a page
+ * @param url Page URL
+ * @param options Recipe, owner and maximum number of snapshots
+ * @returns Snapshot summaries, newest first
+ */
+export async function getSnapshotTimeline(
+  url: string,
+  options: { recipeId?: string; owner?: string; limit?: number } = {}
+): Promise<SnapshotSummary[]> {
+  const storage = await getStorageAdapter();
+  const { seriesKey } = getSeriesKey(url, options.recipeId, options.owner);
+  return storage.listSnapshots(seriesKey, options.limit || 50);
+}
+
+/**
+ * Get the snapshot just before a recent snapshot of its timeline
+ * Only the latest few versions are searched, which covers snapshots that were just recorded
+ * @param snapshot Snapshot
+ * @returns Previous snapshot, or null for the first snapshot of a page
+ */
+export async function getPreviousSnapshot(snapshot: Pick<Snapshot, 'seriesKey' | 'version'>): Promise<Snapshot | null> {
+  const storage = await getStorageAdapter();
+  const previous = (await storage.listSnapshots(snapshot.seriesKey, 10)).find(summary => summary.version === snapshot.version - 1);
+  return previous ? storage.getSnapshot(previous.id) : null;
+}
+
+/**
+ * Compare two snapshots
+ * @param before Earlier snapshot
+ * @param after Later snapshot
+ * @param key Field that identifies extracted records, detected when omitted
+ * @returns Text diff of the page body and JSON diff of the records
+ */
+export function diffSnapshots(before: Snapshot, after: Snapshot, key?: string) {
+  return {
+    unchanged: before.contentHash === after.contentHash,
+    body: ContentDiff.text(before.body, after.body),
+    records: ContentDiff.json(before.records, after.records, { key }),
+  };
+}
@@ -0,0 +1,128 @@
+// src/lib/storage/testing/sqliteD1.ts
+import { readFileSync, readdirSync } from 'fs';
+import { createRequire } from 'module';
+import path from 'path';
+import initSqlJs from 'sql.js-fts5';
+import type { Database, SqlValue } from 'sql.js';
+
+const MIGRATIONS_DIR = path.join(process.cwd(), 'migrations');
+
+// The SQLite build is loaded once per test file
+let sqlite: ReturnType<typeof initSqlJs> | null = null;
+
+/**
+ * Interface for the result of a statement, shaped like a D1 result
+ */
+interface SqliteResult {
+  results: Record<string, SqlValue>[];
+  success: true;
+  meta: { changes: number };
+}
+
+/**
+ * Convert a bound value the way D1 does
+ * @param value Bound value
+ * @returns SQLite value
+ * @throws Error for undefined, which D1 rejects
+ */
+function toSqlValue(value: unknown): SqlValue {
+  if (value === undefined) {
+    throw new Error('D1_TYPE_ERROR: Type \'undefined\' not supported for value \'undefined\'');
+  }
+  if (typeof value === 'boolean') {
+    return value ? 1 : 0;
+  }
+  return value as SqlValue;
+}
+
+/**
+ * Prepared statement with the D1 statement methods the adapters use
+ */
+class SqliteStatement {
+  constructor(private db: Database, readonly sql: string, private params: SqlValue[] = []) {}
+  
+  bind(...values: unknown[]): SqliteStatement {
+    return new SqliteStatement(this.db, this.sql, values.map(toSqlValue));
+  }
+  
+  async first<T>(): Promise<T | null> {
+    return (this.execute().results[0] as T | undefined) ?? null;
+  }
+  
+  async all<T>(): Promise<{ results: T[]; success: true; meta: { changes: number } }> {
+    return this.execute() as unknown as { results: T[]; success: true; meta: { changes: number } };
+  }
+  
+  async run(): Promise<SqliteResult> {
+    return this.execute();
+  }
+  
+  /**
+   * Run the statement synchronously
+   * @returns Rows and the number of changed rows
+   */
+  execute(): SqliteResult {
+    const statement = this.db.prepare(this.sql);
+    
+    try {
+      statement.bind(this.params);
+      const results: Record<string, SqlValue>[] = [];
+      while (statement.step()) {
+        results.push(statement.getAsObject());
+      }
+      return { results, success: true, meta: { changes: this.db.getRowsModified() } };
+    } finally {
+      statement.free();
+    }
+  }
+}
+
+/**
+ * In-process SQLite database with the parts of the D1 API the adapters use
+ * Batches run in a transaction like on D1
+ */
+class SqliteD1 {
+  constructor(private db: Database) {}
+  
+  prepare(sql: string): SqliteStatement {
+    return new SqliteStatement(this.db, sql);
+  }
+  
+  async batch(statements: SqliteStatement[]): Promise<SqliteResult[]> {
+    this.db.run('BEGIN');
+    
+    try {
+      const results = statements.map(statement => statement.execute());
+      this.db.run('COMMIT');
+      return results;
+    } catch (error) {
+      this.db.run('ROLLBACK');
+      throw error;
+    }
+  }
+  
+  async exec(sql: string): Promise<void> {
+    this.db.run(sql);
+  }
+}
+
+/**
+ * Create an empty in-memory D1 database with every migration applied
+ * @returns D1 database for D1StorageAdapter
+ */
+export async function createSqliteD1(): Promise<CloudflareEnv['DB']> {
+  if (!sqlite) {
+    // sql.js looks its WebAssembly up with fetch, which cannot read files in Node
+    const wasm = createRequire(import.meta.url).resolve('sql.js-fts5/dist/sql-wasm.wasm');
+    sqlite = initSqlJs({ wasmBinary: new Uint8Array(readFileSync(wasm)).buffer });
+  }
+  
+  const { Database } = await sqlite;
+  const db = new Database();
+  
+  for (const file of readdirSync(MIGRATIONS_DIR).filter(name => name.endsWith('.sql')).sort()) {
+    db.run(readFileSync(path.join(MIGRATIONS_DIR, file), 'utf8'));
+  }
+  
+  return new SqliteD1(db) as unknown as CloudflareEnv['DB'];
+}
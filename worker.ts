@@ -0,0 +1,45 @@
+// worker.ts
+// Cloudflare Workers entry point: the OpenNext app, plus the cron trigger that runs scheduled jobs
+
+import type { ExecutionContext, ScheduledController } from '@cloudflare/workers-types';
+// `.open-next/worker.js` is generated at build time; its types are in open-next.d.ts
+import { default as handler } from './.open-next/worker.js';
+
+/**
+ * Interface for the Worker's bindings and secrets
+ */
+interface WorkerEnv extends CloudflareEnv {
+  // Shared with /api/jobs/tick; set with `wrangler secret put SCHEDULER_SECRET`
+  SCHEDULER_SECRET?: string;
+}
+
+export default {
+  fetch: handler.fetch,
+  
+  /**
+   * Run due jobs on every cron trigger in wrangler.toml
+   * The tick is sent through the app, so jobs run with the same bindings and storage as API requests
+   * @param controller Scheduled event
+   * @param env Worker bindings
+   * @param ctx Execution context
+   */
+  async scheduled(controller: ScheduledController, env: WorkerEnv, ctx: ExecutionContext) {
+    if (!env.SCHEDULER_SECRET) {
+      console.warn('SCHEDULER_SECRET is not set, so scheduled jobs are not run');
+      return;
+    }
+    
+    const request = new Request('https://scheduler.internal/api/jobs/tick', {
+      method: 'POST',
+      headers: { Authorization: `Bearer ${env.SCHEDULER_SECRET}` },
+    });
+    
+    ctx.waitUntil(
+      handler.fetch(request, env, ctx).then(async (response: Response) => {
+        if (!response.ok) {
+          console.error(`Scheduler tick at ${new Date(controller.scheduledTime).toISOString()} failed: ${response.status} ${await response.text()}`);
+        }
+      })
+    );
+  },
+};